@@ -27,6 +27,11 @@ interface LLMSummary {
   avgLatencyMs: number;
   callsPerMinute: number;
   recentCalls: LLMCallRecord[];
+  structuredOutput?: {
+    parseFailures: number;
+    repairs: number;
+    repaired: number;
+  };
 }
 
 interface AgentStats {
@@ -55,6 +60,7 @@ interface AgentStats {
 
 interface ModelInfo {
   id: string;
+  provider?: string;
   name: string;
   cost: string;
   recommended?: boolean;
@@ -66,6 +72,7 @@ interface ServerStatus {
   runId: number | null;
   timeScale: number;
   llmEnabled: boolean;
+  llmProvider?: string;
   llmModel: string;
   availableModels: ModelInfo[];
   dbEnabled: boolean;
@@ -201,7 +208,7 @@ function LLMTab({ data }: { data: { summary: LLMSummary; agents: AgentStats[] }
   return (
     <div className="h-full flex flex-col gap-4">
       {/* Summary Cards */}
-      <div className="grid grid-cols-6 gap-3 flex-shrink-0">
+      <div className="grid grid-cols-7 gap-3 flex-shrink-0">
         <div className="bg-card border rounded-lg p-3">
           <div className="text-xs text-muted-foreground">Total Calls</div>
           <div className="text-2xl font-bold">{summary.totalCalls}</div>
@@ -222,6 +229,13 @@ function LLMTab({ data }: { data: { summary: LLMSummary; agents: AgentStats[] }
           <div className="text-xs text-muted-foreground">Calls/min</div>
           <div className="text-2xl font-bold">{summary.callsPerMinute}</div>
         </div>
+        <div className="bg-card border rounded-lg p-3">
+          <div className="text-xs text-muted-foreground">Parse Failures / Repaired</div>
+          <div className="text-2xl font-bold">
+            {summary.structuredOutput?.parseFailures ?? 0}
+            <span className="text-sm text-muted-foreground"> / {summary.structuredOutput?.repaired ?? 0}</span>
+          </div>
+        </div>
         <div className="bg-card border rounded-lg p-3">
           <div className="text-xs text-muted-foreground">Active Agents</div>
           <div className="text-2xl font-bold">{agents.length}</div>
@@ -403,13 +417,13 @@ function StatusTab({ data }: { data: ServerStatus | null }) {
     return `${h}h ${m}m ${s}s`;
   };
 
-  const handleModelChange = async (model: string) => {
+  const handleModelChange = async (model: string, provider?: string) => {
     setChangingModel(true);
     try {
       const res = await fetch(`${API_BASE}/api/admin/model`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ model }),
+        body: JSON.stringify({ model, provider }),
       });
       if (!res.ok) {
         const err = await res.json();
@@ -421,6 +435,9 @@ function StatusTab({ data }: { data: ServerStatus | null }) {
     setChangingModel(false);
   };
 
+  const isCurrentModel = (model: ModelInfo) =>
+    model.id === data.llmModel && (!model.provider || model.provider === data.llmProvider);
+
   return (
     <div className="grid grid-cols-2 gap-4">
       <div className="bg-card border rounded-lg p-4">
@@ -483,17 +500,21 @@ function StatusTab({ data }: { data: ServerStatus | null }) {
           LLM Model Selection
         </h3>
         <p className="text-xs text-muted-foreground mb-3">
-          Current model: <span className="text-foreground font-medium">{data.llmModel || 'Not set'}</span>
+          Current model:{' '}
+          <span className="text-foreground font-medium">
+            {data.llmProvider ? `${data.llmProvider}/` : ''}
+            {data.llmModel || 'Not set'}
+          </span>
           {!data.llmEnabled && <span className="text-yellow-500 ml-2">(Enable LLM in dashboard to use)</span>}
         </p>
         <div className="grid grid-cols-3 gap-3">
           {(data.availableModels || []).map((model) => (
             <button
               key={model.id}
-              onClick={() => handleModelChange(model.id)}
-              disabled={changingModel || model.id === data.llmModel}
+              onClick={() => handleModelChange(model.id, model.provider)}
+              disabled={changingModel || isCurrentModel(model)}
               className={`p-3 rounded-lg border text-left transition-colors ${
-                model.id === data.llmModel
+                isCurrentModel(model)
                   ? 'border-primary bg-primary/10'
                   : 'border-border hover:border-primary/50 hover:bg-muted/50'
               } ${changingModel ? 'opacity-50' : ''}`}
@@ -507,7 +528,7 @@ function StatusTab({ data }: { data: ServerStatus | null }) {
                 )}
               </div>
               <div className="text-xs text-muted-foreground mt-1">{model.cost}</div>
-              {model.id === data.llmModel && (
+              {isCurrentModel(model) && (
                 <div className="text-xs text-primary mt-1">Currently selected</div>
               )}
             </button>
@@ -8,7 +8,7 @@ import { useSimulation } from '@/hooks/useSimulation';
 import { GOODS } from '@/lib/types';
 import { formatNumber, formatPercent, formatPrice } from '@/lib/utils';
 
-import type { IslandSnapshot, ShipSnapshot } from '@/lib/types';
+import type { BankruptcySnapshot, IslandSnapshot, ShipSnapshot } from '@/lib/types';
 
 // Floating stats overlay - top left
 function StatsOverlay({ islands, ships }: {
@@ -43,6 +43,51 @@ function StatsOverlay({ islands, ships }: {
   );
 }
 
+const OUTCOME_LABELS: Record<BankruptcySnapshot['outcome'], string> = {
+  continuing: 'fleet continues',
+  restarted: 'restarted with a small ship',
+  eliminated: 'eliminated',
+};
+
+// Recent bankruptcies - below the stats
+function BankruptcyOverlay({
+  bankruptcies,
+  islandNames,
+}: {
+  bankruptcies: BankruptcySnapshot[];
+  islandNames: Record<string, string>;
+}) {
+  if (bankruptcies.length === 0) return null;
+
+  return (
+    <div className="absolute top-20 left-3 w-72 bg-slate-900/80 backdrop-blur-sm border border-red-900/50 rounded-lg p-3 text-sm">
+      <div className="text-xs text-red-400 uppercase tracking-wider mb-2">Bankruptcies</div>
+      <div className="space-y-1.5 max-h-40 overflow-y-auto">
+        {bankruptcies.slice(0, 5).map((b) => (
+          <div key={`${b.shipId}-${b.tick}`} className="bg-slate-800/50 rounded px-2 py-1.5">
+            <div className="flex justify-between">
+              <span className="font-medium text-slate-200 truncate">
+                {b.shipId} seized at {islandNames[b.islandId] || b.islandId}
+              </span>
+              <span className="text-xs text-slate-500 flex-shrink-0 ml-2">T{b.tick}</span>
+            </div>
+            <div className="text-xs text-slate-400">
+              Debt ${formatNumber(Math.round(b.debt))}, written off ${formatNumber(Math.round(b.writtenOff))}
+            </div>
+            <div className="text-xs text-slate-400">
+              {b.auction
+                ? `Sold to ${b.auction.winnerId} for $${formatNumber(Math.round(b.auction.price))}`
+                : 'No bidders, scrapped'}
+              {' · '}
+              {b.agentId} {OUTCOME_LABELS[b.outcome]}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Floating selection panel - right side
 function SelectionOverlay({
   island,
@@ -189,6 +234,14 @@ function ShipDetails({ ship, islandNames }: { ship: ShipSnapshot; islandNames: R
         </div>
       </div>
 
+      {/* Insolvency */}
+      {ship.credit?.insolventSinceTick !== undefined && (
+        <div className="bg-red-950/50 border border-red-900/50 rounded p-2 text-xs text-red-300">
+          Insolvent since T{ship.credit.insolventSinceTick}: debt ${formatNumber(Math.round(ship.credit.debt))} exceeds
+          the ship&apos;s assets. Creditors will seize it if it does not recover.
+        </div>
+      )}
+
       {/* Journey Progress */}
       {isAtSea && ship.location.kind === 'at_sea' && (
         <div>
@@ -331,6 +384,8 @@ function OverviewContent() {
         <ArchipelagoMap
           islands={islands}
           ships={ships}
+          seaLanes={world.seaLanes}
+          weather={world.weather}
           selectedId={selectedId}
           onSelectIsland={handleSelectIsland}
           onSelectShip={handleSelectShip}
@@ -339,6 +394,7 @@ function OverviewContent() {
 
       {/* Floating overlays */}
       <StatsOverlay islands={islands} ships={ships} />
+      <BankruptcyOverlay bankruptcies={world.bankruptcies ?? []} islandNames={islandNames} />
       <LegendOverlay />
       <SelectionOverlay
         island={selectedIsland}
@@ -93,6 +93,7 @@ export function PageLayout({ children }: PageLayoutProps) {
   const tick = world?.tick ?? 0;
   const gameDay = world?.gameTime.gameDay ?? 1;
   const gameHour = world?.gameTime.gameHour ?? 0;
+  const season = world?.gameTime.season;
   const isConnected = status !== 'disconnected' && status !== 'connecting';
   const isRunning = status === 'running';
 
@@ -115,6 +116,12 @@ export function PageLayout({ children }: PageLayoutProps) {
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2 px-3 py-1 bg-muted/50 rounded-md">
               <span className="text-sm font-mono font-medium">{formatGameTime(gameDay, gameHour)}</span>
+              {season && (
+                <span className="text-xs capitalize text-muted-foreground">
+                  {season}
+                  {world?.gameTime.dayOfYear !== undefined && `, day ${world.gameTime.dayOfYear + 1}`}
+                </span>
+              )}
               <span className="text-xs text-muted-foreground">T{tick}</span>
             </div>
           </div>
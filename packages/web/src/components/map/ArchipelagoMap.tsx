@@ -1,15 +1,19 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import type { IslandSnapshot, ShipSnapshot, Vector2 } from '@/lib/types';
+import type { IslandSnapshot, SeaLanesSnapshot, ShipSnapshot, Vector2, WeatherSnapshot } from '@/lib/types';
 import { IslandNode } from './IslandNode';
 import { ShipMarker } from './ShipMarker';
 import { TradeRoute } from './TradeRoute';
+import { SeaLanes } from './SeaLanes';
+import { StormCells } from './StormCells';
 import { MapTooltip } from './MapTooltip';
 
 interface ArchipelagoMapProps {
   islands: IslandSnapshot[];
   ships: ShipSnapshot[];
+  seaLanes?: SeaLanesSnapshot;
+  weather?: WeatherSnapshot;
   selectedId: string | null;
   onSelectIsland: (id: string) => void;
   onSelectShip: (id: string) => void;
@@ -28,8 +32,13 @@ function getShipPosition(ship: ShipSnapshot, islands: IslandSnapshot[]): Vector2
     return { x: 0, y: 0 };
   }
 
-  // At sea - interpolate along route
+  // Following sea lanes - the server places the ship along its path
   const route = location.route;
+  if (route.path) {
+    return location.position;
+  }
+
+  // At sea - interpolate along route
   const from = islands.find((i) => i.id === route.fromIslandId);
   const to = islands.find((i) => i.id === route.toIslandId);
 
@@ -49,21 +58,25 @@ function getShipPosition(ship: ShipSnapshot, islands: IslandSnapshot[]): Vector2
 function getActiveRoutes(
   ships: ShipSnapshot[],
   islands: IslandSnapshot[]
-): Array<{ from: Vector2; to: Vector2; shipId: string }> {
-  const routes: Array<{ from: Vector2; to: Vector2; shipId: string }> = [];
+): Array<{ points: Vector2[]; shipId: string }> {
+  const routes: Array<{ points: Vector2[]; shipId: string }> = [];
 
   for (const ship of ships) {
     const location = ship.location;
     if (location.kind !== 'at_sea') continue;
 
     const route = location.route;
+    if (route.path && route.path.points.length > 1) {
+      routes.push({ points: route.path.points, shipId: ship.id });
+      continue;
+    }
+
     const from = islands.find((i) => i.id === route.fromIslandId);
     const to = islands.find((i) => i.id === route.toIslandId);
 
     if (from && to) {
       routes.push({
-        from: from.position,
-        to: to.position,
+        points: [from.position, to.position],
         shipId: ship.id,
       });
     }
@@ -75,6 +88,8 @@ function getActiveRoutes(
 export function ArchipelagoMap({
   islands,
   ships,
+  seaLanes,
+  weather,
   selectedId,
   onSelectIsland,
   onSelectShip,
@@ -255,9 +270,15 @@ export function ArchipelagoMap({
           <text x="25" y="12" textAnchor="middle" fill="#64748b" fontSize="7">~50 leagues</text>
         </g>
 
-        {/* Trade Routes (drawn first, behind everything) */}
+        {/* Sea lanes and hazards (drawn first, behind everything) */}
+        {seaLanes && <SeaLanes seaLanes={seaLanes} />}
+
+        {/* Storm cells and the ports they close */}
+        {weather && <StormCells weather={weather} islands={islands} />}
+
+        {/* Trade Routes */}
         {activeRoutes.map((route) => (
-          <TradeRoute key={route.shipId} from={route.from} to={route.to} />
+          <TradeRoute key={route.shipId} points={route.points} />
         ))}
 
         {/* Islands */}
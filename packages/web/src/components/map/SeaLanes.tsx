@@ -0,0 +1,76 @@
+'use client';
+
+import type { SeaLanesSnapshot } from '@/lib/types';
+
+interface SeaLanesProps {
+  seaLanes: SeaLanesSnapshot;
+}
+
+// Calm lanes are blue, dangerous ones shade towards red
+function getDangerColor(danger: number): string {
+  if (danger >= 0.5) return '#ef4444';
+  if (danger >= 0.2) return '#eab308';
+  return '#38bdf8';
+}
+
+export function SeaLanes({ seaLanes }: SeaLanesProps) {
+  return (
+    <g>
+      {/* Reefs and impassable zones */}
+      {seaLanes.obstacles.map((obstacle) =>
+        obstacle.kind === 'reef' ? (
+          <g key={obstacle.id} opacity={0.6}>
+            <circle
+              cx={obstacle.center.x}
+              cy={obstacle.center.y}
+              r={obstacle.radius}
+              fill="#f59e0b"
+              fillOpacity={0.15}
+              stroke="#f59e0b"
+              strokeWidth="1"
+              strokeDasharray="2 2"
+            />
+            <text
+              x={obstacle.center.x}
+              y={obstacle.center.y + 3}
+              textAnchor="middle"
+              fill="#fbbf24"
+              fontSize="7"
+            >
+              reef
+            </text>
+          </g>
+        ) : (
+          <circle
+            key={obstacle.id}
+            cx={obstacle.center.x}
+            cy={obstacle.center.y}
+            r={obstacle.radius}
+            fill="#7f1d1d"
+            fillOpacity={0.35}
+            stroke="#b91c1c"
+            strokeWidth="1"
+            opacity={0.7}
+          />
+        )
+      )}
+
+      {/* Open lanes */}
+      {seaLanes.lanes
+        .filter((lane) => !lane.closed)
+        .map((lane) => (
+          <line
+            key={lane.id}
+            x1={lane.from.x}
+            y1={lane.from.y}
+            x2={lane.to.x}
+            y2={lane.to.y}
+            stroke={getDangerColor(lane.danger)}
+            strokeWidth="1"
+            strokeDasharray="3 5"
+            opacity={0.35}
+          />
+        ))}
+    </g>
+  );
+}
@@ -18,6 +18,22 @@ function getShipRotation(ship: ShipSnapshot, islands?: IslandSnapshot[]): number
   if (location.kind !== 'at_sea' || !islands) return 0;
 
   const route = location.route;
+
+  // On a sea-lane path, face along the leg currently being sailed
+  const points = route.path?.points;
+  if (points && points.length > 1) {
+    let remaining = route.progress * (route.path?.length ?? 0);
+    for (let i = 1; i < points.length; i++) {
+      const dx = points[i].x - points[i - 1].x;
+      const dy = points[i].y - points[i - 1].y;
+      const legLength = Math.sqrt(dx * dx + dy * dy);
+      if (remaining <= legLength || i === points.length - 1) {
+        return (Math.atan2(dy, dx) * 180) / Math.PI + 90;
+      }
+      remaining -= legLength;
+    }
+  }
+
   const from = islands.find((i) => i.id === route.fromIslandId);
   const to = islands.find((i) => i.id === route.toIslandId);
 
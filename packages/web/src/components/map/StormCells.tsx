@@ -0,0 +1,67 @@
+'use client';
+
+import type { IslandSnapshot, WeatherSnapshot } from '@/lib/types';
+
+interface StormCellsProps {
+  weather: WeatherSnapshot;
+  islands: IslandSnapshot[];
+}
+
+// Hours of drift shown by each storm's heading arrow
+const HEADING_HOURS = 6;
+
+export function StormCells({ weather, islands }: StormCellsProps) {
+  const closedIslands = islands.filter((island) => weather.closedPorts.includes(island.id));
+
+  return (
+    <g>
+      {weather.storms.map((storm) => (
+        <g key={storm.id} opacity={0.7}>
+          <circle
+            cx={storm.position.x}
+            cy={storm.position.y}
+            r={storm.radius}
+            fill="#475569"
+            fillOpacity={0.35}
+            stroke="#94a3b8"
+            strokeWidth="1"
+            strokeDasharray="4 3"
+          />
+          {/* Heading */}
+          <line
+            x1={storm.position.x}
+            y1={storm.position.y}
+            x2={storm.position.x + storm.velocity.x * HEADING_HOURS}
+            y2={storm.position.y + storm.velocity.y * HEADING_HOURS}
+            stroke="#cbd5e1"
+            strokeWidth="1.5"
+          />
+          <text
+            x={storm.position.x}
+            y={storm.position.y - storm.radius - 3}
+            textAnchor="middle"
+            fill="#cbd5e1"
+            fontSize="7"
+          >
+            storm ({storm.remainingHours}h)
+          </text>
+        </g>
+      ))}
+
+      {/* Closed ports */}
+      {closedIslands.map((island) => (
+        <circle
+          key={island.id}
+          cx={island.position.x}
+          cy={island.position.y}
+          r={30}
+          fill="none"
+          stroke="#ef4444"
+          strokeWidth="1.5"
+          strokeDasharray="2 2"
+          opacity={0.8}
+        />
+      ))}
+    </g>
+  );
+}
@@ -3,11 +3,18 @@
 import type { Vector2 } from '@/lib/types';
 
 interface TradeRouteProps {
-  from: Vector2;
-  to: Vector2;
+  // Origin, any sea-lane waypoints, destination
+  points: Vector2[];
 }
 
-export function TradeRoute({ from, to }: TradeRouteProps) {
+// Straight voyages get a gentle curve; sea-lane paths follow their legs
+function getPathD(points: Vector2[]): string {
+  if (points.length !== 2) {
+    return points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+  }
+
+  const [from, to] = points;
+
   // Calculate midpoint for curved path
   const midX = (from.x + to.x) / 2;
   const midY = (from.y + to.y) / 2;
@@ -22,7 +29,11 @@ export function TradeRoute({ from, to }: TradeRouteProps) {
   const controlX = midX + offsetX;
   const controlY = midY + offsetY;
 
-  const pathD = `M${from.x},${from.y} Q${controlX},${controlY} ${to.x},${to.y}`;
+  return `M${from.x},${from.y} Q${controlX},${controlY} ${to.x},${to.y}`;
+}
+
+export function TradeRoute({ points }: TradeRouteProps) {
+  const pathD = getPathD(points);
 
   return (
     <g>
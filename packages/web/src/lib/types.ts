@@ -8,10 +8,15 @@ export interface Vector2 {
   y: number;
 }
 
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
 export interface GameTime {
   tick: number;
   gameHour: number;
   gameDay: number;
+  dayOfYear?: number;
+  season?: Season;
+  year?: number;
 }
 
 export interface EcosystemSnapshot {
@@ -57,6 +62,15 @@ export interface BuildingSnapshot {
   condition: number;
 }
 
+export interface ConstructionOrderSnapshot {
+  id: string;
+  buildingType: 'warehouse' | 'market' | 'port' | 'workshop';
+  ownerId: string;
+  targetLevel: number;
+  progress: number;
+  completionTick: number;
+}
+
 export interface TreasurySnapshot {
   balance: number;
   income: number;      // Income this tick
@@ -65,6 +79,14 @@ export interface TreasurySnapshot {
   cumulativeImportCosts: number;
 }
 
+export interface PolicySnapshot {
+  governorId: string | null;
+  harvestQuotas: Record<string, number>;
+  exportTariff: number;
+  importTariff: number;
+  reserves: Record<string, number>;
+}
+
 export interface IslandSnapshot {
   id: string;
   name: string;
@@ -74,8 +96,11 @@ export interface IslandSnapshot {
   inventory: Record<string, number>;
   market: MarketSnapshot;
   buildings?: BuildingSnapshot[];
+  constructionOrders?: ConstructionOrderSnapshot[];
   // Economic Model V2: Island Treasury
   treasury?: TreasurySnapshot;
+  // Island Governance
+  policy?: PolicySnapshot | null;
 }
 
 export interface RouteSnapshot {
@@ -83,6 +108,48 @@ export interface RouteSnapshot {
   toIslandId: string;
   etaHours: number;
   progress: number;
+  path?: RoutePathSnapshot;
+}
+
+// Sea-lane path a ship is sailing
+export interface RoutePathSnapshot {
+  preference: 'shortest' | 'safest';
+  points: Vector2[]; // Origin, waypoints, destination
+  length: number;
+}
+
+export interface SeaLaneSnapshot {
+  id: string;
+  from: Vector2;
+  to: Vector2;
+  danger: number;
+  windFactor: number;
+  closed: boolean; // Crosses an impassable zone
+}
+
+export interface SeaObstacleSnapshot {
+  id: string;
+  kind: 'reef' | 'impassable';
+  center: Vector2;
+  radius: number;
+}
+
+export interface SeaLanesSnapshot {
+  lanes: SeaLaneSnapshot[];
+  obstacles: SeaObstacleSnapshot[];
+}
+
+export interface StormSnapshot {
+  id: string;
+  position: Vector2;
+  radius: number;
+  velocity: Vector2;
+  remainingHours: number;
+}
+
+export interface WeatherSnapshot {
+  storms: StormSnapshot[];
+  closedPorts: string[];
 }
 
 export interface CrewSnapshot {
@@ -118,6 +185,25 @@ export interface CreditSnapshot {
   cumulativeInterestPaid: number; // Total interest paid over ship lifetime
   availableCredit: number; // creditLimit - debt (how much more can borrow)
   debtRatio: number; // debt / shipValue (0-1)
+  insolventSinceTick?: number; // Set while debt exceeds assets; seized after the grace period
+}
+
+/**
+ * Ship seized by creditors (Economic Model V2)
+ */
+export interface BankruptcySnapshot {
+  tick: number;
+  agentId: string;
+  shipId: string;
+  islandId: string; // Port where the ship was seized
+  debt: number;
+  liquidationProceeds: number;
+  recovered: number;
+  writtenOff: number;
+  surplus: number; // Returned to the owner
+  auction: { winnerId: string; price: number } | null; // null = scrapped
+  outcome: 'continuing' | 'eliminated' | 'restarted';
+  restartShipId?: string;
 }
 
 /**
@@ -188,6 +274,16 @@ export interface AgentDecision {
   reasoning?: string;
 }
 
+export interface FactionSnapshot {
+  id: string;
+  name: string;
+  memberIds: string[];
+  treasury: number;
+  fleetSize: number;
+  netWorth: number;
+  rank: number;
+}
+
 export interface WorldSnapshot {
   tick: number;
   gameTime: GameTime;
@@ -195,6 +291,10 @@ export interface WorldSnapshot {
   ships: ShipSnapshot[];
   events: EventSnapshot[];
   economyMetrics?: EconomyMetricsSnapshot;
+  factions?: FactionSnapshot[];
+  seaLanes?: SeaLanesSnapshot;
+  weather?: WeatherSnapshot;
+  bankruptcies?: BankruptcySnapshot[]; // Most recent first
 }
 
 export interface PriceHistoryPoint {
@@ -3,14 +3,38 @@
  * Handles agent lifecycle, registration, and tick integration
  */
 
-import type { WorldState, AgentId } from '../../core/types.js';
-import type { IAgent, Decision } from '../interfaces/agent.js';
-import type { Action, ActionResult } from '../interfaces/action.js';
+import type {
+  WorldState,
+  AgentId,
+  ShipId,
+  ShipState,
+  IslandId,
+  SimulationConfig,
+  BuildingType,
+} from '../../core/types.js';
+import type { IAgent, Decision, AgentSnapshot } from '../interfaces/agent.js';
+import type {
+  Action,
+  ActionResult,
+  TradeExecutionDetails,
+  SetQuotaAction,
+  SetTariffAction,
+  SetReserveAction,
+  FundBuildingAction,
+} from '../interfaces/action.js';
 import { ActionValidator } from '../interfaces/action.js';
 import { ObservableBuilder } from '../interfaces/observable.js';
 import { TriggerSystem, type Trigger, type TriggerConfig } from './trigger-system.js';
-import { startVoyage } from '../../systems/shipping.js';
-import { executeTrade } from '../../systems/market.js';
+import { startVoyage, repairShip } from '../../systems/shipping.js';
+import { executeTradeWithPriceImpact } from '../../systems/market.js';
+import { initializeMarketDepth } from '../../systems/market-depth.js';
+import { canBuildBuilding, startBuildingConstruction } from '../../systems/buildings.js';
+import { startBuildOrder, cancelBuildOrder } from '../../systems/shipyard.js';
+import { hireCrew } from '../../systems/crew.js';
+import { borrowFunds, repayDebt, getAvailableCredit } from '../../systems/credit.js';
+import { borrowFromMarket, repayLoans, getLendingBook, type LendingBook } from '../../systems/lending.js';
+import { findAgentFaction, transferFactionFunds } from '../../systems/factions.js';
+import { DEFAULT_CONFIG } from '../../core/world.js';
 
 /**
  * Agent execution result for a single tick
@@ -22,6 +46,8 @@ export interface AgentTickResult {
   decision: Decision | null;
   actions: Action[];
   results: ActionResult[];
+  /** Reasoning missed its deadline; the agent continued its current plan */
+  timedOut?: boolean;
   error?: string;
 }
 
@@ -35,14 +61,65 @@ export interface AgentManagerConfig {
   triggerConfig: Partial<TriggerConfig>;
   /** Transaction tax rate (0.04 = 4%, currency sink) */
   transactionTaxRate: number;
+  /** Simulation config used for validating and applying building actions */
+  simulationConfig: SimulationConfig;
+  /** Agents allowed to reason at the same time (0 = no limit) */
+  maxConcurrentReasoning: number;
+  /**
+   * Milliseconds an agent may spend reasoning (including waiting for a slot)
+   * before it continues its current plan instead (0 = wait for every agent)
+   */
+  reasoningTimeoutMs: number;
 }
 
 const DEFAULT_MANAGER_CONFIG: AgentManagerConfig = {
   debug: false,
   triggerConfig: {},
   transactionTaxRate: 0.04, // 4% default transaction tax
+  simulationConfig: DEFAULT_CONFIG,
+  maxConcurrentReasoning: 4,
+  reasoningTimeoutMs: 0, // Deterministic by default: always wait
 };
 
+/**
+ * An agent's decision for a tick, before validation
+ */
+interface PendingDecision {
+  agent: IAgent;
+  triggered: boolean;
+  triggers: Trigger[];
+  decision: Decision;
+  timedOut: boolean;
+}
+
+/**
+ * Limits how many agents reason at once; waiters are served in arrival order
+ */
+class ReasoningSlots {
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.limit <= 0 || this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing holder hands its slot straight to us
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
 /**
  * Agent Manager
  * Coordinates agent execution within simulation ticks
@@ -53,11 +130,15 @@ export class AgentManager {
   private observableBuilder: ObservableBuilder;
   private triggerSystems: Map<AgentId, TriggerSystem> = new Map();
   private config: AgentManagerConfig;
+  private reasoningSlots: ReasoningSlots;
+  /** Agents whose reasoning outlived its deadline and is still running */
+  private lateReasoning: Set<AgentId> = new Set();
 
   constructor(config: Partial<AgentManagerConfig> = {}) {
     this.config = { ...DEFAULT_MANAGER_CONFIG, ...config };
-    this.actionValidator = new ActionValidator();
+    this.actionValidator = new ActionValidator(this.config.simulationConfig);
     this.observableBuilder = new ObservableBuilder();
+    this.reasoningSlots = new ReasoningSlots(this.config.maxConcurrentReasoning);
   }
 
   /**
@@ -100,8 +181,41 @@ export class AgentManager {
     return Array.from(this.agents.values());
   }
 
+  /**
+   * Change how long agents may reason before continuing their current plan
+   */
+  setReasoningTimeout(timeoutMs: number): void {
+    this.config.reasoningTimeoutMs = timeoutMs;
+  }
+
+  /**
+   * Capture the internal state of every registered agent
+   */
+  snapshotAgents(): AgentSnapshot[] {
+    return this.getAllAgents().map((agent) => agent.snapshot());
+  }
+
+  /**
+   * Restore registered agents from snapshots
+   * Agents must already be registered; snapshots for unknown agents are ignored
+   * @returns IDs of agents that were restored
+   */
+  restoreAgents(snapshots: AgentSnapshot[]): AgentId[] {
+    const restored: AgentId[] = [];
+    for (const snapshot of snapshots) {
+      const agent = this.agents.get(snapshot.id);
+      if (!agent) continue;
+      agent.restore(snapshot);
+      restored.push(snapshot.id);
+    }
+    return restored;
+  }
+
   /**
    * Process all agents for a tick
+   * Agents observe the same world and reason concurrently; their actions are
+   * then validated and applied one agent at a time in agent ID order, so the
+   * outcome does not depend on which agent finishes reasoning first.
    * Returns updated world state and agent results
    */
   async processTick(world: WorldState): Promise<{
@@ -109,38 +223,77 @@ export class AgentManager {
     results: AgentTickResult[];
   }> {
     const results: AgentTickResult[] = [];
-    let currentWorld = world;
+
+    // Hand newly launched ships to their owners before they observe the world
+    this.syncFleets(world);
+
+    // Eliminated agents (bankrupt with no fleet left) sit out the rest of the run
+    const agents = this.getAllAgents()
+      .filter((agent) => world.agents.get(agent.id)?.status !== 'eliminated')
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    // Agents manage leverage on their ships through borrow/repay actions
+    let currentWorld = this.claimCreditControl(world, agents);
 
     // Notify agents of tick start
-    for (const agent of this.agents.values()) {
+    for (const agent of agents) {
       agent.onTickStart(world.tick);
     }
 
-    // Process each agent
-    for (const agent of this.agents.values()) {
+    // Decide concurrently
+    const decisions = await Promise.all(
+      agents.map((agent) =>
+        this.decide(agent, world).catch((error: unknown) =>
+          error instanceof Error ? error : new Error('Unknown error')
+        )
+      )
+    );
+
+    // Validate and apply in agent ID order
+    for (let i = 0; i < agents.length; i++) {
+      const agent = agents[i];
+      const pending = decisions[i];
+
+      if (pending instanceof Error) {
+        results.push({
+          agentId: agent.id,
+          triggered: false,
+          triggers: [],
+          decision: null,
+          actions: [],
+          results: [],
+          error: pending.message,
+        });
+        continue;
+      }
+
       try {
-        const result = await this.processAgent(agent, currentWorld);
+        const result = this.validateDecision(pending, currentWorld);
         results.push(result);
 
         // Apply successful actions to world
         if (result.results.some((r) => r.success)) {
           currentWorld = this.applyActions(currentWorld, result.results);
         }
+
+        // Notify agent of results (after execution so trade details are filled in)
+        agent.onActionResults(result.results);
       } catch (error) {
         results.push({
           agentId: agent.id,
-          triggered: false,
-          triggers: [],
-          decision: null,
+          triggered: pending.triggered,
+          triggers: pending.triggers,
+          decision: pending.decision,
           actions: [],
           results: [],
+          timedOut: pending.timedOut,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
     }
 
     // Notify agents of tick end
-    for (const agent of this.agents.values()) {
+    for (const agent of agents) {
       agent.onTickEnd(currentWorld.tick);
     }
 
@@ -148,12 +301,61 @@ export class AgentManager {
   }
 
   /**
-   * Process a single agent for a tick
+   * Notify agents of ships they own but do not yet track
+   * (completed shipyard orders are created by the simulation, not by actions)
+   * and of tracked ships they no longer own (seized in bankruptcy)
+   */
+  private syncFleets(world: WorldState): void {
+    for (const record of world.bankruptcies ?? []) {
+      const agent = this.agents.get(record.agentId);
+      if (
+        agent &&
+        agent.getState().assets.shipIds.includes(record.shipId) &&
+        world.ships.get(record.shipId)?.ownerId !== agent.id
+      ) {
+        agent.onShipLost(record.shipId, world.tick);
+
+        if (this.config.debug) {
+          console.log(`[AgentManager] ${agent.id} lost ship ${record.shipId}`);
+        }
+      }
+    }
+
+    for (const ship of world.ships.values()) {
+      const agent = this.agents.get(ship.ownerId);
+      if (agent && !agent.getState().assets.shipIds.includes(ship.id)) {
+        agent.onShipAcquired(ship.id, world.tick);
+
+        if (this.config.debug) {
+          console.log(`[AgentManager] ${agent.id} acquired ship ${ship.id}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Switch the automatic credit rules off for ships the agents control
+   */
+  private claimCreditControl(world: WorldState, agents: IAgent[]): WorldState {
+    const unclaimed = agents
+      .flatMap((agent) => agent.getState().assets.shipIds)
+      .map((shipId) => world.ships.get(shipId))
+      .filter((ship): ship is ShipState => ship !== undefined && !ship.manualCredit);
+    if (unclaimed.length === 0) return world;
+
+    const ships = new Map(world.ships);
+    for (const ship of unclaimed) {
+      ships.set(ship.id, { ...ship, manualCredit: true });
+    }
+    return { ...world, ships };
+  }
+
+  /**
+   * Observe the world and get an agent's decision for a tick
+   * Reasoning that misses its deadline keeps running in the background (its
+   * late decision is discarded); meanwhile the agent continues its current plan
    */
-  private async processAgent(
-    agent: IAgent,
-    world: WorldState
-  ): Promise<AgentTickResult> {
+  private async decide(agent: IAgent, world: WorldState): Promise<PendingDecision> {
     const triggerSystem = this.triggerSystems.get(agent.id)!;
     const memory = agent.getMemory();
 
@@ -177,15 +379,73 @@ export class AgentManager {
       );
     }
 
+    // Still busy with an earlier tick's reasoning
+    if (this.lateReasoning.has(agent.id)) {
+      return {
+        agent,
+        triggered: shouldTrigger,
+        triggers,
+        decision: agent.continuePlan(observation),
+        timedOut: true,
+      };
+    }
+
     // Get decision (may invoke LLM for some agents)
-    let decision: Decision;
-    if (shouldTrigger || agent.shouldReason(observation, triggers)) {
-      decision = await agent.reason(observation, triggers);
-    } else {
-      // Continue with current plan without deep reasoning
-      decision = await agent.reason(observation, []);
+    const reasonTriggers = shouldTrigger || agent.shouldReason(observation, triggers) ? triggers : [];
+    let cancelled = false;
+    const reasoning = (async () => {
+      await this.reasoningSlots.acquire();
+      try {
+        return cancelled ? null : await agent.reason(observation, reasonTriggers);
+      } finally {
+        this.reasoningSlots.release();
+      }
+    })();
+
+    const timeoutMs = this.config.reasoningTimeoutMs;
+    if (timeoutMs <= 0) {
+      return { agent, triggered: shouldTrigger, triggers, decision: (await reasoning)!, timedOut: false };
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+    const outcome = await Promise.race([reasoning, deadline]).finally(() => clearTimeout(timer));
+
+    if (outcome !== 'timeout') {
+      return { agent, triggered: shouldTrigger, triggers, decision: outcome!, timedOut: false };
+    }
+
+    cancelled = true;
+    this.lateReasoning.add(agent.id);
+    reasoning
+      .catch((error: unknown) => {
+        if (this.config.debug) {
+          console.warn(`[AgentManager] ${agent.id} late reasoning failed:`, error);
+        }
+      })
+      .finally(() => this.lateReasoning.delete(agent.id));
+
+    if (this.config.debug) {
+      console.log(`[AgentManager] ${agent.id} reasoning exceeded ${timeoutMs}ms; continuing current plan`);
     }
 
+    return {
+      agent,
+      triggered: shouldTrigger,
+      triggers,
+      decision: agent.continuePlan(observation),
+      timedOut: true,
+    };
+  }
+
+  /**
+   * Convert a decision to actions and validate them against the current world
+   */
+  private validateDecision(pending: PendingDecision, world: WorldState): AgentTickResult {
+    const { agent, decision } = pending;
+
     // Convert decision to actions
     const actions = agent.act(decision);
 
@@ -209,41 +469,121 @@ export class AgentManager {
       }
     }
 
-    // Notify agent of results
-    agent.onActionResults(results);
-
     return {
       agentId: agent.id,
-      triggered: shouldTrigger,
-      triggers,
+      triggered: pending.triggered,
+      triggers: pending.triggers,
       decision,
       actions,
       results,
+      timedOut: pending.timedOut || undefined,
     };
   }
 
   /**
    * Apply successful actions to world state
+   * Trade results get their execution details (fills, slippage) filled in
    */
   private applyActions(world: WorldState, results: ActionResult[]): WorldState {
     // Clone world for immutability
     const newWorld = this.cloneWorld(world);
 
-    for (const result of results) {
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
       if (!result.success) continue;
 
       const action = result.action;
 
       switch (action.type) {
-        case 'trade':
-          this.applyTradeAction(newWorld, action);
+        case 'trade': {
+          const execution = this.applyTradeAction(newWorld, action);
+          if (execution) {
+            results[i] = { ...result, details: { ...result.details, ...execution } };
+          }
           break;
+        }
         case 'navigate':
           this.applyNavigateAction(newWorld, action);
           break;
         case 'wait':
           // No-op for wait
           break;
+        case 'build_building': {
+          const error = this.applyConstructionAction(newWorld, action.shipId, action.islandId, action.buildingType);
+          if (error) {
+            results[i] = { ...result, success: false, error };
+          }
+          break;
+        }
+        case 'upgrade_building': {
+          const building = newWorld.islands.get(action.islandId)?.buildings?.get(action.buildingId);
+          const error = building
+            ? this.applyConstructionAction(newWorld, action.shipId, action.islandId, building.type)
+            : `Building ${action.buildingId} does not exist on ${action.islandId}`;
+          if (error) {
+            results[i] = { ...result, success: false, error };
+          }
+          break;
+        }
+        case 'order_ship':
+          this.applyOrderShipAction(newWorld, action);
+          break;
+        case 'cancel_ship_order':
+          this.applyCancelShipOrderAction(newWorld, action);
+          break;
+        case 'repair':
+          this.applyRepairAction(newWorld, action);
+          break;
+        case 'hire_crew':
+          this.applyHireCrewAction(newWorld, action);
+          break;
+        case 'borrow': {
+          const ship = newWorld.ships.get(action.shipId);
+          if (ship && this.config.simulationConfig.lendingConfig?.enabled) {
+            const { creditConfig, lendingConfig } = this.config.simulationConfig;
+            const amount = Math.min(action.amount, getAvailableCredit(ship, creditConfig));
+            const { book } = borrowFromMarket(getLendingBook(newWorld), action.shipId, amount, newWorld.tick, lendingConfig);
+            this.applyLendingBook(newWorld, book);
+          } else if (ship) {
+            newWorld.ships.set(
+              action.shipId,
+              borrowFunds(ship, action.amount, this.config.simulationConfig.creditConfig)
+            );
+          }
+          break;
+        }
+        case 'repay': {
+          const ship = newWorld.ships.get(action.shipId);
+          if (ship && this.config.simulationConfig.lendingConfig?.enabled) {
+            const { book } = repayLoans(getLendingBook(newWorld), action.shipId, action.amount);
+            this.applyLendingBook(newWorld, book);
+          } else if (ship) {
+            newWorld.ships.set(action.shipId, repayDebt(ship, action.amount));
+          }
+          break;
+        }
+        case 'transfer_funds': {
+          const ship = newWorld.ships.get(action.shipId);
+          const faction = ship ? findAgentFaction(newWorld, ship.ownerId) : undefined;
+          if (ship && faction) {
+            const { newShip, newFaction } = transferFactionFunds(ship, faction, action.amount);
+            newWorld.ships.set(action.shipId, newShip);
+            newWorld.factions.set(faction.id, newFaction);
+          }
+          break;
+        }
+        case 'set_quota':
+        case 'set_tariff':
+        case 'set_reserve':
+          this.applyPolicyAction(newWorld, action);
+          break;
+        case 'fund_building': {
+          const error = this.applyFundBuildingAction(newWorld, action);
+          if (error) {
+            results[i] = { ...result, success: false, error };
+          }
+          break;
+        }
       }
     }
 
@@ -253,31 +593,48 @@ export class AgentManager {
   private applyTradeAction(
     world: WorldState,
     action: import('../interfaces/action.js').TradeAction
-  ): void {
+  ): TradeExecutionDetails | null {
     const ship = world.ships.get(action.shipId);
     const island = world.islands.get(action.islandId);
 
-    if (!ship || !island) return;
+    if (!ship || !island) return null;
 
+    // Economic Model V2: Trades move through market depth (older states may lack it)
+    const depthConfig = this.config.simulationConfig.marketDepthConfig;
+    const market =
+      island.market.buyDepth && island.market.sellDepth
+        ? island.market
+        : { ...island.market, ...initializeMarketDepth(island.market.idealStock, depthConfig) };
+
+    const policy = island.policy;
     const {
       newIslandInventory,
       newShipCargo,
       newShipCash,
       taxCollected,
+      tariffCollected,
       islandExportRevenue,
       islandImportCost,
-    } = executeTrade(
+      newMarket,
+      priceImpacts,
+      totalSlippage,
+    } = executeTradeWithPriceImpact(
       island.inventory,
       ship.cargo,
       ship.cash,
       action.transactions,
-      island.market.prices,
+      market,
+      depthConfig,
       {
         taxRate: this.config.transactionTaxRate,
         // Economic Model V2: Enable purchasing power limits if island has treasury
         islandTreasury: island.treasury ?? Infinity,
         enforcePurchasingPower: island.treasury !== undefined,
         maxSpendRatio: 0.1, // Islands can spend up to 10% of treasury per transaction
+        // Governor policy: tariffs go to the treasury, reserves are held back from ships
+        exportTariff: policy?.exportTariff,
+        importTariff: policy?.importTariff,
+        reserves: policy?.reserves,
       }
     );
 
@@ -285,13 +642,14 @@ export class AgentManager {
     const updatedShip = { ...ship, cargo: newShipCargo, cash: newShipCash };
     world.ships.set(action.shipId, updatedShip);
 
-    // Economic Model V2: Update island with treasury changes
+    // Economic Model V2: Update island with treasury changes and consumed depth
     const updatedIsland = {
       ...island,
       inventory: newIslandInventory,
-      // Treasury changes: receives export revenue, pays import costs
-      treasury: (island.treasury ?? 0) + islandExportRevenue - islandImportCost,
-      treasuryIncome: (island.treasuryIncome ?? 0) + islandExportRevenue,
+      market: newMarket,
+      // Treasury changes: receives export revenue and tariffs, pays import costs
+      treasury: (island.treasury ?? 0) + islandExportRevenue - islandImportCost + tariffCollected,
+      treasuryIncome: (island.treasuryIncome ?? 0) + islandExportRevenue + tariffCollected,
       treasuryExpenses: (island.treasuryExpenses ?? 0) + islandImportCost,
       cumulativeExportRevenue: (island.cumulativeExportRevenue ?? 0) + islandExportRevenue,
       cumulativeImportCosts: (island.cumulativeImportCosts ?? 0) + islandImportCost,
@@ -303,6 +661,80 @@ export class AgentManager {
       world.economyMetrics.taxCollectedThisTick += taxCollected;
       world.economyMetrics.totalTaxCollected += taxCollected;
     }
+
+    return { fills: priceImpacts, totalSlippage, taxCollected, tariffPaid: tariffCollected };
+  }
+
+  /**
+   * Update an island's policy (quota, tariff or reserve)
+   */
+  private applyPolicyAction(
+    world: WorldState,
+    action: SetQuotaAction | SetTariffAction | SetReserveAction
+  ): void {
+    const island = world.islands.get(action.islandId);
+    if (!island) return;
+
+    const policy = island.policy;
+    const harvestQuotas = new Map(policy.harvestQuotas);
+    const reserves = new Map(policy.reserves);
+    let { exportTariff, importTariff } = policy;
+
+    switch (action.type) {
+      case 'set_quota':
+        if (action.quota === null) {
+          harvestQuotas.delete(action.goodId);
+        } else {
+          harvestQuotas.set(action.goodId, action.quota);
+        }
+        break;
+      case 'set_tariff':
+        if (action.direction === 'export') {
+          exportTariff = action.rate;
+        } else {
+          importTariff = action.rate;
+        }
+        break;
+      case 'set_reserve':
+        if (action.quantity > 0) {
+          reserves.set(action.goodId, action.quantity);
+        } else {
+          reserves.delete(action.goodId);
+        }
+        break;
+    }
+
+    world.islands.set(action.islandId, {
+      ...island,
+      policy: { ...policy, harvestQuotas, reserves, exportTariff, importTariff },
+    });
+  }
+
+  /**
+   * Queue a construction order paid for by the island treasury
+   *
+   * @returns Why construction could not start, or null once it has
+   */
+  private applyFundBuildingAction(world: WorldState, action: FundBuildingAction): string | null {
+    const island = world.islands.get(action.islandId);
+    if (!island) return `Island ${action.islandId} no longer exists`;
+
+    const result = startBuildingConstruction(
+      island,
+      action.buildingType,
+      this.config.simulationConfig,
+      world.tick,
+      island.policy.governorId ?? island.id,
+      island.treasury,
+      true
+    );
+    if (!result) {
+      const check = canBuildBuilding(island, action.buildingType, this.config.simulationConfig, island.treasury);
+      return check.reason ?? `Cannot build ${action.buildingType}`;
+    }
+
+    world.islands.set(action.islandId, result.newIsland);
+    return null;
   }
 
   private applyNavigateAction(
@@ -312,14 +744,161 @@ export class AgentManager {
     const ship = world.ships.get(action.shipId);
     if (!ship) return;
 
-    const newLocation = startVoyage(ship, action.destinationId, world.islands, world.events);
+    const newLocation = startVoyage(
+      ship,
+      action.destinationId,
+      world.islands,
+      world.events,
+      world.seaLanes,
+      action.preference
+    );
 
     const updatedShip = { ...ship, location: newLocation };
     world.ships.set(action.shipId, updatedShip);
   }
 
+  /**
+   * Queue a construction order on an island, paid for by the ship's cash.
+   * Shared by build_building and upgrade_building (an upgrade is a new order
+   * targeting the next level of the existing building).
+   * Actions are validated against the world before any are applied, so an
+   * earlier action in the same decision may have used up the materials or cash.
+   *
+   * @returns Why construction could not start, or null once it has
+   */
+  private applyConstructionAction(
+    world: WorldState,
+    shipId: ShipId,
+    islandId: IslandId,
+    buildingType: BuildingType
+  ): string | null {
+    const ship = world.ships.get(shipId);
+    const island = world.islands.get(islandId);
+    if (!ship || !island) return `Ship ${shipId} or island ${islandId} no longer exists`;
+
+    const result = startBuildingConstruction(
+      island,
+      buildingType,
+      this.config.simulationConfig,
+      world.tick,
+      ship.ownerId,
+      ship.cash
+    );
+    if (!result) {
+      const check = canBuildBuilding(island, buildingType, this.config.simulationConfig, ship.cash);
+      return check.reason ?? `Cannot build ${buildingType}`;
+    }
+
+    world.islands.set(islandId, result.newIsland);
+    world.ships.set(shipId, { ...ship, cash: ship.cash - result.coinsPaid });
+    return null;
+  }
+
+  private applyOrderShipAction(
+    world: WorldState,
+    action: import('../interfaces/action.js').OrderShipAction
+  ): void {
+    const ship = world.ships.get(action.shipId);
+    const shipyard = world.shipyards.get(action.shipyardId);
+    if (!ship || !shipyard) return;
+
+    const island = world.islands.get(shipyard.islandId);
+    if (!island) return;
+
+    const result = startBuildOrder(
+      shipyard,
+      island,
+      action.blueprintId,
+      action.shipName,
+      ship.ownerId,
+      ship.cash,
+      world.tick
+    );
+    if (!result.success || !result.order || !result.newIsland || result.newAgentCash === undefined) {
+      return;
+    }
+
+    world.shipyards.set(action.shipyardId, { ...shipyard, currentOrder: result.order });
+    world.islands.set(shipyard.islandId, result.newIsland);
+    world.ships.set(action.shipId, { ...ship, cash: result.newAgentCash });
+  }
+
+  private applyCancelShipOrderAction(
+    world: WorldState,
+    action: import('../interfaces/action.js').CancelShipOrderAction
+  ): void {
+    const ship = world.ships.get(action.shipId);
+    const shipyard = world.shipyards.get(action.shipyardId);
+    if (!ship || !shipyard) return;
+
+    const island = world.islands.get(shipyard.islandId);
+    if (!island) return;
+
+    const { newShipyard, newIsland, refundedCoins } = cancelBuildOrder(shipyard, island);
+
+    world.shipyards.set(action.shipyardId, newShipyard);
+    world.islands.set(shipyard.islandId, newIsland);
+    world.ships.set(action.shipId, { ...ship, cash: ship.cash + refundedCoins });
+  }
+
+  private applyRepairAction(
+    world: WorldState,
+    action: import('../interfaces/action.js').RepairAction
+  ): void {
+    const ship = world.ships.get(action.shipId);
+    const island = world.islands.get(action.islandId);
+    if (!ship || !island) return;
+
+    // Repair the full requested amount now; repairShip caps it by timber and cash
+    const config = this.config.simulationConfig;
+    const needed = Math.max(0, Math.min(1, action.targetCondition) - ship.condition);
+    const dt = needed / config.maintenanceConfig.repairRateAtIsland;
+    const { newShip, newIsland, coinsUsed } = repairShip(ship, island, config, dt);
+
+    world.ships.set(action.shipId, newShip);
+    // Shipwright labor is paid to the island
+    world.islands.set(action.islandId, {
+      ...newIsland,
+      treasury: (newIsland.treasury ?? 0) + coinsUsed,
+      treasuryIncome: (newIsland.treasuryIncome ?? 0) + coinsUsed,
+    });
+  }
+
+  private applyHireCrewAction(
+    world: WorldState,
+    action: import('../interfaces/action.js').HireCrewAction
+  ): void {
+    const ship = world.ships.get(action.shipId);
+    const island = world.islands.get(action.islandId);
+    if (!ship || !island) return;
+
+    const result = hireCrew(ship, island, action.count, this.config.simulationConfig.crewConfig);
+    if (!result.success) return;
+
+    world.ships.set(action.shipId, result.newShip);
+    // Signing bonuses stay in the island economy
+    world.islands.set(action.islandId, {
+      ...result.newIsland,
+      treasury: (result.newIsland.treasury ?? 0) + result.cost,
+      treasuryIncome: (result.newIsland.treasuryIncome ?? 0) + result.cost,
+    });
+  }
+
+  /**
+   * Write a lending book's balances back into the world being updated
+   */
+  private applyLendingBook(world: WorldState, book: LendingBook): void {
+    for (const [shipId, ship] of book.ships) {
+      world.ships.set(shipId, ship);
+    }
+    for (const [islandId, island] of book.islands) {
+      world.islands.set(islandId, island);
+    }
+    world.lending = book.lending;
+  }
+
   private cloneWorld(world: WorldState): WorldState {
-    // Shallow clone - actions only modify ships, islands, and economy metrics
+    // Shallow clone - actions only modify ships, islands, shipyards, factions, and economy metrics
     return {
       ...world,
       islands: new Map(
@@ -335,6 +914,8 @@ export class AgentManager {
               momentum: new Map(island.market.momentum),
               consumptionVelocity: new Map(island.market.consumptionVelocity),
             },
+            buildings: new Map(island.buildings),
+            constructionOrders: [...(island.constructionOrders ?? [])],
             // Economic Model V2: Reset per-tick treasury values
             treasuryIncome: 0,
             treasuryExpenses: 0,
@@ -358,6 +939,13 @@ export class AgentManager {
           },
         ])
       ),
+      shipyards: new Map(
+        Array.from(world.shipyards.entries()).map(([id, shipyard]) => [
+          id,
+          { ...shipyard, completedShips: [...shipyard.completedShips] },
+        ])
+      ),
+      factions: new Map(world.factions?.entries() ?? []),
       // Clone economy metrics for immutability
       economyMetrics: world.economyMetrics
         ? { ...world.economyMetrics }
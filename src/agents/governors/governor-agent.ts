@@ -0,0 +1,468 @@
+/**
+ * Governor Agent
+ * Runs one island's policies: harvest quotas, tariffs, food reserves and
+ * treasury-funded buildings
+ *
+ * The rule-based governor manages fisheries and forests with a constant
+ * harvest-rate rule, holds back food against shortages and raises tariffs
+ * when the treasury runs low. The LLM variant asks the model for a policy
+ * and falls back to the rules when the call fails or is rate limited.
+ */
+
+import type { AgentId, AgentState, BuildingType, GoodId, IslandId, WorldState } from '../../core/types.js';
+import type { ObservableState, ObservableIsland } from '../interfaces/observable.js';
+import type { Action, ActionResult } from '../interfaces/action.js';
+import type { Decision } from '../interfaces/agent.js';
+import { BaseAgent } from '../interfaces/agent.js';
+import { ObservableBuilder } from '../interfaces/observable.js';
+import {
+  MAX_TARIFF_RATE,
+  createSetQuotaAction,
+  createSetTariffAction,
+  createSetReserveAction,
+  createFundBuildingAction,
+} from '../interfaces/action.js';
+import type { Trigger } from '../core/trigger-system.js';
+import type { LLMClient } from '../../llm/client.js';
+import { createMockLLMClient } from '../../llm/client.js';
+import type { RateLimiter } from '../../llm/rate-limiter.js';
+import { createRateLimiter } from '../../llm/rate-limiter.js';
+import { DEFAULT_CONFIG as DEFAULT_SIM_CONFIG } from '../../core/world.js';
+
+/**
+ * Governor agent configuration
+ */
+export interface GovernorAgentConfig {
+  /** Ticks between policy reviews */
+  reviewInterval: number;
+  /** Impose a quota when stock health (stock / capacity) falls below this */
+  quotaHealthThreshold: number;
+  /** Lift the quota once stock health recovers above this */
+  quotaLiftThreshold: number;
+  /** Quota as a share of the current stock per tick (constant harvest-rate rule) */
+  quotaHarvestRate: number;
+  /** Food goods to hold in reserve */
+  foodGoods: GoodId[];
+  /** Ticks of population food demand to hold back from ships */
+  foodReserveTicks: number;
+  /** Food demand per person per tick */
+  foodPerCapita: number;
+  /** Raise tariffs when the treasury falls below this many coins per person */
+  lowTreasuryPerCapita: number;
+  /** Tariff rate charged while the treasury is low */
+  revenueTariff: number;
+  /** Fund buildings while the treasury is above this many coins per person */
+  buildTreasuryPerCapita: number;
+  /** Buildings to fund, in order of preference */
+  buildPriority: BuildingType[];
+  /** Rate limiter preset (LLM governors) */
+  rateLimiterPreset: 'conservative' | 'balanced' | 'aggressive' | 'unlimited';
+  /** Enable debug logging */
+  debug: boolean;
+}
+
+const DEFAULT_CONFIG: GovernorAgentConfig = {
+  reviewInterval: 24, // Once per game day
+  quotaHealthThreshold: 0.4,
+  quotaLiftThreshold: 0.7,
+  quotaHarvestRate: 0.002, // 0.2% of the stock per tick (~5% per day)
+  foodGoods: ['fish', 'grain'],
+  foodReserveTicks: 24,
+  foodPerCapita: DEFAULT_SIM_CONFIG.foodPerCapita,
+  lowTreasuryPerCapita: 2,
+  revenueTariff: 0.05,
+  buildTreasuryPerCapita: 15,
+  buildPriority: ['warehouse', 'market', 'port', 'workshop'],
+  rateLimiterPreset: 'conservative',
+  debug: false,
+};
+
+/** Quota changes smaller than this share of the current quota are not worth an action */
+const QUOTA_CHANGE_TOLERANCE = 0.1;
+
+/** Population health below which the governor stops taxing imports */
+const HUNGRY_HEALTH = 0.6;
+
+/**
+ * Policy the governor wants for its island
+ * Quotas and reserves not listed are left unchanged
+ */
+export interface PolicyTargets {
+  harvestQuotas: Map<GoodId, number | null>;
+  exportTariff: number;
+  importTariff: number;
+  reserves: Map<GoodId, number>;
+  build: BuildingType | null;
+}
+
+/**
+ * Response format from LLM
+ */
+interface GovernorResponse {
+  quotas?: Record<string, number | null>;
+  tariffs?: { import?: number; export?: number };
+  reserves?: Record<string, number>;
+  build?: string | null;
+  reasoning?: string;
+}
+
+const EXTRACTIVE_STOCKS: Array<{ goodId: GoodId; health: 'fishHealth' | 'forestHealth'; stock: 'fishStock' | 'forestBiomass' }> = [
+  { goodId: 'fish', health: 'fishHealth', stock: 'fishStock' },
+  { goodId: 'timber', health: 'forestHealth', stock: 'forestBiomass' },
+];
+
+/**
+ * Governor Agent
+ * Controls the policies of a single island
+ */
+export class GovernorAgent extends BaseAgent {
+  readonly islandId: IslandId;
+
+  private observableBuilder: ObservableBuilder;
+  private llmClient: LLMClient | null;
+  private rateLimiter: RateLimiter;
+  private config: GovernorAgentConfig;
+  private llmCallsThisSession: number = 0;
+  /** Index into buildPriority of the next building to fund */
+  private buildCursor: number = 0;
+
+  constructor(
+    id: AgentId,
+    name: string,
+    islandId: IslandId,
+    llmClient: LLMClient | null = null,
+    config: Partial<GovernorAgentConfig> = {}
+  ) {
+    const initialState: AgentState = {
+      id,
+      type: 'governor',
+      name,
+      assets: { cash: 0, shipIds: [] },
+    };
+
+    super(id, 'governor', name, initialState);
+
+    this.islandId = islandId;
+    this.llmClient = llmClient;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.rateLimiter = createRateLimiter(this.config.rateLimiterPreset);
+    this.observableBuilder = new ObservableBuilder();
+  }
+
+  /**
+   * Build observation from world state
+   */
+  observe(world: WorldState): ObservableState {
+    return this.observableBuilder.build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  /**
+   * Review policy once per review interval
+   */
+  shouldReason(observation: ObservableState, _triggers: Trigger[]): boolean {
+    if (this.memory.recentDecisions.length === 0) {
+      return true;
+    }
+    return observation.tick - this.memory.lastReasoningTick >= this.config.reviewInterval;
+  }
+
+  /**
+   * Decide on policy changes for the island
+   * Called every tick; only reviews policy when a review is due
+   */
+  async reason(observation: ObservableState, _triggers: Trigger[]): Promise<Decision> {
+    const island = observation.islands.get(this.islandId);
+    if (!this.shouldReason(observation, []) || !island?.isGoverned || !island.policy) {
+      return { actions: [] };
+    }
+
+    const nextBuild = this.config.buildPriority[this.buildCursor % this.config.buildPriority.length] ?? null;
+    let targets = decidePolicy(island, this.config, nextBuild);
+    let triggerReason = 'scheduled policy review';
+
+    if (this.llmClient && this.rateLimiter.canCall()) {
+      try {
+        this.rateLimiter.recordCall();
+        this.llmCallsThisSession++;
+        const response = await this.llmClient.completeJSON<GovernorResponse>(
+          this.buildPrompt(island, observation.tick)
+        );
+        targets = parseGovernorResponse(response, targets);
+        triggerReason = response.reasoning ?? 'LLM policy review';
+      } catch (error) {
+        console.warn(`[GovernorAgent] ${this.name} LLM call failed, using rule-based policy:`, error);
+      }
+    }
+
+    this.markReasoning(observation.tick);
+
+    const decision: Decision = {
+      actions: policyActions(this.islandId, island, targets),
+      triggerReason,
+    };
+    this.recordDecision(observation.tick, decision);
+
+    if (this.config.debug && decision.actions.length > 0) {
+      console.log(`[GovernorAgent] ${this.name} enacting ${decision.actions.map((a) => a.type).join(', ')}`);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Convert decision to executable actions
+   */
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+
+  /**
+   * Handle action results
+   */
+  override onActionResults(results: ActionResult[]): void {
+    for (const result of results) {
+      // Move on to the next building whether this one was funded or not
+      // (e.g. already at max level), so the treasury is spread across types
+      if (result.action.type === 'fund_building') {
+        this.buildCursor++;
+      }
+
+      if (!result.success && this.config.debug) {
+        console.warn(`[GovernorAgent] ${this.name} ${result.action.type} failed: ${result.error}`);
+      }
+    }
+  }
+
+  /**
+   * Get governor-specific statistics
+   */
+  getStats(): { islandId: IslandId; llmCalls: number; usesLLM: boolean } {
+    return {
+      islandId: this.islandId,
+      llmCalls: this.llmCallsThisSession,
+      usesLLM: this.llmClient !== null,
+    };
+  }
+
+  protected override snapshotExtra(): Record<string, unknown> {
+    return {
+      llmCallsThisSession: this.llmCallsThisSession,
+      buildCursor: this.buildCursor,
+    };
+  }
+
+  protected override restoreExtra(extra: Record<string, unknown>): void {
+    this.llmCallsThisSession = (extra.llmCallsThisSession as number | undefined) ?? 0;
+    this.buildCursor = (extra.buildCursor as number | undefined) ?? 0;
+  }
+
+  /**
+   * Build the prompt for the LLM
+   */
+  private buildPrompt(island: ObservableIsland, tick: number): string {
+    const policy = island.policy!;
+    const population = island.populationIndicators;
+    const ecosystem = island.ecosystemIndicators;
+
+    const formatMap = (map: Map<string, number> | undefined) =>
+      map && map.size > 0
+        ? Array.from(map.entries()).map(([k, v]) => `${k}=${v.toFixed(1)}`).join(', ')
+        : 'none';
+
+    return `You are the governor of ${island.name}, an island in a trading archipelago. Tick ${tick}.
+
+ISLAND STATUS:
+- Population: ${population ? `${population.size.toFixed(0)} (health ${(population.health * 100).toFixed(0)}%)` : 'unknown'}
+- Treasury: ${island.treasury?.toFixed(0) ?? 'unknown'} coins
+- Fish stock health: ${ecosystem ? `${(ecosystem.fishHealth * 100).toFixed(0)}%` : 'unknown'}
+- Forest health: ${ecosystem ? `${(ecosystem.forestHealth * 100).toFixed(0)}%` : 'unknown'}
+- Inventory: ${formatMap(island.inventory)}
+- Prices: ${formatMap(island.prices)}
+
+CURRENT POLICY:
+- Harvest quotas (units/tick): ${formatMap(policy.harvestQuotas)}
+- Export tariff: ${(policy.exportTariff * 100).toFixed(0)}%, import tariff: ${(policy.importTariff * 100).toFixed(0)}%
+- Food reserves: ${formatMap(policy.reserves)}
+
+Your goals: keep the population fed and healthy, avoid collapsing the fishery and forest,
+and keep the treasury solvent. Quotas apply to fish and timber (null lifts a quota).
+Tariffs range from 0 to ${MAX_TARIFF_RATE}. Reserves apply to food goods (${this.config.foodGoods.join(', ')}).
+You may fund one building (${this.config.buildPriority.join(', ')}) from the treasury, or null.
+
+Respond with JSON only:
+{
+  "quotas": { "fish": number | null, "timber": number | null },
+  "tariffs": { "import": number, "export": number },
+  "reserves": { "<food good>": number },
+  "build": string | null,
+  "reasoning": "one sentence"
+}`;
+  }
+}
+
+// ============================================================================
+// Rule-Based Policy
+// ============================================================================
+
+/**
+ * Decide the policy for an island with fixed rules
+ */
+export function decidePolicy(
+  island: ObservableIsland,
+  config: GovernorAgentConfig = DEFAULT_CONFIG,
+  nextBuild: BuildingType | null = config.buildPriority[0] ?? null
+): PolicyTargets {
+  const policy = island.policy!;
+  const population = island.populationIndicators?.size ?? 0;
+  const health = island.populationIndicators?.health ?? 1;
+  const treasury = island.treasury ?? 0;
+
+  // Harvest quotas: cap the harvest at a share of the stock while it is depleted
+  const harvestQuotas = new Map<GoodId, number | null>();
+  for (const { goodId, health: healthKey, stock } of EXTRACTIVE_STOCKS) {
+    const stockHealth = island.ecosystemIndicators?.[healthKey];
+    const stockLevel = island.ecosystem?.[stock];
+    if (stockHealth === undefined || stockLevel === undefined) continue;
+
+    const hasQuota = policy.harvestQuotas.has(goodId);
+    if (stockHealth < config.quotaHealthThreshold || (hasQuota && stockHealth < config.quotaLiftThreshold)) {
+      harvestQuotas.set(goodId, stockLevel * config.quotaHarvestRate);
+    } else if (hasQuota) {
+      harvestQuotas.set(goodId, null);
+    }
+  }
+
+  // Food reserves: hold back enough food to feed the island for a while
+  const reserves = new Map<GoodId, number>();
+  const reservePerGood =
+    (population * config.foodPerCapita * config.foodReserveTicks) / Math.max(1, config.foodGoods.length);
+  for (const goodId of config.foodGoods) {
+    reserves.set(goodId, Math.round(reservePerGood));
+  }
+
+  // Tariffs: raise revenue while the treasury is low, but never tax food
+  // imports into a hungry island
+  const lowTreasury = treasury < population * config.lowTreasuryPerCapita;
+  const exportTariff = lowTreasury ? config.revenueTariff : 0;
+  const importTariff = lowTreasury && health >= HUNGRY_HEALTH ? config.revenueTariff : 0;
+
+  // Buildings: invest surplus treasury
+  const build = treasury > population * config.buildTreasuryPerCapita ? nextBuild : null;
+
+  return { harvestQuotas, exportTariff, importTariff, reserves, build };
+}
+
+/**
+ * Parse an LLM response into policy targets, keeping rule-based values for
+ * anything missing or invalid
+ */
+function parseGovernorResponse(response: GovernorResponse, fallback: PolicyTargets): PolicyTargets {
+  const clampTariff = (rate: unknown, current: number) =>
+    typeof rate === 'number' && Number.isFinite(rate)
+      ? Math.min(MAX_TARIFF_RATE, Math.max(0, rate))
+      : current;
+
+  const harvestQuotas = new Map(fallback.harvestQuotas);
+  for (const [goodId, quota] of Object.entries(response.quotas ?? {})) {
+    if (quota === null || (typeof quota === 'number' && quota >= 0)) {
+      harvestQuotas.set(goodId, quota);
+    }
+  }
+
+  const reserves = new Map(fallback.reserves);
+  for (const [goodId, quantity] of Object.entries(response.reserves ?? {})) {
+    if (reserves.has(goodId) && typeof quantity === 'number' && quantity >= 0) {
+      reserves.set(goodId, Math.round(quantity));
+    }
+  }
+
+  const buildTypes: BuildingType[] = ['warehouse', 'market', 'port', 'workshop'];
+  const build = buildTypes.includes(response.build as BuildingType)
+    ? (response.build as BuildingType)
+    : response.build === null
+      ? null
+      : fallback.build;
+
+  return {
+    harvestQuotas,
+    exportTariff: clampTariff(response.tariffs?.export, fallback.exportTariff),
+    importTariff: clampTariff(response.tariffs?.import, fallback.importTariff),
+    reserves,
+    build,
+  };
+}
+
+/**
+ * Turn policy targets into the actions needed to reach them
+ * Only emits actions for values that differ from the current policy
+ */
+export function policyActions(
+  islandId: IslandId,
+  island: ObservableIsland,
+  targets: PolicyTargets
+): Action[] {
+  const policy = island.policy!;
+  const actions: Action[] = [];
+
+  for (const [goodId, quota] of targets.harvestQuotas) {
+    const current = policy.harvestQuotas.get(goodId);
+    if (quota === null) {
+      if (current !== undefined) actions.push(createSetQuotaAction(islandId, goodId, null));
+    } else if (current === undefined || Math.abs(quota - current) > current * QUOTA_CHANGE_TOLERANCE) {
+      actions.push(createSetQuotaAction(islandId, goodId, quota));
+    }
+  }
+
+  if (targets.exportTariff !== policy.exportTariff) {
+    actions.push(createSetTariffAction(islandId, 'export', targets.exportTariff));
+  }
+  if (targets.importTariff !== policy.importTariff) {
+    actions.push(createSetTariffAction(islandId, 'import', targets.importTariff));
+  }
+
+  for (const [goodId, quantity] of targets.reserves) {
+    if (quantity !== (policy.reserves.get(goodId) ?? 0)) {
+      actions.push(createSetReserveAction(islandId, goodId, quantity));
+    }
+  }
+
+  if (targets.build) {
+    actions.push(createFundBuildingAction(islandId, targets.build));
+  }
+
+  return actions;
+}
+
+// ============================================================================
+// Factories
+// ============================================================================
+
+/**
+ * Create a rule-based governor
+ */
+export function createRuleBasedGovernor(
+  id: AgentId,
+  name: string,
+  islandId: IslandId,
+  config?: Partial<GovernorAgentConfig>
+): GovernorAgent {
+  return new GovernorAgent(id, name, islandId, null, config);
+}
+
+/**
+ * Create an LLM governor
+ * Without a client, uses a mock client that defers to the rule-based policy
+ */
+export function createLLMGovernor(
+  id: AgentId,
+  name: string,
+  islandId: IslandId,
+  llmClient?: LLMClient,
+  config?: Partial<GovernorAgentConfig>
+): GovernorAgent {
+  const client = llmClient ?? createMockLLMClient(() => JSON.stringify({ reasoning: 'Mock governor: keeping rule-based policy' }));
+  return new GovernorAgent(id, name, islandId, client, {
+    rateLimiterPreset: llmClient ? 'conservative' : 'unlimited',
+    ...config,
+  });
+}
@@ -9,7 +9,24 @@ import type {
   GoodId,
   AgentId,
   WorldState,
+  BuildingId,
+  BuildingType,
+  ShipyardId,
+  SimulationConfig,
+  RoutePreference,
 } from '../../core/types.js';
+import { DEFAULT_CONFIG } from '../../core/world.js';
+import { canBuildBuilding } from '../../systems/buildings.js';
+import { canAffordBuild, DEFAULT_BLUEPRINTS } from '../../systems/shipyard.js';
+import { getAvailableCredit } from '../../systems/credit.js';
+import { getLoanQuotes, getLendingBook } from '../../systems/lending.js';
+import { isExtractiveGood } from '../../systems/production.js';
+import { findAgentFaction } from '../../systems/factions.js';
+import { findSeaRoute } from '../../systems/navigation.js';
+import { isPortClosed } from '../../systems/weather.js';
+
+/** Highest tariff a governor may set (fraction of trade value) */
+export const MAX_TARIFF_RATE = 0.5;
 
 /**
  * Trade action - buy or sell goods at an island
@@ -33,6 +50,8 @@ export interface NavigateAction {
   type: 'navigate';
   shipId: ShipId;
   destinationId: IslandId;
+  /** Sea-lane route to take (default 'shortest') */
+  preference?: RoutePreference;
 }
 
 /**
@@ -44,10 +63,161 @@ export interface WaitAction {
   ticks: number;
 }
 
+/**
+ * Build building action - commission a new building on an island
+ * Timber and tools come from the island, coins from the docked ship
+ */
+export interface BuildBuildingAction {
+  type: 'build_building';
+  shipId: ShipId;
+  islandId: IslandId;
+  buildingType: BuildingType;
+}
+
+/**
+ * Upgrade building action - raise an existing building by one level
+ */
+export interface UpgradeBuildingAction {
+  type: 'upgrade_building';
+  shipId: ShipId;
+  islandId: IslandId;
+  buildingId: BuildingId;
+}
+
+/**
+ * Order ship action - commission a new ship at a shipyard
+ * Timber and tools come from the shipyard's island, coins from the docked ship
+ */
+export interface OrderShipAction {
+  type: 'order_ship';
+  shipId: ShipId;
+  shipyardId: ShipyardId;
+  blueprintId: string;
+  shipName: string;
+}
+
+/**
+ * Cancel ship order action - abandon the agent's order at a shipyard
+ * The partial refund is paid to the docked ship
+ */
+export interface CancelShipOrderAction {
+  type: 'cancel_ship_order';
+  shipId: ShipId;
+  shipyardId: ShipyardId;
+}
+
+/**
+ * Repair action - restore hull condition at the docked island
+ * Uses island timber and ship coins; may stop short if either runs out
+ */
+export interface RepairAction {
+  type: 'repair';
+  shipId: ShipId;
+  islandId: IslandId;
+  targetCondition: number; // 0-1, condition to repair up to
+}
+
+/**
+ * Hire crew action - recruit sailors from the docked island's population
+ */
+export interface HireCrewAction {
+  type: 'hire_crew';
+  shipId: ShipId;
+  islandId: IslandId;
+  count: number;
+}
+
+/**
+ * Borrow action - draw on the ship's credit line
+ */
+export interface BorrowAction {
+  type: 'borrow';
+  shipId: ShipId;
+  amount: number;
+}
+
+/**
+ * Repay action - pay down the ship's outstanding debt
+ */
+export interface RepayAction {
+  type: 'repay';
+  shipId: ShipId;
+  amount: number;
+}
+
+/**
+ * Transfer funds action - move cash between a ship and its faction treasury
+ * Positive amounts deposit into the treasury, negative amounts withdraw
+ */
+export interface TransferFundsAction {
+  type: 'transfer_funds';
+  shipId: ShipId;
+  amount: number;
+}
+
+/**
+ * Set quota action - cap an island's per-tick harvest of fish or timber
+ * Governor only; a null quota lifts the cap
+ */
+export interface SetQuotaAction {
+  type: 'set_quota';
+  islandId: IslandId;
+  goodId: GoodId;
+  quota: number | null;
+}
+
+/**
+ * Set tariff action - charge ships a share of trade value, paid to the island treasury
+ * Governor only
+ */
+export interface SetTariffAction {
+  type: 'set_tariff';
+  islandId: IslandId;
+  direction: 'import' | 'export';
+  rate: number; // 0 to MAX_TARIFF_RATE
+}
+
+/**
+ * Set reserve action - hold back island stock of a food good from ships
+ * Governor only; a zero quantity releases the reserve
+ */
+export interface SetReserveAction {
+  type: 'set_reserve';
+  islandId: IslandId;
+  goodId: GoodId;
+  quantity: number;
+}
+
+/**
+ * Fund building action - commission a building paid from the island treasury
+ * Governor only; timber and tools come from the island as usual
+ */
+export interface FundBuildingAction {
+  type: 'fund_building';
+  islandId: IslandId;
+  buildingType: BuildingType;
+}
+
 /**
  * All possible actions
  */
-export type Action = TradeAction | NavigateAction | WaitAction;
+export type Action =
+  | TradeAction
+  | NavigateAction
+  | WaitAction
+  | BuildBuildingAction
+  | UpgradeBuildingAction
+  | OrderShipAction
+  | CancelShipOrderAction
+  | RepairAction
+  | HireCrewAction
+  | BorrowAction
+  | RepayAction
+  | TransferFundsAction
+  | SetQuotaAction
+  | SetTariffAction
+  | SetReserveAction
+  | FundBuildingAction;
 
 /**
  * Result of action execution
@@ -59,6 +229,29 @@ export interface ActionResult {
   details?: Record<string, unknown>;
 }
 
+/**
+ * A single executed leg of a trade (Economic Model V2: price impact)
+ */
+export interface TradeFill {
+  goodId: GoodId;
+  quantity: number; // Positive = bought, negative = sold
+  quotedPrice: number; // Posted market price before the trade
+  executionPrice: number; // Effective price after market depth impact
+  priceImpact: number; // Fractional impact (0.05 = 5%)
+}
+
+/**
+ * Execution details attached to a successful trade's ActionResult.details
+ */
+export interface TradeExecutionDetails {
+  fills: TradeFill[];
+  /** Total slippage cost versus posted prices (positive = worse for the trader) */
+  totalSlippage: number;
+  taxCollected: number;
+  /** Governor tariffs paid to the island treasury */
+  tariffPaid: number;
+}
+
 /**
  * Validation result
  */
@@ -72,6 +265,8 @@ export interface ValidationResult {
  * Validates actions against world state and agent permissions
  */
 export class ActionValidator {
+  constructor(private config: SimulationConfig = DEFAULT_CONFIG) {}
+
   /**
    * Validate a single action
    */
@@ -83,6 +278,32 @@ export class ActionValidator {
         return this.validateNavigate(action, world, agentId);
       case 'wait':
         return this.validateWait(action, world, agentId);
+      case 'build_building':
+        return this.validateBuildBuilding(action, world, agentId);
+      case 'upgrade_building':
+        return this.validateUpgradeBuilding(action, world, agentId);
+      case 'order_ship':
+        return this.validateOrderShip(action, world, agentId);
+      case 'cancel_ship_order':
+        return this.validateCancelShipOrder(action, world, agentId);
+      case 'repair':
+        return this.validateRepair(action, world, agentId);
+      case 'hire_crew':
+        return this.validateHireCrew(action, world, agentId);
+      case 'borrow':
+        return this.validateBorrow(action, world, agentId);
+      case 'repay':
+        return this.validateRepay(action, world, agentId);
+      case 'transfer_funds':
+        return this.validateTransferFunds(action, world, agentId);
+      case 'set_quota':
+        return this.validateSetQuota(action, world, agentId);
+      case 'set_tariff':
+        return this.validateSetTariff(action, world, agentId);
+      case 'set_reserve':
+        return this.validateSetReserve(action, world, agentId);
+      case 'fund_building':
+        return this.validateFundBuilding(action, world, agentId);
       default:
         return { valid: false, errors: ['Unknown action type'] };
     }
@@ -238,6 +459,27 @@ export class ActionValidator {
       return { valid: false, errors };
     }
 
+    if (action.preference !== undefined && action.preference !== 'shortest' && action.preference !== 'safest') {
+      errors.push(`Unknown route preference ${action.preference}`);
+      return { valid: false, errors };
+    }
+
+    // Check a sea route exists
+    if (
+      world.seaLanes &&
+      !findSeaRoute(ship.location.islandId, action.destinationId, world.islands, world.seaLanes)
+    ) {
+      errors.push(`No sea route from ${ship.location.islandId} to ${action.destinationId}`);
+      return { valid: false, errors };
+    }
+
+    // Check the port is not closed by a storm
+    const origin = world.islands.get(ship.location.islandId);
+    if (origin && isPortClosed(origin, world.weather)) {
+      errors.push(`Port of ${ship.location.islandId} is closed by a storm`);
+      return { valid: false, errors };
+    }
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -268,6 +510,416 @@ export class ActionValidator {
 
     return { valid: errors.length === 0, errors };
   }
+
+  private validateBuildBuilding(
+    action: BuildBuildingAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateDockedShip(action.shipId, action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const island = world.islands.get(action.islandId)!;
+    const ship = world.ships.get(action.shipId)!;
+
+    for (const building of island.buildings?.values() ?? []) {
+      if (building.type === action.buildingType) {
+        errors.push(
+          `Island ${action.islandId} already has a ${action.buildingType}; use upgrade_building`
+        );
+        return { valid: false, errors };
+      }
+    }
+
+    const check = canBuildBuilding(island, action.buildingType, this.config, ship.cash);
+    if (!check.canBuild) {
+      errors.push(check.reason ?? `Cannot build ${action.buildingType}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateUpgradeBuilding(
+    action: UpgradeBuildingAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateDockedShip(action.shipId, action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const island = world.islands.get(action.islandId)!;
+    const ship = world.ships.get(action.shipId)!;
+
+    const building = island.buildings?.get(action.buildingId);
+    if (!building) {
+      errors.push(`Building ${action.buildingId} does not exist on ${action.islandId}`);
+      return { valid: false, errors };
+    }
+
+    const check = canBuildBuilding(island, building.type, this.config, ship.cash);
+    if (!check.canBuild) {
+      errors.push(check.reason ?? `Cannot upgrade ${building.type}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateOrderShip(
+    action: OrderShipAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const shipyard = world.shipyards.get(action.shipyardId);
+    if (!shipyard) {
+      return { valid: false, errors: [`Shipyard ${action.shipyardId} does not exist`] };
+    }
+
+    const errors = this.validateDockedShip(action.shipId, shipyard.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    if (shipyard.currentOrder !== null) {
+      errors.push(`Shipyard ${action.shipyardId} is already building a ship`);
+      return { valid: false, errors };
+    }
+
+    const blueprint = DEFAULT_BLUEPRINTS.get(action.blueprintId);
+    if (!blueprint) {
+      errors.push(`Unknown blueprint: ${action.blueprintId}`);
+      return { valid: false, errors };
+    }
+
+    if (!action.shipName || action.shipName.trim().length === 0) {
+      errors.push('Ship name must not be empty');
+    }
+
+    const island = world.islands.get(shipyard.islandId)!;
+    const ship = world.ships.get(action.shipId)!;
+    const affordCheck = canAffordBuild(island, blueprint, ship.cash);
+    if (!affordCheck.canAfford) {
+      errors.push(`Insufficient resources: ${affordCheck.missing.join(', ')}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateCancelShipOrder(
+    action: CancelShipOrderAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const shipyard = world.shipyards.get(action.shipyardId);
+    if (!shipyard) {
+      return { valid: false, errors: [`Shipyard ${action.shipyardId} does not exist`] };
+    }
+
+    const errors = this.validateDockedShip(action.shipId, shipyard.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    if (!shipyard.currentOrder) {
+      errors.push(`Shipyard ${action.shipyardId} has no active order`);
+    } else if (shipyard.currentOrder.ownerId !== agentId) {
+      errors.push(`Order at ${action.shipyardId} is not owned by agent ${agentId}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateRepair(
+    action: RepairAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateDockedShip(action.shipId, action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const ship = world.ships.get(action.shipId)!;
+    const island = world.islands.get(action.islandId)!;
+
+    if (action.targetCondition <= ship.condition || action.targetCondition > 1) {
+      errors.push(
+        `Target condition must be between current condition (${ship.condition.toFixed(2)}) and 1`
+      );
+    }
+
+    if ((island.inventory.get('timber') ?? 0) <= 0) {
+      errors.push(`No timber available for repairs at ${action.islandId}`);
+    }
+
+    if (ship.cash < this.config.maintenanceConfig.repairCoinCostPerPoint) {
+      errors.push(`Not enough cash to pay for repairs: have ${ship.cash.toFixed(2)}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateHireCrew(
+    action: HireCrewAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateDockedShip(action.shipId, action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const ship = world.ships.get(action.shipId)!;
+
+    if (!Number.isInteger(action.count) || action.count < 1) {
+      errors.push('Crew count must be a positive integer');
+      return { valid: false, errors };
+    }
+
+    if (ship.crew.count >= ship.crew.capacity) {
+      errors.push(`Ship ${action.shipId} crew is already at capacity`);
+    }
+
+    // Signing bonus is 10x the base wage per sailor (see hireCrew)
+    const signingBonus = this.config.crewConfig.baseWageRate * 10;
+    if (ship.cash < signingBonus) {
+      errors.push(`Not enough cash to hire crew: need ${signingBonus.toFixed(2)}, have ${ship.cash.toFixed(2)}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateBorrow(
+    action: BorrowAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateOwnedShip(action.shipId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const ship = world.ships.get(action.shipId)!;
+
+    if (!(action.amount > 0)) {
+      errors.push('Borrow amount must be positive');
+      return { valid: false, errors };
+    }
+
+    const available = getAvailableCredit(ship, this.config.creditConfig);
+    if (available <= 0) {
+      errors.push(`Ship ${action.shipId} has no available credit`);
+    } else if (
+      this.config.lendingConfig?.enabled &&
+      getLoanQuotes(getLendingBook(world), action.shipId, Math.min(action.amount, available), this.config.lendingConfig)
+        .length === 0
+    ) {
+      errors.push('No lender has funds to lend');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateRepay(
+    action: RepayAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateOwnedShip(action.shipId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const ship = world.ships.get(action.shipId)!;
+
+    if (!(action.amount > 0)) {
+      errors.push('Repay amount must be positive');
+      return { valid: false, errors };
+    }
+
+    if ((ship.debt ?? 0) <= 0) {
+      errors.push(`Ship ${action.shipId} has no debt to repay`);
+    } else if (ship.cash <= 0) {
+      errors.push(`Ship ${action.shipId} has no cash to repay with`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateTransferFunds(
+    action: TransferFundsAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateOwnedShip(action.shipId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const ship = world.ships.get(action.shipId)!;
+    const faction = findAgentFaction(world, agentId);
+
+    if (!faction) {
+      errors.push(`Agent ${agentId} does not belong to a faction`);
+      return { valid: false, errors };
+    }
+
+    if (!Number.isFinite(action.amount) || action.amount === 0) {
+      errors.push('Transfer amount must be a non-zero number');
+      return { valid: false, errors };
+    }
+
+    if (action.amount > 0 && action.amount > ship.cash) {
+      errors.push(`Ship ${action.shipId} has only ${ship.cash.toFixed(0)} cash to deposit`);
+    } else if (action.amount < 0 && -action.amount > faction.treasury) {
+      errors.push(`Faction ${faction.id} treasury has only ${faction.treasury.toFixed(0)} to withdraw`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateSetQuota(
+    action: SetQuotaAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateGovernor(action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    if (!isExtractiveGood(action.goodId)) {
+      errors.push(`Quotas only apply to harvested goods (fish, timber), not ${action.goodId}`);
+    }
+    if (action.quota !== null && !(action.quota >= 0 && Number.isFinite(action.quota))) {
+      errors.push('Quota must be a non-negative number or null');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateSetTariff(
+    action: SetTariffAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateGovernor(action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    if (action.direction !== 'import' && action.direction !== 'export') {
+      errors.push(`Tariff direction must be 'import' or 'export'`);
+    }
+    if (!(action.rate >= 0 && action.rate <= MAX_TARIFF_RATE)) {
+      errors.push(`Tariff rate must be between 0 and ${MAX_TARIFF_RATE}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateSetReserve(
+    action: SetReserveAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateGovernor(action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const good = world.goods.get(action.goodId);
+    if (!good) {
+      errors.push(`Good ${action.goodId} does not exist`);
+    } else if (good.category !== 'food') {
+      errors.push(`Reserves only apply to food, not ${action.goodId}`);
+    }
+    if (!(action.quantity >= 0 && Number.isFinite(action.quantity))) {
+      errors.push('Reserve quantity must be a non-negative number');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateFundBuilding(
+    action: FundBuildingAction,
+    world: WorldState,
+    agentId: AgentId
+  ): ValidationResult {
+    const errors = this.validateGovernor(action.islandId, world, agentId);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const island = world.islands.get(action.islandId)!;
+    const check = canBuildBuilding(island, action.buildingType, this.config, island.treasury);
+    if (!check.canBuild) {
+      errors.push(check.reason ?? `Cannot build ${action.buildingType}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Check that an island exists and the agent is its governor
+   */
+  private validateGovernor(islandId: IslandId, world: WorldState, agentId: AgentId): string[] {
+    const island = world.islands.get(islandId);
+    if (!island) {
+      return [`Island ${islandId} does not exist`];
+    }
+
+    if (island.policy?.governorId !== agentId) {
+      return [`Agent ${agentId} is not the governor of ${islandId}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * Check that a ship exists and is owned by the agent
+   */
+  private validateOwnedShip(shipId: ShipId, world: WorldState, agentId: AgentId): string[] {
+    const ship = world.ships.get(shipId);
+    if (!ship) {
+      return [`Ship ${shipId} does not exist`];
+    }
+
+    if (ship.ownerId !== agentId) {
+      return [`Ship ${shipId} is not owned by agent ${agentId}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * Check that a ship exists, is owned by the agent and is docked at the island
+   */
+  private validateDockedShip(
+    shipId: ShipId,
+    islandId: IslandId,
+    world: WorldState,
+    agentId: AgentId
+  ): string[] {
+    const ownershipErrors = this.validateOwnedShip(shipId, world, agentId);
+    if (ownershipErrors.length > 0) {
+      return ownershipErrors;
+    }
+
+    const ship = world.ships.get(shipId)!;
+    if (ship.location.kind !== 'at_island' || ship.location.islandId !== islandId) {
+      return [`Ship ${shipId} is not docked at ${islandId}`];
+    }
+
+    if (!world.islands.has(islandId)) {
+      return [`Island ${islandId} does not exist`];
+    }
+
+    return [];
+  }
 }
 
 /**
@@ -288,12 +940,14 @@ export function createTradeAction(
 
 export function createNavigateAction(
   shipId: ShipId,
-  destinationId: IslandId
+  destinationId: IslandId,
+  preference?: RoutePreference
 ): NavigateAction {
   return {
     type: 'navigate',
     shipId,
     destinationId,
+    ...(preference && { preference }),
   };
 }
 
@@ -304,3 +958,155 @@ export function createWaitAction(shipId: ShipId, ticks: number = 1): WaitAction
     ticks,
   };
 }
+
+export function createBuildBuildingAction(
+  shipId: ShipId,
+  islandId: IslandId,
+  buildingType: BuildingType
+): BuildBuildingAction {
+  return {
+    type: 'build_building',
+    shipId,
+    islandId,
+    buildingType,
+  };
+}
+
+export function createUpgradeBuildingAction(
+  shipId: ShipId,
+  islandId: IslandId,
+  buildingId: BuildingId
+): UpgradeBuildingAction {
+  return {
+    type: 'upgrade_building',
+    shipId,
+    islandId,
+    buildingId,
+  };
+}
+
+export function createOrderShipAction(
+  shipId: ShipId,
+  shipyardId: ShipyardId,
+  blueprintId: string,
+  shipName: string
+): OrderShipAction {
+  return {
+    type: 'order_ship',
+    shipId,
+    shipyardId,
+    blueprintId,
+    shipName,
+  };
+}
+
+export function createCancelShipOrderAction(
+  shipId: ShipId,
+  shipyardId: ShipyardId
+): CancelShipOrderAction {
+  return {
+    type: 'cancel_ship_order',
+    shipId,
+    shipyardId,
+  };
+}
+
+export function createRepairAction(
+  shipId: ShipId,
+  islandId: IslandId,
+  targetCondition: number = 1
+): RepairAction {
+  return {
+    type: 'repair',
+    shipId,
+    islandId,
+    targetCondition,
+  };
+}
+
+export function createHireCrewAction(
+  shipId: ShipId,
+  islandId: IslandId,
+  count: number
+): HireCrewAction {
+  return {
+    type: 'hire_crew',
+    shipId,
+    islandId,
+    count,
+  };
+}
+
+export function createBorrowAction(shipId: ShipId, amount: number): BorrowAction {
+  return {
+    type: 'borrow',
+    shipId,
+    amount,
+  };
+}
+
+export function createRepayAction(shipId: ShipId, amount: number): RepayAction {
+  return {
+    type: 'repay',
+    shipId,
+    amount,
+  };
+}
+
+export function createTransferFundsAction(shipId: ShipId, amount: number): TransferFundsAction {
+  return {
+    type: 'transfer_funds',
+    shipId,
+    amount,
+  };
+}
+
+export function createSetQuotaAction(
+  islandId: IslandId,
+  goodId: GoodId,
+  quota: number | null
+): SetQuotaAction {
+  return {
+    type: 'set_quota',
+    islandId,
+    goodId,
+    quota,
+  };
+}
+
+export function createSetTariffAction(
+  islandId: IslandId,
+  direction: 'import' | 'export',
+  rate: number
+): SetTariffAction {
+  return {
+    type: 'set_tariff',
+    islandId,
+    direction,
+    rate,
+  };
+}
+
+export function createSetReserveAction(
+  islandId: IslandId,
+  goodId: GoodId,
+  quantity: number
+): SetReserveAction {
+  return {
+    type: 'set_reserve',
+    islandId,
+    goodId,
+    quantity,
+  };
+}
+
+export function createFundBuildingAction(
+  islandId: IslandId,
+  buildingType: BuildingType
+): FundBuildingAction {
+  return {
+    type: 'fund_building',
+    islandId,
+    buildingType,
+  };
+}
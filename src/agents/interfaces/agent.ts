@@ -5,6 +5,7 @@
 
 import type {
   AgentId,
+  ShipId,
   AgentType,
   AgentState,
   WorldState,
@@ -58,6 +59,17 @@ export interface AgentMemory {
   customData: Record<string, unknown>;
 }
 
+/**
+ * Saved agent internals, used to restore an agent mid-run
+ */
+export interface AgentSnapshot {
+  id: AgentId;
+  state: AgentState;
+  memory: AgentMemory;
+  /** Agent-specific internals (e.g. trader memory) */
+  extra: Record<string, unknown>;
+}
+
 /**
  * Core agent interface
  * All agent types (trader, population, governor, player) implement this
@@ -96,6 +108,12 @@ export interface IAgent {
    */
   reason(observation: ObservableState, triggers: Trigger[]): Promise<Decision>;
 
+  /**
+   * Decide without deep reasoning, following the current plan
+   * Used while a slow reason() call has not finished
+   */
+  continuePlan(observation: ObservableState): Decision;
+
   /**
    * Convert decision to executable actions
    * Validates actions before returning
@@ -118,6 +136,18 @@ export interface IAgent {
    */
   onActionResults(results: ActionResult[]): void;
 
+  /**
+   * Called when a ship owned by this agent appears in the world
+   * (e.g. a shipyard order completed)
+   */
+  onShipAcquired(shipId: ShipId, tick: number): void;
+
+  /**
+   * Called when a ship this agent tracked no longer belongs to it
+   * (e.g. seized by creditors)
+   */
+  onShipLost(shipId: ShipId, tick: number): void;
+
   /**
    * Called at start of each tick before observation
    */
@@ -127,6 +157,16 @@ export interface IAgent {
    * Called at end of each tick after all actions
    */
   onTickEnd(tick: number): void;
+
+  /**
+   * Capture internal state for save/load
+   */
+  snapshot(): AgentSnapshot;
+
+  /**
+   * Restore internal state captured by snapshot()
+   */
+  restore(snapshot: AgentSnapshot): void;
 }
 
 /**
@@ -166,6 +206,10 @@ export abstract class BaseAgent implements IAgent {
 
   abstract act(decision: Decision): Action[];
 
+  continuePlan(_observation: ObservableState): Decision {
+    return { actions: [] };
+  }
+
   getState(): AgentState {
     return this.state;
   }
@@ -178,6 +222,28 @@ export abstract class BaseAgent implements IAgent {
     // Override in subclasses
   }
 
+  onShipAcquired(shipId: ShipId, _tick: number): void {
+    if (!this.state.assets.shipIds.includes(shipId)) {
+      this.state = {
+        ...this.state,
+        assets: {
+          ...this.state.assets,
+          shipIds: [...this.state.assets.shipIds, shipId],
+        },
+      };
+    }
+  }
+
+  onShipLost(shipId: ShipId, _tick: number): void {
+    this.state = {
+      ...this.state,
+      assets: {
+        ...this.state.assets,
+        shipIds: this.state.assets.shipIds.filter((id) => id !== shipId),
+      },
+    };
+  }
+
   onTickStart(_tick: number): void {
     // Override in subclasses
   }
@@ -186,6 +252,35 @@ export abstract class BaseAgent implements IAgent {
     // Override in subclasses
   }
 
+  snapshot(): AgentSnapshot {
+    return {
+      id: this.id,
+      state: structuredClone(this.state),
+      memory: structuredClone(this.memory),
+      extra: this.snapshotExtra(),
+    };
+  }
+
+  restore(snapshot: AgentSnapshot): void {
+    this.state = structuredClone(snapshot.state);
+    this.memory = structuredClone(snapshot.memory);
+    this.restoreExtra(snapshot.extra);
+  }
+
+  /**
+   * Agent-specific internals to include in snapshots
+   */
+  protected snapshotExtra(): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * Restore agent-specific internals from a snapshot
+   */
+  protected restoreExtra(_extra: Record<string, unknown>): void {
+    // Override in subclasses
+  }
+
   /**
    * Record a decision in memory
    */
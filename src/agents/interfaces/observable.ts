@@ -13,9 +13,28 @@ import type {
   WorldEvent,
   Vector2,
   ShipState,
+  ShipyardId,
   PriceKnowledge,
+  IslandPolicy,
+  EcosystemState,
+  FactionId,
+  Season,
 } from '../../core/types.js';
-import { DEFAULT_CREDIT_CONFIG, DEFAULT_OPERATING_COSTS_CONFIG, DEFAULT_ISLAND_ECONOMY_CONFIG } from '../../core/world.js';
+import {
+  DEFAULT_CREDIT_CONFIG,
+  DEFAULT_BANKRUPTCY_CONFIG,
+  DEFAULT_LENDING_CONFIG,
+  DEFAULT_OPERATING_COSTS_CONFIG,
+  DEFAULT_ISLAND_ECONOMY_CONFIG,
+  DEFAULT_WEATHER_CONFIG,
+  DEFAULT_SEASONS_CONFIG,
+} from '../../core/world.js';
+import { getShipyardStatus } from '../../systems/shipyard.js';
+import { getCreditRating } from '../../systems/lending.js';
+import { findAgentFaction } from '../../systems/factions.js';
+import { getSeaDistances } from '../../systems/navigation.js';
+import { getDaysUntilNextSeason } from '../../systems/seasons.js';
+import { forecastPortClosures, getClosedPorts, type PortClosureForecast } from '../../systems/weather.js';
 
 /**
  * Visibility configuration per agent type
@@ -120,6 +139,36 @@ export interface ObservableIsland {
    * Useful for identifying boom/bust trading opportunities
    */
   productionShocks?: Map<GoodId, { type: 'boom' | 'bust'; ticksRemaining: number }>;
+
+  // =========================================================================
+  // Island Governance
+  // =========================================================================
+
+  /** Island policy (quotas, tariffs, reserves) - public information */
+  policy?: IslandPolicy;
+  /** True if this agent is the island's governor */
+  isGoverned?: boolean;
+  /** Raw ecosystem state (governors of this island only) */
+  ecosystem?: EcosystemState;
+
+  // =========================================================================
+  // Sea Lanes
+  // =========================================================================
+
+  /** Sailing distance to other islands along sea lanes (Infinity = unreachable) */
+  seaDistances?: Map<IslandId, number>;
+}
+
+/**
+ * Sailing distance between two observed islands
+ * Uses sea-lane distances when the world has them, else the straight line
+ */
+export function getSailingDistance(from: ObservableIsland, to: ObservableIsland): number {
+  if (from.id === to.id) return 0;
+  return (
+    from.seaDistances?.get(to.id) ??
+    Math.hypot(to.position.x - from.position.x, to.position.y - from.position.y)
+  );
 }
 
 /**
@@ -203,6 +252,31 @@ export interface ObservableShip {
    * Estimated daily interest cost if debt remains unchanged
    */
   dailyInterestCost: number;
+
+  /**
+   * Ticks until creditors seize the ship (present only while debt exceeds its assets)
+   */
+  seizureInTicks?: number;
+}
+
+/**
+ * Observable shipyard (build queue status)
+ */
+export interface ObservableShipyard {
+  id: ShipyardId;
+  islandId: IslandId;
+  name: string;
+  /** True if a ship is currently under construction (new orders are rejected) */
+  isBuilding: boolean;
+  currentOrder: {
+    shipName: string;
+    blueprintId: string;
+    ownerId: AgentId;
+    isOwn: boolean; // Ordered by this agent
+    progress: number; // 0-1
+    ticksRemaining: number;
+  } | null;
+  totalShipsBuilt: number;
 }
 
 /**
@@ -217,6 +291,30 @@ export interface ObservableEvent {
   affectsAgent: boolean; // Directly affects this agent
 }
 
+/**
+ * Observable storm cell
+ */
+export interface ObservableStorm {
+  id: string;
+  position: { x: number; y: number };
+  radius: number;
+  velocity: { x: number; y: number }; // Map units per hour
+  remainingHours: number;
+}
+
+/**
+ * Weather report and forecast
+ */
+export interface ObservableWeather {
+  storms: ObservableStorm[];
+  /** Ports closed by a storm right now */
+  closedPorts: IslandId[];
+  /** Ports storms are forecast to close, soonest first (inHours 0 = closed now) */
+  portClosures: PortClosureForecast[];
+  /** How far ahead the forecast looks */
+  forecastHours: number;
+}
+
 /**
  * Agent's view of itself
  */
@@ -233,6 +331,15 @@ export interface SelfView {
     totalSteps: number;
   } | null;
   lastReasoningTick: number;
+  /** Trading company the agent belongs to, if any */
+  faction?: {
+    id: FactionId;
+    name: string;
+    treasury: number;
+    memberIds: AgentId[];
+  };
+  /** Credit rating with lenders, 0-1 (higher means cheaper loans) */
+  creditRating: number;
 }
 
 /**
@@ -245,6 +352,9 @@ export interface ObservableState {
   gameTime: {
     hour: number;
     day: number;
+    dayOfYear: number;
+    season: Season;
+    daysUntilNextSeason: number;
   };
 
   /** Islands visible to this agent */
@@ -253,9 +363,15 @@ export interface ObservableState {
   /** Ships the agent can see */
   ships: Map<ShipId, ObservableShip>;
 
+  /** Shipyards and their build queues */
+  shipyards: Map<ShipyardId, ObservableShipyard>;
+
   /** Events the agent is aware of */
   events: ObservableEvent[];
 
+  /** Storms and port closure forecast (absent for agents without a weather eye) */
+  weather?: ObservableWeather;
+
   /** Agent's view of itself */
   self: SelfView;
 
@@ -365,23 +481,38 @@ export class ObservableBuilder {
     // Aggregate price knowledge from all agent's ships (use most recent for each island)
     const aggregatedPriceKnowledge = this.aggregatePriceKnowledge(agentShips);
 
+    // Governors see their own island in real time
+    const governedIslands = new Set<IslandId>();
+    for (const [islandId, island] of world.islands) {
+      if (island.policy?.governorId === agentId) {
+        governedIslands.add(islandId);
+      }
+    }
+
     // Build islands with price discovery lag
     const islands = this.buildIslands(
       world,
       config,
       agentShipLocations,
       aggregatedPriceKnowledge,
-      world.tick
+      world.tick,
+      governedIslands
     );
 
     // Build ships
     const ships = this.buildShips(world, agentId, config);
 
+    // Build shipyards
+    const shipyards = this.buildShipyards(world, agentId);
+
     // Build events
     const events = this.buildEvents(world, agentId, config);
 
+    // Build weather report
+    const weather = config.seeGlobalEvents ? this.buildWeather(world) : undefined;
+
     // Build self view
-    const self = this.buildSelfView(agentId, agentType, agentName, agent, memory);
+    const self = this.buildSelfView(agentId, agentType, agentName, agent, memory, world);
 
     // Build metrics
     const metrics = this.buildMetrics(islands, world);
@@ -394,10 +525,15 @@ export class ObservableBuilder {
       gameTime: {
         hour: world.gameTime.gameHour,
         day: world.gameTime.gameDay,
+        dayOfYear: world.gameTime.dayOfYear,
+        season: world.gameTime.season,
+        daysUntilNextSeason: getDaysUntilNextSeason(world.gameTime.dayOfYear, DEFAULT_SEASONS_CONFIG),
       },
       islands,
       ships,
+      shipyards,
       events,
+      ...(weather && { weather }),
       self,
       metrics,
     };
@@ -435,13 +571,15 @@ export class ObservableBuilder {
     config: VisibilityConfig,
     agentLocations: Set<IslandId>,
     priceKnowledge: Map<IslandId, PriceKnowledge>,
-    currentTick: number
+    currentTick: number,
+    governedIslands: Set<IslandId> = new Set()
   ): Map<IslandId, ObservableIsland> {
     const result = new Map<IslandId, ObservableIsland>();
 
     for (const [islandId, island] of world.islands) {
       // Determine price visibility based on Price Discovery Lag
-      const isAtIsland = agentLocations.has(islandId);
+      const isGoverned = governedIslands.has(islandId);
+      const isAtIsland = agentLocations.has(islandId) || isGoverned;
       const knowledge = priceKnowledge.get(islandId);
 
       let prices: Map<GoodId, number>;
@@ -484,11 +622,27 @@ export class ObservableBuilder {
       // Add inventory based on visibility
       if (
         config.seeInventory === 'all' ||
-        (config.seeInventory === 'at_location' && agentLocations.has(islandId))
+        (config.seeInventory === 'at_location' && agentLocations.has(islandId)) ||
+        (config.seeInventory === 'own_island' && isGoverned)
       ) {
         observable.inventory = new Map(island.inventory);
       }
 
+      // Island governance: policies are public, raw ecosystem is for the governor
+      if (island.policy) {
+        observable.policy = {
+          ...island.policy,
+          harvestQuotas: new Map(island.policy.harvestQuotas),
+          reserves: new Map(island.policy.reserves),
+        };
+      }
+      if (isGoverned) {
+        observable.isGoverned = true;
+        if (config.seeEcosystem === 'full') {
+          observable.ecosystem = { ...island.ecosystem };
+        }
+      }
+
       // Add ecosystem indicators
       if (config.seeEcosystem !== 'none') {
         observable.ecosystemIndicators = {
@@ -552,6 +706,10 @@ export class ObservableBuilder {
         }
       }
 
+      if (world.seaLanes) {
+        observable.seaDistances = getSeaDistances(islandId, world.islands, world.seaLanes);
+      }
+
       result.set(islandId, observable);
     }
 
@@ -635,6 +793,12 @@ export class ObservableBuilder {
         debtRatio,
         interestRate: ship.interestRate || DEFAULT_CREDIT_CONFIG.interestRatePerTick,
         dailyInterestCost,
+        ...(ship.insolventSinceTick !== undefined && {
+          seizureInTicks: Math.max(
+            0,
+            ship.insolventSinceTick + DEFAULT_BANKRUPTCY_CONFIG.insolvencyGraceTicks - world.tick
+          ),
+        }),
       };
 
       result.set(shipId, observable);
@@ -643,6 +807,36 @@ export class ObservableBuilder {
     return result;
   }
 
+  private buildShipyards(
+    world: WorldState,
+    agentId: AgentId
+  ): Map<ShipyardId, ObservableShipyard> {
+    const result = new Map<ShipyardId, ObservableShipyard>();
+
+    for (const [shipyardId, shipyard] of world.shipyards ?? []) {
+      const status = getShipyardStatus(shipyard, world.tick);
+      const order = shipyard.currentOrder;
+
+      result.set(shipyardId, {
+        id: shipyardId,
+        islandId: shipyard.islandId,
+        name: shipyard.name,
+        isBuilding: status.isBuilding,
+        currentOrder:
+          order && status.currentBuild
+            ? {
+                ...status.currentBuild,
+                ownerId: order.ownerId,
+                isOwn: order.ownerId === agentId,
+              }
+            : null,
+        totalShipsBuilt: status.totalBuilt,
+      });
+    }
+
+    return result;
+  }
+
   private buildEvents(
     world: WorldState,
     agentId: AgentId,
@@ -676,6 +870,24 @@ export class ObservableBuilder {
     return result;
   }
 
+  private buildWeather(world: WorldState): ObservableWeather | undefined {
+    if (!world.weather) return undefined;
+
+    const forecastHours = DEFAULT_WEATHER_CONFIG.forecastHours;
+    return {
+      storms: world.weather.storms.map((storm) => ({
+        id: storm.id,
+        position: { ...storm.position },
+        radius: storm.radius,
+        velocity: { ...storm.velocity },
+        remainingHours: storm.endTick - world.tick,
+      })),
+      closedPorts: Array.from(getClosedPorts(world.islands, world.weather)),
+      portClosures: forecastPortClosures(world.weather, world.islands, forecastHours, world.tick),
+      forecastHours,
+    };
+  }
+
   private eventAffectsAgent(
     event: WorldEvent,
     agentId: AgentId,
@@ -710,8 +922,11 @@ export class ObservableBuilder {
     agentType: AgentType,
     agentName: string,
     agent: import('../../core/types.js').AgentState | undefined,
-    memory: import('./agent.js').AgentMemory
+    memory: import('./agent.js').AgentMemory,
+    world: WorldState
   ): SelfView {
+    const faction = findAgentFaction(world, agentId);
+
     return {
       id: agentId,
       type: agentType,
@@ -727,6 +942,15 @@ export class ObservableBuilder {
           }
         : null,
       lastReasoningTick: memory.lastReasoningTick,
+      faction: faction
+        ? {
+            id: faction.id,
+            name: faction.name,
+            treasury: faction.treasury,
+            memberIds: [...faction.memberIds],
+          }
+        : undefined,
+      creditRating: getCreditRating(world.lending, agentId, DEFAULT_LENDING_CONFIG),
     };
   }
 
@@ -0,0 +1,199 @@
+/**
+ * Player Agent
+ * Lets a person command ships alongside the AI agents
+ *
+ * Actions are submitted from outside (HTTP or WebSocket), checked with
+ * ActionValidator against the current world, and queued. Accepted actions
+ * run on the next tick through the normal AgentManager pipeline, where they
+ * are validated again against the world at execution time.
+ */
+
+import type { AgentId, AgentState, SimulationConfig, WorldState } from '../../core/types.js';
+import type { ObservableState } from '../interfaces/observable.js';
+import type { Action, ActionResult } from '../interfaces/action.js';
+import type { Decision } from '../interfaces/agent.js';
+import type { Trigger } from '../core/trigger-system.js';
+import { BaseAgent } from '../interfaces/agent.js';
+import { ObservableBuilder } from '../interfaces/observable.js';
+import { ActionValidator } from '../interfaces/action.js';
+import { DEFAULT_CONFIG as DEFAULT_SIM_CONFIG } from '../../core/world.js';
+
+/**
+ * Player agent configuration
+ */
+export interface PlayerAgentConfig {
+  /** Maximum actions waiting for the next tick */
+  maxQueuedActions: number;
+  /** Executed action results kept for the player to inspect */
+  maxRecentResults: number;
+  /** Config used to validate submitted actions */
+  simulationConfig: SimulationConfig;
+}
+
+const DEFAULT_CONFIG: PlayerAgentConfig = {
+  maxQueuedActions: 20,
+  maxRecentResults: 50,
+  simulationConfig: DEFAULT_SIM_CONFIG,
+};
+
+/**
+ * Outcome of submitting one action
+ */
+export interface PlayerSubmissionResult {
+  /** Position of the action in the submitted list */
+  index: number;
+  action: unknown;
+  accepted: boolean;
+  errors: string[];
+}
+
+/**
+ * Executed action result, tagged with the tick it ran on
+ */
+export interface PlayerActionRecord {
+  tick: number;
+  result: ActionResult;
+}
+
+/**
+ * Player Agent
+ * Queues externally submitted actions and executes them on the next tick
+ */
+export class PlayerAgent extends BaseAgent {
+  private observableBuilder: ObservableBuilder;
+  private validator: ActionValidator;
+  private config: PlayerAgentConfig;
+  private queue: Action[] = [];
+  private recentResults: PlayerActionRecord[] = [];
+  private currentTick: number = 0;
+
+  constructor(
+    id: AgentId,
+    name: string,
+    initialAssets: { cash: number; shipIds: string[] },
+    config: Partial<PlayerAgentConfig> = {}
+  ) {
+    const initialState: AgentState = {
+      id,
+      type: 'player',
+      name,
+      assets: initialAssets,
+    };
+
+    super(id, 'player', name, initialState);
+
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.validator = new ActionValidator(this.config.simulationConfig);
+    this.observableBuilder = new ObservableBuilder();
+  }
+
+  /**
+   * Submit actions for the next tick
+   * Each action is validated against the given world; only valid actions are queued
+   */
+  submitActions(actions: unknown[], world: WorldState): PlayerSubmissionResult[] {
+    return actions.map((action, index) => {
+      const errors = this.validateSubmission(action, world);
+      if (errors.length === 0) {
+        this.queue.push(action as Action);
+      }
+      return { index, action, accepted: errors.length === 0, errors };
+    });
+  }
+
+  /**
+   * Actions waiting for the next tick
+   */
+  getQueuedActions(): Action[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Most recent executed action results (oldest first)
+   */
+  getRecentResults(): PlayerActionRecord[] {
+    return [...this.recentResults];
+  }
+
+  /**
+   * Build observation from world state
+   */
+  observe(world: WorldState): ObservableState {
+    return this.observableBuilder.build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  /**
+   * Players decide for themselves; there is never anything to reason about
+   */
+  shouldReason(_observation: ObservableState, _triggers: Trigger[]): boolean {
+    return false;
+  }
+
+  /**
+   * Hand over the queued actions
+   */
+  async reason(observation: ObservableState, _triggers: Trigger[]): Promise<Decision> {
+    this.currentTick = observation.tick;
+    const actions = this.queue;
+    this.queue = [];
+
+    const decision: Decision = { actions };
+    if (actions.length > 0) {
+      this.recordDecision(observation.tick, decision);
+    }
+    return decision;
+  }
+
+  /**
+   * Convert decision to executable actions
+   */
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+
+  /**
+   * Keep executed results for the player to inspect
+   */
+  override onActionResults(results: ActionResult[]): void {
+    for (const result of results) {
+      this.recentResults.push({ tick: this.currentTick, result });
+    }
+    if (this.recentResults.length > this.config.maxRecentResults) {
+      this.recentResults = this.recentResults.slice(-this.config.maxRecentResults);
+    }
+  }
+
+  protected override snapshotExtra(): Record<string, unknown> {
+    return {
+      queue: structuredClone(this.queue),
+      currentTick: this.currentTick,
+    };
+  }
+
+  protected override restoreExtra(extra: Record<string, unknown>): void {
+    this.queue = Array.isArray(extra.queue) ? structuredClone(extra.queue as Action[]) : [];
+    this.currentTick = (extra.currentTick as number | undefined) ?? this.currentTick;
+    this.recentResults = [];
+  }
+
+  /**
+   * Check an untrusted submission: shape, queue space, then ActionValidator
+   */
+  private validateSubmission(action: unknown, world: WorldState): string[] {
+    if (typeof action !== 'object' || action === null || typeof (action as { type?: unknown }).type !== 'string') {
+      return ['Action must be an object with a string type'];
+    }
+    if (this.queue.length >= this.config.maxQueuedActions) {
+      return [`Action queue is full (${this.config.maxQueuedActions} actions)`];
+    }
+
+    try {
+      const validation = this.validator.validate(action as Action, world, this.id);
+      if (validation.valid) return [];
+      return validation.errors.length > 0 ? validation.errors : ['Invalid action'];
+    } catch {
+      // Malformed fields (e.g. missing transactions) make the validator throw
+      return [`Malformed ${(action as { type: string }).type} action`];
+    }
+  }
+}
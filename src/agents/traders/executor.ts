@@ -10,15 +10,25 @@
  * - Island treasury (purchasing power) checks
  */
 
-import type { GoodId, IslandId, TransportCostBreakdown } from '../../core/types.js';
+import type { GoodId, IslandId, ShipId, TransportCostBreakdown } from '../../core/types.js';
 import type {
   ObservableState,
   ObservableShip,
   ObservableIsland,
 } from '../interfaces/observable.js';
-import type { Action, Transaction } from '../interfaces/action.js';
-import { createTradeAction, createNavigateAction, createWaitAction } from '../interfaces/action.js';
-import type { Strategy, TraderMemory } from './memory.js';
+import { getSailingDistance } from '../interfaces/observable.js';
+import type { Action, Transaction, TransferFundsAction } from '../interfaces/action.js';
+import {
+  createTradeAction,
+  createNavigateAction,
+  createWaitAction,
+  createRepairAction,
+  createHireCrewAction,
+  createBorrowAction,
+  createRepayAction,
+  createTransferFundsAction,
+} from '../interfaces/action.js';
+import type { Strategy, TraderMemory, FleetPolicy } from './memory.js';
 import { DEFAULT_MARKET_DEPTH_CONFIG } from '../../core/world.js';
 
 /**
@@ -90,6 +100,10 @@ export interface ExecutorConfig {
   minDepthRatio: number;
   /** Maximum fraction of island treasury to expect as payment */
   maxTreasuryFraction: number;
+  /** Fleet upkeep/leverage policy used when the strategy does not set one */
+  fleetPolicy: FleetPolicy;
+  /** Working cash a faction ship keeps; surplus goes to the faction treasury */
+  treasuryFloat: number;
 }
 
 /**
@@ -125,6 +139,12 @@ const DEFAULT_CONFIG: ExecutorConfig = {
   maxPriceAge: 48, // 2 days before we really want to explore
   minDepthRatio: 0.5, // Need at least 50% of trade quantity in depth
   maxTreasuryFraction: 0.5, // Don't expect island to spend more than 50% treasury
+  fleetPolicy: {
+    repairBelow: 0.4, // Repair before the speed penalty bites
+    minCrewRatio: 0.5, // Keep ships at least half crewed
+    leverage: 'hold', // Neither borrow nor repay
+  },
+  treasuryFloat: 1500, // About one full hold of cargo; deposit above 2x, withdraw below half
 };
 
 /**
@@ -165,10 +185,23 @@ export class Executor {
       return { actions: [], reasoning: 'No ships to command' };
     }
 
+    // Treasury left for withdrawals this tick (deposits only land once applied)
+    let treasury = observation.self.faction?.treasury ?? 0;
+
     // Process each ship
     for (const ship of ownedShips) {
-      const shipDecision = this.processShip(ship, strategy, observation, memory);
+      const shipDecision = this.processShip(ship, this.strategyForShip(strategy, ship.id), observation, memory);
       actions.push(...shipDecision.actions);
+
+      if (observation.self.faction) {
+        const transfer = this.createTreasuryTransfer(ship, shipDecision.actions, treasury);
+        if (transfer) {
+          actions.push(transfer);
+          treasury += Math.min(0, transfer.amount);
+          shipDecision.reasoning += transfer.amount > 0 ? ', Depositing surplus' : ', Drawing on treasury';
+        }
+      }
+
       if (shipDecision.reasoning) {
         reasoning.push(`${ship.name}: ${shipDecision.reasoning}`);
       }
@@ -181,6 +214,54 @@ export class Executor {
     };
   }
 
+  /**
+   * Narrow the strategy to the route the fleet plan gave this ship
+   * Unassigned ships work the whole route list
+   */
+  private strategyForShip(strategy: Strategy | null, shipId: ShipId): Strategy | null {
+    const routeIndex = strategy?.shipAssignments?.[shipId];
+    const route = routeIndex !== undefined ? strategy?.targetRoutes[routeIndex] : undefined;
+    if (!strategy || !route) return strategy;
+
+    return { ...strategy, targetRoutes: [route] };
+  }
+
+  /**
+   * Balance a faction ship's cash against the shared treasury
+   * Surplus is deposited once the ship is out of debt and has no other spending
+   * this tick; ships running short withdraw
+   */
+  private createTreasuryTransfer(
+    ship: ObservableShip,
+    shipActions: Action[],
+    treasury: number
+  ): TransferFundsAction | null {
+    const float = this.config.treasuryFloat;
+    // Purchases, repairs and hires are priced when applied, so the ship keeps its cash for them
+    const spending = shipActions.some(
+      (a) =>
+        (a.type === 'trade' && a.transactions.some((tx) => tx.quantity > 0)) ||
+        a.type === 'repair' ||
+        a.type === 'hire_crew' ||
+        a.type === 'order_ship' ||
+        a.type === 'build_building' ||
+        a.type === 'upgrade_building'
+    );
+    const repaid = shipActions.reduce((sum, a) => sum + (a.type === 'repay' ? a.amount : 0), 0);
+    const surplus = ship.cash - repaid - float;
+
+    // Cash still owed to lenders stays aboard (the treasury does not count towards solvency)
+    if (!spending && ship.debt - repaid <= 0 && surplus > float) {
+      return createTransferFundsAction(ship.id, surplus);
+    }
+
+    if (ship.cash < float / 2 && treasury > 0) {
+      return createTransferFundsAction(ship.id, -Math.min(float - ship.cash, treasury));
+    }
+
+    return null;
+  }
+
   /**
    * Process a single ship
    */
@@ -204,6 +285,14 @@ export class Executor {
 
     const actions: Action[] = [];
     const reasoning: string[] = [];
+    const policy = strategy?.fleetPolicy ?? this.config.fleetPolicy;
+
+    // 0. Fleet upkeep: repairs, crew and borrowing (strategic choices, not automatic)
+    const upkeepActions = this.createUpkeepActions(ship, island, policy);
+    if (upkeepActions.length > 0) {
+      actions.push(...upkeepActions);
+      reasoning.push(`Upkeep (${upkeepActions.map((a) => a.type).join(', ')})`);
+    }
 
     // 1. Sell cargo if profitable or if at destination
     if (this.config.sellFirst && ship.cargo.size > 0) {
@@ -221,6 +310,15 @@ export class Executor {
       reasoning.push('Buying goods');
     }
 
+    // 2.5. Pay down debt with cash not needed for purchases
+    if (policy.leverage === 'repay' && ship.debt > 0) {
+      const repayAction = this.createRepayAction(ship, island, buyAction);
+      if (repayAction) {
+        actions.push(repayAction);
+        reasoning.push('Repaying debt');
+      }
+    }
+
     // 3. Navigate if we have a destination
     const navAction = this.createNavigateAction(ship, islandId, strategy, observation);
     if (navAction) {
@@ -240,6 +338,62 @@ export class Executor {
     };
   }
 
+  /**
+   * Create repair, hire-crew and borrow actions according to the fleet policy
+   */
+  private createUpkeepActions(
+    ship: ObservableShip,
+    island: ObservableIsland,
+    policy: FleetPolicy
+  ): Action[] {
+    const actions: Action[] = [];
+
+    // Repair if hull condition is below policy threshold and timber is on hand
+    const timber = island.inventory?.get('timber') ?? 0;
+    if (ship.condition < policy.repairBelow && timber > 0 && ship.cash > 0) {
+      actions.push(createRepairAction(ship.id, island.id, 1));
+    }
+
+    // Top up crew if understaffed
+    if (ship.crew.capacity > 0 && ship.crew.count / ship.crew.capacity < policy.minCrewRatio && ship.cash > 0) {
+      actions.push(createHireCrewAction(ship.id, island.id, ship.crew.capacity - ship.crew.count));
+    }
+
+    // Borrow enough to cover two days of operating costs when cash runs short
+    if (policy.leverage === 'borrow' && ship.availableCredit > 0) {
+      const shortfall = ship.dailyOperatingCost * 2 - ship.cash;
+      if (shortfall > 0) {
+        actions.push(createBorrowAction(ship.id, Math.min(shortfall, ship.availableCredit)));
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Repay debt with cash left after the reserve and this tick's purchases
+   */
+  private createRepayAction(
+    ship: ObservableShip,
+    island: ObservableIsland,
+    buyAction: Action | null
+  ): Action | null {
+    let plannedSpend = 0;
+    if (buyAction?.type === 'trade') {
+      for (const tx of buyAction.transactions) {
+        if (tx.quantity > 0) {
+          plannedSpend += tx.quantity * (island.prices.get(tx.goodId) ?? 0);
+        }
+      }
+    }
+
+    const spareCash = ship.cash * (1 - this.config.cashReserve) - plannedSpend;
+    const amount = Math.min(ship.debt, spareCash);
+    if (amount <= 0) return null;
+
+    return createRepayAction(ship.id, amount);
+  }
+
   /**
    * Create sell transactions for current cargo
    * Updated for Economic Model V2 with treasury-aware quantity limiting
@@ -578,6 +732,11 @@ export class Executor {
     strategy: Strategy | null,
     observation: ObservableState
   ): Action | null {
+    // Can't leave while a storm has closed the port
+    if (observation.weather?.closedPorts.includes(currentIsland)) {
+      return null;
+    }
+
     // Don't navigate if we have cargo to sell here
     if (ship.cargo.size > 0) {
       const island = observation.islands.get(currentIsland);
@@ -767,9 +926,10 @@ export class Executor {
   ): ProfitEvaluation {
     const buyPrice = fromIsland.prices.get(goodId) ?? 0;
     const sellPrice = toIsland.prices.get(goodId) ?? 0;
+    const distance = getSailingDistance(fromIsland, toIsland);
 
-    // Base case: no profit possible
-    if (buyPrice <= 0 || sellPrice <= buyPrice) {
+    // Base case: no profit possible (or no sea route)
+    if (buyPrice <= 0 || sellPrice <= buyPrice || !Number.isFinite(distance)) {
       return {
         profitable: false,
         netMargin: 0,
@@ -785,11 +945,8 @@ export class Executor {
     }
 
     // =========================================================================
-    // Calculate distance and trip time
+    // Calculate trip time
     // =========================================================================
-    const dx = toIsland.position.x - fromIsland.position.x;
-    const dy = toIsland.position.y - fromIsland.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
     const shipSpeed = ship?.speed ?? 10; // Default speed if no ship provided
     const tripHours = distance / shipSpeed;
     const tripDays = tripHours / 24;
@@ -914,10 +1071,7 @@ export class Executor {
     toIsland: ObservableIsland,
     cargoVolume: number
   ): TransportCostBreakdown {
-    // Calculate distance
-    const dx = toIsland.position.x - fromIsland.position.x;
-    const dy = toIsland.position.y - fromIsland.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
+    const distance = getSailingDistance(fromIsland, toIsland);
 
     const config = this.config.shippingCosts;
     const fixedCost = config.baseVoyageCost;
@@ -0,0 +1,186 @@
+/**
+ * Trader Lessons
+ * Compact summaries of what a trader learned in a run
+ *
+ * Lessons are persisted per agent ID at the end of each run and merged
+ * into the strategist prompt of later runs, so LLM traders can carry
+ * experience (good and bad routes, perishable goods, blind spots in
+ * their price knowledge) from one run to the next.
+ */
+
+import type { GoodId, IslandId } from '../../core/types.js';
+
+/**
+ * Realised profit on one route and good
+ */
+export interface RouteLesson {
+  from: IslandId;
+  to: IslandId;
+  goodId: GoodId;
+  /** Sell trades matched to an earlier purchase */
+  trades: number;
+  quantity: number;
+  profit: number;
+}
+
+/**
+ * Cargo lost between purchase and sale (spoilage, storms)
+ */
+export interface CargoLossLesson {
+  goodId: GoodId;
+  quantity: number;
+  /** Purchase value of the lost cargo */
+  value: number;
+}
+
+/**
+ * How often an island's prices were stale when observed
+ */
+export interface PriceFreshnessLesson {
+  islandId: IslandId;
+  observations: number;
+  stale: number;
+}
+
+/**
+ * Lessons from one or more runs
+ */
+export interface TraderLessons {
+  /** Number of runs merged into these lessons */
+  runs: number;
+  /** Total realised trade profit */
+  profit: number;
+  routes: RouteLesson[];
+  cargoLosses: CargoLossLesson[];
+  priceFreshness: PriceFreshnessLesson[];
+}
+
+/**
+ * Islands whose prices were stale at least this often are reported
+ */
+const STALE_RATIO_THRESHOLD = 0.5;
+
+export function createEmptyLessons(): TraderLessons {
+  return { runs: 0, profit: 0, routes: [], cargoLosses: [], priceFreshness: [] };
+}
+
+export function routeKey(from: IslandId, to: IslandId, goodId: GoodId): string {
+  return `${from}>${to}>${goodId}`;
+}
+
+/**
+ * Combine lessons from several runs (e.g. newest first from the database)
+ */
+export function mergeLessons(a: TraderLessons, b: TraderLessons): TraderLessons {
+  const routes = new Map<string, RouteLesson>();
+  for (const route of [...a.routes, ...b.routes]) {
+    const key = routeKey(route.from, route.to, route.goodId);
+    const existing = routes.get(key);
+    routes.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            trades: existing.trades + route.trades,
+            quantity: existing.quantity + route.quantity,
+            profit: existing.profit + route.profit,
+          }
+        : { ...route }
+    );
+  }
+
+  const losses = new Map<GoodId, CargoLossLesson>();
+  for (const loss of [...a.cargoLosses, ...b.cargoLosses]) {
+    const existing = losses.get(loss.goodId);
+    losses.set(
+      loss.goodId,
+      existing
+        ? { ...existing, quantity: existing.quantity + loss.quantity, value: existing.value + loss.value }
+        : { ...loss }
+    );
+  }
+
+  const freshness = new Map<IslandId, PriceFreshnessLesson>();
+  for (const entry of [...a.priceFreshness, ...b.priceFreshness]) {
+    const existing = freshness.get(entry.islandId);
+    freshness.set(
+      entry.islandId,
+      existing
+        ? { ...existing, observations: existing.observations + entry.observations, stale: existing.stale + entry.stale }
+        : { ...entry }
+    );
+  }
+
+  return sortLessons({
+    runs: a.runs + b.runs,
+    profit: a.profit + b.profit,
+    routes: Array.from(routes.values()),
+    cargoLosses: Array.from(losses.values()),
+    priceFreshness: Array.from(freshness.values()),
+  });
+}
+
+/**
+ * Order lessons deterministically: best routes, biggest losses, stalest islands first
+ */
+export function sortLessons(lessons: TraderLessons): TraderLessons {
+  return {
+    ...lessons,
+    routes: [...lessons.routes].sort(
+      (x, y) =>
+        y.profit - x.profit ||
+        routeKey(x.from, x.to, x.goodId).localeCompare(routeKey(y.from, y.to, y.goodId))
+    ),
+    cargoLosses: [...lessons.cargoLosses].sort(
+      (x, y) => y.value - x.value || x.goodId.localeCompare(y.goodId)
+    ),
+    priceFreshness: [...lessons.priceFreshness].sort(
+      (x, y) => staleRatio(y) - staleRatio(x) || x.islandId.localeCompare(y.islandId)
+    ),
+  };
+}
+
+function staleRatio(entry: PriceFreshnessLesson): number {
+  return entry.observations > 0 ? entry.stale / entry.observations : 0;
+}
+
+/**
+ * Format lessons for the strategist prompt
+ */
+export function formatLessons(lessons: TraderLessons, maxItems: number = 5): string {
+  const sorted = sortLessons(lessons);
+  const lines: string[] = [
+    `Runs: ${sorted.runs}, realised trade profit: ${sorted.profit.toFixed(0)} gold`,
+  ];
+
+  const describeRoute = (r: RouteLesson): string =>
+    `- ${r.from}→${r.to} ${r.goodId}: ${r.profit >= 0 ? '+' : ''}${r.profit.toFixed(0)} gold over ${r.trades} sales`;
+
+  const winners = sorted.routes.filter((r) => r.profit > 0).slice(0, maxItems);
+  if (winners.length > 0) {
+    lines.push('Profitable routes:', ...winners.map(describeRoute));
+  }
+
+  const losers = sorted.routes.filter((r) => r.profit < 0).reverse().slice(0, maxItems);
+  if (losers.length > 0) {
+    lines.push('Losing routes (avoid or reprice):', ...losers.map(describeRoute));
+  }
+
+  const losses = sorted.cargoLosses.filter((l) => l.quantity > 0).slice(0, maxItems);
+  if (losses.length > 0) {
+    lines.push(
+      'Cargo lost in transit (spoilage):',
+      ...losses.map((l) => `- ${l.goodId}: ${l.quantity.toFixed(0)} units (~${l.value.toFixed(0)} gold)`)
+    );
+  }
+
+  const stale = sorted.priceFreshness.filter((f) => staleRatio(f) >= STALE_RATIO_THRESHOLD).slice(0, maxItems);
+  if (stale.length > 0) {
+    lines.push(
+      'Islands with mostly stale prices (visit to refresh):',
+      ...stale.map((f) => `- ${f.islandId}: stale ${(staleRatio(f) * 100).toFixed(0)}% of the time`)
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -5,6 +5,14 @@
 
 import type { GoodId, IslandId, ShipId } from '../../core/types.js';
 import type { Plan } from '../interfaces/agent.js';
+import {
+  routeKey,
+  sortLessons,
+  type CargoLossLesson,
+  type PriceFreshnessLesson,
+  type RouteLesson,
+  type TraderLessons,
+} from './lessons.js';
 
 /**
  * Strategy set by the LLM strategist
@@ -24,6 +32,22 @@ export interface Strategy {
   reasoning: string;
   /** Valid until this tick (for re-evaluation) */
   validUntil: number;
+  /** Upkeep and leverage choices (executor defaults apply when absent) */
+  fleetPolicy?: FleetPolicy;
+  /** Route each owned ship works (index into targetRoutes) so ships don't collide */
+  shipAssignments?: Record<ShipId, number>;
+}
+
+/**
+ * How the fleet handles repairs, crewing and debt
+ */
+export interface FleetPolicy {
+  /** Repair docked ships whose condition falls below this (0-1) */
+  repairBelow: number;
+  /** Hire crew when a ship is below this fraction of crew capacity (0-1) */
+  minCrewRatio: number;
+  /** Debt stance: pay down debt, leave it alone, or borrow to fund trades */
+  leverage: 'repay' | 'hold' | 'borrow';
 }
 
 /**
@@ -49,6 +73,7 @@ export interface TradeRecord {
   price: number;
   type: 'buy' | 'sell';
   profit?: number; // Calculated when sold
+  fromIslandId?: IslandId; // Where sold goods were bought
 }
 
 /**
@@ -74,6 +99,14 @@ export interface PriceObservation {
   price: number;
 }
 
+interface PendingCargo {
+  tick: number;
+  price: number;
+  quantity: number;
+  /** Where the goods were bought (missing in older saves) */
+  islandId?: IslandId;
+}
+
 /**
  * Trader Memory - maintains context for LLM and rule-based decisions
  */
@@ -87,7 +120,15 @@ export class TraderMemory {
   /** Price observations for trend analysis */
   private priceHistory: PriceObservation[] = [];
   /** Pending cargo purchases (for profit calculation) */
-  private pendingCargo: Map<string, { tick: number; price: number; quantity: number }> = new Map();
+  private pendingCargo: Map<string, PendingCargo> = new Map();
+  /** Realised profit per route and good for this run (not capped like trades) */
+  private routeLessons: Map<string, RouteLesson> = new Map();
+  /** Purchased cargo that disappeared before it was sold */
+  private cargoLosses: Map<GoodId, CargoLossLesson> = new Map();
+  /** Price staleness per island */
+  private priceFreshness: Map<IslandId, PriceFreshnessLesson> = new Map();
+  /** Lessons carried over from previous runs */
+  private priorLessons: TraderLessons | null = null;
   /** Current plan from agent memory */
   currentPlan: Plan | null = null;
   /** Last reasoning tick */
@@ -144,12 +185,18 @@ export class TraderMemory {
         const totalQty = existing.quantity + trade.quantity;
         const avgPrice =
           (existing.price * existing.quantity + trade.price * trade.quantity) / totalQty;
-        this.pendingCargo.set(key, { tick: trade.tick, price: avgPrice, quantity: totalQty });
+        this.pendingCargo.set(key, {
+          tick: trade.tick,
+          price: avgPrice,
+          quantity: totalQty,
+          islandId: trade.islandId,
+        });
       } else {
         this.pendingCargo.set(key, {
           tick: trade.tick,
           price: trade.price,
           quantity: trade.quantity,
+          islandId: trade.islandId,
         });
       }
     } else if (trade.type === 'sell') {
@@ -160,6 +207,10 @@ export class TraderMemory {
         const profit = (trade.price - pending.price) * trade.quantity;
         // Update the trade record with profit
         trade.profit = profit;
+        if (pending.islandId) {
+          trade.fromIslandId = pending.islandId;
+          this.recordRouteProfit(pending.islandId, trade, profit);
+        }
 
         // Update pending quantity
         pending.quantity -= trade.quantity;
@@ -170,6 +221,92 @@ export class TraderMemory {
     }
   }
 
+  private recordRouteProfit(from: IslandId, trade: TradeRecord, profit: number): void {
+    const key = routeKey(from, trade.islandId, trade.goodId);
+    const lesson = this.routeLessons.get(key) ?? {
+      from,
+      to: trade.islandId,
+      goodId: trade.goodId,
+      trades: 0,
+      quantity: 0,
+      profit: 0,
+    };
+    this.routeLessons.set(key, {
+      ...lesson,
+      trades: lesson.trades + 1,
+      quantity: lesson.quantity + trade.quantity,
+      profit: lesson.profit + profit,
+    });
+  }
+
+  /**
+   * Compare a ship's cargo with what it bought and has not sold
+   * Any shortfall was lost at sea (spoilage, storms) and is written off
+   */
+  reconcileCargo(shipId: ShipId, cargo: Map<GoodId, number>): void {
+    const prefix = `${shipId}-`;
+    for (const [key, pending] of this.pendingCargo) {
+      if (!key.startsWith(prefix)) continue;
+
+      const goodId = key.slice(prefix.length);
+      const held = cargo.get(goodId) ?? 0;
+      if (held >= pending.quantity) continue;
+
+      const lost = pending.quantity - held;
+      const loss = this.cargoLosses.get(goodId) ?? { goodId, quantity: 0, value: 0 };
+      this.cargoLosses.set(goodId, {
+        goodId,
+        quantity: loss.quantity + lost,
+        value: loss.value + lost * pending.price,
+      });
+
+      pending.quantity = held;
+      if (pending.quantity <= 0) {
+        this.pendingCargo.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Record whether an island's prices were stale when observed
+   */
+  recordPriceFreshness(islandId: IslandId, stale: boolean): void {
+    const entry = this.priceFreshness.get(islandId) ?? { islandId, observations: 0, stale: 0 };
+    this.priceFreshness.set(islandId, {
+      islandId,
+      observations: entry.observations + 1,
+      stale: entry.stale + (stale ? 1 : 0),
+    });
+  }
+
+  /**
+   * Summarise this run's experience for future runs
+   */
+  summarizeLessons(): TraderLessons {
+    const routes = Array.from(this.routeLessons.values());
+    return sortLessons({
+      runs: 1,
+      profit: routes.reduce((sum, r) => sum + r.profit, 0),
+      routes: routes.map((r) => ({ ...r })),
+      cargoLosses: Array.from(this.cargoLosses.values()).map((l) => ({ ...l })),
+      priceFreshness: Array.from(this.priceFreshness.values()).map((f) => ({ ...f })),
+    });
+  }
+
+  /**
+   * Set lessons learned in previous runs
+   */
+  setPriorLessons(lessons: TraderLessons | null): void {
+    this.priorLessons = lessons;
+  }
+
+  /**
+   * Get lessons learned in previous runs
+   */
+  getPriorLessons(): TraderLessons | null {
+    return this.priorLessons;
+  }
+
   /**
    * Record a completed voyage
    */
@@ -241,6 +378,13 @@ Goal: ${strategy.primaryGoal}
 Risk: ${strategy.riskTolerance}
 Routes: ${strategy.targetRoutes.map((r) => `${r.from}→${r.to} (${r.goods.join(',')})`).join(', ')}
 Analysis: ${strategy.analysis}`);
+      if (strategy.fleetPolicy) {
+        const policy = strategy.fleetPolicy;
+        parts.push(
+          `Fleet policy: repair below ${(policy.repairBelow * 100).toFixed(0)}%, ` +
+            `crew at least ${(policy.minCrewRatio * 100).toFixed(0)}%, leverage: ${policy.leverage}`
+        );
+      }
     } else {
       parts.push('## No current strategy');
     }
@@ -300,6 +444,10 @@ Average profit: ${avgProfit.toFixed(0)} gold`);
       voyages: this.voyages,
       priceHistory: this.priceHistory,
       pendingCargo: Array.from(this.pendingCargo.entries()),
+      routeLessons: Array.from(this.routeLessons.entries()),
+      cargoLosses: Array.from(this.cargoLosses.entries()),
+      priceFreshness: Array.from(this.priceFreshness.entries()),
+      priorLessons: this.priorLessons,
       currentPlan: this.currentPlan,
       lastReasoningTick: this.lastReasoningTick,
       notes: this.notes,
@@ -317,6 +465,10 @@ Average profit: ${avgProfit.toFixed(0)} gold`);
     memory.voyages = parsed.voyages ?? [];
     memory.priceHistory = parsed.priceHistory ?? [];
     memory.pendingCargo = new Map(parsed.pendingCargo ?? []);
+    memory.routeLessons = new Map(parsed.routeLessons ?? []);
+    memory.cargoLosses = new Map(parsed.cargoLosses ?? []);
+    memory.priceFreshness = new Map(parsed.priceFreshness ?? []);
+    memory.priorLessons = parsed.priorLessons ?? null;
     memory.currentPlan = parsed.currentPlan ?? null;
     memory.lastReasoningTick = parsed.lastReasoningTick ?? 0;
     memory.notes = parsed.notes ?? [];
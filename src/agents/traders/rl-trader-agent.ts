@@ -0,0 +1,105 @@
+/**
+ * RL Trader Agent
+ * Trades with a Q-learning policy trained by `npm run train`
+ *
+ * Each tick every owned ship takes the best valid action for its encoded
+ * state. No LLM calls are made, so it serves as a learning baseline to
+ * benchmark LLM traders against.
+ */
+
+import type { AgentId, AgentState, WorldState } from '../../core/types.js';
+import type { ObservableState } from '../interfaces/observable.js';
+import type { Action } from '../interfaces/action.js';
+import type { Decision } from '../interfaces/agent.js';
+import type { Trigger } from '../core/trigger-system.js';
+import { BaseAgent } from '../interfaces/agent.js';
+import { ObservableBuilder } from '../interfaces/observable.js';
+import { ActionSpace, encodeShipState } from '../../rl/encoding.js';
+import { QLearner, type QPolicy } from '../../rl/q-learner.js';
+
+/**
+ * RL Trader Agent
+ */
+export class RLTraderAgent extends BaseAgent {
+  private observableBuilder: ObservableBuilder;
+  private learner: QLearner;
+  private actionSpace: ActionSpace | null = null;
+
+  constructor(
+    id: AgentId,
+    name: string,
+    initialAssets: { cash: number; shipIds: string[] },
+    policy: QPolicy
+  ) {
+    const initialState: AgentState = {
+      id,
+      type: 'trader',
+      name,
+      assets: initialAssets,
+    };
+
+    super(id, 'trader', name, initialState);
+
+    this.observableBuilder = new ObservableBuilder();
+    this.learner = QLearner.fromJSON(policy);
+  }
+
+  /**
+   * Build the action space for this world and check it matches the policy
+   */
+  override initialize(world: WorldState): void {
+    const actionSpace = ActionSpace.fromWorld(world);
+    if (actionSpace.size !== this.learner.actionCount) {
+      throw new Error(
+        `Policy has ${this.learner.actionCount} actions but this world needs ${actionSpace.size}; retrain on a matching world`
+      );
+    }
+    this.actionSpace = actionSpace;
+    super.initialize(world);
+  }
+
+  observe(world: WorldState): ObservableState {
+    return this.observableBuilder.build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  /**
+   * The policy is cheap to evaluate, so it runs every tick
+   */
+  shouldReason(_observation: ObservableState, _triggers: Trigger[]): boolean {
+    return true;
+  }
+
+  /**
+   * Pick the greedy policy action for every owned ship
+   */
+  async reason(observation: ObservableState, _triggers: Trigger[]): Promise<Decision> {
+    if (!this.actionSpace) {
+      throw new Error(`Agent ${this.id} must be initialized before reasoning`);
+    }
+
+    const actions: Action[] = [];
+    const shipIds = Array.from(observation.ships.values())
+      .filter((ship) => ship.isOwned)
+      .map((ship) => ship.id)
+      .sort();
+
+    for (const shipId of shipIds) {
+      const state = encodeShipState(observation, shipId);
+      const choice = this.learner.bestAction(state, this.actionSpace.validActions(observation, shipId));
+      const action = this.actionSpace.decode(choice, observation, shipId);
+      // Waiting is implicit; only send actions that change something
+      if (action && action.type !== 'wait') actions.push(action);
+    }
+
+    const decision: Decision = { actions };
+    if (actions.length > 0) {
+      this.recordDecision(observation.tick, decision);
+    }
+    this.markReasoning(observation.tick);
+    return decision;
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+}
@@ -9,12 +9,18 @@
  * - Factors in market depth and island treasury
  */
 
+import { z } from 'zod';
 import type { LLMClient } from '../../llm/client.js';
 import type { RateLimiter } from '../../llm/rate-limiter.js';
-import type { ObservableState } from '../interfaces/observable.js';
+import { completeStructured } from '../../llm/structured.js';
+import type { IslandId, ShipId } from '../../core/types.js';
+import type { ObservableShip, ObservableState } from '../interfaces/observable.js';
+import { getSailingDistance } from '../interfaces/observable.js';
 import type { Trigger } from '../core/trigger-system.js';
 import { TriggerType } from '../core/trigger-system.js';
-import type { TraderMemory, Strategy, TradeRoute } from './memory.js';
+import type { TraderMemory, Strategy, TradeRoute, FleetPolicy } from './memory.js';
+import { formatLessons } from './lessons.js';
+import { getNextSeason } from '../../systems/seasons.js';
 
 /**
  * Strategist configuration
@@ -36,21 +42,33 @@ const DEFAULT_CONFIG: StrategistConfig = {
 
 /**
  * Response format from LLM
+ * Island IDs are checked against the observation after validation
  */
-interface StrategyResponse {
-  analysis: string;
-  strategy: {
-    primaryGoal: 'profit' | 'stabilize' | 'explore';
-    targetRoutes: Array<{
-      from: string;
-      to: string;
-      goods: string[];
-      priority: number;
-    }>;
-    riskTolerance: 'low' | 'medium' | 'high';
-  };
-  reasoning: string;
-}
+export const StrategyResponseSchema = z.object({
+  analysis: z.string(),
+  strategy: z.object({
+    primaryGoal: z.enum(['profit', 'stabilize', 'explore']),
+    targetRoutes: z.array(
+      z.object({
+        from: z.string(),
+        to: z.string(),
+        goods: z.array(z.string()),
+        priority: z.number(),
+      })
+    ),
+    riskTolerance: z.enum(['low', 'medium', 'high']),
+    fleetPolicy: z
+      .object({
+        repairBelow: z.number().optional(),
+        minCrewRatio: z.number().optional(),
+        leverage: z.string().optional(),
+      })
+      .optional(),
+  }),
+  reasoning: z.string(),
+});
+
+export type StrategyResponse = z.infer<typeof StrategyResponseSchema>;
 
 /**
  * LLM Strategist - makes high-level trading decisions
@@ -81,7 +99,7 @@ export class Strategist {
     // Check rate limit
     if (!this.rateLimiter.canCall()) {
       // Return a default strategy when rate limited
-      return this.createDefaultStrategy(observation, memory);
+      return this.withFleetPlan(this.createDefaultStrategy(observation, memory), observation);
     }
 
     // Build the prompt
@@ -91,18 +109,96 @@ export class Strategist {
       // Record the call
       this.rateLimiter.recordCall();
 
-      // Call the LLM
-      const response = await this.llm.completeJSON<StrategyResponse>(prompt);
+      // Call the LLM, repairing invalid responses within the rate limiter's budget
+      const { data: response } = await completeStructured(this.llm, prompt, StrategyResponseSchema, {
+        label: 'strategy',
+        rateLimiter: this.rateLimiter,
+      });
 
-      // Validate and create strategy
+      // Create strategy from the validated response
       const strategy = this.parseResponse(response, observation);
+      strategy.shipAssignments = this.planFleet(strategy, observation);
       memory.recordStrategy(strategy);
 
       return strategy;
     } catch (error) {
       console.warn('[Strategist] LLM call failed, using default strategy:', error);
-      return this.createDefaultStrategy(observation, memory);
+      return this.withFleetPlan(this.createDefaultStrategy(observation, memory), observation);
+    }
+  }
+
+  /**
+   * Assign each owned ship a route so the fleet doesn't crowd one market
+   * Routes are taken in priority order; each goes to the nearest free ship
+   * (ships at the route's source first). Extra ships are spread round-robin.
+   */
+  planFleet(strategy: Strategy, observation: ObservableState): Record<ShipId, number> {
+    const assignments: Record<ShipId, number> = {};
+    if (strategy.targetRoutes.length === 0) return assignments;
+
+    const routeOrder = strategy.targetRoutes
+      .map((route, index) => ({ route, index }))
+      .sort((a, b) => a.route.priority - b.route.priority || a.index - b.index);
+
+    const freeShips = Array.from(observation.ships.values())
+      .filter((s) => s.isOwned)
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    for (const { route, index } of routeOrder) {
+      if (freeShips.length === 0) break;
+
+      let best = 0;
+      let bestDistance = Infinity;
+      freeShips.forEach((ship, i) => {
+        const distance = this.distanceToIsland(ship, route.from, observation);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = i;
+        }
+      });
+
+      const [ship] = freeShips.splice(best, 1);
+      assignments[ship.id] = index;
     }
+
+    freeShips.forEach((ship, i) => {
+      assignments[ship.id] = routeOrder[i % routeOrder.length].index;
+    });
+
+    return assignments;
+  }
+
+  /**
+   * Check whether any owned ship is missing a route (e.g. a newly launched ship)
+   */
+  needsFleetPlan(strategy: Strategy, observation: ObservableState): boolean {
+    if (strategy.targetRoutes.length === 0) return false;
+    return Array.from(observation.ships.values()).some(
+      (s) => s.isOwned && strategy.shipAssignments?.[s.id] === undefined
+    );
+  }
+
+  private withFleetPlan(strategy: Strategy, observation: ObservableState): Strategy {
+    strategy.shipAssignments = this.planFleet(strategy, observation);
+    return strategy;
+  }
+
+  /**
+   * Distance from a ship (its island, or its destination when at sea) to an island
+   */
+  private distanceToIsland(
+    ship: ObservableShip,
+    islandId: IslandId,
+    observation: ObservableState
+  ): number {
+    const anchorId = ship.location.islandId ?? ship.location.destination;
+    if (anchorId === islandId) return 0;
+
+    const anchor = anchorId ? observation.islands.get(anchorId) : undefined;
+    const target = observation.islands.get(islandId);
+    if (!anchor || !target) return Infinity;
+
+    return getSailingDistance(anchor, target);
   }
 
   /**
@@ -119,11 +215,18 @@ export class Strategist {
     const shipStatus = this.summarizeShips(observation);
     const financialStatus = this.summarizeFinancials(observation);
     const priceDataStatus = this.summarizePriceDataFreshness(observation);
+    const priorLessons = memory.getPriorLessons();
+    const lessonsSection = priorLessons
+      ? `\n## Lessons From Previous Runs\n${formatLessons(priorLessons)}\n`
+      : '';
+    const weatherSummary = this.summarizeWeather(observation);
+    const weatherSection = weatherSummary ? `\n## Weather\n${weatherSummary}\n` : '';
 
     return `You are an AI trading strategist in a maritime trading simulation. Analyze the market data and create a trading strategy.
 
 ## Current Situation
 Tick: ${observation.tick} (Day ${observation.gameTime.day}, Hour ${observation.gameTime.hour})
+Season: ${observation.gameTime.season} (day ${observation.gameTime.dayOfYear} of the year, ${getNextSeason(observation.gameTime.season)} in ${observation.gameTime.daysUntilNextSeason} days)
 Cash: ${observation.self.cash} gold
 Ships: ${observation.self.shipIds.length}
 
@@ -138,13 +241,13 @@ ${priceDataStatus}
 
 ## Ship Status
 ${shipStatus}
-
+${weatherSection}
 ## Triggers (why you're being consulted)
 ${triggerSummary}
 
 ## Your Memory
 ${memorySummary}
-
+${lessonsSection}
 ## Task
 Create a trading strategy. Consider:
 1. Price differences between islands (arbitrage opportunities)
@@ -155,6 +258,9 @@ Create a trading strategy. Consider:
 6. **Debt management** - If ships have debt, prioritize repayment
 7. **Price staleness** - Old price data may be inaccurate; consider exploration
 8. **Island purchasing power** - Islands have limited treasuries for buying goods
+9. **Fleet upkeep** - Repairs (timber + coins) and crew hiring (signing bonus) are your choice
+10. **Leverage** - Borrow against ship credit lines to fund trades, or repay to cut interest
+11. **Seasons** - Fish spawn in spring, grain is harvested in autumn, winter brings lean harvests and more storms
 
 IMPORTANT Economic Constraints:
 - Estimated profit must exceed operating costs for the voyage duration
@@ -171,7 +277,8 @@ Respond with valid JSON in this exact format:
     "targetRoutes": [
       {"from": "island_id", "to": "island_id", "goods": ["good1", "good2"], "priority": 1}
     ],
-    "riskTolerance": "low|medium|high"
+    "riskTolerance": "low|medium|high",
+    "fleetPolicy": {"repairBelow": 0.5, "minCrewRatio": 0.6, "leverage": "repay|hold|borrow"}
   },
   "reasoning": "1-2 sentences explaining your choice"
 }
@@ -182,6 +289,11 @@ Goal Selection Guide:
 - "stabilize": Conservative, prioritize debt repayment and cash flow
 - "explore": Visit islands with stale/unknown prices to update market knowledge
 
+Fleet Policy Guide:
+- repairBelow: docked ships below this condition (0-1) get repaired; low condition slows ships and risks sinking
+- minCrewRatio: hire crew when a ship falls below this fraction of crew capacity (0-1)
+- leverage: "repay" pays down debt with spare cash, "borrow" draws credit when cash is short, "hold" does neither
+
 Rules:
 - Only use island IDs from the market data
 - Only use goods that appear in the price data
@@ -215,6 +327,9 @@ Rules:
     lines.push(`Fleet Cash: ${totalCash.toFixed(0)} gold`);
     lines.push(`Fleet Debt: ${totalDebt.toFixed(0)} gold`);
     lines.push(`Available Credit: ${totalAvailableCredit.toFixed(0)} gold`);
+    lines.push(
+      `Credit Rating: ${(observation.self.creditRating * 100).toFixed(0)}% (repaying loans lowers future rates, defaults raise them)`
+    );
     lines.push(`Daily Operating Costs: ${totalDailyOperatingCost.toFixed(0)} gold/day`);
 
     // Calculate debt warnings
@@ -225,6 +340,15 @@ Rules:
       lines.push(`CAUTION: Moderate debt ratio (${(avgDebtRatio * 100).toFixed(0)}%) - be conservative`);
     }
 
+    // Ships facing foreclosure
+    for (const ship of ownedShips) {
+      if (ship.seizureInTicks !== undefined) {
+        lines.push(
+          `DANGER: ${ship.name} owes more than it is worth - creditors seize it in ${ship.seizureInTicks} ticks unless it recovers`
+        );
+      }
+    }
+
     // Daily interest cost
     const dailyInterest = ownedShips.reduce((sum, s) => sum + s.dailyInterestCost, 0);
     if (dailyInterest > 0) {
@@ -264,6 +388,30 @@ Rules:
     return lines.join('\n');
   }
 
+  /**
+   * Summarize storms and forecast port closures (empty when skies are clear)
+   */
+  private summarizeWeather(observation: ObservableState): string {
+    const weather = observation.weather;
+    if (!weather || weather.storms.length === 0) return '';
+
+    const lines = weather.storms.map(
+      (storm) =>
+        `Storm ${storm.id} at (${storm.position.x.toFixed(0)}, ${storm.position.y.toFixed(0)}), radius ${storm.radius.toFixed(0)}, ` +
+        `${storm.remainingHours}h left - ships inside sail slower and take damage`
+    );
+    for (const closure of weather.portClosures) {
+      const name = observation.islands.get(closure.islandId)?.name ?? closure.islandId;
+      lines.push(
+        closure.inHours === 0
+          ? `${name}: PORT CLOSED for ~${closure.forHours}h (no departures, arrivals wait offshore)`
+          : `${name}: port closes in ~${closure.inHours}h for ~${closure.forHours}h`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Summarize market prices for prompt (Economic Model V2 enhanced)
    */
@@ -412,9 +560,46 @@ Rules:
       analysis: response.analysis,
       reasoning: response.reasoning,
       validUntil: observation.tick + this.config.strategyValidityTicks,
+      fleetPolicy: this.parseFleetPolicy(response.strategy.fleetPolicy, response.strategy.primaryGoal),
+    };
+  }
+
+  /**
+   * Parse the LLM's fleet policy, clamping values and falling back to goal defaults
+   */
+  private parseFleetPolicy(
+    raw: StrategyResponse['strategy']['fleetPolicy'],
+    primaryGoal: Strategy['primaryGoal']
+  ): FleetPolicy {
+    const defaults = this.defaultFleetPolicy(primaryGoal);
+    if (!raw) return defaults;
+
+    const clamp01 = (value: unknown, fallback: number): number =>
+      typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+
+    const leverage =
+      raw.leverage === 'repay' || raw.leverage === 'hold' || raw.leverage === 'borrow'
+        ? raw.leverage
+        : defaults.leverage;
+
+    return {
+      repairBelow: clamp01(raw.repairBelow, defaults.repairBelow),
+      minCrewRatio: clamp01(raw.minCrewRatio, defaults.minCrewRatio),
+      leverage,
     };
   }
 
+  /**
+   * Default fleet policy for a goal
+   * Stabilizing fleets repair early and pay down debt; others hold their debt
+   */
+  private defaultFleetPolicy(primaryGoal: Strategy['primaryGoal']): FleetPolicy {
+    if (primaryGoal === 'stabilize') {
+      return { repairBelow: 0.6, minCrewRatio: 0.6, leverage: 'repay' };
+    }
+    return { repairBelow: 0.4, minCrewRatio: 0.5, leverage: 'hold' };
+  }
+
   /**
    * Create a default strategy when LLM is unavailable
    * Enhanced for Economic Model V2 with debt and staleness awareness
@@ -522,6 +707,7 @@ Rules:
       analysis: 'Default strategy (LLM unavailable)',
       reasoning,
       validUntil: observation.tick + this.config.strategyValidityTicks / 2,
+      fleetPolicy: this.defaultFleetPolicy(primaryGoal),
     };
   }
 
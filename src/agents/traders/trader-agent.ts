@@ -8,9 +8,9 @@
  * - Mock trader includes cost-aware trade routes
  */
 
-import type { AgentId, AgentState, WorldState } from '../../core/types.js';
+import type { AgentId, AgentState, ShipId, WorldState } from '../../core/types.js';
 import type { ObservableState } from '../interfaces/observable.js';
-import type { Action, ActionResult } from '../interfaces/action.js';
+import type { Action, ActionResult, TradeExecutionDetails } from '../interfaces/action.js';
 import type { AgentMemory, Decision, Plan, PlanStep } from '../interfaces/agent.js';
 import { BaseAgent } from '../interfaces/agent.js';
 import { ObservableBuilder } from '../interfaces/observable.js';
@@ -21,6 +21,7 @@ import { createMockLLMClient } from '../../llm/client.js';
 import type { RateLimiter } from '../../llm/rate-limiter.js';
 import { createRateLimiter } from '../../llm/rate-limiter.js';
 import { TraderMemory, type TradeRecord } from './memory.js';
+import type { TraderLessons } from './lessons.js';
 import { Strategist, type StrategistConfig } from './strategist.js';
 import { Executor, type ExecutorConfig } from './executor.js';
 
@@ -62,6 +63,8 @@ export class TraderAgent extends BaseAgent {
   private config: TraderAgentConfig;
   private currentTick: number = 0;
   private llmCallsThisSession: number = 0;
+  /** Strategy executions so far (late reasoning must not act after a newer one) */
+  private executions: number = 0;
 
   constructor(
     id: AgentId,
@@ -200,6 +203,7 @@ export class TraderAgent extends BaseAgent {
 
     // Check if we need LLM reasoning
     const needsLLM = this.shouldReason(observation, triggers);
+    const executionsBefore = this.executions;
 
     let strategy = this.traderMemory.getCurrentStrategy();
 
@@ -230,6 +234,44 @@ export class TraderAgent extends BaseAgent {
       }
     }
 
+    // The plan moved on while we waited for the LLM: keep the strategy, drop the stale actions
+    if (this.executions !== executionsBefore) {
+      return { actions: [] };
+    }
+
+    return this.executeStrategy(
+      strategy,
+      observation,
+      needsLLM ? this.triggerSystem.summarizeTriggers(triggers) : undefined
+    );
+  }
+
+  /**
+   * Keep executing the current strategy without consulting the LLM
+   */
+  override continuePlan(observation: ObservableState): Decision {
+    this.currentTick = observation.tick;
+    this.traderMemory.currentPlan = this.memory.currentPlan;
+    this.traderMemory.lastReasoningTick = this.memory.lastReasoningTick;
+
+    return this.executeStrategy(this.traderMemory.getCurrentStrategy(), observation);
+  }
+
+  /**
+   * Turn a strategy into this tick's actions with the rule-based executor
+   */
+  private executeStrategy(
+    strategy: ReturnType<TraderMemory['getCurrentStrategy']>,
+    observation: ObservableState,
+    triggerReason?: string
+  ): Decision {
+    this.executions++;
+
+    // New ships join the fleet plan without waiting for the next strategy
+    if (strategy && this.strategist.needsFleetPlan(strategy, observation)) {
+      strategy.shipAssignments = this.strategist.planFleet(strategy, observation);
+    }
+
     // Execute strategy with rule-based executor
     const execution = this.executor.execute(strategy, observation, this.traderMemory);
 
@@ -238,16 +280,15 @@ export class TraderAgent extends BaseAgent {
     this.updatePlan(plan);
     this.traderMemory.currentPlan = plan;
 
-    // Record prices for trend analysis
+    // Record prices for trend analysis, and cargo lost since the last tick
     this.recordPrices(observation);
+    this.reconcileCargo(observation);
 
     // Record decision
     const decision: Decision = {
       actions: execution.actions,
       plan: plan ?? undefined,
-      triggerReason: needsLLM
-        ? this.triggerSystem.summarizeTriggers(triggers)
-        : undefined,
+      triggerReason,
     };
 
     this.recordDecision(observation.tick, decision);
@@ -310,6 +351,30 @@ export class TraderAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Take command of a newly launched ship
+   */
+  override onShipAcquired(shipId: ShipId, tick: number): void {
+    super.onShipAcquired(shipId, tick);
+    this.traderMemory.addNote(`Tick ${tick}: New ship ${shipId} joined the fleet`);
+
+    if (this.config.debug) {
+      console.log(`[TraderAgent] ${this.name} took command of ${shipId}`);
+    }
+  }
+
+  /**
+   * Give up a ship seized by creditors
+   */
+  override onShipLost(shipId: ShipId, tick: number): void {
+    super.onShipLost(shipId, tick);
+    this.traderMemory.addNote(`Tick ${tick}: Ship ${shipId} was seized by creditors`);
+
+    if (this.config.debug) {
+      console.log(`[TraderAgent] ${this.name} lost ${shipId} to creditors`);
+    }
+  }
+
   /**
    * Called at start of each tick
    */
@@ -375,12 +440,24 @@ export class TraderAgent extends BaseAgent {
    */
   private recordPrices(observation: ObservableState): void {
     for (const [islandId, island] of observation.islands) {
+      this.traderMemory.recordPriceFreshness(islandId, island.pricesStale);
       for (const [goodId, price] of island.prices) {
         this.traderMemory.recordPrice(observation.tick, islandId, goodId, price);
       }
     }
   }
 
+  /**
+   * Check owned ships' cargo against unsold purchases
+   */
+  private reconcileCargo(observation: ObservableState): void {
+    for (const ship of observation.ships.values()) {
+      if (ship.isOwned) {
+        this.traderMemory.reconcileCargo(ship.id, ship.cargo);
+      }
+    }
+  }
+
   /**
    * Record trades from action result
    */
@@ -388,16 +465,17 @@ export class TraderAgent extends BaseAgent {
     if (result.action.type !== 'trade') return;
 
     const action = result.action;
+    const execution = result.details as Partial<TradeExecutionDetails> | undefined;
 
-    for (const tx of action.transactions) {
+    for (const fill of execution?.fills ?? []) {
       const record: TradeRecord = {
         tick: this.currentTick,
         shipId: action.shipId,
         islandId: action.islandId,
-        goodId: tx.goodId,
-        quantity: Math.abs(tx.quantity),
-        price: 0, // Would need to get from world state
-        type: tx.quantity > 0 ? 'buy' : 'sell',
+        goodId: fill.goodId,
+        quantity: Math.abs(fill.quantity),
+        price: fill.executionPrice,
+        type: fill.quantity > 0 ? 'buy' : 'sell',
       };
 
       this.traderMemory.recordTrade(record);
@@ -423,6 +501,20 @@ export class TraderAgent extends BaseAgent {
     };
   }
 
+  /**
+   * Summarise what this trader learned in the current run
+   */
+  summarizeLessons(): TraderLessons {
+    return this.traderMemory.summarizeLessons();
+  }
+
+  /**
+   * Carry lessons from previous runs into the strategist prompt
+   */
+  loadPriorLessons(lessons: TraderLessons | null): void {
+    this.traderMemory.setPriorLessons(lessons);
+  }
+
   /**
    * Get the trader memory for debugging/persistence
    */
@@ -430,6 +522,22 @@ export class TraderAgent extends BaseAgent {
     return this.traderMemory;
   }
 
+  protected override snapshotExtra(): Record<string, unknown> {
+    return {
+      traderMemory: this.traderMemory.serialize(),
+      currentTick: this.currentTick,
+      llmCallsThisSession: this.llmCallsThisSession,
+    };
+  }
+
+  protected override restoreExtra(extra: Record<string, unknown>): void {
+    if (typeof extra.traderMemory === 'string') {
+      this.traderMemory = TraderMemory.deserialize(extra.traderMemory);
+    }
+    this.currentTick = (extra.currentTick as number | undefined) ?? this.currentTick;
+    this.llmCallsThisSession = (extra.llmCallsThisSession as number | undefined) ?? 0;
+  }
+
   /**
    * Reset LLM rate limiter (for new session)
    */
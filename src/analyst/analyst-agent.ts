@@ -6,6 +6,7 @@
 import { LLMClient } from '../llm/client.js';
 import { createRateLimiter, type RateLimiter } from '../llm/rate-limiter.js';
 import { llmMetrics } from '../llm/metrics.js';
+import { completeStructured } from '../llm/structured.js';
 import type { SimulationDatabase } from '../storage/database.js';
 import {
   getRunSummary,
@@ -19,8 +20,8 @@ import {
   buildAnalysisPrompt,
   buildChatPrompt,
   buildImprovementPrompt,
-  parseAnalysisResponse,
-  parseImprovementResponse,
+  AnalysisResponseSchema,
+  ImprovementResponseSchema,
   type AnalysisResponse,
   type ImprovementResponse,
 } from './prompts.js';
@@ -106,7 +107,12 @@ export class EconomicAnalyst {
     const startTime = Date.now();
 
     try {
-      const response = await this.llmClient.complete(fullPrompt);
+      const { data: parsed, response } = await completeStructured(
+        this.llmClient,
+        fullPrompt,
+        AnalysisResponseSchema,
+        { label: 'analysis', rateLimiter: this.rateLimiter }
+      );
       const latency = Date.now() - startTime;
 
       if (this.debug) {
@@ -125,13 +131,6 @@ export class EconomicAnalyst {
         finishReason: response.finishReason,
       });
 
-      // Parse response
-      const parsed = parseAnalysisResponse(response.text);
-      if (!parsed) {
-        console.error('[Analyst] Failed to parse response');
-        return null;
-      }
-
       const analysis: RunAnalysis = {
         runId,
         analyzedAt: new Date(),
@@ -248,8 +247,11 @@ export class EconomicAnalyst {
     this.rateLimiter.recordCall();
 
     try {
-      const response = await this.llmClient.complete(fullPrompt);
-      return parseImprovementResponse(response.text);
+      const { data } = await completeStructured(this.llmClient, fullPrompt, ImprovementResponseSchema, {
+        label: 'improvement',
+        rateLimiter: this.rateLimiter,
+      });
+      return data;
     } catch (error) {
       console.error('[Analyst] Improvement suggestion failed:', error);
       return null;
@@ -36,6 +36,9 @@ const PATCHABLE_PATHS = new Set([
   'baseHealthDecay',
   'minHealthThreshold',
   'starvationThreshold',
+  'migrationConfig.deficitThresholdTicks',
+  'migrationConfig.famineRate',
+  'migrationConfig.minAttractivenessGap',
 
   // Ecosystem
   'fishMigrationConfig.migrationRate',
@@ -3,6 +3,7 @@
  * Specialized prompts for AI-powered economic analysis
  */
 
+import { z } from 'zod';
 import type { RunSummary, EcosystemReport, MarketEfficiencyMetrics, RouteAnalysis } from '../storage/analyst-queries.js';
 
 // ============================================================================
@@ -257,57 +258,42 @@ Format as JSON:
 // Response Parsing
 // ============================================================================
 
-export interface AnalysisResponse {
-  healthScore: number;
-  healthExplanation: string;
-  issues: Array<{
-    severity: 'critical' | 'warning' | 'info';
-    category: string;
-    description: string;
-    evidence: string[];
-  }>;
-  recommendations: Array<{
-    type: 'config';
-    title: string;
-    configPath: string;
-    currentValue: unknown;
-    suggestedValue: unknown;
-    rationale: string;
-    expectedImpact: string;
-    confidence: number;
-  }>;
-  summary: string;
-}
-
-export interface ImprovementResponse {
-  configPath: string;
-  currentValue: unknown;
-  suggestedValue: unknown;
-  rationale: string;
-  expectedImpact: string;
-  risks: string[];
-  confidence: number;
-}
-
-export function parseAnalysisResponse(text: string): AnalysisResponse | null {
-  try {
-    // Extract JSON from markdown code block if present
-    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-    const jsonStr = jsonMatch ? jsonMatch[1] : text;
-    return JSON.parse(jsonStr);
-  } catch {
-    console.error('Failed to parse analysis response');
-    return null;
-  }
-}
-
-export function parseImprovementResponse(text: string): ImprovementResponse | null {
-  try {
-    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-    const jsonStr = jsonMatch ? jsonMatch[1] : text;
-    return JSON.parse(jsonStr);
-  } catch {
-    console.error('Failed to parse improvement response');
-    return null;
-  }
-}
+export const AnalysisResponseSchema = z.object({
+  healthScore: z.number(),
+  healthExplanation: z.string(),
+  issues: z.array(
+    z.object({
+      severity: z.enum(['critical', 'warning', 'info']),
+      category: z.string(),
+      description: z.string(),
+      evidence: z.array(z.string()),
+    })
+  ),
+  recommendations: z.array(
+    z.object({
+      type: z.literal('config'),
+      title: z.string(),
+      configPath: z.string(),
+      currentValue: z.unknown(),
+      suggestedValue: z.unknown(),
+      rationale: z.string(),
+      expectedImpact: z.string(),
+      confidence: z.number(),
+    })
+  ),
+  summary: z.string(),
+});
+
+export type AnalysisResponse = z.infer<typeof AnalysisResponseSchema>;
+
+export const ImprovementResponseSchema = z.object({
+  configPath: z.string(),
+  currentValue: z.unknown(),
+  suggestedValue: z.unknown(),
+  rationale: z.string(),
+  expectedImpact: z.string(),
+  risks: z.array(z.string()),
+  confidence: z.number(),
+});
+
+export type ImprovementResponse = z.infer<typeof ImprovementResponseSchema>;
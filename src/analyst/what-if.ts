@@ -0,0 +1,334 @@
+/**
+ * What-If Forks
+ * Fork a run at a tick, change the fork's config or inject events, then run
+ * baseline and fork side by side and diff the outcome.
+ *
+ * Used to check the effect of an analyst recommendation before applying it
+ * to the live config.
+ */
+
+import type {
+  WorldState,
+  WorldEvent,
+  EventType,
+  EventModifiers,
+  IslandId,
+  GoodId,
+  AgentId,
+  SimulationConfig,
+} from '../core/types.js';
+import type { Simulation } from '../core/simulation.js';
+import type { AgentManager } from '../agents/core/agent-manager.js';
+import { createEvent } from '../systems/events.js';
+import { applyPatchToConfig, type ConfigPatch, type PatchResult } from './config-patcher.js';
+import {
+  createSave,
+  encodeSave,
+  decodeSave,
+  restoreSimulation,
+  type SimulationSave,
+} from '../storage/save-game.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Event to inject into the fork
+ */
+export interface WhatIfEvent {
+  type: EventType;
+  targetId: string;
+  duration: number;
+  /** Defaults to the first tick after the fork */
+  startTick?: number;
+  modifiers?: Partial<EventModifiers>;
+}
+
+export interface WhatIfOptions {
+  /** Tick to fork at (both branches share everything up to here) */
+  forkTick: number;
+  /** Ticks to run each branch after the fork */
+  horizonTicks: number;
+  /** Config patches applied to the fork only */
+  patches?: ConfigPatch[];
+  /** Events injected into the fork only */
+  events?: WhatIfEvent[];
+  /** Creates the agents for a branch with that branch's config (none when omitted) */
+  createAgents?: (world: WorldState, config: SimulationConfig) => AgentManager;
+}
+
+/**
+ * Baseline vs fork value
+ */
+export interface MetricDiff {
+  baseline: number;
+  fork: number;
+  delta: number;
+}
+
+export interface IslandDiff {
+  islandId: IslandId;
+  name: string;
+  population: MetricDiff;
+  health: MetricDiff;
+  fishStock: MetricDiff;
+  forestBiomass: MetricDiff;
+  soilFertility: MetricDiff;
+  treasury: MetricDiff;
+}
+
+export interface PriceDiff extends MetricDiff {
+  islandId: IslandId;
+  goodId: GoodId;
+  /** Relative change from baseline (0.1 = +10%) */
+  deltaPercent: number;
+}
+
+/**
+ * Trader P&L since the fork (change in ship cash minus debt)
+ */
+export interface TraderDiff {
+  agentId: AgentId;
+  pnl: MetricDiff;
+}
+
+export interface WhatIfResult {
+  forkTick: number;
+  endTick: number;
+  patches: PatchResult[];
+  events: WorldEvent[];
+  /** First tick where the branches' state hashes differ (null = never) */
+  divergedAtTick: number | null;
+  islands: IslandDiff[];
+  prices: PriceDiff[];
+  traders: TraderDiff[];
+}
+
+/**
+ * Error raised when a fork cannot be set up
+ */
+export class WhatIfError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'WhatIfError';
+  }
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+interface Branch {
+  simulation: Simulation;
+  agents: AgentManager | null;
+}
+
+function restoreBranch(save: SimulationSave, options: WhatIfOptions): Branch {
+  const simulation = restoreSimulation(save);
+  const agents = options.createAgents ? options.createAgents(simulation.getState(), simulation.getConfig()) : null;
+  agents?.restoreAgents(save.agents);
+  return { simulation, agents };
+}
+
+async function advance(branch: Branch, ticks: number): Promise<void> {
+  const { simulation, agents } = branch;
+  for (let i = 0; i < ticks; i++) {
+    simulation.tick();
+    if (!agents) continue;
+
+    const { newWorld } = await agents.processTick(simulation.getState());
+    if (newWorld !== simulation.getState()) {
+      simulation.updateState(newWorld);
+    }
+  }
+}
+
+/** Deep copy through the save encoding so branches share no references */
+function copySave(save: SimulationSave): SimulationSave {
+  return decodeSave(encodeSave(save));
+}
+
+const EVENT_TYPES: readonly EventType[] = ['storm', 'blight', 'festival', 'discovery'];
+
+function validateEvents(specs: WhatIfEvent[], world: WorldState): void {
+  const issues: string[] = [];
+  specs.forEach((spec, index) => {
+    if (!EVENT_TYPES.includes(spec.type)) {
+      issues.push(`events.${index}.type: Unknown event type '${spec.type}'`);
+    }
+    if (spec.targetId !== 'global' && !world.islands.has(spec.targetId) && !world.ships.has(spec.targetId)) {
+      issues.push(`events.${index}.targetId: Unknown target '${spec.targetId}'`);
+    }
+    if (typeof spec.duration !== 'number' || spec.duration < 1) {
+      issues.push(`events.${index}.duration: Must be at least 1 tick`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new WhatIfError('Invalid fork event', issues);
+  }
+}
+
+/**
+ * Apply patches to a copy of the config, failing if any patch is invalid
+ */
+function patchConfig(
+  config: SimulationConfig,
+  patches: ConfigPatch[]
+): { config: SimulationConfig; results: PatchResult[] } {
+  const patched = structuredClone(config) as unknown as Record<string, unknown>;
+  const results = patches.map((patch) => applyPatchToConfig(patched, patch));
+
+  const failed = results.filter((r) => !r.success);
+  if (failed.length > 0) {
+    throw new WhatIfError(
+      'Invalid config patch',
+      failed.map((r) => `${r.configPath}: ${r.error}`)
+    );
+  }
+
+  return { config: patched as unknown as SimulationConfig, results };
+}
+
+/**
+ * Fork a run and diff baseline against fork
+ *
+ * @param start - Save to start from (at or before the fork tick)
+ * @param options - Fork tick, horizon and the changes to make in the fork
+ */
+export async function runWhatIf(start: SimulationSave, options: WhatIfOptions): Promise<WhatIfResult> {
+  const { forkTick, horizonTicks } = options;
+  if (forkTick < start.tick) {
+    throw new WhatIfError(`Fork tick ${forkTick} is before the starting save (tick ${start.tick})`);
+  }
+  if (horizonTicks < 1) {
+    throw new WhatIfError('horizonTicks must be at least 1');
+  }
+
+  const { config, results: patches } = patchConfig(start.config, options.patches ?? []);
+  validateEvents(options.events ?? [], start.world);
+
+  // Shared history up to the fork
+  const prefix = restoreBranch(copySave(start), options);
+  await advance(prefix, forkTick - start.tick);
+  const forkSave = createSave(prefix.simulation, prefix.agents?.snapshotAgents() ?? []);
+
+  // Fork: patched config and injected events
+  const events = (options.events ?? []).map((spec, index) => ({
+    ...createEvent(spec.type, spec.targetId, spec.startTick ?? forkTick + 1, spec.duration, spec.modifiers),
+    id: `whatif_${forkTick}_${index}`,
+  }));
+
+  const forkedSave = copySave(forkSave);
+  forkedSave.config = config;
+  forkedSave.world.events = [...forkedSave.world.events, ...events];
+
+  const baseline = restoreBranch(copySave(forkSave), options);
+  const fork = restoreBranch(forkedSave, options);
+
+  await advance(baseline, horizonTicks);
+  await advance(fork, horizonTicks);
+
+  const baselineHistory = baseline.simulation.getTickHistory().slice(forkSave.tickHistory.length);
+  const forkHistory = fork.simulation.getTickHistory().slice(forkSave.tickHistory.length);
+  const divergedIndex = baselineHistory.findIndex((hash, i) => hash !== forkHistory[i]);
+
+  const startWorld = forkSave.world;
+  const baselineWorld = baseline.simulation.getState();
+  const forkWorld = fork.simulation.getState();
+
+  return {
+    forkTick,
+    endTick: baselineWorld.tick,
+    patches,
+    events,
+    divergedAtTick: divergedIndex === -1 ? null : forkTick + divergedIndex + 1,
+    islands: diffIslands(baselineWorld, forkWorld),
+    prices: diffPrices(baselineWorld, forkWorld),
+    traders: diffTraders(startWorld, baselineWorld, forkWorld),
+  };
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function diff(baseline: number, fork: number): MetricDiff {
+  return { baseline, fork, delta: fork - baseline };
+}
+
+function diffIslands(baseline: WorldState, fork: WorldState): IslandDiff[] {
+  const diffs: IslandDiff[] = [];
+
+  for (const [islandId, b] of baseline.islands) {
+    const f = fork.islands.get(islandId);
+    if (!f) continue;
+
+    diffs.push({
+      islandId,
+      name: b.name,
+      population: diff(b.population.size, f.population.size),
+      health: diff(b.population.health, f.population.health),
+      fishStock: diff(b.ecosystem.fishStock, f.ecosystem.fishStock),
+      forestBiomass: diff(b.ecosystem.forestBiomass, f.ecosystem.forestBiomass),
+      soilFertility: diff(b.ecosystem.soilFertility, f.ecosystem.soilFertility),
+      treasury: diff(b.treasury, f.treasury),
+    });
+  }
+
+  return diffs;
+}
+
+function diffPrices(baseline: WorldState, fork: WorldState): PriceDiff[] {
+  const diffs: PriceDiff[] = [];
+
+  for (const [islandId, b] of baseline.islands) {
+    const f = fork.islands.get(islandId);
+    if (!f) continue;
+
+    for (const [goodId, basePrice] of b.market.prices) {
+      const forkPrice = f.market.prices.get(goodId) ?? 0;
+      diffs.push({
+        islandId,
+        goodId,
+        ...diff(basePrice, forkPrice),
+        deltaPercent: basePrice > 0 ? (forkPrice - basePrice) / basePrice : 0,
+      });
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Net cash position per ship owner (ship cash minus debt)
+ */
+function traderNetCash(world: WorldState): Map<AgentId, number> {
+  const totals = new Map<AgentId, number>();
+  for (const ship of world.ships.values()) {
+    const net = ship.cash - ship.debt;
+    totals.set(ship.ownerId, (totals.get(ship.ownerId) ?? 0) + net);
+  }
+  return totals;
+}
+
+function diffTraders(start: WorldState, baseline: WorldState, fork: WorldState): TraderDiff[] {
+  const startCash = traderNetCash(start);
+  const baselineCash = traderNetCash(baseline);
+  const forkCash = traderNetCash(fork);
+
+  const agentIds = new Set([...baselineCash.keys(), ...forkCash.keys()]);
+  return Array.from(agentIds)
+    .sort()
+    .map((agentId) => {
+      const initial = startCash.get(agentId) ?? 0;
+      return {
+        agentId,
+        pnl: diff((baselineCash.get(agentId) ?? 0) - initial, (forkCash.get(agentId) ?? 0) - initial),
+      };
+    });
+}
@@ -0,0 +1,508 @@
+/**
+ * Procedural Archipelago Generator
+ * Builds a random but reproducible world from a seed
+ *
+ * Every random draw comes from a SeededRNG created from the seed, in a fixed
+ * order, so the same seed and options always produce the same world.
+ */
+
+import type {
+  WorldState,
+  IslandState,
+  ShipState,
+  AgentState,
+  ShipyardState,
+  IslandId,
+  ShipId,
+  AgentId,
+  FactionId,
+  FactionState,
+  ShipyardId,
+  GoodId,
+  Vector2,
+  EcosystemParams,
+  BuildingId,
+  Building,
+  ProductionShock,
+  SeaLaneGraph,
+} from './types.js';
+import { SeededRNG } from './rng.js';
+import {
+  MVP_GOODS,
+  DEFAULT_CREDIT_CONFIG,
+  ISLAND_ARCHETYPES,
+  createGoodsMap,
+  createDefaultCrew,
+  createDefaultIslandPolicy,
+  createFaction,
+  createInitialInventory,
+  createInitialMarket,
+  createProductionParams,
+  createLabourAllocation,
+  tickToGameTime,
+  type IslandArchetype,
+} from './world.js';
+import { createShipyard } from '../systems/shipyard.js';
+
+/**
+ * Options for archipelago generation
+ */
+export interface ArchipelagoOptions {
+  /** Number of islands to place */
+  islandCount: number;
+  /** Relative weight of each archetype (normalised; missing = 0) */
+  archetypeMix: Partial<Record<IslandArchetype, number>>;
+  /** Islands are placed inside a disc of this radius */
+  mapRadius: number;
+  /** Minimum distance between islands (default derived from radius and count) */
+  minIslandSpacing?: number;
+  /** Number of trader ships (owned by one trader agent) */
+  shipCount: number;
+  /** Generate a sea-lane graph (false = straight-line voyages) */
+  seaLanes: boolean;
+}
+
+export const DEFAULT_ARCHIPELAGO_OPTIONS: ArchipelagoOptions = {
+  islandCount: 10,
+  archetypeMix: {
+    fishing: 0.3,
+    agricultural: 0.3,
+    forest: 0.2,
+    industrial: 0.1,
+    luxury: 0.1,
+  },
+  mapRadius: 500,
+  shipCount: 5,
+  seaLanes: true,
+};
+
+/**
+ * Base ecosystem parameters per archetype (randomised ±20% per island)
+ */
+const ARCHETYPE_ECOSYSTEM: Record<IslandArchetype, EcosystemParams> = {
+  fishing: {
+    fishCapacity: 1000,
+    fishRegenRate: 0.025,
+    forestCapacity: 200,
+    forestRegenRate: 0.02,
+    soilRegenBase: 0.005,
+    soilDepletionRate: 0.01,
+  },
+  agricultural: {
+    fishCapacity: 300,
+    fishRegenRate: 0.015,
+    forestCapacity: 300,
+    forestRegenRate: 0.025,
+    soilRegenBase: 0.01,
+    soilDepletionRate: 0.008,
+  },
+  forest: {
+    fishCapacity: 200,
+    fishRegenRate: 0.01,
+    forestCapacity: 1000,
+    forestRegenRate: 0.04,
+    soilRegenBase: 0.008,
+    soilDepletionRate: 0.01,
+  },
+  industrial: {
+    fishCapacity: 300,
+    fishRegenRate: 0.015,
+    forestCapacity: 400,
+    forestRegenRate: 0.02,
+    soilRegenBase: 0.006,
+    soilDepletionRate: 0.012,
+  },
+  luxury: {
+    fishCapacity: 350,
+    fishRegenRate: 0.015,
+    forestCapacity: 250,
+    forestRegenRate: 0.02,
+    soilRegenBase: 0.008,
+    soilDepletionRate: 0.01,
+  },
+};
+
+/**
+ * Typical soil fertility per archetype
+ */
+const ARCHETYPE_SOIL: Record<IslandArchetype, number> = {
+  fishing: 0.25,
+  agricultural: 0.85,
+  forest: 0.4,
+  industrial: 0.35,
+  luxury: 0.6,
+};
+
+const NAME_PREFIXES = [
+  'Shoal', 'Green', 'Timber', 'Salt', 'Harrow', 'Pine', 'Coral', 'Mill', 'Elder', 'Ash',
+  'Storm', 'Gull', 'Iron', 'Amber', 'Silver', 'Mist', 'Reed', 'Stone', 'Copper', 'Willow',
+];
+const NAME_SUFFIXES = [
+  'hold', 'barrow', 'wake', 'mere', 'field', 'crest', 'reach', 'haven', 'wood', 'grove',
+  'port', 'isle', 'rock', 'fall', 'cove', 'strand',
+];
+const SHIP_NAMES = [
+  'Sea Trader', 'Wave Runner', 'Forest Spirit', 'Swift Current', 'Tide Walker',
+  'Gull Wing', 'Salt Wind', 'Morning Star', 'Driftwood', 'Lantern',
+];
+
+/**
+ * Scale a value by a random factor in [1 - spread, 1 + spread)
+ */
+function jitter(rng: SeededRNG, value: number, spread: number = 0.2): number {
+  return value * rng.randomRange(1 - spread, 1 + spread);
+}
+
+/**
+ * Generate a unique island name
+ */
+function generateIslandName(rng: SeededRNG, used: Set<string>): string {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const name = rng.pick(NAME_PREFIXES) + rng.pick(NAME_SUFFIXES);
+    if (!used.has(name)) {
+      used.add(name);
+      return name;
+    }
+  }
+  // Name space exhausted - number the fallback
+  const name = `${rng.pick(NAME_PREFIXES)}${rng.pick(NAME_SUFFIXES)} ${used.size + 1}`;
+  used.add(name);
+  return name;
+}
+
+/**
+ * Place islands at non-overlapping positions inside a disc
+ * Uses rejection sampling; relaxes spacing if the disc is too crowded.
+ */
+function placeIslands(
+  rng: SeededRNG,
+  count: number,
+  mapRadius: number,
+  minSpacing: number
+): Vector2[] {
+  const positions: Vector2[] = [];
+  let spacing = minSpacing;
+
+  while (positions.length < count) {
+    let placed = false;
+    for (let attempt = 0; attempt < 500 && !placed; attempt++) {
+      // Uniform sample in disc, offset so all coordinates are positive
+      const angle = rng.randomRange(0, 2 * Math.PI);
+      const r = mapRadius * Math.sqrt(rng.random());
+      const candidate = {
+        x: Math.round(mapRadius + r * Math.cos(angle)),
+        y: Math.round(mapRadius + r * Math.sin(angle)),
+      };
+
+      const clear = positions.every(
+        (p) => Math.hypot(p.x - candidate.x, p.y - candidate.y) >= spacing
+      );
+      if (clear) {
+        positions.push(candidate);
+        placed = true;
+      }
+    }
+    if (!placed) {
+      spacing *= 0.9;
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Assign archetypes matching the requested mix (largest remainder), shuffled
+ */
+function assignArchetypes(
+  rng: SeededRNG,
+  count: number,
+  mix: Partial<Record<IslandArchetype, number>>
+): IslandArchetype[] {
+  const weighted = ISLAND_ARCHETYPES.filter((a) => (mix[a] ?? 0) > 0);
+  if (weighted.length === 0) {
+    throw new Error('archetypeMix must give at least one archetype a positive weight');
+  }
+
+  const totalWeight = weighted.reduce((sum, a) => sum + (mix[a] ?? 0), 0);
+  const quotas = weighted.map((archetype) => {
+    const exact = (count * (mix[archetype] ?? 0)) / totalWeight;
+    return { archetype, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let assigned = quotas.reduce((sum, q) => sum + q.count, 0);
+  const byRemainder = [...quotas].sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; assigned < count; i++, assigned++) {
+    byRemainder[i % byRemainder.length].count++;
+  }
+
+  const archetypes: IslandArchetype[] = [];
+  for (const quota of quotas) {
+    for (let i = 0; i < quota.count; i++) archetypes.push(quota.archetype);
+  }
+  return rng.shuffle(archetypes);
+}
+
+/**
+ * Generate one island with randomised ecosystem, production and treasury
+ */
+function generateIsland(
+  rng: SeededRNG,
+  id: IslandId,
+  name: string,
+  position: Vector2,
+  archetype: IslandArchetype
+): IslandState {
+  const base = ARCHETYPE_ECOSYSTEM[archetype];
+  const ecosystemParams: EcosystemParams = {
+    fishCapacity: Math.round(jitter(rng, base.fishCapacity)),
+    fishRegenRate: jitter(rng, base.fishRegenRate),
+    forestCapacity: Math.round(jitter(rng, base.forestCapacity)),
+    forestRegenRate: jitter(rng, base.forestRegenRate),
+    soilRegenBase: jitter(rng, base.soilRegenBase),
+    soilDepletionRate: jitter(rng, base.soilDepletionRate),
+  };
+
+  const productionParams = createProductionParams(archetype);
+  for (const [goodId, rate] of productionParams.baseRate) {
+    productionParams.baseRate.set(goodId, jitter(rng, rate));
+  }
+
+  const populationSize = rng.randomInt(300, 700);
+
+  return {
+    id,
+    name,
+    position,
+    ecosystem: {
+      fishStock: Math.round(ecosystemParams.fishCapacity * rng.randomRange(0.6, 0.9)),
+      forestBiomass: Math.round(ecosystemParams.forestCapacity * rng.randomRange(0.5, 0.9)),
+      soilFertility: Math.min(1, jitter(rng, ARCHETYPE_SOIL[archetype], 0.15)),
+    },
+    ecosystemParams,
+    population: {
+      size: populationSize,
+      health: rng.randomRange(0.7, 0.9),
+      labour: createLabourAllocation(archetype),
+    },
+    inventory: createInitialInventory(archetype),
+    market: createInitialMarket(MVP_GOODS, archetype),
+    productionParams,
+    buildings: new Map<BuildingId, Building>(),
+    constructionOrders: [],
+    // Economic Model V2: Treasury around 10 coins per population
+    treasury: Math.round(populationSize * rng.randomRange(8, 12)),
+    treasuryIncome: 0,
+    treasuryExpenses: 0,
+    cumulativeExportRevenue: 0,
+    cumulativeImportCosts: 0,
+    productionShocks: new Map<GoodId, ProductionShock>(),
+    foodDeficitTicks: 0,
+    policy: createDefaultIslandPolicy(),
+  };
+}
+
+/**
+ * Generate a trader ship docked at an island
+ */
+function generateShip(rng: SeededRNG, index: number, islandId: IslandId): ShipState {
+  const capacity = rng.pick([60, 80, 90, 100]);
+
+  return {
+    id: `ship-${index + 1}`,
+    name: SHIP_NAMES[index % SHIP_NAMES.length],
+    ownerId: 'trader-alpha',
+    capacity,
+    speed: rng.randomInt(10, 15),
+    cash: capacity * 20,
+    cargo: new Map(),
+    location: { kind: 'at_island', islandId },
+    cumulativeTransportCosts: 0,
+    crew: createDefaultCrew(capacity),
+    condition: 1.0,
+    totalDistanceTraveled: 0,
+    spoilageLossThisVoyage: new Map(),
+    cumulativeSpoilageLoss: 0,
+    lastKnownPrices: new Map(),
+    debt: 0,
+    creditLimit:
+      capacity * DEFAULT_CREDIT_CONFIG.baseValuePerCapacity * DEFAULT_CREDIT_CONFIG.baseCreditMultiplier,
+    interestRate: DEFAULT_CREDIT_CONFIG.interestRatePerTick,
+    cumulativeInterestPaid: 0,
+  };
+}
+
+/**
+ * Generate sea lanes linking every island
+ * A minimum spanning tree keeps the archipelago connected, and each island is
+ * also linked to its two nearest neighbours. Roughly one lane in three gets a
+ * reef on it, with a waypoint detour around the reef as the safer route.
+ */
+function generateSeaLanes(rng: SeededRNG, islands: Map<IslandId, IslandState>): SeaLaneGraph {
+  const nodes = Array.from(islands.values());
+  const gap = (a: IslandState, b: IslandState) =>
+    Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y);
+
+  const pairs = new Map<string, [IslandState, IslandState]>();
+  const link = (a: IslandState, b: IslandState) => {
+    const [first, second] = a.id < b.id ? [a, b] : [b, a];
+    pairs.set(`${first.id}|${second.id}`, [first, second]);
+  };
+
+  // Prim's minimum spanning tree
+  const connected = new Set<IslandId>(nodes.length > 0 ? [nodes[0].id] : []);
+  while (connected.size < nodes.length) {
+    let best: [IslandState, IslandState] | null = null;
+    for (const a of nodes) {
+      if (!connected.has(a.id)) continue;
+      for (const b of nodes) {
+        if (connected.has(b.id)) continue;
+        if (!best || gap(a, b) < gap(best[0], best[1])) best = [a, b];
+      }
+    }
+    link(best![0], best![1]);
+    connected.add(best![1].id);
+  }
+
+  for (const a of nodes) {
+    const nearest = nodes
+      .filter((b) => b.id !== a.id)
+      .sort((b, c) => gap(a, b) - gap(a, c))
+      .slice(0, 2);
+    for (const b of nearest) link(a, b);
+  }
+
+  const graph: SeaLaneGraph = { waypoints: [], lanes: [], obstacles: [] };
+  const sortedPairs = Array.from(pairs.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  for (const [, [a, b]] of sortedPairs) {
+    const laneId = `lane-${a.id}-${b.id}`;
+    graph.lanes.push({
+      id: laneId,
+      from: a.id,
+      to: b.id,
+      danger: rng.randomRange(0, 0.3),
+      windFactor: rng.randomRange(0.8, 1.2),
+    });
+
+    if (!rng.randomBool(1 / 3)) continue;
+
+    // Reef part way along the lane, and a detour waypoint off to one side
+    const t = rng.randomRange(0.3, 0.7);
+    const radius = rng.randomRange(10, 25);
+    const center = {
+      x: a.position.x + (b.position.x - a.position.x) * t,
+      y: a.position.y + (b.position.y - a.position.y) * t,
+    };
+    graph.obstacles.push({
+      id: `reef-${graph.obstacles.length + 1}`,
+      kind: 'reef',
+      center,
+      radius,
+      danger: rng.randomRange(0.2, 0.5),
+    });
+
+    const length = Math.max(gap(a, b), 1);
+    const side = rng.randomBool(0.5) ? 1 : -1;
+    const offset = (radius + 20) * side;
+    const waypoint = {
+      id: `waypoint-${graph.waypoints.length + 1}`,
+      position: {
+        x: Math.round(center.x - ((b.position.y - a.position.y) / length) * offset),
+        y: Math.round(center.y + ((b.position.x - a.position.x) / length) * offset),
+      },
+    };
+    graph.waypoints.push(waypoint);
+    for (const end of [a, b]) {
+      graph.lanes.push({
+        id: `${laneId}-via-${waypoint.id}-${end.id}`,
+        from: end.id,
+        to: waypoint.id,
+        danger: rng.randomRange(0, 0.15),
+        windFactor: rng.randomRange(0.8, 1.2),
+      });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Generate a procedural archipelago
+ *
+ * @param seed - World seed (also becomes the simulation RNG state)
+ * @param options - Island count, archetype mix, map radius and fleet size
+ */
+export function generateArchipelago(
+  seed: number,
+  options: Partial<ArchipelagoOptions> = {}
+): WorldState {
+  const opts: ArchipelagoOptions = { ...DEFAULT_ARCHIPELAGO_OPTIONS, ...options };
+  if (!Number.isInteger(opts.islandCount) || opts.islandCount < 1) {
+    throw new Error(`islandCount must be a positive integer (got ${opts.islandCount})`);
+  }
+  if (opts.mapRadius <= 0) {
+    throw new Error(`mapRadius must be positive (got ${opts.mapRadius})`);
+  }
+
+  const rng = new SeededRNG(seed);
+
+  // Spread islands so roughly half the disc area is open sea
+  const minSpacing = opts.minIslandSpacing ?? (opts.mapRadius * 1.2) / Math.sqrt(opts.islandCount);
+  const positions = placeIslands(rng, opts.islandCount, opts.mapRadius, minSpacing);
+  const archetypes = assignArchetypes(rng, opts.islandCount, opts.archetypeMix);
+
+  const islands = new Map<IslandId, IslandState>();
+  const shipyards = new Map<ShipyardId, ShipyardState>();
+  const usedNames = new Set<string>();
+
+  for (let i = 0; i < opts.islandCount; i++) {
+    const name = generateIslandName(rng, usedNames);
+    const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    islands.set(id, generateIsland(rng, id, name, positions[i], archetypes[i]));
+
+    const shipyard = createShipyard(id, `${name} Docks`);
+    shipyards.set(shipyard.id, shipyard);
+  }
+
+  const islandIds = Array.from(islands.keys());
+  const ships = new Map<ShipId, ShipState>();
+  for (let i = 0; i < opts.shipCount; i++) {
+    const ship = generateShip(rng, i, islandIds[i % islandIds.length]);
+    ships.set(ship.id, ship);
+  }
+
+  const agents = new Map<AgentId, AgentState>();
+  const factions = new Map<FactionId, FactionState>();
+  if (ships.size > 0) {
+    agents.set('trader-alpha', {
+      id: 'trader-alpha',
+      type: 'trader',
+      name: 'Alpha Trader',
+      assets: { cash: 500, shipIds: Array.from(ships.keys()) },
+    });
+    factions.set('alpha-company', createFaction('alpha-company', 'Alpha Trading Co', ['trader-alpha']));
+  }
+
+  // Drawn last so lanes do not change the rest of a seed's world
+  const seaLanes = opts.seaLanes ? generateSeaLanes(rng, islands) : undefined;
+
+  return {
+    tick: 0,
+    gameTime: tickToGameTime(0),
+    rngState: seed,
+    islands,
+    ships,
+    shipyards,
+    events: [],
+    agents,
+    factions,
+    goods: createGoodsMap(MVP_GOODS),
+    economyMetrics: {
+      taxCollectedThisTick: 0,
+      totalTaxCollected: 0,
+      taxRedistributedThisTick: 0,
+      totalTaxRedistributed: 0,
+    },
+    ...(seaLanes && { seaLanes }),
+  };
+}
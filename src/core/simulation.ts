@@ -11,25 +11,33 @@ import type {
   SimulationConfig,
   ShipyardId,
   ShipId,
+  IslandId,
+  AgentId,
+  BuildingType,
+  BankruptcyRecord,
 } from './types.js';
-import { SeededRNG, hashState } from './rng.js';
+import { SeededRNG, hashState, type RNGState } from './rng.js';
 import { cloneWorldState, tickToGameTime, DEFAULT_CONFIG, initializeWorld } from './world.js';
 
 import { updateEcology, applyFishMigration, type HarvestData, type FishMigrationResult } from '../systems/ecology.js';
 import { updateProduction, type ProductionResult } from '../systems/production.js';
 import { updateConsumption, type ConsumptionResult } from '../systems/consumption.js';
-import { updatePopulation } from '../systems/population.js';
+import { updatePopulation, applyMigration, type MigrationResult } from '../systems/population.js';
 import { updateMarket } from '../systems/market.js';
 import { updateShip } from '../systems/shipping.js';
 import { generateEvents, updateEvents } from '../systems/events.js';
 import { updateCrew, type CrewUpdateResult } from '../systems/crew.js';
 import { updateAllShipyards } from '../systems/shipyard.js';
-import { updateBuildingMaintenance } from '../systems/buildings.js';
+import { updateBuildingMaintenance, updateConstruction } from '../systems/buildings.js';
 import { applyStorageSpoilage } from '../systems/storage.js';
 import { processOperatingCosts, type OperatingCostsResult } from '../systems/operating-costs.js';
 import { processCreditSystem, type CreditResult } from '../systems/credit.js';
+import { processBankruptcies } from '../systems/bankruptcy.js';
+import { processLending, settleDefaultedLoans } from '../systems/lending.js';
 import { regenerateDepth } from '../systems/market-depth.js';
 import { processSupplyShocks, type SupplyShockResult } from '../systems/supply-shocks.js';
+import { updateWeather, getClosedPorts, getShipStormEvents } from '../systems/weather.js';
+import { getSeasonModifiers } from '../systems/seasons.js';
 
 /**
  * Supply shock event for metrics
@@ -57,11 +65,28 @@ export interface TickMetrics {
   operatingCosts: Map<string, OperatingCostsResult>;
   creditActivity: Map<string, CreditResult>;
   shipyardCompletions: Array<{ shipyardId: ShipyardId; shipId: ShipId; shipName: string }>;
+  /** Building construction and upgrade orders completed this tick */
+  buildingCompletions: Array<{
+    islandId: IslandId;
+    buildingType: BuildingType;
+    level: number;
+    ownerId: AgentId;
+  }>;
   fishMigration: FishMigrationResult;
+  /** Population moving between islands this tick */
+  migration: MigrationResult;
   /** New supply shocks triggered this tick */
   supplyShocksTriggered: SupplyShockEvent[];
   /** Supply shocks that expired this tick */
   supplyShocksExpired: SupplyShockEvent[];
+  /** Storm cells that formed this tick */
+  stormsFormed: string[];
+  /** Storm cells that dissipated this tick */
+  stormsDissipated: string[];
+  /** Ports closed by storms this tick */
+  closedPorts: IslandId[];
+  /** Ships seized by creditors this tick */
+  bankruptcies: BankruptcyRecord[];
 }
 
 /**
@@ -88,16 +113,19 @@ export class Simulation {
 
   /**
    * Update world state (used for applying agent actions)
-   * Only modifies ships and islands since agent actions only affect those
+   * Only modifies ships, islands, shipyards and factions since agent actions only affect those
    */
   updateState(newState: WorldState): void {
-    // Copy over ships and islands from the new state
+    // Copy over ships, islands, shipyards, factions and loans from the new state
     // This preserves the tick, events, and other simulation state
-    // while applying agent action results (trades, navigation)
+    // while applying agent action results (trades, navigation, ship orders)
     this.state = {
       ...this.state,
       ships: newState.ships,
       islands: newState.islands,
+      shipyards: newState.shipyards,
+      factions: newState.factions,
+      ...(newState.lending && { lending: newState.lending }),
     };
   }
 
@@ -155,6 +183,23 @@ export class Simulation {
     return [...this.tickHistory];
   }
 
+  /**
+   * Get the full RNG state
+   * WorldState.rngState only carries s0, which is not enough to resume a run
+   */
+  getRNGState(): RNGState {
+    return this.rng.getState();
+  }
+
+  /**
+   * Restore RNG state and tick history from a save
+   * Together with the saved world state this resumes the run exactly
+   */
+  restoreRuntimeState(rngState: RNGState, tickHistory: string[]): void {
+    this.rng.setState(rngState);
+    this.tickHistory = [...tickHistory];
+  }
+
   /**
    * Execute one simulation tick
    * Returns metrics about what changed
@@ -173,15 +218,21 @@ export class Simulation {
       operatingCosts: new Map(),
       creditActivity: new Map(),
       shipyardCompletions: [],
+      buildingCompletions: [],
       fishMigration: { migrations: [], totalMigrated: 0 },
+      migration: { migrations: [], totalMigrants: 0 },
       supplyShocksTriggered: [],
       supplyShocksExpired: [],
+      stormsFormed: [],
+      stormsDissipated: [],
+      closedPorts: [],
+      bankruptcies: [],
     };
 
     // Clone state for immutable update
     const next = cloneWorldState(this.state);
     next.tick += 1;
-    next.gameTime = tickToGameTime(next.tick);
+    next.gameTime = tickToGameTime(next.tick, this.config.seasonsConfig);
 
     // Reset per-tick economy metrics
     if (next.economyMetrics) {
@@ -192,7 +243,7 @@ export class Simulation {
     // =========================================================================
     // 1. Generate and apply events
     // =========================================================================
-    const newEvents = generateEvents(next, this.rng, dt);
+    const newEvents = generateEvents(next, this.rng, dt, this.config.seasonsConfig);
     metrics.newEvents = newEvents.map((e) => `${e.type}@${e.targetId}`);
 
     // Track expired events
@@ -203,6 +254,26 @@ export class Simulation {
 
     next.events = updateEvents(next.events, newEvents, next.tick);
 
+    // =========================================================================
+    // 1.2. Weather - storm cells drift, form and dissipate
+    // =========================================================================
+    if (this.config.weatherConfig?.enabled) {
+      const weatherResult = updateWeather(
+        next.weather ?? { storms: [] },
+        next.islands,
+        this.rng,
+        next.tick,
+        dt,
+        this.config.weatherConfig,
+        getSeasonModifiers(next.gameTime.season, this.config.seasonsConfig).stormMultiplier
+      );
+      next.weather = weatherResult.weather;
+      metrics.stormsFormed = weatherResult.formed.map((storm) => storm.id);
+      metrics.stormsDissipated = weatherResult.dissipated;
+    }
+    const closedPorts = getClosedPorts(next.islands, next.weather);
+    metrics.closedPorts = Array.from(closedPorts);
+
     // =========================================================================
     // 1.5. Supply Shocks Processing (Economic Model V2)
     // Process supply shocks before production - check for new/expired shocks
@@ -254,7 +325,9 @@ export class Simulation {
         next.events,
         dt,
         next.tick,
-        () => this.rng.random()
+        () => this.rng.random(),
+        next.goods,
+        next.gameTime.season
       );
 
       // Track production
@@ -288,7 +361,14 @@ export class Simulation {
         fish: productionResult.harvested.get('fish') ?? 0,
         timber: productionResult.harvested.get('timber') ?? 0,
       };
-      const newEcosystem = updateEcology(island, harvestData, this.config, next.events, dt);
+      const newEcosystem = updateEcology(
+        island,
+        harvestData,
+        this.config,
+        next.events,
+        dt,
+        next.gameTime.season
+      );
 
       // 3.5 Storage spoilage (after production, before consumption)
       const islandAfterProduction: IslandState = {
@@ -371,6 +451,7 @@ export class Simulation {
         population: newPopulation,
         inventory: consumptionResult.newInventory,
         market: marketWithDepth,
+        foodDeficitTicks: consumptionResult.foodDeficit > 0 ? (island.foodDeficitTicks ?? 0) + 1 : 0,
       });
     }
 
@@ -381,6 +462,13 @@ export class Simulation {
     next.islands = fishMigrationResult.newIslands;
     metrics.fishMigration = fishMigrationResult.result;
 
+    // =========================================================================
+    // 6.6. Population migration - people leave famine-struck islands
+    // =========================================================================
+    const migrationResult = applyMigration(next.islands, this.config, dt);
+    next.islands = migrationResult.newIslands;
+    metrics.migration = migrationResult.result;
+
     // =========================================================================
     // 7. Building maintenance - condition decay and upkeep
     // =========================================================================
@@ -389,18 +477,39 @@ export class Simulation {
       next.islands.set(islandId, newIsland);
     }
 
+    // =========================================================================
+    // 7.5. Building construction - progress construction and upgrade orders
+    // =========================================================================
+    for (const [islandId, island] of next.islands) {
+      const { newIsland, completed } = updateConstruction(island, this.config, next.tick, dt);
+      next.islands.set(islandId, newIsland);
+      for (const order of completed) {
+        metrics.buildingCompletions.push({
+          islandId,
+          buildingType: order.buildingType,
+          level: order.targetLevel,
+          ownerId: order.ownerId,
+        });
+      }
+    }
+
     // =========================================================================
     // 8-9. Ship movement, spoilage, arrival, and transport costs (Track 02)
+    // Ships inside a storm cell get their own storm event; closed ports hold arrivals
     // =========================================================================
     for (const [shipId, ship] of next.ships) {
+      const stormEvents = this.config.weatherConfig
+        ? getShipStormEvents(ship, next.weather, this.config.weatherConfig)
+        : [];
       const { newShip, arrived, arrivedAt } = updateShip(
         ship,
         next.islands,
         next.goods,
-        next.events,
+        [...next.events, ...stormEvents],
         dt,
         this.config,
-        next.tick // Pass current tick for price discovery lag
+        next.tick, // Pass current tick for price discovery lag
+        closedPorts
       );
 
       if (arrived && arrivedAt) {
@@ -447,14 +556,46 @@ export class Simulation {
 
     // =========================================================================
     // 10.6. Credit/Debt System - interest, auto-borrow, auto-repay
+    // (through the lending market when enabled, otherwise the system lender)
     // =========================================================================
-    for (const [shipId, ship] of next.ships) {
-      const creditResult = processCreditSystem(ship, this.config, dt);
-      metrics.creditActivity.set(shipId, creditResult);
+    if (this.config.lendingConfig?.enabled) {
+      const lendingResult = processLending(next, this.config, next.tick, dt);
+      next.ships = lendingResult.book.ships;
+      next.islands = lendingResult.book.islands;
+      next.lending = lendingResult.book.lending;
+      metrics.creditActivity = lendingResult.creditActivity;
+    } else {
+      for (const [shipId, ship] of next.ships) {
+        const creditResult = processCreditSystem(ship, this.config, dt);
+        metrics.creditActivity.set(shipId, creditResult);
+
+        // Update ship with new credit state
+        next.ships.set(shipId, creditResult.newShip);
+      }
+    }
 
-      // Update ship with new credit state
-      next.ships.set(shipId, creditResult.newShip);
+    // =========================================================================
+    // 10.7. Bankruptcy - seize insolvent ships, liquidate cargo, auction hulls
+    // =========================================================================
+    const bankruptcyResult = processBankruptcies(next, this.config, next.tick);
+    next.ships = bankruptcyResult.ships;
+    next.islands = bankruptcyResult.islands;
+    next.agents = bankruptcyResult.agents;
+    if (bankruptcyResult.records.length > 0) {
+      next.bankruptcies = [...(next.bankruptcies ?? []), ...bankruptcyResult.records];
+
+      // Lenders share what was recovered and write off the rest
+      if (next.lending) {
+        const book = settleDefaultedLoans(
+          { ships: next.ships, islands: next.islands, lending: next.lending },
+          bankruptcyResult.records
+        );
+        next.ships = book.ships;
+        next.islands = book.islands;
+        next.lending = book.lending;
+      }
     }
+    metrics.bankruptcies = bankruptcyResult.records;
 
     // =========================================================================
     // 11. Shipyard system - process build orders and complete ships
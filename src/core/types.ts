@@ -33,6 +33,14 @@ export interface GoodMarketConfig {
   idealStockDays: number; // Days of consumption to target as ideal stock
 }
 
+/**
+ * Input consumed to produce one unit of a processed good
+ */
+export interface RecipeInput {
+  goodId: GoodId;
+  quantity: number; // units consumed per unit produced
+}
+
 export interface GoodDefinition {
   id: GoodId;
   name: string;
@@ -40,6 +48,7 @@ export interface GoodDefinition {
   basePrice: number;
   spoilageRatePerHour: number; // 0 for non-perishables
   bulkiness: number; // space per unit, affects capacity
+  inputs?: RecipeInput[]; // Recipe for processed goods; raw goods have none
 }
 
 // ============================================================================
@@ -150,6 +159,8 @@ export interface IslandState {
   market: MarketState;
   productionParams: ProductionParams;
   buildings: Map<BuildingId, Building>;
+  /** Buildings under construction or being upgraded */
+  constructionOrders: BuildingConstructionOrder[];
   // Economic Model V2: Island Treasury System
   treasury: number; // Island's cash reserves
   treasuryIncome: number; // Income this tick (from exports)
@@ -159,6 +170,30 @@ export interface IslandState {
   // Economic Model V2: Supply Volatility - Production Shocks
   /** Active production modifiers from supply shocks (boom/bust events) */
   productionShocks: Map<GoodId, ProductionShock>;
+  /** Consecutive ticks with unmet food demand (drives population migration) */
+  foodDeficitTicks: number;
+  /** Policies set by the island's governor */
+  policy: IslandPolicy;
+}
+
+// ============================================================================
+// Island Governance
+// ============================================================================
+
+/**
+ * Island policy, set by a governor agent through policy actions
+ */
+export interface IslandPolicy {
+  /** Agent allowed to set this island's policy (null = ungoverned) */
+  governorId: AgentId | null;
+  /** Max harvest per tick for extractive goods (fish, timber); absent = unlimited */
+  harvestQuotas: Map<GoodId, number>;
+  /** Tariff on goods ships buy here, as a fraction of trade value (paid to treasury) */
+  exportTariff: number;
+  /** Tariff on goods ships sell here, as a fraction of trade value (paid to treasury) */
+  importTariff: number;
+  /** Stock per good that ships may not buy (food reserves) */
+  reserves: Map<GoodId, number>;
 }
 
 // ============================================================================
@@ -173,7 +208,75 @@ export interface Route {
   fromIslandId: IslandId;
   toIslandId: IslandId;
   etaHours: number;
-  progress: number; // 0..1
+  progress: number; // 0..1 of the path length
+  /** Sea-lane path being sailed (absent = straight line between the islands) */
+  path?: RoutePath;
+}
+
+// ============================================================================
+// Sea Lanes (Navigation)
+// ============================================================================
+
+/** 'shortest' minimises sailing time, 'safest' trades distance for lower danger */
+export type RoutePreference = 'shortest' | 'safest';
+
+/**
+ * Open-water point that lanes can pass through
+ */
+export interface SeaWaypoint {
+  id: string;
+  position: Vector2;
+}
+
+/**
+ * Navigable lane between two nodes (island or waypoint IDs), sailable both ways
+ */
+export interface SeaLane {
+  id: string;
+  from: string;
+  to: string;
+  danger: number; // 0-1, scales hull wear while sailing the lane
+  windFactor: number; // Speed multiplier from prevailing winds and currents (1 = neutral)
+}
+
+/**
+ * Hazard zone. Lanes crossing an impassable zone are closed; lanes crossing
+ * a reef take on its danger.
+ */
+export interface SeaObstacle {
+  id: string;
+  kind: 'reef' | 'impassable';
+  center: Vector2;
+  radius: number;
+  danger: number; // Added to lanes crossing a reef (ignored for impassable zones)
+}
+
+export interface SeaLaneGraph {
+  waypoints: SeaWaypoint[];
+  lanes: SeaLane[];
+  obstacles: SeaObstacle[];
+}
+
+/**
+ * One lane of a resolved route
+ */
+export interface RouteLeg {
+  laneId: string;
+  from: Vector2;
+  to: Vector2;
+  length: number;
+  danger: number; // Lane danger plus crossed reefs, capped at 1
+  windFactor: number;
+}
+
+/**
+ * Route resolved through the sea-lane graph
+ */
+export interface RoutePath {
+  preference: RoutePreference;
+  nodeIds: string[]; // Origin island, waypoints, destination island
+  legs: RouteLeg[];
+  length: number; // Total sailing distance
 }
 
 // ============================================================================
@@ -215,6 +318,7 @@ export interface MaintenanceConfig {
   baseWearRate: number; // Condition loss per tick when at sea (e.g., 0.0005)
   distanceWearRate: number; // Additional wear per distance unit traveled (e.g., 0.0001)
   stormWearMultiplier: number; // Wear multiplier during storms (e.g., 3.0)
+  laneDangerWearMultiplier: number; // Extra wear per unit of lane danger (e.g., 2.0 = 3x on a danger-1 lane)
   repairRateAtIsland: number; // Condition restored per tick when docked (e.g., 0.02)
   repairTimberCostPerPoint: number; // Timber cost per 0.01 condition restored (e.g., 1)
   repairCoinCostPerPoint: number; // Coin cost per 0.01 condition restored (e.g., 5)
@@ -261,6 +365,10 @@ export interface ShipState {
   interestRate: number;
   /** Cumulative interest paid over ship lifetime */
   cumulativeInterestPaid: number;
+  /** Tick the ship first owed more than its assets were worth (absent = solvent) */
+  insolventSinceTick?: number;
+  /** Debt is left to the controlling agent's borrow/repay actions (absent = automatic credit rules) */
+  manualCredit?: boolean;
 }
 
 /**
@@ -310,6 +418,27 @@ export interface WorldEvent {
   modifiers: EventModifiers;
 }
 
+// ============================================================================
+// Weather
+// ============================================================================
+
+/**
+ * Storm cell drifting across the map
+ * Ships inside it are slowed and battered; ports inside it are closed.
+ */
+export interface StormCell {
+  id: string;
+  position: Vector2;
+  radius: number;
+  velocity: Vector2; // Map units per hour
+  startTick: number;
+  endTick: number; // Dissipates at this tick
+}
+
+export interface WeatherState {
+  storms: StormCell[];
+}
+
 // ============================================================================
 // Agent Types (for extensibility)
 // ============================================================================
@@ -321,21 +450,116 @@ export interface AgentAssets {
   shipIds: ShipId[];
 }
 
+export type AgentStatus = 'active' | 'eliminated';
+
 export interface AgentState {
   id: AgentId;
   type: AgentType;
   name: string;
   assets: AgentAssets;
+  status?: AgentStatus; // Absent = active
+}
+
+// ============================================================================
+// Lending
+// ============================================================================
+
+export type LoanId = string;
+
+/**
+ * Who funded a loan: an island treasury or a ship of another agent
+ */
+export type Lender =
+  | { kind: 'island'; islandId: IslandId }
+  | { kind: 'agent'; agentId: AgentId; shipId: ShipId }; // Funds come from and return to this ship
+
+/**
+ * An outstanding loan (repaid and defaulted loans are removed)
+ */
+export interface LoanContract {
+  id: LoanId;
+  lender: Lender;
+  borrowerId: AgentId;
+  shipId: ShipId; // Borrowing ship; its debt includes this loan
+  principal: number; // Total lent, including top-ups
+  outstanding: number; // Principal plus accrued interest not yet repaid
+  interestRatePerTick: number; // Blended when the loan is topped up
+  issuedTick: number;
+  repaid: number; // Total paid back to the lender so far
+  interestDue: number; // Accrued interest not yet repaid (payments settle it before principal)
+}
+
+/**
+ * Repayment record that sets an agent's credit rating
+ */
+export interface CreditHistory {
+  loansRepaid: number;
+  loansDefaulted: number;
+}
+
+export interface LendingState {
+  loans: LoanContract[];
+  creditHistory: Map<AgentId, CreditHistory>;
+  nextLoanId: number;
+}
+
+// ============================================================================
+// Bankruptcy
+// ============================================================================
+
+export type BankruptcyOutcome = 'continuing' | 'eliminated' | 'restarted';
+
+/**
+ * A ship foreclosed on by its creditors
+ */
+export interface BankruptcyRecord {
+  tick: number;
+  agentId: AgentId;
+  shipId: ShipId;
+  islandId: IslandId; // Port where the ship was seized and its cargo liquidated
+  debt: number; // Debt owed when the ship was seized
+  liquidationProceeds: number; // Coins raised by selling the cargo
+  recovered: number; // Debt repaid from cash, cargo and auction
+  writtenOff: number; // Debt the creditors never recovered
+  surplus: number; // Raised beyond the debt and returned to the owner's fleet (lost if eliminated)
+  auction: { winnerId: AgentId; price: number } | null; // null = no bidder, ship scrapped
+  outcome: BankruptcyOutcome; // What became of the owner
+  restartShipId?: ShipId; // Starter ship granted on restart
+}
+
+// ============================================================================
+// Trader Factions
+// ============================================================================
+
+export type FactionId = string;
+
+/**
+ * Trading company: member agents whose ships share one treasury
+ */
+export interface FactionState {
+  id: FactionId;
+  name: string;
+  memberIds: AgentId[];
+  treasury: number;
+  /** Total deposited by member ships since the start of the run */
+  cumulativeDeposits: number;
+  /** Total withdrawn by member ships since the start of the run */
+  cumulativeWithdrawals: number;
 }
 
 // ============================================================================
 // World State (Complete simulation state)
 // ============================================================================
 
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
 export interface GameTime {
   tick: number;
   gameHour: number; // 0-23
   gameDay: number;
+  dayOfYear: number; // 0-based day within the current year
+  season: Season;
+  year: number; // 0-based
 }
 
 /**
@@ -357,8 +581,13 @@ export interface WorldState {
   shipyards: Map<ShipyardId, ShipyardState>;
   events: WorldEvent[];
   agents: Map<AgentId, AgentState>;
+  factions: Map<FactionId, FactionState>;
   goods: Map<GoodId, GoodDefinition>;
   economyMetrics: EconomyMetrics; // Economic monitoring data
+  seaLanes?: SeaLaneGraph; // Navigation graph (absent = islands linked by straight lines)
+  weather?: WeatherState; // Storm cells (absent = clear skies)
+  bankruptcies?: BankruptcyRecord[]; // Foreclosures so far (absent = none)
+  lending?: LendingState; // Loan contracts (absent = no loans yet)
 }
 
 // ============================================================================
@@ -437,12 +666,21 @@ export interface SimulationConfig {
   // Fish Migration System
   fishMigrationConfig: FishMigrationConfig;
 
+  // Population Migration System
+  migrationConfig: MigrationConfig;
+
   // Operating Costs System (Economic Model V2)
   operatingCostsConfig: OperatingCostsConfig;
 
   // Credit/Debt System (Economic Model V2)
   creditConfig: CreditConfig;
 
+  // Bankruptcy System (Economic Model V2)
+  bankruptcyConfig: BankruptcyConfig;
+
+  // Lending Market (Economic Model V2)
+  lendingConfig: LendingConfig;
+
   // Transaction Tax (currency sink)
   transactionTaxRate: number; // Tax rate on trades (0.04 = 4%)
 
@@ -454,6 +692,53 @@ export interface SimulationConfig {
 
   // Supply Volatility System (Economic Model V2)
   supplyVolatilityConfig: SupplyVolatilityConfig;
+
+  // Weather System
+  weatherConfig: WeatherConfig;
+
+  // Seasonal Calendar
+  seasonsConfig: SeasonsConfig;
+}
+
+/**
+ * Seasonal multipliers applied on top of the base rates
+ */
+export interface SeasonModifiers {
+  fishRegenMultiplier: number; // Fish spawning (e.g., 1.4 in spring)
+  forestRegenMultiplier: number; // Forest growth
+  grainProductionMultiplier: number; // Grain harvest (peaks in autumn)
+  festivalMultiplier: number; // Festival probability
+  stormMultiplier: number; // Storm formation chance
+}
+
+/**
+ * Seasonal calendar configuration
+ * The year runs spring, summer, autumn, winter from tick 0
+ */
+export interface SeasonsConfig {
+  enabled: boolean; // When false the calendar still runs but seasons have no effect
+  daysPerSeason: number; // e.g., 7 (a 28-day year)
+  modifiers: Record<Season, SeasonModifiers>;
+}
+
+/**
+ * Weather configuration
+ * Storm cells form at random, drift across the archipelago and dissipate
+ */
+export interface WeatherConfig {
+  enabled: boolean;
+  stormChancePerTick: number; // Chance a new storm cell forms each tick (e.g., 0.02)
+  maxStorms: number; // Most storm cells active at once (e.g., 3)
+  minRadius: number; // Storm radius range in map units
+  maxRadius: number;
+  minSpeed: number; // Drift speed range in map units per hour
+  maxSpeed: number;
+  minDurationHours: number; // Storm lifetime range
+  maxDurationHours: number;
+  headingDrift: number; // Max heading change per hour in radians (storms wander)
+  shipSpeedMultiplier: number; // Speed of ships inside a storm (e.g., 0.5)
+  spoilageMultiplier: number; // Spoilage of cargo inside a storm (e.g., 2.0)
+  forecastHours: number; // How far ahead agents can see storm tracks
 }
 
 /**
@@ -516,6 +801,20 @@ export interface FishMigrationConfig {
   minMigrationAmount: number; // Minimum fish amount to trigger migration (5)
 }
 
+/**
+ * Population migration configuration
+ * People leave famine-struck islands for more attractive ones
+ */
+export interface MigrationConfig {
+  enabled: boolean;
+  deficitThresholdTicks: number; // Sustained food-deficit ticks before people leave (48)
+  famineRate: number; // Fraction of population leaving per tick during sustained famine (0.01)
+  lowHealthRate: number; // Fraction leaving per tick when health is critical (0.005)
+  lowHealthThreshold: number; // Health below which people consider leaving (0.3)
+  minAttractivenessGap: number; // Destination must beat source attractiveness by this much (0.1)
+  minPopulation: number; // Islands never drop below this through migration (50)
+}
+
 /**
  * Operating costs configuration (Economic Model V2)
  * Controls ship operating expenses: crew wages, maintenance, and port fees
@@ -546,6 +845,64 @@ export interface CreditConfig {
   baseValuePerCapacity: number;
 }
 
+/**
+ * Lending market configuration (Economic Model V2)
+ * Island treasuries and cash-rich agents fund ship credit lines, so borrowed
+ * money circulates instead of being created
+ */
+export interface LendingConfig {
+  enabled: boolean;
+  /** Interest every borrower pays per tick (e.g., 0.0004) */
+  baseRatePerTick: number;
+  /** Added per tick at a credit rating of 0, scaled by (1 - rating) (e.g., 0.0012) */
+  riskPremiumPerTick: number;
+  /** Added per tick when a loan uses all of a lender's spare funds, scaled by the share used (e.g., 0.001) */
+  reservePremiumPerTick: number;
+  /** Treasury an island always keeps back from lending (e.g., 1000) */
+  islandMinTreasury: number;
+  /** Fraction of treasury above the minimum an island will lend (e.g., 0.25) */
+  islandLendingShare: number;
+  /** Agents whose ships lend spare cash to other agents (e.g., [] = islands only) */
+  lendingAgents: AgentId[];
+  /** Cash a ship keeps before lending to other agents (e.g., 1500) */
+  agentMinCash: number;
+  /** Fraction of cash above the minimum a ship will lend (e.g., 0.25) */
+  agentLendingShare: number;
+  /** Credit rating of an agent with no history, 0-1 (e.g., 0.5) */
+  initialRating: number;
+  /** Rating gained per loan repaid in full (e.g., 0.05) */
+  ratingPerRepaid: number;
+  /** Rating lost per loan defaulted on (e.g., 0.25) */
+  ratingPerDefault: number;
+}
+
+/**
+ * Bankruptcy configuration (Economic Model V2)
+ * Ships whose debt outweighs their assets for too long are seized,
+ * their cargo liquidated and the hull auctioned to other agents
+ */
+export interface BankruptcyConfig {
+  enabled: boolean;
+  /** Ticks a ship may stay insolvent before it is seized (e.g., 48) */
+  insolvencyGraceTicks: number;
+  /** Fraction of market price fetched by a forced cargo sale (e.g., 0.6) */
+  liquidationPriceRatio: number;
+  /** Agents that bid for seized ships (e.g., [] = every seized ship is scrapped) */
+  auctionBidders: AgentId[];
+  /** Minimum auction bid as a fraction of ship value (e.g., 0.3) */
+  auctionReserveRatio: number;
+  /** Maximum auction bid as a fraction of ship value (e.g., 0.8) */
+  maxBidRatio: number;
+  /** Largest share of a bidder ship's cash it will spend on a bid (e.g., 0.5) */
+  maxBidCashShare: number;
+  /** What happens to an agent that loses its last ship */
+  rule: 'restart' | 'eliminate';
+  /** Cash given to a restarted agent's starter ship (e.g., 100) */
+  restartCash: number;
+  /** Capacity of a restarted agent's starter ship (e.g., 40) */
+  restartShipCapacity: number;
+}
+
 /**
  * Ecosystem health classification (Track 07)
  */
@@ -644,6 +1001,20 @@ export interface Building {
   islandId: IslandId;
 }
 
+/**
+ * Active building construction order on an island
+ * Covers both new buildings and upgrades of an existing building
+ */
+export interface BuildingConstructionOrder {
+  id: string;
+  buildingType: BuildingType;
+  ownerId: AgentId; // Agent who commissioned the work
+  targetLevel: number; // Level the building will have on completion
+  startTick: number;
+  completionTick: number;
+  progress: number; // 0..1
+}
+
 export interface BuildingsConfig {
   definitions: Record<BuildingType, BuildingDefinition>;
   conditionDecayRate: number;      // Decay per tick without maintenance
@@ -9,6 +9,11 @@ import type {
   ShipState,
   GoodDefinition,
   AgentState,
+  FactionId,
+  FactionState,
+  SeaLaneGraph,
+  WeatherConfig,
+  SeasonsConfig,
   SimulationConfig,
   GoodId,
   IslandId,
@@ -26,15 +31,20 @@ import type {
   BuildingId,
   Building,
   FishMigrationConfig,
+  MigrationConfig,
   ShippingCostConfig,
   IslandEconomyConfig,
   OperatingCostsConfig,
   CreditConfig,
+  BankruptcyConfig,
+  LendingConfig,
   MarketDepthConfig,
   SupplyVolatilityConfig,
   ProductionShock,
+  IslandPolicy,
 } from './types.js';
 import { createShipyard } from '../systems/shipyard.js';
+import { getCalendar } from '../systems/seasons.js';
 
 /**
  * Mapping from labor sectors to produced goods (Track 06)
@@ -64,6 +74,79 @@ export const DEFAULT_FISH_MIGRATION_CONFIG: FishMigrationConfig = {
   minMigrationAmount: 5, // Minimum fish to trigger migration
 };
 
+/**
+ * Default population migration configuration
+ * Sustained famine drives people toward more attractive islands
+ */
+export const DEFAULT_MIGRATION_CONFIG: MigrationConfig = {
+  enabled: true,
+  deficitThresholdTicks: 48, // 2 game days of sustained food deficit
+  famineRate: 0.01, // 1% of population leaves per tick during famine
+  lowHealthRate: 0.005, // 0.5% leaves per tick when health is critical
+  lowHealthThreshold: 0.3,
+  minAttractivenessGap: 0.1, // Only move to clearly better islands
+  minPopulation: 50, // Never empty an island through migration
+};
+
+/**
+ * Default weather configuration
+ * A storm forms every two days or so and takes a day or two to cross the map
+ */
+export const DEFAULT_WEATHER_CONFIG: WeatherConfig = {
+  enabled: true,
+  stormChancePerTick: 0.02,
+  maxStorms: 3,
+  minRadius: 30,
+  maxRadius: 70,
+  minSpeed: 3,
+  maxSpeed: 8,
+  minDurationHours: 24,
+  maxDurationHours: 72,
+  headingDrift: 0.1,
+  shipSpeedMultiplier: 0.5, // Half speed inside a storm
+  spoilageMultiplier: 2.0, // Double spoilage inside a storm
+  forecastHours: 24,
+};
+
+/**
+ * Default seasonal calendar
+ * A week per season keeps a full year within a typical run
+ */
+export const DEFAULT_SEASONS_CONFIG: SeasonsConfig = {
+  enabled: true,
+  daysPerSeason: 7,
+  modifiers: {
+    spring: {
+      fishRegenMultiplier: 1.4, // Spawning season
+      forestRegenMultiplier: 1.4,
+      grainProductionMultiplier: 0.9, // Sowing
+      festivalMultiplier: 0.8,
+      stormMultiplier: 0.8,
+    },
+    summer: {
+      fishRegenMultiplier: 1.1,
+      forestRegenMultiplier: 1.1,
+      grainProductionMultiplier: 1.2,
+      festivalMultiplier: 1.2,
+      stormMultiplier: 0.6,
+    },
+    autumn: {
+      fishRegenMultiplier: 0.9,
+      forestRegenMultiplier: 0.9,
+      grainProductionMultiplier: 1.4, // Harvest
+      festivalMultiplier: 1.4, // Harvest festivals
+      stormMultiplier: 1.1,
+    },
+    winter: {
+      fishRegenMultiplier: 0.6,
+      forestRegenMultiplier: 0.6,
+      grainProductionMultiplier: 0.5, // Fields lie fallow
+      festivalMultiplier: 0.6,
+      stormMultiplier: 1.5, // Winter gales
+    },
+  },
+};
+
 /**
  * Default shipping cost configuration (Track 02)
  */
@@ -179,6 +262,51 @@ export const DEFAULT_CREDIT_CONFIG: CreditConfig = {
   baseValuePerCapacity: 10, // Each capacity unit worth 10 coins for credit calculation
 };
 
+/**
+ * Default lending market configuration (Economic Model V2)
+ * An agent with no history pays about 0.1% per tick on a small loan, the old flat credit rate
+ *
+ * Example: an island with 5000 treasury lends up to (5000 - 1000) * 0.25 = 1000.
+ * A 500 loan from it to an unrated agent costs 0.0004 + 0.0012 * 0.5 + 0.001 * 0.5
+ * = 0.15% per tick; a spotless record (rating 1) brings that down to 0.09%.
+ */
+export const DEFAULT_LENDING_CONFIG: LendingConfig = {
+  enabled: true,
+  baseRatePerTick: 0.0004,
+  riskPremiumPerTick: 0.0012,
+  reservePremiumPerTick: 0.001,
+  islandMinTreasury: 1000,
+  islandLendingShare: 0.25,
+  lendingAgents: [], // Agents (never the player by default) opt in by ID
+  agentMinCash: 1500,
+  agentLendingShare: 0.25,
+  initialRating: 0.5,
+  ratingPerRepaid: 0.05,
+  ratingPerDefault: 0.25, // One default wipes out five repaid loans
+};
+
+/**
+ * Default bankruptcy configuration (Economic Model V2)
+ * A ship gets two days to trade its way out of insolvency before it is seized
+ *
+ * Example for a ship with capacity 100 (value 1000):
+ * - Auction reserve: 1000 * 0.3 = 300 coins
+ * - Highest possible bid: 1000 * 0.8 = 800 coins
+ * - Cargo worth 500 at market fetches 300 in a forced sale
+ */
+export const DEFAULT_BANKRUPTCY_CONFIG: BankruptcyConfig = {
+  enabled: true,
+  insolvencyGraceTicks: 48,
+  liquidationPriceRatio: 0.6, // Fire-sale discount
+  auctionBidders: [], // Agents (never the player by default) opt in by ID
+  auctionReserveRatio: 0.3,
+  maxBidRatio: 0.8,
+  maxBidCashShare: 0.5, // Bidders keep half their cash for trading
+  rule: 'restart', // Bankrupt agents start over with a small ship
+  restartCash: 100,
+  restartShipCapacity: 40,
+};
+
 /**
  * Default market depth configuration (Economic Model V2)
  * Controls price impact and liquidity for large trades
@@ -348,6 +476,7 @@ export const DEFAULT_CONFIG: SimulationConfig = {
     baseWearRate: 0.0002, // 0.02% condition loss per tick at sea (~5% per day)
     distanceWearRate: 0.00005, // Wear per distance unit traveled
     stormWearMultiplier: 3.0, // 3x wear during storms
+    laneDangerWearMultiplier: 2.0, // 3x wear on the most dangerous lanes
     repairRateAtIsland: 0.01, // 1% condition restored per tick when docked
     repairTimberCostPerPoint: 0.5, // 0.5 timber per 1% repair
     repairCoinCostPerPoint: 2, // 2 coins per 1% repair
@@ -362,15 +491,30 @@ export const DEFAULT_CONFIG: SimulationConfig = {
   // Fish Migration System
   fishMigrationConfig: DEFAULT_FISH_MIGRATION_CONFIG,
 
+  // Population Migration System
+  migrationConfig: DEFAULT_MIGRATION_CONFIG,
+
   // Operating Costs System (Economic Model V2)
   operatingCostsConfig: DEFAULT_OPERATING_COSTS_CONFIG,
 
   // Credit/Debt System (Economic Model V2)
   creditConfig: DEFAULT_CREDIT_CONFIG,
 
+  // Bankruptcy System (Economic Model V2)
+  bankruptcyConfig: DEFAULT_BANKRUPTCY_CONFIG,
+
+  // Lending Market (Economic Model V2)
+  lendingConfig: DEFAULT_LENDING_CONFIG,
+
   // Transaction Tax (currency sink)
   transactionTaxRate: 0.04, // 4% tax on all trades
 
+  // Weather System
+  weatherConfig: DEFAULT_WEATHER_CONFIG,
+
+  // Seasonal Calendar
+  seasonsConfig: DEFAULT_SEASONS_CONFIG,
+
   // Island Economy System (Economic Model V2)
   islandEconomyConfig: DEFAULT_ISLAND_ECONOMY_CONFIG,
 
@@ -416,6 +560,7 @@ export const MVP_GOODS: GoodDefinition[] = [
     basePrice: 25,
     spoilageRatePerHour: 0,
     bulkiness: 0.5,
+    inputs: [{ goodId: 'timber', quantity: 1 }], // Tools are worked from timber
   },
   {
     id: 'luxuries',
@@ -424,6 +569,10 @@ export const MVP_GOODS: GoodDefinition[] = [
     basePrice: 30,
     spoilageRatePerHour: 0,
     bulkiness: 0.3,
+    inputs: [
+      { goodId: 'grain', quantity: 2 }, // Brewing and baking
+      { goodId: 'tools', quantity: 0.2 }, // Tool wear from crafting
+    ],
   },
 ];
 
@@ -434,6 +583,24 @@ export function createGoodsMap(goods: GoodDefinition[]): Map<GoodId, GoodDefinit
   return new Map(goods.map((g) => [g.id, g]));
 }
 
+/**
+ * Island archetypes used to seed inventory, markets, production and labour
+ * The MVP world uses fishing, agricultural and forest; generated worlds add
+ * industrial (tool-making) and luxury (crafts and trade goods) islands.
+ */
+export type IslandArchetype = 'fishing' | 'agricultural' | 'forest' | 'industrial' | 'luxury';
+
+/**
+ * All island archetypes
+ */
+export const ISLAND_ARCHETYPES: IslandArchetype[] = [
+  'fishing',
+  'agricultural',
+  'forest',
+  'industrial',
+  'luxury',
+];
+
 /**
  * Create initial inventory for an island
  *
@@ -445,8 +612,8 @@ export function createGoodsMap(goods: GoodDefinition[]): Map<GoodId, GoodDefinit
  *
  * Consumption formula: population * 0.06/hour * 24 hours ≈ 1.44 * population per day
  */
-function createInitialInventory(
-  archetype: 'fishing' | 'agricultural' | 'forest'
+export function createInitialInventory(
+  archetype: IslandArchetype
 ): Map<GoodId, number> {
   const inventory = new Map<GoodId, number>();
 
@@ -481,6 +648,22 @@ function createInitialInventory(
       inventory.set('tools', 30);
       inventory.set('luxuries', 10);
       break;
+    case 'industrial':
+      // Workshop island: stocks timber to turn into tools, imports food
+      inventory.set('fish', 250);
+      inventory.set('grain', 300);
+      inventory.set('timber', 200);
+      inventory.set('tools', 120);  // Main export good
+      inventory.set('luxuries', 10);
+      break;
+    case 'luxury':
+      // Craft island: stocks grain and tools for luxury production
+      inventory.set('fish', 250);
+      inventory.set('grain', 400);
+      inventory.set('timber', 50);
+      inventory.set('tools', 40);
+      inventory.set('luxuries', 60); // Main export good
+      break;
   }
 
   return inventory;
@@ -489,9 +672,9 @@ function createInitialInventory(
 /**
  * Create initial market state
  */
-function createInitialMarket(
+export function createInitialMarket(
   goods: GoodDefinition[],
-  archetype: 'fishing' | 'agricultural' | 'forest'
+  archetype: IslandArchetype
 ): MarketState {
   const prices = new Map<GoodId, number>();
   const idealStock = new Map<GoodId, number>();
@@ -522,6 +705,16 @@ function createInitialMarket(
         if (good.id === 'timber') ideal = 150;
         if (good.id === 'grain') ideal = 200;
         break;
+      case 'industrial':
+        if (good.id === 'timber') ideal = 150;
+        if (good.id === 'grain') ideal = 200;
+        if (good.id === 'tools') ideal = 80;
+        break;
+      case 'luxury':
+        if (good.id === 'grain') ideal = 250;
+        if (good.id === 'tools') ideal = 50;
+        if (good.id === 'luxuries') ideal = 60;
+        break;
     }
     idealStock.set(good.id, ideal);
 
@@ -555,8 +748,8 @@ function createInitialMarket(
  *
  * Target production: ~100-110 food/hr total (slight surplus for trade buffer)
  */
-function createProductionParams(
-  archetype: 'fishing' | 'agricultural' | 'forest'
+export function createProductionParams(
+  archetype: IslandArchetype
 ): ProductionParams {
   const baseRate = new Map<GoodId, number>();
   const toolSensitivity = new Map<GoodId, number>();
@@ -598,6 +791,22 @@ function createProductionParams(
       baseRate.set('tools', 1.5); // Good tool production from wood
       baseRate.set('luxuries', 0.3);
       break;
+    case 'industrial':
+      // Workshop islands turn imported timber into tools; little food
+      baseRate.set('fish', 5);
+      baseRate.set('grain', 6);
+      baseRate.set('timber', 3);
+      baseRate.set('tools', 4);   // Main specialty - limited by timber supply
+      baseRate.set('luxuries', 0.3);
+      break;
+    case 'luxury':
+      // Craft islands turn grain and tools into luxuries; some farming
+      baseRate.set('fish', 5);
+      baseRate.set('grain', 10);
+      baseRate.set('timber', 1);
+      baseRate.set('tools', 0.5);
+      baseRate.set('luxuries', 2); // Main specialty - limited by grain and tools
+      break;
   }
 
   // Default sensitivities
@@ -612,8 +821,8 @@ function createProductionParams(
 /**
  * Create labour allocation for an archetype
  */
-function createLabourAllocation(
-  archetype: 'fishing' | 'agricultural' | 'forest'
+export function createLabourAllocation(
+  archetype: IslandArchetype
 ): LabourAllocation {
   switch (archetype) {
     case 'fishing':
@@ -622,6 +831,10 @@ function createLabourAllocation(
       return { fishing: 0.1, forestry: 0.1, farming: 0.5, industry: 0.15, services: 0.15 };
     case 'forest':
       return { fishing: 0.1, forestry: 0.45, farming: 0.15, industry: 0.15, services: 0.15 };
+    case 'industrial':
+      return { fishing: 0.15, forestry: 0.1, farming: 0.15, industry: 0.45, services: 0.15 };
+    case 'luxury':
+      return { fishing: 0.15, forestry: 0.05, farming: 0.25, industry: 0.15, services: 0.4 };
   }
 }
 
@@ -658,6 +871,7 @@ export function createMVPIslands(goods: GoodDefinition[]): Map<IslandId, IslandS
     market: createInitialMarket(goods, 'fishing'),
     productionParams: createProductionParams('fishing'),
     buildings: new Map<BuildingId, Building>(),
+    constructionOrders: [],
     // Economic Model V2: Treasury initialized at 10 coins per population
     treasury: 5000,
     treasuryIncome: 0,
@@ -666,6 +880,8 @@ export function createMVPIslands(goods: GoodDefinition[]): Map<IslandId, IslandS
     cumulativeImportCosts: 0,
     // Economic Model V2: Supply Volatility - Production Shocks
     productionShocks: new Map<GoodId, ProductionShock>(),
+    foodDeficitTicks: 0,
+    policy: createDefaultIslandPolicy(),
   });
 
   // Greenbarrow - Agricultural Isle (pop: 600, treasury: 6000)
@@ -695,6 +911,7 @@ export function createMVPIslands(goods: GoodDefinition[]): Map<IslandId, IslandS
     market: createInitialMarket(goods, 'agricultural'),
     productionParams: createProductionParams('agricultural'),
     buildings: new Map<BuildingId, Building>(),
+    constructionOrders: [],
     // Economic Model V2: Treasury initialized at 10 coins per population
     treasury: 6000,
     treasuryIncome: 0,
@@ -703,6 +920,8 @@ export function createMVPIslands(goods: GoodDefinition[]): Map<IslandId, IslandS
     cumulativeImportCosts: 0,
     // Economic Model V2: Supply Volatility - Production Shocks
     productionShocks: new Map<GoodId, ProductionShock>(),
+    foodDeficitTicks: 0,
+    policy: createDefaultIslandPolicy(),
   });
 
   // Timberwake - Forest Isle (pop: 450, treasury: 4500)
@@ -732,6 +951,7 @@ export function createMVPIslands(goods: GoodDefinition[]): Map<IslandId, IslandS
     market: createInitialMarket(goods, 'forest'),
     productionParams: createProductionParams('forest'),
     buildings: new Map<BuildingId, Building>(),
+    constructionOrders: [],
     // Economic Model V2: Treasury initialized at 10 coins per population
     treasury: 4500,
     treasuryIncome: 0,
@@ -740,11 +960,26 @@ export function createMVPIslands(goods: GoodDefinition[]): Map<IslandId, IslandS
     cumulativeImportCosts: 0,
     // Economic Model V2: Supply Volatility - Production Shocks
     productionShocks: new Map<GoodId, ProductionShock>(),
+    foodDeficitTicks: 0,
+    policy: createDefaultIslandPolicy(),
   });
 
   return islands;
 }
 
+/**
+ * Create the policy for an ungoverned island (no quotas, tariffs or reserves)
+ */
+export function createDefaultIslandPolicy(governorId: AgentId | null = null): IslandPolicy {
+  return {
+    governorId,
+    harvestQuotas: new Map(),
+    exportTariff: 0,
+    importTariff: 0,
+    reserves: new Map(),
+  };
+}
+
 /**
  * Create default crew state for a ship
  */
@@ -918,6 +1153,33 @@ export function createMVPAgents(): Map<AgentId, AgentState> {
   return agents;
 }
 
+/**
+ * Create a trading company with an empty treasury by default
+ */
+export function createFaction(
+  id: FactionId,
+  name: string,
+  memberIds: AgentId[],
+  treasury: number = 0
+): FactionState {
+  return {
+    id,
+    name,
+    memberIds: [...memberIds],
+    treasury,
+    cumulativeDeposits: 0,
+    cumulativeWithdrawals: 0,
+  };
+}
+
+/**
+ * Create MVP factions: the MVP fleet trades as one company
+ */
+export function createMVPFactions(): Map<FactionId, FactionState> {
+  const faction = createFaction('alpha-company', 'Alpha Trading Co', ['trader-alpha']);
+  return new Map([[faction.id, faction]]);
+}
+
 /**
  * Create MVP shipyards - one per island
  */
@@ -933,13 +1195,47 @@ export function createMVPShipyards(): Map<ShipyardId, ShipyardState> {
 }
 
 /**
- * Calculate game time from tick
+ * Create MVP sea lanes
+ * The direct Shoalhold-Timberwake strait runs over a reef; the outer banks
+ * route around it is longer but safer. The maelstrom closes the open water
+ * between the three islands.
  */
-export function tickToGameTime(tick: number): GameTime {
+export function createMVPSeaLanes(): SeaLaneGraph {
+  return {
+    waypoints: [{ id: 'outer-banks', position: { x: 70, y: 290 } }],
+    lanes: [
+      { id: 'northern-passage', from: 'shoalhold', to: 'greenbarrow', danger: 0.1, windFactor: 1.1 },
+      { id: 'eastern-channel', from: 'greenbarrow', to: 'timberwake', danger: 0.05, windFactor: 1.0 },
+      { id: 'western-strait', from: 'shoalhold', to: 'timberwake', danger: 0.2, windFactor: 0.9 },
+      { id: 'outer-banks-north', from: 'shoalhold', to: 'outer-banks', danger: 0.05, windFactor: 1.0 },
+      { id: 'outer-banks-south', from: 'outer-banks', to: 'timberwake', danger: 0.05, windFactor: 1.0 },
+    ],
+    obstacles: [
+      { id: 'sharks-teeth', kind: 'reef', center: { x: 150, y: 275 }, radius: 15, danger: 0.4 },
+      { id: 'maelstrom', kind: 'impassable', center: { x: 200, y: 215 }, radius: 25, danger: 0 },
+    ],
+  };
+}
+
+/**
+ * Clone a sea-lane graph
+ */
+export function cloneSeaLanes(graph: SeaLaneGraph): SeaLaneGraph {
+  return {
+    waypoints: graph.waypoints.map((w) => ({ ...w, position: { ...w.position } })),
+    lanes: graph.lanes.map((l) => ({ ...l })),
+    obstacles: graph.obstacles.map((o) => ({ ...o, center: { ...o.center } })),
+  };
+}
+
+/**
+ * Calculate game time, including the season and day of year, from tick
+ */
+export function tickToGameTime(tick: number, seasonsConfig: SeasonsConfig = DEFAULT_SEASONS_CONFIG): GameTime {
   const gameHour = tick % 24;
   const gameDay = Math.floor(tick / 24);
 
-  return { tick, gameHour, gameDay };
+  return { tick, gameHour, gameDay, ...getCalendar(gameDay, seasonsConfig) };
 }
 
 /**
@@ -951,6 +1247,7 @@ export function initializeWorld(seed: number): WorldState {
   const ships = createMVPShips();
   const shipyards = createMVPShipyards();
   const agents = createMVPAgents();
+  const factions = createMVPFactions();
 
   return {
     tick: 0,
@@ -961,6 +1258,7 @@ export function initializeWorld(seed: number): WorldState {
     shipyards,
     events: [],
     agents,
+    factions,
     goods,
     economyMetrics: {
       taxCollectedThisTick: 0,
@@ -968,6 +1266,7 @@ export function initializeWorld(seed: number): WorldState {
       taxRedistributedThisTick: 0,
       totalTaxRedistributed: 0,
     },
+    seaLanes: createMVPSeaLanes(),
   };
 }
 
@@ -1001,10 +1300,41 @@ export function cloneWorldState(state: WorldState): WorldState {
         { ...agent, assets: { ...agent.assets, shipIds: [...agent.assets.shipIds] } },
       ])
     ),
+    factions: new Map(
+      Array.from(state.factions?.entries() ?? []).map(([id, faction]) => [
+        id,
+        { ...faction, memberIds: [...faction.memberIds] },
+      ])
+    ),
     goods: new Map(state.goods),
     economyMetrics: state.economyMetrics
       ? { ...state.economyMetrics }
       : { taxCollectedThisTick: 0, totalTaxCollected: 0, taxRedistributedThisTick: 0, totalTaxRedistributed: 0 },
+    ...(state.seaLanes && { seaLanes: cloneSeaLanes(state.seaLanes) }),
+    ...(state.weather && {
+      weather: {
+        storms: state.weather.storms.map((storm) => ({
+          ...storm,
+          position: { ...storm.position },
+          velocity: { ...storm.velocity },
+        })),
+      },
+    }),
+    ...(state.bankruptcies && {
+      bankruptcies: state.bankruptcies.map((record) => ({
+        ...record,
+        auction: record.auction ? { ...record.auction } : null,
+      })),
+    }),
+    ...(state.lending && {
+      lending: {
+        loans: state.lending.loans.map((loan) => ({ ...loan, lender: { ...loan.lender } })),
+        creditHistory: new Map(
+          Array.from(state.lending.creditHistory.entries()).map(([id, history]) => [id, { ...history }])
+        ),
+        nextLoanId: state.lending.nextLoanId,
+      },
+    }),
   };
 }
 
@@ -1038,6 +1368,7 @@ function cloneIsland(island: IslandState): IslandState {
         { ...building },
       ])
     ),
+    constructionOrders: (island.constructionOrders ?? []).map((order) => ({ ...order })),
     // Economic Model V2: Clone treasury fields
     treasury: island.treasury,
     treasuryIncome: island.treasuryIncome,
@@ -1051,6 +1382,14 @@ function cloneIsland(island: IslandState): IslandState {
         { ...shock },
       ])
     ),
+    foodDeficitTicks: island.foodDeficitTicks ?? 0,
+    policy: island.policy
+      ? {
+          ...island.policy,
+          harvestQuotas: new Map(island.policy.harvestQuotas),
+          reserves: new Map(island.policy.reserves),
+        }
+      : createDefaultIslandPolicy(),
   };
 }
 
@@ -1,10 +1,12 @@
 /**
- * Gemini Flash LLM Client
- * Wrapper for @google/generative-ai with error handling and metrics
+ * LLM Client
+ * Sends prompts to a pluggable provider (Gemini by default) with error handling and metrics
  */
 
-import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
 import { llmMetrics } from './metrics.js';
+import { GeminiProvider, type LLMProvider } from './providers.js';
+
+export { GEMINI_MODELS } from './providers.js';
 
 /**
  * LLM Client configuration
@@ -18,19 +20,11 @@ export interface LLMClientConfig {
   maxOutputTokens?: number;
   /** Temperature for generation (0-1) */
   temperature?: number;
+  /** Backend to use (defaults to Gemini with apiKey) */
+  provider?: LLMProvider;
 }
 
-/**
- * Available Gemini models (cheapest to most expensive)
- */
-export const GEMINI_MODELS = {
-  'gemini-1.5-flash-8b': 'Cheapest - good for simple JSON tasks',
-  'gemini-1.5-flash': 'Balanced - fast and capable',
-  'gemini-2.0-flash': 'Latest - best quality',
-  'gemini-1.5-pro': 'Most capable - expensive',
-} as const;
-
-const DEFAULT_CONFIG: Required<LLMClientConfig> = {
+const DEFAULT_CONFIG: Required<Omit<LLMClientConfig, 'provider'>> = {
   apiKey: '',
   model: 'gemini-1.5-flash-8b', // Use cheapest model by default
   maxOutputTokens: 1024,
@@ -51,32 +45,33 @@ export interface LLMResponse {
 }
 
 /**
- * LLM Client for Gemini Flash
+ * LLM Client - provider-agnostic completions with metrics
  */
 export class LLMClient {
-  private client: GoogleGenerativeAI;
-  private model: GenerativeModel;
-  private config: Required<LLMClientConfig>;
+  private provider: LLMProvider;
+  private config: Required<Omit<LLMClientConfig, 'provider'>>;
   private callCount: number = 0;
 
   constructor(config: LLMClientConfig = {}) {
-    const apiKey = config.apiKey ?? process.env.GEMINI_API_KEY ?? '';
+    const { provider, ...rest } = config;
+    const apiKey = rest.apiKey ?? process.env.GEMINI_API_KEY ?? '';
 
-    if (!apiKey) {
-      throw new Error(
-        'GEMINI_API_KEY not provided. Set it via config or environment variable.'
-      );
-    }
+    this.config = { ...DEFAULT_CONFIG, ...rest, apiKey };
+    this.provider = provider ?? new GeminiProvider(apiKey);
+  }
 
-    this.config = { ...DEFAULT_CONFIG, ...config, apiKey };
-    this.client = new GoogleGenerativeAI(apiKey);
-    this.model = this.client.getGenerativeModel({
-      model: this.config.model,
-      generationConfig: {
-        maxOutputTokens: this.config.maxOutputTokens,
-        temperature: this.config.temperature,
-      },
-    });
+  /**
+   * Provider this client sends prompts to
+   */
+  getProviderId(): LLMProvider['id'] {
+    return this.provider.id;
+  }
+
+  /**
+   * Model requested from the provider
+   */
+  getModel(): string {
+    return this.config.model;
   }
 
   /**
@@ -88,26 +83,18 @@ export class LLMClient {
     try {
       this.callCount++;
 
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
+      const { text, finishReason, tokenCount } = await this.provider.generate({
+        prompt,
+        model: this.config.model,
+        maxOutputTokens: this.config.maxOutputTokens,
+        temperature: this.config.temperature,
+      });
       const latencyMs = Date.now() - startTime;
 
-      // Get token counts if available
-      const usageMetadata = response.usageMetadata;
-      const tokenCount = usageMetadata
-        ? {
-            prompt: usageMetadata.promptTokenCount,
-            response: usageMetadata.candidatesTokenCount,
-            total: usageMetadata.totalTokenCount,
-          }
-        : undefined;
-
-      const finishReason = response.candidates?.[0]?.finishReason ?? 'unknown';
-
       // Record metrics
       llmMetrics.record({
         timestamp: Date.now(),
+        provider: this.provider.id,
         model: this.config.model,
         promptSummary: prompt.slice(0, 100),
         inputTokens: tokenCount?.prompt ?? 0,
@@ -142,26 +129,7 @@ export class LLMClient {
    */
   async completeJSON<T>(prompt: string): Promise<T> {
     const response = await this.complete(prompt);
-
-    try {
-      // Try to extract JSON from the response
-      const text = response.text.trim();
-
-      // Look for JSON in code blocks
-      const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[1].trim()) as T;
-      }
-
-      // Try parsing the entire response as JSON
-      return JSON.parse(text) as T;
-    } catch (error) {
-      throw new LLMError(
-        `Failed to parse JSON from LLM response: ${response.text.slice(0, 200)}`,
-        'PARSE_ERROR',
-        error
-      );
-    }
+    return parseJSONResponse<T>(response.text);
   }
 
   /**
@@ -193,6 +161,31 @@ export class LLMError extends Error {
   }
 }
 
+/**
+ * Parse JSON from an LLM response, accepting fenced code blocks
+ */
+export function parseJSONResponse<T>(responseText: string): T {
+  try {
+    // Try to extract JSON from the response
+    const text = responseText.trim();
+
+    // Look for JSON in code blocks
+    const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[1].trim()) as T;
+    }
+
+    // Try parsing the entire response as JSON
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new LLMError(
+      `Failed to parse JSON from LLM response: ${responseText.slice(0, 200)}`,
+      'PARSE_ERROR',
+      error
+    );
+  }
+}
+
 /**
  * Create a mock LLM client for testing
  * Records metrics just like the real client so Admin page shows activity
@@ -224,6 +217,7 @@ export function createMockLLMClient(
       // Record metrics so Admin page shows mock calls
       llmMetrics.record({
         timestamp: Date.now(),
+        provider: 'scripted',
         model: 'mock-llm',
         promptSummary: prompt.slice(0, 100),
         inputTokens,
@@ -247,6 +241,12 @@ export function createMockLLMClient(
       const response = await mock.complete(prompt);
       return JSON.parse(response.text) as T;
     },
+    getProviderId(): LLMProvider['id'] {
+      return 'scripted';
+    },
+    getModel(): string {
+      return 'mock-llm';
+    },
     getCallCount(): number {
       return mock.callCount;
     },
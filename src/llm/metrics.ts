@@ -9,6 +9,8 @@
 export interface LLMCallRecord {
   id: string;
   timestamp: number;
+  /** Provider that served the call (defaults to gemini when omitted) */
+  provider?: string;
   model: string;
   promptSummary: string;
   inputTokens: number;
@@ -19,6 +21,32 @@ export interface LLMCallRecord {
   finishReason: string;
 }
 
+/**
+ * Structured output event (tracked separately from calls)
+ * - parse_failure: a response failed JSON parsing or schema validation
+ * - repair: a repair prompt was sent
+ * - repaired: a response validated after one or more repairs
+ */
+export interface StructuredOutputEvent {
+  timestamp: number;
+  kind: 'parse_failure' | 'repair' | 'repaired';
+  /** Response type, e.g. "strategy" */
+  label: string;
+  /** Repair attempt the event belongs to (0 = original response) */
+  attempt: number;
+  error?: string;
+}
+
+/**
+ * Structured output totals for the session
+ */
+export interface StructuredOutputSummary {
+  parseFailures: number;
+  repairs: number;
+  repaired: number;
+  recentEvents: StructuredOutputEvent[];
+}
+
 /**
  * Summary of all LLM metrics for the session
  */
@@ -31,23 +59,54 @@ export interface LLMMetricsSummary {
   avgLatencyMs: number;
   callsPerMinute: number;
   recentCalls: LLMCallRecord[];
+  structuredOutput: StructuredOutputSummary;
+}
+
+/**
+ * Price per 1M tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Pricing table for one provider
+ * `default` prices models missing from `models`
+ */
+export interface ProviderPricing {
+  models: Record<string, ModelPricing>;
+  default: ModelPricing;
 }
 
+const FREE: ModelPricing = { input: 0, output: 0 };
+
 /**
- * Pricing per 1M tokens for supported models
+ * Pricing per 1M tokens for supported providers and models
  */
-const PRICING: Record<string, { input: number; output: number }> = {
-  // Gemini models
-  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
-  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 }, // Cheapest Gemini!
-  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
-  // Groq (free tier)
-  'llama-3.1-8b-instant': { input: 0, output: 0 },
-  'llama-3.1-70b-versatile': { input: 0, output: 0 },
-  'mixtral-8x7b-32768': { input: 0, output: 0 },
-  // Mock
-  'mock-llm': { input: 0, output: 0 },
+export const DEFAULT_PRICING: Record<string, ProviderPricing> = {
+  gemini: {
+    models: {
+      'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+      'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+      'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 }, // Cheapest Gemini!
+      'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+    },
+    default: { input: 0.10, output: 0.40 },
+  },
+  // OpenAI-compatible servers: hosted models are priced, local models are free
+  openai: {
+    models: {
+      'gpt-4o-mini': { input: 0.15, output: 0.60 },
+      'gpt-4o': { input: 2.50, output: 10.00 },
+      // Groq (free tier)
+      'llama-3.1-8b-instant': FREE,
+      'llama-3.1-70b-versatile': FREE,
+      'mixtral-8x7b-32768': FREE,
+    },
+    default: FREE,
+  },
+  scripted: { models: {}, default: FREE },
 };
 
 type MetricsListener = (record: LLMCallRecord) => void;
@@ -58,15 +117,40 @@ type MetricsListener = (record: LLMCallRecord) => void;
  */
 export class LLMMetrics {
   private calls: LLMCallRecord[] = [];
+  private structuredEvents: StructuredOutputEvent[] = [];
+  private structuredCounts: Record<StructuredOutputEvent['kind'], number> = {
+    parse_failure: 0,
+    repair: 0,
+    repaired: 0,
+  };
   private listeners: Set<MetricsListener> = new Set();
   private sessionStartTime: number = Date.now();
   private callIdCounter: number = 0;
+  private pricing: Record<string, ProviderPricing>;
+
+  constructor(pricing: Record<string, ProviderPricing> = DEFAULT_PRICING) {
+    this.pricing = { ...pricing };
+  }
+
+  /**
+   * Replace the pricing table for a provider
+   */
+  setProviderPricing(provider: string, pricing: ProviderPricing): void {
+    this.pricing[provider] = pricing;
+  }
 
   /**
    * Calculate estimated cost for a call
+   * Unknown providers are treated as free
    */
-  calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    const pricing = PRICING[model] ?? PRICING['gemini-2.0-flash'];
+  calculateCost(
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    provider: string = 'gemini'
+  ): number {
+    const table = this.pricing[provider];
+    const pricing = table ? table.models[model] ?? table.default : FREE;
     const inputCost = (inputTokens / 1_000_000) * pricing.input;
     const outputCost = (outputTokens / 1_000_000) * pricing.output;
     return inputCost + outputCost;
@@ -84,7 +168,7 @@ export class LLMMetrics {
    */
   record(call: Omit<LLMCallRecord, 'id' | 'estimatedCostUsd'> & { id?: string }): LLMCallRecord {
     const id = call.id ?? this.generateCallId();
-    const estimatedCostUsd = this.calculateCost(call.model, call.inputTokens, call.outputTokens);
+    const estimatedCostUsd = this.calculateCost(call.model, call.inputTokens, call.outputTokens, call.provider);
 
     const record: LLMCallRecord = {
       ...call,
@@ -114,6 +198,25 @@ export class LLMMetrics {
     return record;
   }
 
+  /**
+   * Record a structured output event (parse failure or repair)
+   */
+  recordStructuredEvent(event: Omit<StructuredOutputEvent, 'timestamp'>): StructuredOutputEvent {
+    const record: StructuredOutputEvent = { timestamp: Date.now(), ...event };
+
+    this.structuredCounts[record.kind]++;
+    this.structuredEvents.push(record);
+    if (this.structuredEvents.length > 100) {
+      this.structuredEvents.shift();
+    }
+
+    if (record.kind === 'parse_failure') {
+      console.warn(`[LLM] Invalid ${record.label} response (attempt ${record.attempt}): ${record.error ?? ''}`);
+    }
+
+    return record;
+  }
+
   /**
    * Log call to console
    */
@@ -165,6 +268,12 @@ export class LLMMetrics {
       avgLatencyMs: Math.round(avgLatencyMs),
       callsPerMinute: Math.round(callsPerMinute * 100) / 100,
       recentCalls: this.calls.slice(-50),
+      structuredOutput: {
+        parseFailures: this.structuredCounts.parse_failure,
+        repairs: this.structuredCounts.repair,
+        repaired: this.structuredCounts.repaired,
+        recentEvents: this.structuredEvents.slice(-20),
+      },
     };
   }
 
@@ -189,6 +298,8 @@ export class LLMMetrics {
    */
   reset(): void {
     this.calls = [];
+    this.structuredEvents = [];
+    this.structuredCounts = { parse_failure: 0, repair: 0, repaired: 0 };
     this.sessionStartTime = Date.now();
     this.callIdCounter = 0;
   }
@@ -0,0 +1,268 @@
+/**
+ * LLM Providers
+ * Backends that LLMClient sends prompts to
+ *
+ * - gemini: Google Gemini via @google/generative-ai
+ * - openai: any OpenAI-compatible chat completions server
+ *   (OpenAI, Groq, or a local llama.cpp / Ollama server)
+ * - scripted: deterministic canned responses, no network
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LLMResponse } from './client.js';
+
+export type LLMProviderId = 'gemini' | 'openai' | 'scripted';
+
+export const LLM_PROVIDERS: LLMProviderId[] = ['gemini', 'openai', 'scripted'];
+
+/**
+ * A single generation request
+ */
+export interface LLMGenerateRequest {
+  prompt: string;
+  model: string;
+  maxOutputTokens: number;
+  temperature: number;
+}
+
+/**
+ * A backend that turns prompts into completions
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  generate(request: LLMGenerateRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Available Gemini models (cheapest to most expensive)
+ */
+export const GEMINI_MODELS = {
+  'gemini-1.5-flash-8b': 'Cheapest - good for simple JSON tasks',
+  'gemini-1.5-flash': 'Balanced - fast and capable',
+  'gemini-2.0-flash': 'Latest - best quality',
+  'gemini-1.5-pro': 'Most capable - expensive',
+} as const;
+
+/**
+ * Default model per provider
+ */
+export const DEFAULT_PROVIDER_MODELS: Record<LLMProviderId, string> = {
+  gemini: 'gemini-1.5-flash-8b',
+  openai: 'llama3.1',
+  scripted: 'scripted',
+};
+
+// ============================================================================
+// Gemini
+// ============================================================================
+
+/**
+ * Google Gemini provider
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY ?? '') {
+    if (!apiKey) {
+      throw new Error(
+        'GEMINI_API_KEY not provided. Set it via config or environment variable.'
+      );
+    }
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    const model = this.client.getGenerativeModel({
+      model: request.model,
+      generationConfig: {
+        maxOutputTokens: request.maxOutputTokens,
+        temperature: request.temperature,
+      },
+    });
+
+    const result = await model.generateContent(request.prompt);
+    const response = result.response;
+
+    // Get token counts if available
+    const usageMetadata = response.usageMetadata;
+    const tokenCount = usageMetadata
+      ? {
+          prompt: usageMetadata.promptTokenCount,
+          response: usageMetadata.candidatesTokenCount,
+          total: usageMetadata.totalTokenCount,
+        }
+      : undefined;
+
+    return {
+      text: response.text(),
+      finishReason: response.candidates?.[0]?.finishReason ?? 'unknown',
+      tokenCount,
+    };
+  }
+}
+
+// ============================================================================
+// OpenAI-compatible
+// ============================================================================
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleConfig {
+  /** Base URL including the version path, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Bearer token (optional for local servers) */
+  apiKey?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * Provider for servers speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+  private config: Required<OpenAICompatibleConfig>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      apiKey: '',
+      timeoutMs: 60_000,
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    };
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const res = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: request.maxOutputTokens,
+        temperature: request.temperature,
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      // Surface rate limits and auth failures in the codes LLMClient maps
+      const reason = res.status === 429 ? 'RATE_LIMIT' : res.status === 401 ? 'API_KEY' : 'HTTP';
+      throw new Error(`${reason} ${res.status}: ${body.slice(0, 200)}`);
+    }
+
+    const data = (await res.json()) as ChatCompletionResponse;
+    const choice = data.choices?.[0];
+
+    return {
+      text: choice?.message?.content ?? '',
+      finishReason: choice?.finish_reason ?? 'unknown',
+      tokenCount: data.usage
+        ? {
+            prompt: data.usage.prompt_tokens,
+            response: data.usage.completion_tokens,
+            total: data.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+// ============================================================================
+// Scripted
+// ============================================================================
+
+/**
+ * Script for the scripted provider: a list of responses served in order
+ * (repeating the last one), or a function of the prompt and call index
+ */
+export type LLMScript = string[] | ((prompt: string, callIndex: number) => string);
+
+/**
+ * Deterministic provider serving canned responses
+ * Token counts are estimated (~4 characters per token)
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly id = 'scripted' as const;
+  private script: LLMScript;
+  private callIndex: number = 0;
+
+  constructor(script: LLMScript = ['{}']) {
+    if (Array.isArray(script) && script.length === 0) {
+      throw new Error('Scripted provider needs at least one response');
+    }
+    this.script = script;
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    const index = this.callIndex++;
+    const text =
+      typeof this.script === 'function'
+        ? this.script(request.prompt, index)
+        : this.script[Math.min(index, this.script.length - 1)];
+
+    const promptTokens = Math.ceil(request.prompt.length / 4);
+    const responseTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      finishReason: 'STOP',
+      tokenCount: {
+        prompt: promptTokens,
+        response: responseTokens,
+        total: promptTokens + responseTokens,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Options for createProvider (each provider reads the ones it needs)
+ */
+export interface ProviderOptions {
+  geminiApiKey?: string;
+  openai?: OpenAICompatibleConfig;
+  script?: LLMScript;
+}
+
+/**
+ * Create a provider by ID
+ */
+export function createProvider(id: LLMProviderId, options: ProviderOptions = {}): LLMProvider {
+  switch (id) {
+    case 'gemini':
+      return new GeminiProvider(options.geminiApiKey);
+    case 'openai':
+      return new OpenAICompatibleProvider(options.openai ?? { baseUrl: 'http://localhost:11434/v1' });
+    case 'scripted':
+      return new ScriptedProvider(options.script);
+  }
+}
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
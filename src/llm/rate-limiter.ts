@@ -15,6 +15,10 @@ export interface RateLimiterConfig {
   minIntervalMs: number;
   /** Warning threshold (fraction of budget remaining) */
   warningThreshold: number;
+  /** Maximum repair prompts for one invalid response */
+  maxRepairsPerResponse: number;
+  /** Maximum repair prompts per session */
+  maxRepairsPerSession: number;
 }
 
 const DEFAULT_CONFIG: RateLimiterConfig = {
@@ -22,6 +26,8 @@ const DEFAULT_CONFIG: RateLimiterConfig = {
   sessionDurationMs: 3 * 60 * 60 * 1000, // 3 hours
   minIntervalMs: 1000, // 1 second between calls
   warningThreshold: 0.2, // Warn when 20% budget remaining
+  maxRepairsPerResponse: 2,
+  maxRepairsPerSession: 30,
 };
 
 /**
@@ -34,6 +40,8 @@ export interface RateLimiterStatus {
   sessionTimeRemaining: number;
   isLowBudget: boolean;
   canCall: boolean;
+  repairsMade: number;
+  repairsRemaining: number;
 }
 
 /**
@@ -45,6 +53,7 @@ export class RateLimiter {
   private sessionStartTime: number;
   private lastCallTime: number = 0;
   private callHistory: number[] = [];
+  private repairCount: number = 0;
 
   constructor(config: Partial<RateLimiterConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -95,6 +104,33 @@ export class RateLimiter {
     return true;
   }
 
+  /**
+   * Check if a repair prompt is allowed
+   * Repairs have their own budget and skip the minimum call interval
+   */
+  canRepair(): boolean {
+    return this.repairCount < this.config.maxRepairsPerSession && !this.isSessionExpired();
+  }
+
+  /**
+   * Record a repair prompt
+   * @returns true if recorded, false if the repair budget is spent
+   */
+  recordRepair(): boolean {
+    if (!this.canRepair()) {
+      return false;
+    }
+    this.repairCount++;
+    return true;
+  }
+
+  /**
+   * Maximum repair prompts for one invalid response
+   */
+  getMaxRepairsPerResponse(): number {
+    return this.config.maxRepairsPerResponse;
+  }
+
   /**
    * Get current status
    */
@@ -113,6 +149,8 @@ export class RateLimiter {
       sessionTimeRemaining,
       isLowBudget: callsRemaining / this.config.maxCallsPerSession <= this.config.warningThreshold,
       canCall: this.canCall(),
+      repairsMade: this.repairCount,
+      repairsRemaining: Math.max(0, this.config.maxRepairsPerSession - this.repairCount),
     };
   }
 
@@ -165,6 +203,7 @@ export class RateLimiter {
     this.sessionStartTime = Date.now();
     this.lastCallTime = 0;
     this.callHistory = [];
+    this.repairCount = 0;
   }
 
   /**
@@ -204,6 +243,7 @@ export class RateLimiter {
       `LLM Budget: ${status.callsMade}/${this.config.maxCallsPerSession} ` +
       `(${(status.percentUsed * 100).toFixed(0)}%) | ` +
       `${hoursRemaining}h remaining` +
+      (status.repairsMade > 0 ? ` | ${status.repairsMade} repairs` : '') +
       (status.isLowBudget ? ' [LOW BUDGET]' : '')
     );
   }
@@ -221,21 +261,28 @@ export function createRateLimiter(
       maxCallsPerSession: 100000,
       minIntervalMs: 0,
       warningThreshold: 0,
+      maxRepairsPerSession: 100000,
     },
     conservative: {
       maxCallsPerSession: 60,
       minIntervalMs: 3000,
       warningThreshold: 0.3,
+      maxRepairsPerResponse: 1,
+      maxRepairsPerSession: 10,
     },
     balanced: {
       maxCallsPerSession: 120,
       minIntervalMs: 2000,
       warningThreshold: 0.2,
+      maxRepairsPerResponse: 2,
+      maxRepairsPerSession: 20,
     },
     aggressive: {
       maxCallsPerSession: 180,
       minIntervalMs: 1000,
       warningThreshold: 0.15,
+      maxRepairsPerResponse: 2,
+      maxRepairsPerSession: 30,
     },
   };
 
@@ -0,0 +1,212 @@
+/**
+ * LLM Record/Replay
+ * Makes runs with LLM agents reproducible
+ *
+ * In record mode every response is stored, keyed by tick and prompt hash.
+ * In replay mode those responses are served instead of calling the model,
+ * so the same run can be replayed bit-for-bit offline.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import type { LLMClient, LLMResponse } from './client.js';
+import { LLMError, parseJSONResponse } from './client.js';
+
+export type LLMReplayMode = 'record' | 'replay';
+
+/**
+ * A stored LLM response
+ */
+export interface RecordedLLMResponse {
+  tick: number;
+  promptHash: string;
+  response: LLMResponse;
+}
+
+/**
+ * File format for a recording
+ */
+export interface LLMRecording {
+  version: 1;
+  responses: RecordedLLMResponse[];
+}
+
+type RecordListener = (entry: RecordedLLMResponse) => void;
+
+/**
+ * Hash a prompt for use as a cache key
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+/**
+ * Response cache shared by the recording/replaying clients of one run
+ * The runner sets the tick before agents reason each tick
+ */
+export class LLMResponseCache {
+  readonly mode: LLMReplayMode;
+  private tick: number = 0;
+  private responses: RecordedLLMResponse[] = [];
+  /** Unserved responses per key, in recorded order (replay mode) */
+  private pending = new Map<string, RecordedLLMResponse[]>();
+  private listeners: RecordListener[] = [];
+
+  constructor(mode: LLMReplayMode, responses: RecordedLLMResponse[] = []) {
+    this.mode = mode;
+    for (const entry of responses) {
+      this.add(entry);
+    }
+  }
+
+  /**
+   * Load a recording written by saveToFile
+   */
+  static loadFromFile(path: string): LLMResponseCache {
+    const recording = JSON.parse(readFileSync(path, 'utf-8')) as LLMRecording;
+    if (recording.version !== 1 || !Array.isArray(recording.responses)) {
+      throw new Error(`Unsupported LLM recording: ${path}`);
+    }
+    return new LLMResponseCache('replay', recording.responses);
+  }
+
+  setTick(tick: number): void {
+    this.tick = tick;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Store a live response under the tick it was requested in
+   * (defaults to the current tick)
+   */
+  record(prompt: string, response: LLMResponse, tick: number = this.tick): void {
+    const entry: RecordedLLMResponse = {
+      tick,
+      promptHash: hashPrompt(prompt),
+      response,
+    };
+    this.add(entry);
+
+    for (const listener of this.listeners) {
+      listener(entry);
+    }
+  }
+
+  /**
+   * Serve the next recorded response for this prompt at the current tick
+   * Identical prompts in one tick are served in the order they were recorded
+   */
+  take(prompt: string): LLMResponse | undefined {
+    const queue = this.pending.get(this.key(this.tick, hashPrompt(prompt)));
+    return queue?.shift()?.response;
+  }
+
+  /**
+   * Subscribe to newly recorded responses (e.g. to persist them)
+   */
+  onRecord(listener: RecordListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getResponses(): RecordedLLMResponse[] {
+    return [...this.responses];
+  }
+
+  toRecording(): LLMRecording {
+    return { version: 1, responses: this.getResponses() };
+  }
+
+  saveToFile(path: string): void {
+    writeFileSync(path, JSON.stringify(this.toRecording(), null, 2), 'utf-8');
+  }
+
+  private add(entry: RecordedLLMResponse): void {
+    this.responses.push(entry);
+    const key = this.key(entry.tick, entry.promptHash);
+    const queue = this.pending.get(key) ?? [];
+    queue.push(entry);
+    this.pending.set(key, queue);
+  }
+
+  private key(tick: number, promptHash: string): string {
+    return `${tick}:${promptHash}`;
+  }
+}
+
+/**
+ * Wrap a client so every response is recorded into the cache
+ */
+export function createRecordingClient(inner: LLMClient, cache: LLMResponseCache): LLMClient {
+  const client = {
+    async complete(prompt: string): Promise<LLMResponse> {
+      // The runner may move on to later ticks while the call is in flight
+      const tick = cache.getTick();
+      const response = await inner.complete(prompt);
+      cache.record(prompt, response, tick);
+      return response;
+    },
+    async completeJSON<T>(prompt: string): Promise<T> {
+      const response = await client.complete(prompt);
+      return parseJSONResponse<T>(response.text);
+    },
+    getProviderId(): ReturnType<LLMClient['getProviderId']> {
+      return inner.getProviderId();
+    },
+    getModel(): string {
+      return inner.getModel();
+    },
+    getCallCount(): number {
+      return inner.getCallCount();
+    },
+    resetCallCount(): void {
+      inner.resetCallCount();
+    },
+  };
+
+  return client as unknown as LLMClient;
+}
+
+/**
+ * Create a client that only serves recorded responses
+ * A prompt with no recording for the current tick throws REPLAY_MISS
+ */
+export function createReplayClient(cache: LLMResponseCache): LLMClient {
+  const client = {
+    callCount: 0,
+    async complete(prompt: string): Promise<LLMResponse> {
+      client.callCount++;
+      const response = cache.take(prompt);
+      if (!response) {
+        throw new LLMError(
+          `No recorded LLM response for tick ${cache.getTick()} (prompt ${hashPrompt(prompt).slice(0, 12)})`,
+          'REPLAY_MISS'
+        );
+      }
+      return response;
+    },
+    async completeJSON<T>(prompt: string): Promise<T> {
+      const response = await client.complete(prompt);
+      return parseJSONResponse<T>(response.text);
+    },
+    getProviderId(): ReturnType<LLMClient['getProviderId']> {
+      return 'scripted';
+    },
+    getModel(): string {
+      return 'replay';
+    },
+    getCallCount(): number {
+      return client.callCount;
+    },
+    resetCallCount(): void {
+      client.callCount = 0;
+    },
+  };
+
+  return client as unknown as LLMClient;
+}
@@ -0,0 +1,131 @@
+/**
+ * Structured LLM Output
+ * Validates JSON responses against Zod schemas, with repair retries
+ *
+ * When a response fails to parse or validate, the model is shown the error
+ * and its previous answer and asked to fix it. Repairs are bounded per
+ * response and per session by the caller's RateLimiter.
+ */
+
+import type { z } from 'zod';
+import type { LLMClient, LLMResponse } from './client.js';
+import { LLMError, parseJSONResponse } from './client.js';
+import { llmMetrics } from './metrics.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+/**
+ * Options for a structured completion
+ */
+export interface StructuredOptions {
+  /** Name of the response type, used in metrics and errors */
+  label: string;
+  /** Limits repair retries (no repairs without one unless maxRepairs is set) */
+  rateLimiter?: RateLimiter;
+  /** Repairs allowed for this response (defaults to the rate limiter's limit) */
+  maxRepairs?: number;
+}
+
+/**
+ * A validated response
+ */
+export interface StructuredResult<T> {
+  data: T;
+  /** The raw response that passed validation */
+  response: LLMResponse;
+  /** Repair prompts sent before the response validated */
+  repairs: number;
+}
+
+type ValidationResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Parse and validate a response text against a schema
+ * Returns a readable error (one line per issue) on failure
+ */
+export function validateStructured<S extends z.ZodTypeAny>(
+  text: string,
+  schema: S
+): ValidationResult<z.infer<S>> {
+  let raw: unknown;
+  try {
+    raw = parseJSONResponse<unknown>(text);
+  } catch {
+    return { success: false, error: 'Response is not valid JSON' };
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    return { success: false, error: issues.join('\n') };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Parse a response text, returning null when it does not match the schema
+ */
+export function parseStructured<S extends z.ZodTypeAny>(text: string, schema: S): z.infer<S> | null {
+  const result = validateStructured(text, schema);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Build the prompt asking the model to fix an invalid response
+ */
+export function buildRepairPrompt(prompt: string, invalidText: string, error: string): string {
+  return `${prompt}
+
+---
+
+Your previous response could not be used:
+
+${invalidText.slice(0, 2000)}
+
+Validation errors:
+${error}
+
+Respond again with ONLY the corrected JSON, matching the requested format exactly.`;
+}
+
+/**
+ * Complete a prompt and validate the JSON response against a schema
+ * Invalid responses are repaired while the retry budget allows
+ *
+ * @throws LLMError with code SCHEMA_ERROR when no valid response was produced
+ */
+export async function completeStructured<S extends z.ZodTypeAny>(
+  llm: LLMClient,
+  prompt: string,
+  schema: S,
+  options: StructuredOptions
+): Promise<StructuredResult<z.infer<S>>> {
+  const { label, rateLimiter } = options;
+  const maxRepairs = options.maxRepairs ?? rateLimiter?.getMaxRepairsPerResponse() ?? 0;
+
+  let response = await llm.complete(prompt);
+
+  for (let repairs = 0; ; repairs++) {
+    const result = validateStructured(response.text, schema);
+
+    if (result.success) {
+      if (repairs > 0) {
+        llmMetrics.recordStructuredEvent({ kind: 'repaired', label, attempt: repairs });
+      }
+      return { data: result.data, response, repairs };
+    }
+
+    llmMetrics.recordStructuredEvent({ kind: 'parse_failure', label, attempt: repairs, error: result.error });
+
+    const canRepair = repairs < maxRepairs && (rateLimiter?.canRepair() ?? true);
+    if (!canRepair) {
+      throw new LLMError(`Invalid ${label} response: ${result.error}`, 'SCHEMA_ERROR');
+    }
+
+    rateLimiter?.recordRepair();
+    llmMetrics.recordStructuredEvent({ kind: 'repair', label, attempt: repairs + 1 });
+    response = await llm.complete(buildRepairPrompt(prompt, response.text, result.error));
+  }
+}
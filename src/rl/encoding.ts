@@ -0,0 +1,228 @@
+/**
+ * RL Encoding
+ * Discrete actions and states for learning traders
+ *
+ * Each ship picks one discrete action per decision:
+ *   wait | navigate to island i | buy good g | sell good g | repair | repay
+ * Actions decode into the regular Action types, sized from the ship's
+ * observation, so learned policies run through the same validation and
+ * execution pipeline as every other agent.
+ */
+
+import type { GoodId, IslandId, ShipId, WorldState } from '../core/types.js';
+import type { ObservableShip, ObservableState } from '../agents/interfaces/observable.js';
+import {
+  createNavigateAction,
+  createRepairAction,
+  createRepayAction,
+  createTradeAction,
+  createWaitAction,
+  type Action,
+} from '../agents/interfaces/action.js';
+
+export type DiscreteActionKind = 'wait' | 'navigate' | 'buy' | 'sell' | 'repair' | 'repay';
+
+/**
+ * One entry of the discrete action space
+ */
+export interface DiscreteActionSpec {
+  index: number;
+  kind: DiscreteActionKind;
+  /** Island (navigate) or good (buy/sell) */
+  targetId?: string;
+}
+
+/**
+ * Sizing rules for decoded actions
+ */
+export interface ActionSizing {
+  /** Fraction of ship cash spent on one purchase */
+  buyCashFraction: number;
+  /** Fraction of island inventory bought at most (when visible) */
+  buyInventoryFraction: number;
+  /** Repairs are only offered below this condition */
+  repairBelow: number;
+  /** Fraction of ship cash used to repay debt */
+  repayCashFraction: number;
+}
+
+const DEFAULT_SIZING: ActionSizing = {
+  buyCashFraction: 0.5,
+  buyInventoryFraction: 0.25,
+  repairBelow: 0.7,
+  repayCashFraction: 0.5,
+};
+
+/**
+ * Discrete action space over a fixed set of islands and goods
+ */
+export class ActionSpace {
+  readonly specs: DiscreteActionSpec[];
+  private bulkiness: Map<GoodId, number>;
+  private sizing: ActionSizing;
+
+  constructor(
+    islandIds: IslandId[],
+    goods: Array<{ id: GoodId; bulkiness: number }>,
+    sizing: Partial<ActionSizing> = {}
+  ) {
+    this.sizing = { ...DEFAULT_SIZING, ...sizing };
+    this.bulkiness = new Map(goods.map((g) => [g.id, g.bulkiness]));
+
+    const kinds: Array<Omit<DiscreteActionSpec, 'index'>> = [
+      { kind: 'wait' },
+      ...islandIds.map((id) => ({ kind: 'navigate' as const, targetId: id })),
+      ...goods.map((g) => ({ kind: 'buy' as const, targetId: g.id })),
+      ...goods.map((g) => ({ kind: 'sell' as const, targetId: g.id })),
+      { kind: 'repair' },
+      { kind: 'repay' },
+    ];
+    this.specs = kinds.map((spec, index) => ({ ...spec, index }));
+  }
+
+  /**
+   * Build the action space for a world (islands and goods in ID order)
+   */
+  static fromWorld(world: WorldState, sizing: Partial<ActionSizing> = {}): ActionSpace {
+    const islandIds = Array.from(world.islands.keys()).sort();
+    const goods = Array.from(world.goods.values())
+      .map((g) => ({ id: g.id, bulkiness: g.bulkiness }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    return new ActionSpace(islandIds, goods, sizing);
+  }
+
+  get size(): number {
+    return this.specs.length;
+  }
+
+  /**
+   * Human-readable label, e.g. "buy:grain"
+   */
+  describe(index: number): string {
+    const spec = this.specs[index];
+    if (!spec) return `unknown:${index}`;
+    return spec.targetId ? `${spec.kind}:${spec.targetId}` : spec.kind;
+  }
+
+  /**
+   * Turn a discrete action into an Action for a ship
+   * Returns null when the action makes no sense right now (e.g. buying at sea)
+   */
+  decode(index: number, observation: ObservableState, shipId: ShipId): Action | null {
+    const spec = this.specs[index];
+    const ship = observation.ships.get(shipId);
+    if (!spec || !ship) return null;
+
+    if (spec.kind === 'wait') {
+      return createWaitAction(shipId);
+    }
+
+    if (spec.kind === 'repay') {
+      const amount = Math.min(ship.debt, ship.cash * this.sizing.repayCashFraction);
+      return ship.debt > 0 && amount > 0 ? createRepayAction(shipId, amount) : null;
+    }
+
+    // Everything else needs the ship in port
+    const islandId = ship.location.kind === 'at_island' ? ship.location.islandId : undefined;
+    if (!islandId) return null;
+
+    switch (spec.kind) {
+      case 'navigate':
+        return spec.targetId !== islandId ? createNavigateAction(shipId, spec.targetId!) : null;
+      case 'buy': {
+        const quantity = this.buyQuantity(ship, observation, islandId, spec.targetId!);
+        return quantity >= 1 ? createTradeAction(shipId, islandId, [{ goodId: spec.targetId!, quantity }]) : null;
+      }
+      case 'sell': {
+        const quantity = Math.floor(ship.cargo.get(spec.targetId!) ?? 0);
+        return quantity >= 1
+          ? createTradeAction(shipId, islandId, [{ goodId: spec.targetId!, quantity: -quantity }])
+          : null;
+      }
+      case 'repair':
+        return ship.condition < this.sizing.repairBelow ? createRepairAction(shipId, islandId, 1) : null;
+    }
+  }
+
+  /**
+   * Indices of actions that decode for this ship (always includes wait)
+   */
+  validActions(observation: ObservableState, shipId: ShipId): number[] {
+    return this.specs
+      .filter((spec) => this.decode(spec.index, observation, shipId) !== null)
+      .map((spec) => spec.index);
+  }
+
+  private buyQuantity(
+    ship: ObservableShip,
+    observation: ObservableState,
+    islandId: IslandId,
+    goodId: GoodId
+  ): number {
+    const island = observation.islands.get(islandId);
+    const price = island?.prices.get(goodId) ?? 0;
+    if (!island || price <= 0) return 0;
+
+    const bySpace = ship.remainingCapacity / (this.bulkiness.get(goodId) ?? 1);
+    const byCash = (ship.cash * this.sizing.buyCashFraction) / price;
+    const inventory = island.inventory?.get(goodId);
+    const byStock = inventory !== undefined ? inventory * this.sizing.buyInventoryFraction : Infinity;
+
+    return Math.floor(Math.min(bySpace, byCash, byStock));
+  }
+}
+
+/**
+ * Discrete state of one ship for tabular learners
+ *
+ * `location|cargo|bargain|cargoPrice`:
+ * - location: docked island, or `sea>destination`
+ * - cargo: the good with most units aboard, or `empty`
+ * - bargain: the good cheapest here relative to other islands (10%+ below average), or `none`
+ * - cargoPrice: whether the main cargo sells `high`, `low` or `mid` here
+ */
+export function encodeShipState(observation: ObservableState, shipId: ShipId): string {
+  const ship = observation.ships.get(shipId);
+  if (!ship) return 'lost';
+
+  let cargo = 'empty';
+  let most = 0;
+  for (const [goodId, quantity] of Array.from(ship.cargo.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    if (quantity >= 1 && quantity > most) {
+      cargo = goodId;
+      most = quantity;
+    }
+  }
+
+  if (ship.location.kind !== 'at_island' || !ship.location.islandId) {
+    return `sea>${ship.location.destination ?? '?'}|${cargo}|-|-`;
+  }
+
+  const island = observation.islands.get(ship.location.islandId);
+  const relativePrice = (goodId: GoodId): number | null => {
+    const local = island?.prices.get(goodId);
+    const known = Array.from(observation.islands.values())
+      .map((i) => i.prices.get(goodId))
+      .filter((p): p is number => p !== undefined && p > 0);
+    if (local === undefined || known.length === 0) return null;
+    return local / (known.reduce((sum, p) => sum + p, 0) / known.length);
+  };
+
+  let bargain = 'none';
+  let lowest = 0.9;
+  for (const goodId of Array.from(island?.prices.keys() ?? []).sort()) {
+    const ratio = relativePrice(goodId);
+    if (ratio !== null && ratio < lowest) {
+      bargain = goodId;
+      lowest = ratio;
+    }
+  }
+
+  let cargoPrice = '-';
+  if (cargo !== 'empty') {
+    const ratio = relativePrice(cargo);
+    cargoPrice = ratio === null ? '?' : ratio > 1.1 ? 'high' : ratio < 0.9 ? 'low' : 'mid';
+  }
+
+  return `${ship.location.islandId}|${cargo}|${bargain}|${cargoPrice}`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Trading Environment
+ * Gym-style wrapper around Simulation for reinforcement learning
+ *
+ * One agent's ships are controlled with discrete actions (see ActionSpace).
+ * Each step submits one action per ship through a PlayerAgent, so actions
+ * are validated and executed by the same AgentManager pipeline as LLM
+ * traders. The simulation then advances until a ship is back in port (or
+ * the per-step tick cap is reached), which keeps long voyages from
+ * flooding the learner with forced waits.
+ *
+ * Reward is the change in ship net worth (cash + cargo at average market
+ * price - debt), minus a penalty for every action that was rejected.
+ */
+
+import type { AgentId, SimulationConfig, ShipId, WorldState } from '../core/types.js';
+import { Simulation } from '../core/simulation.js';
+import { initializeWorld } from '../core/world.js';
+import { AgentManager } from '../agents/core/agent-manager.js';
+import { PlayerAgent } from '../agents/players/player-agent.js';
+import { ObservableBuilder, type ObservableState } from '../agents/interfaces/observable.js';
+import type { Action } from '../agents/interfaces/action.js';
+import { ActionSpace } from './encoding.js';
+
+/**
+ * Environment configuration
+ */
+export interface TradingEnvironmentConfig {
+  /** Agent whose ships are controlled */
+  agentId: AgentId;
+  /** Steps per episode */
+  maxSteps: number;
+  /** Simulation ticks one step may advance while every ship is at sea */
+  maxTicksPerStep: number;
+  /** Reward subtracted for each action that could not be executed */
+  invalidActionPenalty: number;
+  /** Builds the starting world for a seed */
+  createWorld: (seed: number) => WorldState;
+  /** Simulation config (the seed is set by reset) */
+  simulationConfig: Partial<SimulationConfig>;
+}
+
+const DEFAULT_ENV_CONFIG: TradingEnvironmentConfig = {
+  agentId: 'trader-alpha',
+  maxSteps: 100,
+  maxTicksPerStep: 48,
+  invalidActionPenalty: 1,
+  createWorld: initializeWorld,
+  simulationConfig: {},
+};
+
+/**
+ * Result of one environment step
+ */
+export interface StepResult {
+  observation: ObservableState;
+  reward: number;
+  done: boolean;
+  info: {
+    tick: number;
+    /** Net worth of the controlled ships after the step */
+    netWorth: number;
+    /** Reward per controlled ship (same order as getShipIds()) */
+    shipRewards: number[];
+    /** Actions that did not decode, failed validation or failed to execute */
+    rejected: number;
+    ticksElapsed: number;
+  };
+}
+
+/**
+ * Trading Environment
+ */
+export class TradingEnvironment {
+  private config: TradingEnvironmentConfig;
+  private observableBuilder = new ObservableBuilder();
+  private sim: Simulation | null = null;
+  private manager: AgentManager | null = null;
+  private player: PlayerAgent | null = null;
+  private actionSpace: ActionSpace | null = null;
+  private shipIds: ShipId[] = [];
+  private steps: number = 0;
+
+  constructor(config: Partial<TradingEnvironmentConfig> = {}) {
+    this.config = { ...DEFAULT_ENV_CONFIG, ...config };
+  }
+
+  /**
+   * Start a new episode
+   * The same seed always produces the same episode for the same actions
+   */
+  reset(seed: number): ObservableState {
+    const world = this.config.createWorld(seed);
+    this.sim = new Simulation(world, { ...this.config.simulationConfig, seed });
+
+    this.shipIds = Array.from(world.ships.values())
+      .filter((ship) => ship.ownerId === this.config.agentId)
+      .map((ship) => ship.id)
+      .sort();
+    if (this.shipIds.length === 0) {
+      throw new Error(`Agent ${this.config.agentId} owns no ships`);
+    }
+
+    this.manager = new AgentManager({ simulationConfig: this.sim.getConfig() });
+    this.player = new PlayerAgent(
+      this.config.agentId,
+      this.config.agentId,
+      { cash: 0, shipIds: this.shipIds },
+      { maxQueuedActions: this.shipIds.length, simulationConfig: this.sim.getConfig() }
+    );
+    this.manager.registerAgent(this.player, world);
+    this.actionSpace = ActionSpace.fromWorld(world);
+    this.steps = 0;
+
+    return this.observe();
+  }
+
+  /**
+   * Apply one discrete action per controlled ship and advance the simulation
+   * Missing entries default to wait (action 0)
+   */
+  async step(actions: number[]): Promise<StepResult> {
+    if (!this.sim || !this.manager || !this.player || !this.actionSpace) {
+      throw new Error('Environment must be reset before step()');
+    }
+    if (this.isDone()) {
+      throw new Error('Episode is done; call reset()');
+    }
+
+    const world = this.sim.getState();
+    const observation = this.observe();
+    const worthBefore = this.shipIds.map((id) => shipNetWorth(world, id));
+    const penalties = this.shipIds.map(() => 0);
+
+    // Decode and submit; undecodable or invalid actions are penalised
+    const decoded: Array<{ index: number; action: Action }> = [];
+    this.shipIds.forEach((shipId, index) => {
+      const action = this.actionSpace!.decode(actions[index] ?? 0, observation, shipId);
+      if (action) {
+        decoded.push({ index, action });
+      } else {
+        penalties[index]++;
+      }
+    });
+    const submissions = this.player.submitActions(decoded.map((d) => d.action), world);
+    for (const submission of submissions) {
+      if (!submission.accepted) penalties[decoded[submission.index].index]++;
+    }
+
+    // Execute queued actions, then advance until a ship is in port
+    const { newWorld, results } = await this.manager.processTick(world);
+    this.sim.updateState(newWorld);
+    for (const result of results.flatMap((r) => r.results)) {
+      const index = this.shipIds.indexOf((result.action as { shipId?: ShipId }).shipId ?? '');
+      if (!result.success && index >= 0) penalties[index]++;
+    }
+
+    let ticksElapsed = 0;
+    do {
+      this.sim.tick();
+      ticksElapsed++;
+    } while (ticksElapsed < this.config.maxTicksPerStep && this.allAtSea());
+
+    this.steps++;
+    const after = this.sim.getState();
+    const shipRewards = this.shipIds.map(
+      (id, i) => shipNetWorth(after, id) - worthBefore[i] - penalties[i] * this.config.invalidActionPenalty
+    );
+
+    return {
+      observation: this.observe(),
+      reward: shipRewards.reduce((sum, r) => sum + r, 0),
+      done: this.isDone(),
+      info: {
+        tick: after.tick,
+        netWorth: this.getNetWorth(),
+        shipRewards,
+        rejected: penalties.reduce((sum, p) => sum + p, 0),
+        ticksElapsed,
+      },
+    };
+  }
+
+  /**
+   * Observation of the controlled agent
+   */
+  observe(): ObservableState {
+    if (!this.sim || !this.player) {
+      throw new Error('Environment must be reset before observe()');
+    }
+    return this.observableBuilder.build(
+      this.sim.getState(),
+      this.config.agentId,
+      'trader',
+      this.config.agentId,
+      this.player.getMemory()
+    );
+  }
+
+  getActionSpace(): ActionSpace {
+    if (!this.actionSpace) {
+      throw new Error('Environment must be reset before getActionSpace()');
+    }
+    return this.actionSpace;
+  }
+
+  /**
+   * Controlled ships, in action order
+   */
+  getShipIds(): ShipId[] {
+    return [...this.shipIds];
+  }
+
+  getState(): WorldState {
+    if (!this.sim) {
+      throw new Error('Environment must be reset before getState()');
+    }
+    return this.sim.getState();
+  }
+
+  /**
+   * Total net worth of the controlled ships
+   */
+  getNetWorth(): number {
+    const world = this.getState();
+    return this.shipIds.reduce((sum, id) => sum + shipNetWorth(world, id), 0);
+  }
+
+  isDone(): boolean {
+    if (!this.sim) return true;
+    const world = this.sim.getState();
+    return this.steps >= this.config.maxSteps || this.shipIds.every((id) => !world.ships.has(id));
+  }
+
+  private allAtSea(): boolean {
+    const world = this.sim!.getState();
+    return this.shipIds.every((id) => {
+      const ship = world.ships.get(id);
+      return ship !== undefined && ship.location.kind === 'at_sea';
+    });
+  }
+}
+
+/**
+ * Ship net worth: cash + cargo at the average island price - debt
+ * Sunk ships are worth nothing
+ */
+export function shipNetWorth(world: WorldState, shipId: ShipId): number {
+  const ship = world.ships.get(shipId);
+  if (!ship) return 0;
+
+  let cargoValue = 0;
+  for (const [goodId, quantity] of ship.cargo) {
+    let total = 0;
+    let count = 0;
+    for (const island of world.islands.values()) {
+      const price = island.market.prices.get(goodId);
+      if (price !== undefined) {
+        total += price;
+        count++;
+      }
+    }
+    cargoValue += count > 0 ? quantity * (total / count) : 0;
+  }
+
+  return ship.cash + cargoValue - ship.debt;
+}
@@ -0,0 +1,247 @@
+/**
+ * Q-Learner
+ * Tabular Q-learning with epsilon-greedy exploration
+ *
+ * All controlled ships share one table: each ship's (state, action,
+ * reward, next state) is an independent update. Exploration uses a
+ * SeededRNG so training runs are reproducible.
+ */
+
+import { SeededRNG } from '../core/rng.js';
+import type { TradingEnvironment } from './environment.js';
+import { encodeShipState } from './encoding.js';
+
+/**
+ * Learner configuration
+ */
+export interface QLearnerConfig {
+  learningRate: number;
+  /** Discount applied to the value of the next state */
+  discount: number;
+  /** Initial probability of a random action */
+  epsilon: number;
+  /** Multiplied into epsilon after every episode */
+  epsilonDecay: number;
+  minEpsilon: number;
+  /** Seed for exploration */
+  seed: number;
+}
+
+const DEFAULT_LEARNER_CONFIG: QLearnerConfig = {
+  learningRate: 0.1,
+  discount: 0.95,
+  epsilon: 1,
+  epsilonDecay: 0.97,
+  minEpsilon: 0.05,
+  seed: 1,
+};
+
+/**
+ * Serialized policy (the Q-table plus enough to resume training)
+ */
+export interface QPolicy {
+  version: 1;
+  actionCount: number;
+  /** Action labels, for readability and compatibility checks */
+  actions?: string[];
+  epsilon: number;
+  episodes: number;
+  config: QLearnerConfig;
+  table: Record<string, number[]>;
+}
+
+/**
+ * Tabular Q-learner
+ */
+export class QLearner {
+  readonly actionCount: number;
+  private config: QLearnerConfig;
+  private table: Map<string, number[]> = new Map();
+  private rng: SeededRNG;
+  private epsilon: number;
+  private episodes: number = 0;
+
+  constructor(actionCount: number, config: Partial<QLearnerConfig> = {}) {
+    this.actionCount = actionCount;
+    this.config = { ...DEFAULT_LEARNER_CONFIG, ...config };
+    this.rng = new SeededRNG(this.config.seed);
+    this.epsilon = this.config.epsilon;
+  }
+
+  /**
+   * Pick an action among the valid ones
+   * Explores with probability epsilon; otherwise the best known action
+   * (ties go to the lowest index, so untrained states wait)
+   */
+  selectAction(state: string, valid: number[], explore: boolean = true): number {
+    if (valid.length === 0) return 0;
+    if (explore && this.rng.random() < this.epsilon) {
+      return valid[this.rng.randomInt(0, valid.length - 1)];
+    }
+    return this.bestAction(state, valid);
+  }
+
+  /**
+   * Best known action among the valid ones
+   */
+  bestAction(state: string, valid: number[]): number {
+    const values = this.table.get(state);
+    if (!values) return valid[0] ?? 0;
+
+    let best = valid[0] ?? 0;
+    for (const action of valid) {
+      if (values[action] > values[best]) best = action;
+    }
+    return best;
+  }
+
+  /**
+   * Q-learning update for one transition
+   */
+  update(state: string, action: number, reward: number, nextState: string, nextValid: number[], done: boolean): void {
+    const values = this.getValues(state);
+    const next = this.table.get(nextState);
+    const nextValue = done || !next || nextValid.length === 0
+      ? 0
+      : Math.max(...nextValid.map((a) => next[a]));
+
+    const target = reward + this.config.discount * nextValue;
+    values[action] += this.config.learningRate * (target - values[action]);
+  }
+
+  /**
+   * Decay exploration at the end of an episode
+   */
+  endEpisode(): void {
+    this.episodes++;
+    this.epsilon = Math.max(this.config.minEpsilon, this.epsilon * this.config.epsilonDecay);
+  }
+
+  getEpsilon(): number {
+    return this.epsilon;
+  }
+
+  getEpisodes(): number {
+    return this.episodes;
+  }
+
+  /**
+   * Number of states visited
+   */
+  getStateCount(): number {
+    return this.table.size;
+  }
+
+  toJSON(actions?: string[]): QPolicy {
+    const table: Record<string, number[]> = {};
+    for (const state of Array.from(this.table.keys()).sort()) {
+      table[state] = [...this.table.get(state)!];
+    }
+    return {
+      version: 1,
+      actionCount: this.actionCount,
+      actions,
+      epsilon: this.epsilon,
+      episodes: this.episodes,
+      config: { ...this.config },
+      table,
+    };
+  }
+
+  static fromJSON(policy: QPolicy): QLearner {
+    if (policy.version !== 1) {
+      throw new Error(`Unsupported policy version: ${String(policy.version)}`);
+    }
+    const learner = new QLearner(policy.actionCount, policy.config);
+    learner.epsilon = policy.epsilon;
+    learner.episodes = policy.episodes;
+    for (const [state, values] of Object.entries(policy.table)) {
+      if (values.length !== policy.actionCount) {
+        throw new Error(`Policy state ${state} has ${values.length} values, expected ${policy.actionCount}`);
+      }
+      learner.table.set(state, [...values]);
+    }
+    return learner;
+  }
+
+  private getValues(state: string): number[] {
+    let values = this.table.get(state);
+    if (!values) {
+      values = new Array<number>(this.actionCount).fill(0);
+      this.table.set(state, values);
+    }
+    return values;
+  }
+}
+
+/**
+ * Summary of one episode
+ */
+export interface EpisodeStats {
+  seed: number;
+  steps: number;
+  totalReward: number;
+  startNetWorth: number;
+  finalNetWorth: number;
+  rejected: number;
+  finalTick: number;
+}
+
+/**
+ * Play one episode, learning from every ship's transitions when `learn` is set
+ */
+export async function runEpisode(
+  env: TradingEnvironment,
+  learner: QLearner,
+  seed: number,
+  learn: boolean = true
+): Promise<EpisodeStats> {
+  let observation = env.reset(seed);
+  const actionSpace = env.getActionSpace();
+  const shipIds = env.getShipIds();
+  if (actionSpace.size !== learner.actionCount) {
+    throw new Error(`Learner has ${learner.actionCount} actions, environment has ${actionSpace.size}`);
+  }
+
+  const stats: EpisodeStats = {
+    seed,
+    steps: 0,
+    totalReward: 0,
+    startNetWorth: env.getNetWorth(),
+    finalNetWorth: 0,
+    rejected: 0,
+    finalTick: 0,
+  };
+
+  while (!env.isDone()) {
+    const states = shipIds.map((id) => encodeShipState(observation, id));
+    const actions = shipIds.map((id, i) =>
+      learner.selectAction(states[i], actionSpace.validActions(observation, id), learn)
+    );
+
+    const result = await env.step(actions);
+
+    if (learn) {
+      shipIds.forEach((id, i) => {
+        learner.update(
+          states[i],
+          actions[i],
+          result.info.shipRewards[i],
+          encodeShipState(result.observation, id),
+          actionSpace.validActions(result.observation, id),
+          result.done
+        );
+      });
+    }
+
+    observation = result.observation;
+    stats.steps++;
+    stats.totalReward += result.reward;
+    stats.rejected += result.info.rejected;
+    stats.finalTick = result.info.tick;
+  }
+
+  if (learn) learner.endEpisode();
+  stats.finalNetWorth = env.getNetWorth();
+  return stats;
+}
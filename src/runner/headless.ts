@@ -6,19 +6,36 @@
 
 import { Simulation } from '../core/simulation.js';
 import { initializeWorld, DEFAULT_CONFIG } from '../core/world.js';
+import { generateArchipelago } from '../core/generator.js';
 import { AgentManager, type AgentTickResult } from '../agents/core/agent-manager.js';
 import { TraderAgent, createMockTraderAgent } from '../agents/traders/trader-agent.js';
 import { LLMClient } from '../llm/client.js';
+import { LLMResponseCache, createRecordingClient, createReplayClient } from '../llm/replay.js';
+import {
+  createProvider,
+  isLLMProviderId,
+  DEFAULT_PROVIDER_MODELS,
+  type LLMProviderId,
+} from '../llm/providers.js';
+import type { WorldState, SimulationConfig } from '../core/types.js';
 import type { Trigger } from '../agents/core/trigger-system.js';
+import { loadScenario, ScenarioError } from '../scenarios/index.js';
 
 interface RunOptions {
-  seed: number;
+  seed: number | null; // null = scenario seed, then DEFAULT_CONFIG.seed
+  scenario: string | null;
+  islands: number | null; // Generate a procedural archipelago with N islands
   ticks: number;
   verbose: boolean;
   logInterval: number;
   agents: boolean;
   traceLLM: boolean;
   useRealLLM: boolean;
+  provider: LLMProviderId;
+  model: string | null; // null = provider default
+  baseUrl: string; // OpenAI-compatible server URL
+  recordLLM: string | null; // Write LLM responses to this file
+  replayLLM: string | null; // Serve LLM responses from this file
 }
 
 interface AgentMetrics {
@@ -32,13 +49,20 @@ interface AgentMetrics {
 function parseArgs(): RunOptions {
   const args = process.argv.slice(2);
   const options: RunOptions = {
-    seed: DEFAULT_CONFIG.seed,
+    seed: null,
+    scenario: null,
+    islands: null,
     ticks: 100,
     verbose: false,
     logInterval: 24, // Log every game day
     agents: false,
     traceLLM: false,
     useRealLLM: false,
+    provider: 'gemini',
+    model: null,
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+    recordLLM: null,
+    replayLLM: null,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -50,6 +74,14 @@ function parseArgs(): RunOptions {
         options.seed = parseInt(next, 10);
         i++;
         break;
+      case '--scenario':
+        options.scenario = next;
+        i++;
+        break;
+      case '--islands':
+        options.islands = parseInt(next, 10);
+        i++;
+        break;
       case '--ticks':
         options.ticks = parseInt(next, 10);
         i++;
@@ -71,6 +103,30 @@ function parseArgs(): RunOptions {
       case '--use-real-llm':
         options.useRealLLM = true;
         break;
+      case '--provider':
+        if (!isLLMProviderId(next)) {
+          console.error(`Unknown provider: ${next}`);
+          process.exit(1);
+        }
+        options.provider = next;
+        i++;
+        break;
+      case '--model':
+        options.model = next;
+        i++;
+        break;
+      case '--base-url':
+        options.baseUrl = next;
+        i++;
+        break;
+      case '--record-llm':
+        options.recordLLM = next;
+        i++;
+        break;
+      case '--replay-llm':
+        options.replayLLM = next;
+        i++;
+        break;
       case '--help':
       case '-h':
         console.log(`
@@ -79,20 +135,32 @@ Living Archipelago Simulation Runner
 Usage: npm run simulate -- [options]
 
 Options:
-  --seed <number>        Random seed (default: ${DEFAULT_CONFIG.seed})
+  --seed <number>        Random seed (default: scenario seed or ${DEFAULT_CONFIG.seed})
+  --scenario <file>      Load world from a scenario file (.json, .yaml, .yml)
+  --islands <number>     Generate a procedural archipelago with N islands
   --ticks <number>       Number of ticks to run (default: 100)
   --verbose, -v          Show detailed output
   --log-interval <n>     Log summary every N ticks (default: 24)
   --agents               Enable AI agent mode (TraderAgents)
   --trace-llm            Show LLM calls and responses
-  --use-real-llm         Use real Gemini LLM (requires GEMINI_API_KEY)
+  --use-real-llm         Use a real LLM (Gemini requires GEMINI_API_KEY)
+  --provider <id>        LLM provider: gemini, openai, scripted (default: gemini)
+  --model <name>         Model name (default: provider default)
+  --base-url <url>       OpenAI-compatible server URL (default: http://localhost:11434/v1)
+  --record-llm <file>    Record real LLM responses to a file for replay
+  --replay-llm <file>    Replay recorded LLM responses instead of calling the model
   --help, -h             Show this help
 
 Examples:
   npm run simulate -- --seed 12345 --ticks 500
   npm run simulate -- --ticks 1000 --verbose
+  npm run simulate -- --scenario scenarios/ten-islands.yaml --ticks 500
+  npm run simulate -- --islands 20 --seed 7 --ticks 500
   npm run simulate -- --agents --ticks 200
   npm run simulate -- --agents --trace-llm --use-real-llm
+  npm run simulate -- --agents --use-real-llm --provider openai --model llama3.1
+  npm run simulate -- --agents --use-real-llm --record-llm run.llm.json
+  npm run simulate -- --agents --replay-llm run.llm.json
         `);
         process.exit(0);
     }
@@ -157,6 +225,45 @@ function formatDecision(result: AgentTickResult): string {
         case 'wait':
           parts.push(`WAIT(${action.shipId}: ${action.ticks} ticks)`);
           break;
+        case 'build_building':
+          parts.push(`BUILD(${action.buildingType}@${action.islandId})`);
+          break;
+        case 'upgrade_building':
+          parts.push(`UPGRADE(${action.buildingId}@${action.islandId})`);
+          break;
+        case 'order_ship':
+          parts.push(`ORDER_SHIP(${action.blueprintId} "${action.shipName}"@${action.shipyardId})`);
+          break;
+        case 'cancel_ship_order':
+          parts.push(`CANCEL_SHIP_ORDER(${action.shipyardId})`);
+          break;
+        case 'repair':
+          parts.push(`REPAIR(${action.shipId}@${action.islandId} to ${formatPercent(action.targetCondition).trim()})`);
+          break;
+        case 'hire_crew':
+          parts.push(`HIRE_CREW(${action.shipId}@${action.islandId}: ${action.count})`);
+          break;
+        case 'borrow':
+          parts.push(`BORROW(${action.shipId}: ${action.amount.toFixed(0)})`);
+          break;
+        case 'repay':
+          parts.push(`REPAY(${action.shipId}: ${action.amount.toFixed(0)})`);
+          break;
+        case 'transfer_funds':
+          parts.push(`${action.amount >= 0 ? 'DEPOSIT' : 'WITHDRAW'}(${action.shipId}: ${Math.abs(action.amount).toFixed(0)})`);
+          break;
+        case 'set_quota':
+          parts.push(`QUOTA(${action.goodId}@${action.islandId}: ${action.quota === null ? 'none' : action.quota.toFixed(1)})`);
+          break;
+        case 'set_tariff':
+          parts.push(`TARIFF(${action.direction}@${action.islandId}: ${formatPercent(action.rate).trim()})`);
+          break;
+        case 'set_reserve':
+          parts.push(`RESERVE(${action.goodId}@${action.islandId}: ${action.quantity.toFixed(0)})`);
+          break;
+        case 'fund_building':
+          parts.push(`FUND(${action.buildingType}@${action.islandId})`);
+          break;
       }
     }
   }
@@ -228,13 +335,29 @@ function logAgentTick(result: AgentTickResult, traceLLM: boolean): void {
 function createTraderAgents(
   options: RunOptions,
   initialCash: number,
-  shipIds: string[]
+  shipIds: string[],
+  llmCache: LLMResponseCache | null
 ): TraderAgent[] {
   const agents: TraderAgent[] = [];
 
-  if (options.useRealLLM && process.env.GEMINI_API_KEY) {
-    console.log('Using real Gemini LLM client');
-    const llmClient = new LLMClient();
+  const hasProvider = options.provider !== 'gemini' || !!process.env.GEMINI_API_KEY;
+
+  if (llmCache?.mode === 'replay' || (options.useRealLLM && hasProvider)) {
+    let llmClient: LLMClient;
+    if (llmCache?.mode === 'replay') {
+      console.log(`Replaying ${llmCache.getResponses().length} recorded LLM responses from ${options.replayLLM}`);
+      llmClient = createReplayClient(llmCache);
+    } else {
+      const model = options.model ?? DEFAULT_PROVIDER_MODELS[options.provider];
+      console.log(`Using real LLM client (${options.provider}: ${model})`);
+      const client = new LLMClient({
+        model,
+        provider: createProvider(options.provider, {
+          openai: { baseUrl: options.baseUrl, apiKey: process.env.LLM_API_KEY },
+        }),
+      });
+      llmClient = llmCache ? createRecordingClient(client, llmCache) : client;
+    }
 
     const agent = new TraderAgent(
       'trader-alpha',
@@ -258,13 +381,47 @@ function createTraderAgents(
   return agents;
 }
 
+/**
+ * Build the initial world and config from a scenario file, a generated
+ * archipelago or the MVP world
+ */
+function createInitialWorld(options: RunOptions): {
+  initialState: WorldState;
+  simConfig: Partial<SimulationConfig>;
+  scenarioName: string | null;
+} {
+  if (!options.scenario) {
+    const seed = options.seed ?? DEFAULT_CONFIG.seed;
+    if (options.islands !== null) {
+      const world = generateArchipelago(seed, { islandCount: options.islands });
+      return { initialState: world, simConfig: { seed }, scenarioName: 'Generated' };
+    }
+    return { initialState: initializeWorld(seed), simConfig: { seed }, scenarioName: null };
+  }
+
+  try {
+    const { scenario, world, config } = loadScenario(options.scenario, options.seed ?? undefined);
+    return { initialState: world, simConfig: config, scenarioName: scenario.name };
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      console.error(`Failed to load scenario ${options.scenario}: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
 async function main() {
   const options = parseArgs();
+  const { initialState, simConfig, scenarioName } = createInitialWorld(options);
 
   console.log('='.repeat(60));
   console.log('Living Archipelago Simulation');
   console.log('='.repeat(60));
-  console.log(`Seed: ${options.seed}`);
+  if (scenarioName) {
+    console.log(`Scenario: ${scenarioName} (${initialState.islands.size} islands)`);
+  }
+  console.log(`Seed: ${initialState.rngState}`);
   console.log(`Ticks: ${options.ticks}`);
   console.log(`Agents: ${options.agents ? 'Enabled' : 'Disabled'}`);
   if (options.agents) {
@@ -274,12 +431,16 @@ async function main() {
   console.log('');
 
   // Initialize world
-  const initialState = initializeWorld(options.seed);
-  const sim = new Simulation(initialState, { seed: options.seed });
+  const sim = new Simulation(initialState, simConfig);
 
   // Initialize agent system if enabled
   let agentManager: AgentManager | null = null;
   let traderAgents: TraderAgent[] = [];
+  const llmCache = options.replayLLM
+    ? LLMResponseCache.loadFromFile(options.replayLLM)
+    : options.recordLLM
+      ? new LLMResponseCache('record')
+      : null;
   const agentMetrics: AgentMetrics = {
     totalLLMCalls: 0,
     tradesExecuted: 0,
@@ -289,13 +450,13 @@ async function main() {
   };
 
   if (options.agents) {
-    agentManager = new AgentManager({ debug: options.verbose });
+    agentManager = new AgentManager({ debug: options.verbose, simulationConfig: sim.getConfig() });
 
     // Get ship IDs from world state for the trader
     const shipIds = Array.from(initialState.ships.keys());
     const initialCash = 1000;
 
-    traderAgents = createTraderAgents(options, initialCash, shipIds);
+    traderAgents = createTraderAgents(options, initialCash, shipIds, llmCache);
 
     for (const agent of traderAgents) {
       agentManager.registerAgent(agent, initialState);
@@ -318,10 +479,13 @@ async function main() {
     // Process agents if enabled
     if (agentManager) {
       const currentState = sim.getState();
+      llmCache?.setTick(currentState.tick);
       const agentResults = await agentManager.processTick(currentState);
 
       // Update world state with agent actions
-      // Note: In a full implementation, we'd update sim state from agentResults.newWorld
+      if (agentResults.newWorld !== currentState) {
+        sim.updateState(agentResults.newWorld);
+      }
 
       // Track metrics and log agent activity
       for (const result of agentResults.results) {
@@ -425,6 +589,12 @@ async function main() {
     console.log(`    Strategies Created: ${agentMetrics.strategiesCreated}`);
   }
 
+  if (llmCache?.mode === 'record' && options.recordLLM) {
+    llmCache.saveToFile(options.recordLLM);
+    console.log('');
+    console.log(`Recorded ${llmCache.getResponses().length} LLM responses to ${options.recordLLM}`);
+  }
+
   // Verify determinism
   console.log('');
   console.log('Determinism Check:');
@@ -443,7 +613,7 @@ function printSummary(sim: Simulation) {
       `      Pop: ${island.population.toString().padStart(4)} | Health: ${formatPercent(island.health)}`
     );
     console.log(
-      `      Prices: Fish ${formatPrice(island.prices.fish)} | Grain ${formatPrice(island.prices.grain)} | Timber ${formatPrice(island.prices.timber)}`
+      `      Prices: Fish ${formatPrice(island.prices.fish ?? 0)} | Grain ${formatPrice(island.prices.grain ?? 0)} | Timber ${formatPrice(island.prices.timber ?? 0)}`
     );
   }
 
@@ -8,7 +8,7 @@ import { Simulation, type TickMetrics } from '../core/simulation.js';
 import { initializeWorld, DEFAULT_CONFIG } from '../core/world.js';
 import { AgentManager } from '../agents/core/agent-manager.js';
 import { createMockTraderAgent } from '../agents/traders/trader-agent.js';
-import type { WorldState, GoodId } from '../core/types.js';
+import type { WorldState, GoodId, GameTime } from '../core/types.js';
 import * as fs from 'fs';
 
 // ============================================================================
@@ -251,10 +251,10 @@ function printHeader(options: ObserverOptions): void {
   console.log('');
 }
 
-function printTickHeader(tick: number, gameDay: number, gameHour: number, verbosity: VerbosityLevel): void {
+function printTickHeader(tick: number, gameTime: GameTime, verbosity: VerbosityLevel): void {
   if (verbosity === 'quiet') return;
 
-  const timeStr = `Day ${gameDay}, Hour ${gameHour.toString().padStart(2, '0')}:00`;
+  const timeStr = `Day ${gameTime.gameDay}, Hour ${gameTime.gameHour.toString().padStart(2, '0')}:00, ${gameTime.season}`;
   console.log(`${ANSI.bold}${ANSI.magenta}--- Tick ${tick} (${timeStr}) ---${ANSI.reset}`);
 }
 
@@ -362,6 +362,25 @@ function printEvents(metrics: TickMetrics, state: WorldState, verbosity: Verbosi
     console.log(`${ANSI.yellow}${ANSI.bold}New Events:${ANSI.reset} ${metrics.newEvents.join(', ')}`);
   }
 
+  // Weather
+  if (metrics.stormsFormed.length > 0) {
+    console.log(`${ANSI.yellow}${ANSI.bold}Storms Forming:${ANSI.reset} ${metrics.stormsFormed.join(', ')}`);
+  }
+  if (metrics.closedPorts.length > 0 && verbosity !== 'normal') {
+    console.log(`${ANSI.dim}Ports Closed: ${metrics.closedPorts.join(', ')}${ANSI.reset}`);
+  }
+
+  // Bankruptcies
+  for (const record of metrics.bankruptcies) {
+    const buyer = record.auction
+      ? `sold to ${record.auction.winnerId} for ${record.auction.price.toFixed(0)}`
+      : 'scrapped';
+    console.log(
+      `${ANSI.red}${ANSI.bold}Bankruptcy:${ANSI.reset} ${record.shipId} (${record.agentId}) seized at ${record.islandId}, ` +
+        `${buyer}, ${record.writtenOff.toFixed(0)} written off, owner ${record.outcome}`
+    );
+  }
+
   // Arrivals
   if (metrics.arrivals.length > 0) {
     const arrivalStrs = metrics.arrivals.map(a => `${a.shipId} arrived at ${a.islandId}`);
@@ -522,7 +541,7 @@ async function main(): Promise<void> {
   // Initialize agents if enabled
   let agentManager: AgentManager | null = null;
   if (options.agents) {
-    agentManager = new AgentManager({ debug: options.verbosity === 'debug' });
+    agentManager = new AgentManager({ debug: options.verbosity === 'debug', simulationConfig: sim.getConfig() });
 
     // Create mock trader agents for each ship
     for (const [shipId, ship] of initialState.ships) {
@@ -579,7 +598,7 @@ async function main(): Promise<void> {
     }
 
     // Output based on verbosity
-    printTickHeader(state.tick, state.gameTime.gameDay, state.gameTime.gameHour, options.verbosity);
+    printTickHeader(state.tick, state.gameTime, options.verbosity);
     printIslandTable(state, metrics, prevState, options.verbosity);
     printShipTable(state, options.verbosity);
     printEvents(metrics, state, options.verbosity);
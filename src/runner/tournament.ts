@@ -0,0 +1,188 @@
+/**
+ * Tournament Runner
+ * CLI for benchmarking trader configurations across many seeds
+ *
+ * Writes a ranked report as <out>.json and <out>.md.
+ */
+
+import { writeFileSync } from 'fs';
+import type { SimulationConfig, WorldState } from '../core/types.js';
+import { initializeWorld } from '../core/world.js';
+import { isLLMProviderId, type LLMProviderId } from '../llm/providers.js';
+import { loadScenarioFile, buildWorldFromScenario, ScenarioError } from '../scenarios/index.js';
+import {
+  DEFAULT_ENTRANTS,
+  TournamentError,
+  formatMarkdown,
+  parseEntrantSpec,
+  runTournament,
+  type EntrantSpec,
+} from '../tournament/index.js';
+
+interface TournamentOptions {
+  entrants: string[];
+  seeds: number;
+  seed: number;
+  ticks: number;
+  scenario: string | null;
+  out: string;
+  priceAs: { provider: LLMProviderId; model: string } | null;
+}
+
+function parseArgs(): TournamentOptions {
+  const args = process.argv.slice(2);
+  const options: TournamentOptions = {
+    entrants: DEFAULT_ENTRANTS,
+    seeds: 10,
+    seed: 1,
+    ticks: 500,
+    scenario: null,
+    out: 'tournament-report',
+    priceAs: null,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+
+    switch (arg) {
+      case '--entrants':
+        options.entrants = next.split(',').map((s) => s.trim()).filter(Boolean);
+        i++;
+        break;
+      case '--seeds':
+        options.seeds = parseInt(next, 10);
+        i++;
+        break;
+      case '--seed':
+        options.seed = parseInt(next, 10);
+        i++;
+        break;
+      case '--ticks':
+        options.ticks = parseInt(next, 10);
+        i++;
+        break;
+      case '--scenario':
+        options.scenario = next;
+        i++;
+        break;
+      case '--out':
+        options.out = next.replace(/\.(json|md)$/, '');
+        i++;
+        break;
+      case '--price-as': {
+        const [provider, ...model] = next.split(':');
+        if (!isLLMProviderId(provider) || model.length === 0) {
+          console.error(`Invalid --price-as ${next} (use <provider>:<model>)`);
+          process.exit(1);
+        }
+        options.priceAs = { provider, model: model.join(':') };
+        i++;
+        break;
+      }
+      case '--help':
+      case '-h':
+        console.log(`
+Living Archipelago Tournament
+
+Usage: npm run tournament -- [options]
+
+Options:
+  --entrants <list>        Comma-separated entrants (default: ${DEFAULT_ENTRANTS.join(',')})
+                             mock | rules:<cautious|balanced|aggressive>
+                             llm[:<provider>[:<model>]] | rl:<policy.json>
+  --seeds <number>         Seeds per entrant (default: 10)
+  --seed <number>          First seed (default: 1)
+  --ticks <number>         Ticks per match (default: 500)
+  --scenario <file>        Play on a scenario file instead of the MVP world
+  --out <path>             Report path without extension (default: tournament-report)
+  --price-as <p>:<model>   Price scripted LLM calls as a real model, e.g. gemini:gemini-1.5-flash
+
+Examples:
+  npm run tournament -- --seeds 20 --ticks 300
+  npm run tournament -- --entrants rules:balanced,rl:rl-policy.json --price-as gemini:gemini-1.5-flash
+        `);
+        process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * World factory and config for the chosen world
+ */
+function createWorldSource(options: TournamentOptions): {
+  createWorld: (seed: number) => WorldState;
+  simulationConfig: Partial<SimulationConfig>;
+} {
+  if (!options.scenario) {
+    return { createWorld: initializeWorld, simulationConfig: {} };
+  }
+
+  try {
+    const scenario = loadScenarioFile(options.scenario);
+    return {
+      createWorld: (seed) => buildWorldFromScenario(scenario, seed).world,
+      simulationConfig: buildWorldFromScenario(scenario).config,
+    };
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      console.error(`Failed to load scenario ${options.scenario}: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+async function main() {
+  const options = parseArgs();
+
+  let entrants: EntrantSpec[];
+  try {
+    entrants = options.entrants.map(parseEntrantSpec);
+  } catch (error) {
+    if (error instanceof TournamentError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const seeds = Array.from({ length: options.seeds }, (_, i) => options.seed + i);
+
+  console.log('='.repeat(60));
+  console.log('LIVING ARCHIPELAGO - Trader Tournament');
+  console.log('='.repeat(60));
+  console.log(`Entrants: ${entrants.map((e) => e.id).join(', ')}`);
+  console.log(`Seeds: ${seeds[0]}-${seeds[seeds.length - 1]}, ticks: ${options.ticks}`);
+  console.log();
+
+  const report = await runTournament({
+    ...createWorldSource(options),
+    entrants,
+    seeds,
+    ticks: options.ticks,
+    priceAs: options.priceAs ?? undefined,
+    onMatch: (result) => {
+      const outcome = result.error
+        ? `FAILED: ${result.error}`
+        : `net worth ${result.finalNetWorth.toFixed(0)} (${(result.roi * 100).toFixed(1)}%)` +
+          (result.bankrupt ? ' BANKRUPT' : '');
+      console.log(`[seed ${result.seed}] ${result.entrantId}: ${outcome}`);
+    },
+  });
+
+  const markdown = formatMarkdown(report);
+  writeFileSync(`${options.out}.json`, JSON.stringify(report, null, 2));
+  writeFileSync(`${options.out}.md`, markdown);
+
+  console.log();
+  console.log(markdown);
+  console.log(`Report written to ${options.out}.json and ${options.out}.md`);
+}
+
+main().catch((error) => {
+  console.error('Tournament failed:', error);
+  process.exit(1);
+});
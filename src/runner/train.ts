@@ -0,0 +1,184 @@
+/**
+ * RL Training Runner
+ * Trains a tabular Q-learning trader headlessly and saves its policy
+ *
+ * The saved policy can be loaded by RLTraderAgent to benchmark a learning
+ * agent against the LLM traders.
+ */
+
+import { writeFileSync } from 'fs';
+import { TradingEnvironment, type TradingEnvironmentConfig } from '../rl/environment.js';
+import { QLearner, runEpisode, type EpisodeStats } from '../rl/q-learner.js';
+import { loadScenarioFile, buildWorldFromScenario, ScenarioError } from '../scenarios/index.js';
+
+interface TrainOptions {
+  episodes: number;
+  steps: number;
+  seed: number;
+  evalEpisodes: number;
+  out: string;
+  scenario: string | null;
+  logInterval: number;
+}
+
+function parseArgs(): TrainOptions {
+  const args = process.argv.slice(2);
+  const options: TrainOptions = {
+    episodes: 200,
+    steps: 100,
+    seed: 1,
+    evalEpisodes: 5,
+    out: 'rl-policy.json',
+    scenario: null,
+    logInterval: 10,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+
+    switch (arg) {
+      case '--episodes':
+        options.episodes = parseInt(next, 10);
+        i++;
+        break;
+      case '--steps':
+        options.steps = parseInt(next, 10);
+        i++;
+        break;
+      case '--seed':
+        options.seed = parseInt(next, 10);
+        i++;
+        break;
+      case '--eval-episodes':
+        options.evalEpisodes = parseInt(next, 10);
+        i++;
+        break;
+      case '--out':
+        options.out = next;
+        i++;
+        break;
+      case '--scenario':
+        options.scenario = next;
+        i++;
+        break;
+      case '--log-interval':
+        options.logInterval = parseInt(next, 10);
+        i++;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Living Archipelago RL Trainer
+
+Usage: npm run train -- [options]
+
+Options:
+  --episodes <number>       Training episodes (default: 200)
+  --steps <number>          Decisions per episode (default: 100)
+  --seed <number>           First world seed; episode N uses seed + N (default: 1)
+  --eval-episodes <number>  Greedy evaluation episodes on unseen seeds (default: 5)
+  --out <file>              Where to write the policy (default: rl-policy.json)
+  --scenario <file>         Train on a scenario file instead of the MVP world
+  --log-interval <number>   Episodes between progress lines (default: 10)
+
+Examples:
+  npm run train -- --episodes 500 --out policies/alpha.json
+  npm run train -- --scenario scenarios/ten-islands.yaml
+        `);
+        process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Environment settings for the chosen world
+ */
+function createEnvironmentConfig(options: TrainOptions): Partial<TradingEnvironmentConfig> {
+  if (!options.scenario) {
+    return { maxSteps: options.steps };
+  }
+
+  try {
+    const scenario = loadScenarioFile(options.scenario);
+    return {
+      maxSteps: options.steps,
+      createWorld: (seed) => buildWorldFromScenario(scenario, seed).world,
+      simulationConfig: buildWorldFromScenario(scenario).config,
+    };
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      console.error(`Failed to load scenario ${options.scenario}: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+function profit(stats: EpisodeStats): number {
+  return stats.finalNetWorth - stats.startNetWorth;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+async function main() {
+  const options = parseArgs();
+  const env = new TradingEnvironment(createEnvironmentConfig(options));
+  env.reset(options.seed);
+  const actionSpace = env.getActionSpace();
+  const learner = new QLearner(actionSpace.size, { seed: options.seed });
+
+  console.log('='.repeat(60));
+  console.log('LIVING ARCHIPELAGO - RL Training');
+  console.log('='.repeat(60));
+  console.log(`Episodes: ${options.episodes}, steps: ${options.steps}, seed: ${options.seed}`);
+  console.log(`Ships: ${env.getShipIds().join(', ')}`);
+  console.log(`Actions: ${actionSpace.size}`);
+  console.log();
+
+  const window: EpisodeStats[] = [];
+  for (let episode = 0; episode < options.episodes; episode++) {
+    const stats = await runEpisode(env, learner, options.seed + episode, true);
+    window.push(stats);
+
+    if ((episode + 1) % options.logInterval === 0 || episode === options.episodes - 1) {
+      console.log(
+        `Episode ${String(episode + 1).padStart(5)} | ` +
+        `profit ${mean(window.map(profit)).toFixed(0).padStart(8)} | ` +
+        `reward ${mean(window.map((s) => s.totalReward)).toFixed(0).padStart(8)} | ` +
+        `rejected ${mean(window.map((s) => s.rejected)).toFixed(1).padStart(5)} | ` +
+        `epsilon ${learner.getEpsilon().toFixed(3)} | ` +
+        `states ${learner.getStateCount()}`
+      );
+      window.length = 0;
+    }
+  }
+
+  // Greedy evaluation on seeds not used in training, against doing nothing
+  const evalSeed = options.seed + options.episodes;
+  const idle = new QLearner(actionSpace.size);
+  const trained: number[] = [];
+  const baseline: number[] = [];
+  for (let i = 0; i < options.evalEpisodes; i++) {
+    trained.push(profit(await runEpisode(env, learner, evalSeed + i, false)));
+    baseline.push(profit(await runEpisode(env, idle, evalSeed + i, false)));
+  }
+
+  console.log();
+  console.log(`Evaluation (${options.evalEpisodes} unseen seeds):`);
+  console.log(`  Trained policy: ${mean(trained).toFixed(0)} gold average profit`);
+  console.log(`  Idle baseline:  ${mean(baseline).toFixed(0)} gold average profit`);
+
+  const actions = actionSpace.specs.map((spec) => actionSpace.describe(spec.index));
+  writeFileSync(options.out, JSON.stringify(learner.toJSON(actions), null, 2));
+  console.log(`\nPolicy written to ${options.out}`);
+}
+
+main().catch((error) => {
+  console.error('Training failed:', error);
+  process.exit(1);
+});
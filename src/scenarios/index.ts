@@ -0,0 +1,17 @@
+/**
+ * Scenarios Module
+ * Data-driven world scenarios loaded from JSON or YAML files
+ */
+
+export {
+  ScenarioError,
+  parseScenario,
+  loadScenarioFile,
+  loadScenario,
+  buildScenarioConfig,
+  buildWorldFromScenario,
+} from './loader.js';
+export type { ScenarioFormat } from './loader.js';
+
+export { ScenarioSchema } from './schema.js';
+export type { Scenario, ScenarioInput } from './schema.js';
@@ -0,0 +1,345 @@
+/**
+ * Scenario Loader
+ * Parses scenario files (JSON or YAML) and builds a WorldState from them
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import yaml from 'js-yaml';
+
+import type {
+  WorldState,
+  IslandState,
+  ShipState,
+  AgentState,
+  ShipyardState,
+  GoodDefinition,
+  GoodId,
+  IslandId,
+  ShipId,
+  AgentId,
+  FactionId,
+  FactionState,
+  ShipyardId,
+  SimulationConfig,
+  BuildingId,
+  Building,
+  ProductionShock,
+} from '../core/types.js';
+import {
+  DEFAULT_CONFIG,
+  MVP_GOODS,
+  createGoodsMap,
+  createDefaultCrew,
+  createDefaultIslandPolicy,
+  createFaction,
+  cloneSeaLanes,
+  createInitialInventory,
+  createInitialMarket,
+  createProductionParams,
+  createLabourAllocation,
+  tickToGameTime,
+} from '../core/world.js';
+import { initializeMarketDepth } from '../systems/market-depth.js';
+import { createShipyard } from '../systems/shipyard.js';
+import { ScenarioSchema, type Scenario, type ScenarioIsland, type ScenarioShip } from './schema.js';
+
+export type ScenarioFormat = 'json' | 'yaml';
+
+/**
+ * Error raised when a scenario cannot be parsed or validated
+ */
+export class ScenarioError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}:\n  ${issues.join('\n  ')}` : message);
+    this.name = 'ScenarioError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse and validate scenario content
+ */
+export function parseScenario(content: string, format: ScenarioFormat): Scenario {
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ScenarioError(`Invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+
+  const result = ScenarioSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new ScenarioError('Invalid scenario', issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Read and validate a scenario file (.json, .yaml or .yml)
+ */
+export function loadScenarioFile(path: string): Scenario {
+  const extension = extname(path).toLowerCase();
+  let format: ScenarioFormat;
+  if (extension === '.json') {
+    format = 'json';
+  } else if (extension === '.yaml' || extension === '.yml') {
+    format = 'yaml';
+  } else {
+    throw new ScenarioError(`Unsupported scenario file type '${extension}' (use .json, .yaml or .yml)`);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new ScenarioError(`Cannot read scenario file ${path}: ${(error as Error).message}`);
+  }
+
+  return parseScenario(content, format);
+}
+
+// ============================================================================
+// Config
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (isPlainObject(value)) return 'an object';
+  return value === null ? 'null' : `a ${typeof value}`;
+}
+
+/**
+ * Deep-merge overrides onto a base object, rejecting keys the base does not have
+ * and values of a different type than the base value
+ */
+function mergeOverrides(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+  path: string,
+  issues: string[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!Object.hasOwn(base, key)) {
+      issues.push(`config.${keyPath}: Unknown config key`);
+      continue;
+    }
+
+    const current = base[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      merged[key] = mergeOverrides(current, value, keyPath, issues);
+    } else if (describeType(current) !== describeType(value)) {
+      issues.push(`config.${keyPath}: Expected ${describeType(current)}, got ${describeType(value)}`);
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Build the simulation config for a scenario
+ * Config overrides are merged over DEFAULT_CONFIG
+ */
+export function buildScenarioConfig(scenario: Scenario, seed: number): SimulationConfig {
+  const issues: string[] = [];
+  const merged = mergeOverrides(
+    DEFAULT_CONFIG as unknown as Record<string, unknown>,
+    scenario.config,
+    '',
+    issues
+  );
+  if (issues.length > 0) {
+    throw new ScenarioError('Invalid scenario config', issues);
+  }
+
+  return { ...(merged as unknown as SimulationConfig), seed };
+}
+
+// ============================================================================
+// World Building
+// ============================================================================
+
+function createScenarioIsland(
+  spec: ScenarioIsland,
+  goods: GoodDefinition[],
+  config: SimulationConfig
+): IslandState {
+  const inventory = createInitialInventory(spec.archetype);
+  const market = createInitialMarket(goods, spec.archetype);
+  const productionParams = createProductionParams(spec.archetype);
+
+  for (const good of goods) {
+    if (!inventory.has(good.id)) inventory.set(good.id, 0);
+    if (!productionParams.toolSensitivity.has(good.id)) productionParams.toolSensitivity.set(good.id, 0.5);
+    if (!productionParams.ecosystemSensitivity.has(good.id)) {
+      productionParams.ecosystemSensitivity.set(good.id, 0.5);
+    }
+  }
+  for (const [goodId, amount] of Object.entries(spec.inventory ?? {})) {
+    inventory.set(goodId, amount);
+  }
+  for (const [goodId, rate] of Object.entries(spec.productionRates ?? {})) {
+    productionParams.baseRate.set(goodId, rate);
+  }
+  if (spec.idealStock) {
+    for (const [goodId, ideal] of Object.entries(spec.idealStock)) {
+      market.idealStock.set(goodId, ideal);
+    }
+    const { buyDepth, sellDepth } = initializeMarketDepth(market.idealStock, config.marketDepthConfig);
+    market.buyDepth = buyDepth;
+    market.sellDepth = sellDepth;
+  }
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    position: { ...spec.position },
+    ecosystem: { ...spec.ecosystem },
+    ecosystemParams: { ...spec.ecosystemParams },
+    population: {
+      size: spec.population.size,
+      health: spec.population.health,
+      labour: spec.population.labour ? { ...spec.population.labour } : createLabourAllocation(spec.archetype),
+    },
+    inventory,
+    market,
+    productionParams,
+    buildings: new Map<BuildingId, Building>(),
+    constructionOrders: [],
+    // Economic Model V2: Treasury defaults to 10 coins per population
+    treasury: spec.treasury ?? spec.population.size * 10,
+    treasuryIncome: 0,
+    treasuryExpenses: 0,
+    cumulativeExportRevenue: 0,
+    cumulativeImportCosts: 0,
+    productionShocks: new Map<GoodId, ProductionShock>(),
+    foodDeficitTicks: 0,
+    policy: createDefaultIslandPolicy(spec.governorId ?? null),
+  };
+}
+
+function createScenarioShip(spec: ScenarioShip, config: SimulationConfig): ShipState {
+  const { baseValuePerCapacity, baseCreditMultiplier, interestRatePerTick } = config.creditConfig;
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    ownerId: spec.ownerId,
+    capacity: spec.capacity,
+    speed: spec.speed,
+    cash: spec.cash,
+    cargo: new Map(),
+    location: { kind: 'at_island', islandId: spec.islandId },
+    cumulativeTransportCosts: 0,
+    crew: createDefaultCrew(spec.capacity, spec.crewWageRate),
+    condition: spec.condition,
+    totalDistanceTraveled: 0,
+    spoilageLossThisVoyage: new Map(),
+    cumulativeSpoilageLoss: 0,
+    lastKnownPrices: new Map(),
+    debt: 0,
+    creditLimit: spec.capacity * baseValuePerCapacity * baseCreditMultiplier,
+    interestRate: interestRatePerTick,
+    cumulativeInterestPaid: 0,
+  };
+}
+
+/**
+ * Build a world state and simulation config from a validated scenario
+ *
+ * @param scenario - Validated scenario
+ * @param seed - Seed override (defaults to the scenario seed, then DEFAULT_CONFIG.seed)
+ */
+export function buildWorldFromScenario(
+  scenario: Scenario,
+  seed?: number
+): { world: WorldState; config: SimulationConfig } {
+  const worldSeed = seed ?? scenario.seed ?? DEFAULT_CONFIG.seed;
+  const config = buildScenarioConfig(scenario, worldSeed);
+  const goodList: GoodDefinition[] = scenario.goods ?? MVP_GOODS;
+
+  const islands = new Map<IslandId, IslandState>();
+  for (const spec of scenario.islands) {
+    islands.set(spec.id, createScenarioIsland(spec, goodList, config));
+  }
+
+  const ships = new Map<ShipId, ShipState>();
+  for (const spec of scenario.ships) {
+    ships.set(spec.id, createScenarioShip(spec, config));
+  }
+
+  const agents = new Map<AgentId, AgentState>();
+  for (const spec of scenario.agents) {
+    agents.set(spec.id, {
+      id: spec.id,
+      type: spec.type,
+      name: spec.name,
+      assets: { cash: spec.cash, shipIds: [...spec.shipIds] },
+    });
+  }
+
+  const factions = new Map<FactionId, FactionState>();
+  for (const spec of scenario.factions) {
+    factions.set(spec.id, createFaction(spec.id, spec.name, spec.memberIds, spec.treasury));
+  }
+
+  const shipyards = new Map<ShipyardId, ShipyardState>();
+  const shipyardSpecs =
+    scenario.shipyards ?? scenario.islands.map((i) => ({ islandId: i.id, name: `${i.name} Shipyard` }));
+  for (const spec of shipyardSpecs) {
+    const shipyard = createShipyard(spec.islandId, spec.name);
+    shipyards.set(shipyard.id, shipyard);
+  }
+
+  const world: WorldState = {
+    tick: 0,
+    gameTime: tickToGameTime(0),
+    rngState: worldSeed,
+    islands,
+    ships,
+    shipyards,
+    events: scenario.events.map((event) => ({ ...event, modifiers: { ...event.modifiers } })),
+    agents,
+    factions,
+    goods: createGoodsMap(goodList),
+    economyMetrics: {
+      taxCollectedThisTick: 0,
+      totalTaxCollected: 0,
+      taxRedistributedThisTick: 0,
+      totalTaxRedistributed: 0,
+    },
+    ...(scenario.seaLanes && { seaLanes: cloneSeaLanes(scenario.seaLanes) }),
+  };
+
+  return { world, config };
+}
+
+/**
+ * Load a scenario file and build its world state and config
+ */
+export function loadScenario(
+  path: string,
+  seed?: number
+): { scenario: Scenario; world: WorldState; config: SimulationConfig } {
+  const scenario = loadScenarioFile(path);
+  return { scenario, ...buildWorldFromScenario(scenario, seed) };
+}
@@ -0,0 +1,306 @@
+/**
+ * Scenario File Schema
+ * Zod schema for data-driven world scenarios (JSON or YAML)
+ *
+ * A scenario describes the starting archipelago: islands, goods, ships,
+ * agents, shipyards, sea lanes, starting events and config overrides. Islands start
+ * from an archetype template and override only what they need.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Building Blocks
+// ============================================================================
+
+const IdSchema = z.string().min(1);
+
+/** Per-good amounts, e.g. { fish: 800, grain: 300 } */
+const GoodAmountsSchema = z.record(z.string(), z.number().nonnegative());
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const LabourSchema = z.object({
+  fishing: z.number().min(0).max(1),
+  forestry: z.number().min(0).max(1),
+  farming: z.number().min(0).max(1),
+  industry: z.number().min(0).max(1),
+  services: z.number().min(0).max(1),
+});
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const GoodSchema = z.object({
+  id: IdSchema,
+  name: z.string().min(1),
+  category: z.enum(['food', 'material', 'tool', 'luxury']),
+  basePrice: z.number().positive(),
+  spoilageRatePerHour: z.number().min(0).max(1).default(0),
+  bulkiness: z.number().positive().default(1),
+  inputs: z
+    .array(z.object({ goodId: IdSchema, quantity: z.number().positive() }))
+    .optional(),
+});
+
+export const IslandSchema = z.object({
+  id: IdSchema,
+  name: z.string().min(1),
+  position: PositionSchema,
+  archetype: z.enum(['fishing', 'agricultural', 'forest', 'industrial', 'luxury']),
+  population: z.object({
+    size: z.number().positive(),
+    health: z.number().min(0).max(1).default(0.8),
+    labour: LabourSchema.optional(), // Defaults to the archetype allocation
+  }),
+  ecosystem: z.object({
+    fishStock: z.number().nonnegative(),
+    forestBiomass: z.number().nonnegative(),
+    soilFertility: z.number().min(0).max(1),
+  }),
+  ecosystemParams: z.object({
+    fishCapacity: z.number().positive(),
+    forestCapacity: z.number().positive(),
+    fishRegenRate: z.number().nonnegative().default(0.02),
+    forestRegenRate: z.number().nonnegative().default(0.03),
+    soilRegenBase: z.number().nonnegative().default(0.008),
+    soilDepletionRate: z.number().nonnegative().default(0.01),
+  }),
+  /** Overrides the archetype starting inventory */
+  inventory: GoodAmountsSchema.optional(),
+  /** Overrides the archetype ideal stock (also resizes market depth) */
+  idealStock: GoodAmountsSchema.optional(),
+  /** Overrides the archetype base production rates */
+  productionRates: GoodAmountsSchema.optional(),
+  /** Starting treasury (defaults to 10 coins per person) */
+  treasury: z.number().nonnegative().optional(),
+  /** Governor agent allowed to set this island's policy */
+  governorId: IdSchema.optional(),
+});
+
+export const ShipSchema = z.object({
+  id: IdSchema,
+  name: z.string().min(1),
+  ownerId: IdSchema,
+  islandId: IdSchema, // Ships start docked
+  capacity: z.number().positive(),
+  speed: z.number().positive(),
+  cash: z.number().nonnegative().default(0),
+  condition: z.number().min(0).max(1).default(1),
+  crewWageRate: z.number().nonnegative().optional(),
+});
+
+export const AgentSchema = z.object({
+  id: IdSchema,
+  type: z.enum(['trader', 'population', 'governor', 'player']),
+  name: z.string().min(1),
+  cash: z.number().nonnegative().default(0),
+  shipIds: z.array(IdSchema).default([]),
+});
+
+export const FactionSchema = z.object({
+  id: IdSchema,
+  name: z.string().min(1),
+  /** Member agents whose ships share the treasury */
+  memberIds: z.array(IdSchema).min(1),
+  treasury: z.number().nonnegative().default(0),
+});
+
+export const ShipyardSchema = z.object({
+  islandId: IdSchema,
+  name: z.string().min(1),
+});
+
+export const EventSchema = z.object({
+  id: IdSchema,
+  type: z.enum(['storm', 'blight', 'festival', 'discovery']),
+  targetId: IdSchema, // Island, ship or 'global'
+  startTick: z.number().int().nonnegative(),
+  endTick: z.number().int().positive(),
+  modifiers: z
+    .object({
+      shipSpeedMultiplier: z.number().optional(),
+      spoilageMultiplier: z.number().optional(),
+      soilFertilityRegenMultiplier: z.number().optional(),
+      grainProductionMultiplier: z.number().optional(),
+      luxuryDemandMultiplier: z.number().optional(),
+      foodDemandMultiplier: z.number().optional(),
+      toolEfficiencyBoost: z.number().optional(),
+    })
+    .default({}),
+});
+
+export const SeaLanesSchema = z.object({
+  waypoints: z.array(z.object({ id: IdSchema, position: PositionSchema })).default([]),
+  /** Lanes link island or waypoint IDs and are sailable both ways */
+  lanes: z.array(
+    z.object({
+      id: IdSchema,
+      from: IdSchema,
+      to: IdSchema,
+      danger: z.number().min(0).max(1).default(0),
+      windFactor: z.number().positive().default(1),
+    })
+  ),
+  obstacles: z
+    .array(
+      z.object({
+        id: IdSchema,
+        kind: z.enum(['reef', 'impassable']),
+        center: PositionSchema,
+        radius: z.number().positive(),
+        danger: z.number().min(0).max(1).default(0.3),
+      })
+    )
+    .default([]),
+});
+
+// ============================================================================
+// Scenario
+// ============================================================================
+
+export const ScenarioSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    seed: z.number().int().optional(),
+    /** Good definitions (defaults to the MVP goods) */
+    goods: z.array(GoodSchema).min(1).optional(),
+    islands: z.array(IslandSchema).min(1),
+    ships: z.array(ShipSchema).default([]),
+    agents: z.array(AgentSchema).default([]),
+    /** Trading companies (none when omitted) */
+    factions: z.array(FactionSchema).default([]),
+    /** Shipyards (defaults to one per island) */
+    shipyards: z.array(ShipyardSchema).optional(),
+    events: z.array(EventSchema).default([]),
+    /** Sea-lane navigation graph (islands are linked by straight lines when omitted) */
+    seaLanes: SeaLanesSchema.optional(),
+    /** Nested partial SimulationConfig merged over DEFAULT_CONFIG */
+    config: z.record(z.string(), z.unknown()).default({}),
+  })
+  .superRefine((scenario, ctx) => {
+    const report = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    const checkUnique = (key: string | string[], ids: string[]) => {
+      const path = Array.isArray(key) ? key : [key];
+      const seen = new Set<string>();
+      ids.forEach((id, index) => {
+        if (seen.has(id)) report([...path, index, 'id'], `Duplicate id '${id}'`);
+        seen.add(id);
+      });
+    };
+
+    checkUnique('islands', scenario.islands.map((i) => i.id));
+    checkUnique('ships', scenario.ships.map((s) => s.id));
+    checkUnique('agents', scenario.agents.map((a) => a.id));
+    checkUnique('factions', scenario.factions.map((f) => f.id));
+    checkUnique('events', scenario.events.map((e) => e.id));
+    if (scenario.goods) checkUnique('goods', scenario.goods.map((g) => g.id));
+
+    const islandIds = new Set(scenario.islands.map((i) => i.id));
+    const shipIds = new Set(scenario.ships.map((s) => s.id));
+
+    scenario.ships.forEach((ship, index) => {
+      if (!islandIds.has(ship.islandId)) {
+        report(['ships', index, 'islandId'], `Unknown island '${ship.islandId}'`);
+      }
+    });
+
+    scenario.agents.forEach((agent, index) => {
+      agent.shipIds.forEach((shipId, shipIndex) => {
+        if (!shipIds.has(shipId)) {
+          report(['agents', index, 'shipIds', shipIndex], `Unknown ship '${shipId}'`);
+        }
+      });
+    });
+
+    const agentIds = new Set(scenario.agents.map((a) => a.id));
+    const factionOf = new Map<string, string>();
+    scenario.factions.forEach((faction, index) => {
+      faction.memberIds.forEach((memberId, memberIndex) => {
+        if (!agentIds.has(memberId)) {
+          report(['factions', index, 'memberIds', memberIndex], `Unknown agent '${memberId}'`);
+        }
+        const existing = factionOf.get(memberId);
+        if (existing) {
+          report(['factions', index, 'memberIds', memberIndex], `Agent '${memberId}' already belongs to '${existing}'`);
+        }
+        factionOf.set(memberId, faction.id);
+      });
+    });
+
+    // Shipyards are keyed by island, so each island has at most one
+    const shipyardIslands = new Set<string>();
+    scenario.shipyards?.forEach((shipyard, index) => {
+      if (!islandIds.has(shipyard.islandId)) {
+        report(['shipyards', index, 'islandId'], `Unknown island '${shipyard.islandId}'`);
+      }
+      if (shipyardIslands.has(shipyard.islandId)) {
+        report(['shipyards', index, 'islandId'], `Island '${shipyard.islandId}' already has a shipyard`);
+      }
+      shipyardIslands.add(shipyard.islandId);
+    });
+
+    scenario.events.forEach((event, index) => {
+      if (event.targetId !== 'global' && !islandIds.has(event.targetId) && !shipIds.has(event.targetId)) {
+        report(['events', index, 'targetId'], `Unknown target '${event.targetId}'`);
+      }
+      if (event.endTick <= event.startTick) {
+        report(['events', index, 'endTick'], 'endTick must be after startTick');
+      }
+    });
+
+    if (scenario.seaLanes) {
+      const { waypoints, lanes, obstacles } = scenario.seaLanes;
+      const nodeIds = new Set([...islandIds, ...waypoints.map((w) => w.id)]);
+
+      checkUnique(['seaLanes', 'waypoints'], waypoints.map((w) => w.id));
+      checkUnique(['seaLanes', 'lanes'], lanes.map((l) => l.id));
+      checkUnique(['seaLanes', 'obstacles'], obstacles.map((o) => o.id));
+      waypoints.forEach((waypoint, index) => {
+        if (islandIds.has(waypoint.id)) {
+          report(['seaLanes', 'waypoints', index, 'id'], `Waypoint '${waypoint.id}' clashes with an island id`);
+        }
+      });
+      lanes.forEach((lane, index) => {
+        for (const end of ['from', 'to'] as const) {
+          if (!nodeIds.has(lane[end])) {
+            report(['seaLanes', 'lanes', index, end], `Unknown island or waypoint '${lane[end]}'`);
+          }
+        }
+        if (lane.from === lane.to) {
+          report(['seaLanes', 'lanes', index, 'to'], 'Lane must link two different nodes');
+        }
+      });
+    }
+
+    if (scenario.goods) {
+      const goodIds = new Set(scenario.goods.map((g) => g.id));
+      scenario.goods.forEach((good, index) => {
+        good.inputs?.forEach((input, inputIndex) => {
+          if (!goodIds.has(input.goodId)) {
+            report(['goods', index, 'inputs', inputIndex, 'goodId'], `Unknown good '${input.goodId}'`);
+          }
+        });
+      });
+    }
+  });
+
+/**
+ * Validated scenario (defaults applied)
+ */
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+/**
+ * Scenario as written in a file (before defaults are applied)
+ */
+export type ScenarioInput = z.input<typeof ScenarioSchema>;
+
+export type ScenarioIsland = z.infer<typeof IslandSchema>;
+export type ScenarioShip = z.infer<typeof ShipSchema>;
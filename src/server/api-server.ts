@@ -20,6 +20,7 @@ import { setCorsHeaders, handleCorsPreflightIfNeeded, sendError } from './utils/
 // Import controller and services
 import { initializeSimulation } from './controllers/SimulationController.js';
 import { initializeDatabase, closeDatabase, recordLLMCall } from './services/DatabaseService.js';
+import { flushLLMRecording } from './services/AgentService.js';
 
 // Import WebSocket handler
 import { handleConnection } from './ws/index.js';
@@ -81,6 +82,7 @@ server.listen(config.PORT, () => {
   console.log(`WebSocket: ws://localhost:${config.PORT}/ws`);
   console.log(`Agents:    ${config.ENABLE_AGENTS ? 'Enabled' : 'Disabled'}`);
   console.log(`API Key:   ${config.HAS_API_KEY ? 'Available' : 'Not set'}`);
+  console.log(`Provider:  ${state.llmProvider} (${state.llmModel})`);
   console.log(`LLM Mode:  ${state.llmEnabled ? 'Real' : 'Mock'} (toggle via dashboard)`);
   console.log(`Database:  ${state.database ? `${config.DB_PATH} (every ${config.DB_SNAPSHOT_INTERVAL} ticks)` : 'Disabled'}`);
   console.log('='.repeat(50));
@@ -93,6 +95,7 @@ process.on('SIGINT', () => {
     clearInterval(state.tickInterval);
   }
 
+  flushLLMRecording();
   closeDatabase();
 
   wss.close();
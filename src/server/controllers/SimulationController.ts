@@ -8,29 +8,60 @@ import { initializeWorld, DEFAULT_CONFIG } from '../../core/world.js';
 import { applyOverridesToConfig } from '../../config/overrides.js';
 import { llmMetrics } from '../../llm/metrics.js';
 import { serializeWorldState } from '../state-serializer.js';
-import { state, config, broadcast, type AgentDecisionEvent } from '../state.js';
+import { state, config, broadcast, getTickIntervalMs, getReasoningTimeoutMs, type AgentDecisionEvent } from '../state.js';
 import {
   initializeAgents,
+  initializeLLMReplay,
+  canUseLLM,
   switchLLMMode,
+  assignPlayerShip,
+  getPlayerAgent,
 } from '../services/AgentService.js';
 import {
   initializeDatabase,
   startRun,
   recordSnapshot,
   recordEvents,
+  recordBankruptcies,
   recordTrade,
+  recordSave,
+  recordRunFactions,
+  getSave,
 } from '../services/DatabaseService.js';
 import type { TradeRecord } from '../../storage/index.js';
+import { createSave, restoreSimulation } from '../../storage/index.js';
+import type { WorldState, SimulationConfig } from '../../core/types.js';
+import { loadScenario } from '../../scenarios/index.js';
+import type { Action, TradeExecutionDetails } from '../../agents/interfaces/action.js';
+import type { PlayerSubmissionResult, PlayerActionRecord } from '../../agents/players/player-agent.js';
 
 /**
  * Initialize or reinitialize the simulation
+ * Builds the world from state.scenarioPath when set, otherwise the MVP world.
+ * Throws ScenarioError if the scenario file is invalid.
  */
 export function initializeSimulation(): void {
-  const seed = parseInt(process.env.SEED || '12345', 10);
-  const initialState = initializeWorld(seed);
+  let seed: number;
+  let initialState: WorldState;
+  let baseConfig: SimulationConfig;
+
+  if (state.scenarioPath) {
+    const envSeed = process.env.SEED ? parseInt(process.env.SEED, 10) : undefined;
+    const scenario = loadScenario(state.scenarioPath, envSeed);
+    seed = scenario.config.seed;
+    initialState = scenario.world;
+    baseConfig = scenario.config;
+    console.log(`[SimulationController] Loaded scenario '${scenario.scenario.name}' from ${state.scenarioPath}`);
+  } else {
+    seed = parseInt(process.env.SEED || '12345', 10);
+    initialState = initializeWorld(seed);
+    baseConfig = DEFAULT_CONFIG;
+  }
+
+  initialState = assignPlayerShip(initialState, config.PLAYER_SHIP);
 
   // Build config with overrides applied
-  const configObj = { ...DEFAULT_CONFIG, seed } as unknown as Record<string, unknown>;
+  const configObj = { ...baseConfig, seed } as unknown as Record<string, unknown>;
   applyOverridesToConfig(configObj);
   const simConfig = configObj as unknown as typeof DEFAULT_CONFIG & { seed: number };
 
@@ -41,9 +72,14 @@ export function initializeSimulation(): void {
   initializeDatabase();
   startRun(seed, simConfig);
 
-  // Initialize agents
+  // Initialize agents (LLM record/replay first, so clients pick it up)
+  initializeLLMReplay();
   initializeAgents(initialState);
 
+  // Starting save, so what-if forks replay this run's own world and agents
+  recordSave(createSave(state.simulation, state.agentManager?.snapshotAgents() ?? []));
+  recordRunFactions(initialState.factions?.values() ?? []);
+
   console.log('[SimulationController] Simulation initialized');
 }
 
@@ -52,6 +88,10 @@ export function initializeSimulation(): void {
  */
 export async function runTick(): Promise<void> {
   if (!state.simulation || state.status !== 'running') return;
+  // Skip this interval while the previous tick is still waiting on agents,
+  // so its results are never written back over a newer world
+  if (state.tickInProgress) return;
+  state.tickInProgress = true;
 
   try {
     state.simulation.tick();
@@ -76,9 +116,11 @@ export async function runTick(): Promise<void> {
     // Record to database
     recordSnapshot(worldState.tick, worldState);
     recordEvents(worldState.tick, worldState.events);
+    recordBankruptcies(worldState.tick, worldState.bankruptcies ?? []);
 
     // Process agents
     if (state.agentManager) {
+      state.llmCache?.setTick(worldState.tick);
       const agentResults = await state.agentManager.processTick(worldState);
 
       if (agentResults.newWorld !== worldState) {
@@ -112,29 +154,22 @@ export async function runTick(): Promise<void> {
             };
           }
 
-          // Record trades to database
-          for (const action of result.actions) {
-            if (action.type === 'trade') {
-              const tradeAction = action as {
-                shipId: string;
-                islandId: string;
-                transactions: Array<{ goodId: string; quantity: number }>;
+          // Record executed trades to database at their effective (post-impact) price
+          for (const actionResult of result.results) {
+            if (!actionResult.success || actionResult.action.type !== 'trade') continue;
+
+            const tradeAction = actionResult.action;
+            const execution = actionResult.details as Partial<TradeExecutionDetails> | undefined;
+            for (const fill of execution?.fills ?? []) {
+              const tradeRecord: TradeRecord = {
+                agentId: result.agentId,
+                shipId: tradeAction.shipId,
+                islandId: tradeAction.islandId,
+                goodId: fill.goodId,
+                quantity: fill.quantity,
+                price: fill.executionPrice,
               };
-              const island = worldState.islands.get(tradeAction.islandId);
-              if (island) {
-                for (const tx of tradeAction.transactions) {
-                  const price = island.market.prices.get(tx.goodId) ?? 0;
-                  const tradeRecord: TradeRecord = {
-                    agentId: result.agentId,
-                    shipId: tradeAction.shipId,
-                    islandId: tradeAction.islandId,
-                    goodId: tx.goodId,
-                    quantity: tx.quantity,
-                    price: price,
-                  };
-                  recordTrade(worldState.tick, tradeRecord);
-                }
-              }
+              recordTrade(worldState.tick, tradeRecord);
             }
           }
 
@@ -146,6 +181,8 @@ export async function runTick(): Promise<void> {
     broadcast({ type: 'tick', data: snapshot });
   } catch (error) {
     console.error('[SimulationController] Tick error:', error);
+  } finally {
+    state.tickInProgress = false;
   }
 }
 
@@ -160,7 +197,7 @@ export function startSimulation(): void {
   }
 
   state.status = 'running';
-  const intervalMs = Math.round(1000 / state.timeScale);
+  const intervalMs = getTickIntervalMs();
   state.tickInterval = setInterval(runTick, intervalMs);
 
   broadcast({ type: 'status', data: { status: 'running' } });
@@ -190,7 +227,7 @@ export function resumeSimulation(): void {
   if (state.status !== 'paused') return;
 
   state.status = 'running';
-  const intervalMs = Math.round(1000 / state.timeScale);
+  const intervalMs = getTickIntervalMs();
   state.tickInterval = setInterval(runTick, intervalMs);
 
   broadcast({ type: 'status', data: { status: 'running' } });
@@ -202,10 +239,11 @@ export function resumeSimulation(): void {
  */
 export function setSpeed(scale: number): void {
   state.timeScale = Math.max(1, Math.min(10, scale));
+  state.agentManager?.setReasoningTimeout(getReasoningTimeoutMs());
 
   if (state.status === 'running' && state.tickInterval) {
     clearInterval(state.tickInterval);
-    const intervalMs = Math.round(1000 / state.timeScale);
+    const intervalMs = getTickIntervalMs();
     state.tickInterval = setInterval(runTick, intervalMs);
   }
 
@@ -216,8 +254,8 @@ export function setSpeed(scale: number): void {
  * Enable or disable LLM for agents
  */
 export function setLLMEnabled(enabled: boolean): void {
-  if (!config.HAS_API_KEY && enabled) {
-    console.log('[SimulationController] Cannot enable LLM: GEMINI_API_KEY not set');
+  if (!canUseLLM() && enabled) {
+    console.log('[SimulationController] Cannot enable LLM: GEMINI_API_KEY not set and no recording to replay');
     broadcast({ type: 'llm-status', data: { enabled: false } });
     return;
   }
@@ -242,8 +280,12 @@ export function setLLMEnabled(enabled: boolean): void {
 
 /**
  * Reset the simulation (start a new run)
+ * Pass a scenario path to switch scenarios (null = built-in MVP world);
+ * omit it to keep the current one.
  */
-export function resetSimulation(): { oldRunId: number | null; newRunId: number | null } {
+export function resetSimulation(
+  scenarioPath?: string | null
+): { oldRunId: number | null; newRunId: number | null } {
   // Stop current simulation
   if (state.tickInterval) {
     clearInterval(state.tickInterval);
@@ -253,8 +295,17 @@ export function resetSimulation(): { oldRunId: number | null; newRunId: number |
 
   const oldRunId = state.database?.getCurrentRunId() ?? null;
 
-  // Reinitialize
-  initializeSimulation();
+  // Reinitialize (restoring the previous scenario if the new one fails to load)
+  const previousScenario = state.scenarioPath;
+  if (scenarioPath !== undefined) {
+    state.scenarioPath = scenarioPath;
+  }
+  try {
+    initializeSimulation();
+  } catch (error) {
+    state.scenarioPath = previousScenario;
+    throw error;
+  }
 
   const newRunId = state.database?.getCurrentRunId() ?? null;
 
@@ -269,3 +320,93 @@ export function resetSimulation(): { oldRunId: number | null; newRunId: number |
 
   return { oldRunId, newRunId };
 }
+
+/**
+ * Save the full simulation state (world, RNG, agents) to the database
+ * Returns null when there is no simulation or the database is disabled
+ */
+export function saveSimulation(): { saveId: number; tick: number; stateHash: string } | null {
+  if (!state.simulation) return null;
+
+  const save = createSave(state.simulation, state.agentManager?.snapshotAgents() ?? []);
+  const saveId = recordSave(save);
+  if (saveId === null) return null;
+
+  console.log(`[SimulationController] Saved tick ${save.tick} as save #${saveId}`);
+
+  return { saveId, tick: save.tick, stateHash: save.stateHash };
+}
+
+/**
+ * Restore the simulation from a save and start a new run from it
+ * The simulation is left paused. Returns null if the save does not exist;
+ * throws SaveFormatError if it cannot be decoded.
+ */
+export function loadSimulation(
+  saveId: number
+): { tick: number; stateHash: string; newRunId: number | null } | null {
+  const save = getSave(saveId);
+  if (!save) return null;
+
+  // Stop current simulation
+  if (state.tickInterval) {
+    clearInterval(state.tickInterval);
+    state.tickInterval = null;
+  }
+  state.status = 'paused';
+
+  state.simulation = restoreSimulation(save);
+  state.priceHistory = [];
+  startRun(save.config.seed, save.config);
+
+  // Recreate agents, then restore their memory
+  const worldState = state.simulation.getState();
+  initializeAgents(worldState);
+  state.agentManager?.restoreAgents(save.agents);
+  recordSave(save);
+  recordRunFactions(worldState.factions?.values() ?? []);
+
+  const newRunId = state.database?.getCurrentRunId() ?? null;
+
+  broadcast({ type: 'simulation_loaded', data: { saveId, tick: save.tick, newRunId } });
+  broadcast({ type: 'state', data: serializeWorldState(worldState) });
+
+  console.log(`[SimulationController] Loaded save #${saveId} at tick ${save.tick} (run ${newRunId})`);
+
+  return { tick: save.tick, stateHash: save.stateHash, newRunId };
+}
+
+/**
+ * Queue player actions for the next tick
+ * Returns per-action validation results, or null when there is no player agent
+ */
+export function submitPlayerActions(actions: unknown[]): PlayerSubmissionResult[] | null {
+  const player = getPlayerAgent();
+  if (!state.simulation || !player) return null;
+
+  return player.submitActions(actions, state.simulation.getState());
+}
+
+/**
+ * Current player status: owned ships, queued actions and recent results
+ */
+export function getPlayerStatus(): {
+  agentId: string;
+  shipIds: string[];
+  queued: Action[];
+  recentResults: PlayerActionRecord[];
+} | null {
+  const player = getPlayerAgent();
+  if (!state.simulation || !player) return null;
+
+  const shipIds = Array.from(state.simulation.getState().ships.values())
+    .filter((s) => s.ownerId === player.id)
+    .map((s) => s.id);
+
+  return {
+    agentId: player.id,
+    shipIds,
+    queued: player.getQueuedActions(),
+    recentResults: player.getRecentResults(),
+  };
+}
@@ -9,6 +9,12 @@ import { llmMetrics } from '../../llm/metrics.js';
 import { loadOverrides } from '../../config/overrides.js';
 import { TraderAgent } from '../../agents/traders/trader-agent.js';
 import { changeModel } from '../services/AgentService.js';
+import {
+  GEMINI_MODELS,
+  DEFAULT_PROVIDER_MODELS,
+  LLM_PROVIDERS,
+  isLLMProviderId,
+} from '../../llm/providers.js';
 import { pauseSimulation, resumeSimulation } from '../controllers/SimulationController.js';
 
 export function registerAdminRoutes(router: Router): void {
@@ -86,24 +92,41 @@ export function registerAdminRoutes(router: Router): void {
       runId: state.database?.getCurrentRunId() ?? null,
       timeScale: state.timeScale,
       llmEnabled: state.llmEnabled,
+      llmProvider: state.llmProvider,
       llmModel: state.llmModel,
+      availableProviders: LLM_PROVIDERS,
       availableModels: [
         {
           id: 'gemini-1.5-flash-8b',
+          provider: 'gemini',
           name: 'Gemini 1.5 Flash 8B',
           cost: '$0.0375/$0.15 per 1M tokens',
           recommended: true,
         },
         {
           id: 'gemini-1.5-flash',
+          provider: 'gemini',
           name: 'Gemini 1.5 Flash',
           cost: '$0.075/$0.30 per 1M tokens',
         },
         {
           id: 'gemini-2.0-flash',
+          provider: 'gemini',
           name: 'Gemini 2.0 Flash',
           cost: '$0.10/$0.40 per 1M tokens',
         },
+        {
+          id: DEFAULT_PROVIDER_MODELS.openai,
+          provider: 'openai',
+          name: `OpenAI-compatible (${config.LLM_BASE_URL})`,
+          cost: 'Free for local servers',
+        },
+        {
+          id: DEFAULT_PROVIDER_MODELS.scripted,
+          provider: 'scripted',
+          name: 'Scripted responses',
+          cost: 'Free',
+        },
       ],
       dbEnabled: config.DB_ENABLED,
       connectedClients: clients.size,
@@ -111,41 +134,59 @@ export function registerAdminRoutes(router: Router): void {
     });
   });
 
-  // Change LLM model
+  // Change LLM provider and/or model
   router.add('POST', '/api/admin/model', async (req, res) => {
-    const body = await parseJsonBody<{ model?: string }>(req);
+    const body = await parseJsonBody<{ model?: string; provider?: string }>(req);
     if (!body) {
       sendError(res, 400, 'Invalid JSON');
       return;
     }
 
-    const { model } = body;
-    const validModels = ['gemini-1.5-flash-8b', 'gemini-1.5-flash', 'gemini-2.0-flash', 'gemini-1.5-pro'];
+    const provider = body.provider ?? state.llmProvider;
+    if (!isLLMProviderId(provider)) {
+      sendError(res, 400, `Invalid provider. Choose from: ${LLM_PROVIDERS.join(', ')}`);
+      return;
+    }
 
-    if (!model || !validModels.includes(model)) {
-      sendError(res, 400, `Invalid model. Choose from: ${validModels.join(', ')}`);
+    // Switching provider without a model picks that provider's default
+    const model =
+      body.model ?? (provider !== state.llmProvider ? DEFAULT_PROVIDER_MODELS[provider] : undefined);
+
+    if (provider === 'gemini') {
+      const validModels = Object.keys(GEMINI_MODELS);
+      if (!model || !validModels.includes(model)) {
+        sendError(res, 400, `Invalid model. Choose from: ${validModels.join(', ')}`);
+        return;
+      }
+      // Live agents would fail to build a Gemini client without a key
+      if (state.llmEnabled && !config.HAS_API_KEY && state.llmCache?.mode !== 'replay') {
+        sendError(res, 400, 'GEMINI_API_KEY is not set');
+        return;
+      }
+    } else if (!model || typeof model !== 'string') {
+      sendError(res, 400, 'Model name required');
       return;
     }
 
+    const oldProvider = state.llmProvider;
     const oldModel = state.llmModel;
-    state.llmModel = model;
 
-    // If LLM is enabled, reinitialize agent with new model
-    if (state.llmEnabled && state.simulation && config.ENABLE_AGENTS) {
-      const wasRunning = state.status === 'running';
-      if (wasRunning) pauseSimulation();
+    const wasRunning = state.status === 'running';
+    if (wasRunning) pauseSimulation();
 
-      console.log(`[Admin] Switching LLM model: ${oldModel} → ${model}`);
-      changeModel(model);
+    // Reinitializes agents when LLM is enabled
+    console.log(`[Admin] Switching LLM: ${oldProvider}/${oldModel} → ${provider}/${model}`);
+    changeModel(model, provider);
 
-      if (wasRunning) resumeSimulation();
-    }
+    if (wasRunning) resumeSimulation();
 
     sendJson(res, 200, {
       success: true,
+      oldProvider,
+      newProvider: provider,
       oldModel,
       newModel: model,
-      message: `Model changed to ${model}`,
+      message: `Model changed to ${provider}/${model}`,
     });
   });
 }
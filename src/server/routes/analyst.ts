@@ -17,6 +17,9 @@ import {
   getTradeRouteAnalysis,
 } from '../../storage/analyst-queries.js';
 import { EconomicAnalyst } from '../../analyst/analyst-agent.js';
+import { runWhatIf, WhatIfError, type WhatIfEvent } from '../../analyst/what-if.js';
+import { decodeSave, SaveFormatError, type SimulationSave } from '../../storage/index.js';
+import { createHeadlessAgentManager } from '../services/AgentService.js';
 import { addOverride } from '../../config/overrides.js';
 import {
   recordAnalysis,
@@ -36,6 +39,36 @@ function getAnalyst(): EconomicAnalyst {
   return analyst;
 }
 
+const DEFAULT_FORK_HORIZON = 100;
+const MAX_FORK_HORIZON = 2000;
+/** Most ticks replayed from a save to reach the fork tick */
+const MAX_FORK_REPLAY = 2000;
+
+interface ForkRequestBody {
+  tick?: number;
+  horizon?: number;
+  patches?: Array<{ configPath: string; newValue: unknown }>;
+  events?: WhatIfEvent[];
+}
+
+/**
+ * Starting point for a fork: the run's latest save at or before the tick
+ * Every run is saved when it starts, so only runs recorded before that have none
+ */
+function getForkStart(runId: number, tick: number): SimulationSave | null {
+  const saved = state.database?.getLatestSave(runId, tick);
+  return saved ? decodeSave(saved.data) : null;
+}
+
+/**
+ * Latest tick a run reached (the live tick for the current run)
+ */
+function getRunMaxTick(runId: number): number | null {
+  const recorded = state.database?.getRunMaxTick(runId) ?? null;
+  if (runId !== state.database?.getCurrentRunId() || !state.simulation) return recorded;
+  return Math.max(recorded ?? 0, state.simulation.getState().tick);
+}
+
 export function registerAnalystRoutes(router: Router): void {
   // Get all runs for analyst
   router.add('GET', '/api/analyst/runs', (_req, res) => {
@@ -248,6 +281,85 @@ export function registerAnalystRoutes(router: Router): void {
       });
   });
 
+  // What-if fork: run baseline and a patched fork from a tick and diff them
+  // Body: { tick, horizon?, patches?: [{ configPath, newValue }], events?: [{ type, targetId, duration, startTick?, modifiers? }] }
+  router.addParam('POST', '/api/analyst/runs/:runId/fork', async (req, res, params) => {
+    if (!requireDb(state.database, res)) return;
+
+    const runId = parseRunId(params.runId);
+    if (runId === null) {
+      sendError(res, 400, 'Invalid run ID');
+      return;
+    }
+
+    const body = await parseJsonBody<ForkRequestBody>(req);
+    if (!body || typeof body.tick !== 'number' || !Number.isInteger(body.tick) || body.tick < 0) {
+      sendError(res, 400, 'tick must be a non-negative integer');
+      return;
+    }
+
+    const horizon = body.horizon ?? DEFAULT_FORK_HORIZON;
+    if (typeof horizon !== 'number' || !Number.isInteger(horizon) || horizon < 1 || horizon > MAX_FORK_HORIZON) {
+      sendError(res, 400, `horizon must be an integer between 1 and ${MAX_FORK_HORIZON}`);
+      return;
+    }
+
+    if ((body.patches && !Array.isArray(body.patches)) || (body.events && !Array.isArray(body.events))) {
+      sendError(res, 400, 'patches and events must be arrays');
+      return;
+    }
+
+    if (!state.database.getRun(runId)) {
+      sendError(res, 404, 'Run not found');
+      return;
+    }
+
+    const maxTick = getRunMaxTick(runId);
+    if (maxTick === null || body.tick > maxTick) {
+      sendError(res, 400, `tick must not be beyond the run's last recorded tick (${maxTick ?? 0})`);
+      return;
+    }
+
+    try {
+      const start = getForkStart(runId, body.tick);
+      if (!start) {
+        sendError(res, 409, `Run ${runId} has no save at or before tick ${body.tick}`);
+        return;
+      }
+      if (body.tick - start.tick > MAX_FORK_REPLAY) {
+        sendError(
+          res,
+          409,
+          `Nearest save is at tick ${start.tick}; forks replay at most ${MAX_FORK_REPLAY} ticks from a save`
+        );
+        return;
+      }
+
+      console.log(`[Analyst] Forking run ${runId} at tick ${body.tick} (${horizon} ticks)`);
+
+      const result = await runWhatIf(start, {
+        forkTick: body.tick,
+        horizonTicks: horizon,
+        patches: (body.patches ?? []).map((p) => ({
+          configPath: p.configPath,
+          currentValue: undefined,
+          newValue: p.newValue,
+        })),
+        events: body.events ?? [],
+        createAgents: config.ENABLE_AGENTS ? createHeadlessAgentManager : undefined,
+      });
+
+      sendJson(res, 200, { runId, ...result });
+    } catch (error) {
+      if (error instanceof WhatIfError || error instanceof SaveFormatError) {
+        sendError(res, 400, error.message);
+        return;
+      }
+      console.error('[Analyst] Fork error:', error);
+      sendError(res, 500, 'Fork failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  });
+
   // Chat with analyst
   router.add('POST', '/api/analyst/chat', async (req, res) => {
     if (!requireApiKey(config.HAS_API_KEY, res)) return;
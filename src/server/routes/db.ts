@@ -10,7 +10,9 @@ import {
   getLLMUsage,
   getEcosystemHealth,
   getPriceHistory,
+  getFactionLeaderboard,
 } from '../../storage/index.js';
+import { getFactionStandings } from '../../systems/factions.js';
 
 export function registerDbRoutes(router: Router): void {
   // Get database stats
@@ -83,6 +85,34 @@ export function registerDbRoutes(router: Router): void {
     });
   });
 
+  // Get faction leaderboard for a run (trading record plus live standings)
+  router.addParam('GET', '/api/db/leaderboard/:runId', (_req, res, params) => {
+    if (!requireDb(state.database, res)) return;
+
+    const runId = parseRunId(params.runId);
+    if (runId === null) {
+      sendError(res, 400, 'Invalid run ID');
+      return;
+    }
+
+    // Live standings only describe the current run
+    const world = runId === state.database.getCurrentRunId() ? state.simulation?.getState() : undefined;
+    const standings = world ? getFactionStandings(world) : [];
+    const leaderboard = getFactionLeaderboard(state.database, runId).map((entry) => ({
+      ...entry,
+      standing: standings.find((s) => s.factionId === entry.factionId) ?? null,
+    }));
+    sendJson(res, 200, { leaderboard });
+  });
+
+  // Get a trader's lessons per run, newest first (profit shows learning across runs)
+  router.addParam('GET', '/api/db/trader-lessons/:agentId', (_req, res, params) => {
+    if (!requireDb(state.database, res)) return;
+
+    const history = state.database.getTraderLessons(params.agentId, 50);
+    sendJson(res, 200, { agentId: params.agentId, runs: history });
+  });
+
   // Get price history for a run/island/good
   router.add('GET', '/api/db/prices', (req, res) => {
     if (!requireDb(state.database, res)) return;
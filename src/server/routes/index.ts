@@ -10,6 +10,7 @@ import { registerDbRoutes } from './db.js';
 import { registerAnalystRoutes } from './analyst.js';
 import { registerConfigRoutes } from './config.js';
 import { registerAdminRoutes } from './admin.js';
+import { registerPlayerRoutes } from './player.js';
 
 /**
  * Create and configure the main router with all routes
@@ -24,6 +25,7 @@ export function createRouter(): Router {
   registerAnalystRoutes(router);
   registerConfigRoutes(router);
   registerAdminRoutes(router);
+  registerPlayerRoutes(router);
 
   return router;
 }
@@ -0,0 +1,40 @@
+/**
+ * Player command routes
+ */
+
+import type { Router } from './router.js';
+import { sendJson, sendError, parseJsonBody } from '../utils/http.js';
+import { submitPlayerActions, getPlayerStatus } from '../controllers/SimulationController.js';
+
+export function registerPlayerRoutes(router: Router): void {
+  // Get player ships, queued actions and recent results
+  router.add('GET', '/api/player', (_req, res) => {
+    const status = getPlayerStatus();
+    if (!status) {
+      sendError(res, 503, 'Player agent not available');
+      return;
+    }
+    sendJson(res, 200, status);
+  });
+
+  // Queue actions for the next tick (body: { actions: Action[] })
+  router.add('POST', '/api/player/actions', async (req, res) => {
+    const body = await parseJsonBody<{ actions?: unknown }>(req);
+    if (!body || !Array.isArray(body.actions) || body.actions.length === 0) {
+      sendError(res, 400, 'actions must be a non-empty array');
+      return;
+    }
+
+    const results = submitPlayerActions(body.actions);
+    if (!results) {
+      sendError(res, 503, 'Player agent not available');
+      return;
+    }
+
+    sendJson(res, 200, {
+      accepted: results.filter((r) => r.accepted).length,
+      rejected: results.filter((r) => !r.accepted).length,
+      results,
+    });
+  });
+}
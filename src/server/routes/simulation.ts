@@ -3,11 +3,17 @@
  */
 
 import type { Router } from './router.js';
-import { sendJson, sendError } from '../utils/http.js';
+import { sendJson, sendError, parseJsonBody, requireDb, parseRunId } from '../utils/http.js';
 import { state } from '../state.js';
 import { serializeWorldState } from '../state-serializer.js';
 import { llmMetrics } from '../../llm/metrics.js';
-import { resetSimulation } from '../controllers/SimulationController.js';
+import {
+  resetSimulation,
+  saveSimulation,
+  loadSimulation,
+} from '../controllers/SimulationController.js';
+import { ScenarioError } from '../../scenarios/index.js';
+import { SaveFormatError } from '../../storage/index.js';
 
 export function registerSimulationRoutes(router: Router): void {
   // Get current state
@@ -28,20 +34,80 @@ export function registerSimulationRoutes(router: Router): void {
     sendJson(res, 200, { summary: llmMetrics.getSummary() });
   });
 
-  // Reset simulation
-  router.add('POST', '/api/simulation/reset', (_req, res) => {
+  // Reset simulation (optional body: { scenario: "<path>" | null })
+  router.add('POST', '/api/simulation/reset', async (req, res) => {
+    const body = await parseJsonBody<{ scenario?: string | null }>(req);
+    const scenario = body?.scenario;
+    if (scenario !== undefined && scenario !== null && typeof scenario !== 'string') {
+      sendError(res, 400, 'scenario must be a file path or null');
+      return;
+    }
+
     try {
-      const { oldRunId, newRunId } = resetSimulation();
+      const { oldRunId, newRunId } = resetSimulation(scenario);
 
       sendJson(res, 200, {
         success: true,
         oldRunId,
         newRunId,
+        scenario: state.scenarioPath,
         message: `Simulation reset. New run #${newRunId} started with current config.`,
       });
     } catch (error) {
+      if (error instanceof ScenarioError) {
+        sendError(res, 400, error.message);
+        return;
+      }
       console.error('[Server] Reset failed:', error);
       sendError(res, 500, 'Failed to reset simulation');
     }
   });
+
+  // Save full simulation state (world, RNG, agents)
+  router.add('POST', '/api/simulation/save', (_req, res) => {
+    if (!requireDb(state.database, res)) return;
+    if (!state.simulation) {
+      sendError(res, 400, 'Simulation not initialized');
+      return;
+    }
+
+    try {
+      const saved = saveSimulation();
+      if (!saved) {
+        sendError(res, 500, 'Failed to save simulation');
+        return;
+      }
+      sendJson(res, 200, { success: true, ...saved });
+    } catch (error) {
+      console.error('[Server] Save failed:', error);
+      sendError(res, 500, 'Failed to save simulation');
+    }
+  });
+
+  // Restore simulation from a save (starts a new run, left paused)
+  router.addParam('POST', '/api/simulation/load/:id', (_req, res, params) => {
+    if (!requireDb(state.database, res)) return;
+
+    const saveId = parseRunId(params.id);
+    if (saveId === null) {
+      sendError(res, 400, 'Invalid save ID');
+      return;
+    }
+
+    try {
+      const loaded = loadSimulation(saveId);
+      if (!loaded) {
+        sendError(res, 404, 'Save not found');
+        return;
+      }
+      sendJson(res, 200, { success: true, saveId, ...loaded });
+    } catch (error) {
+      if (error instanceof SaveFormatError) {
+        sendError(res, 400, error.message);
+        return;
+      }
+      console.error('[Server] Load failed:', error);
+      sendError(res, 500, 'Failed to load simulation');
+    }
+  });
 }
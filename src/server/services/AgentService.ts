@@ -1,17 +1,125 @@
 /**
  * Agent Service
- * Handles agent creation, LLM switching, and model changes
+ * Handles agent creation, LLM switching, and provider/model changes
  */
 
+import { readFileSync } from 'fs';
 import { AgentManager } from '../../agents/core/agent-manager.js';
 import { TraderAgent, createMockTraderAgent } from '../../agents/traders/trader-agent.js';
+import { createLLMGovernor, createRuleBasedGovernor } from '../../agents/governors/governor-agent.js';
+import { PlayerAgent } from '../../agents/players/player-agent.js';
 import { LLMClient } from '../../llm/client.js';
 import { llmMetrics } from '../../llm/metrics.js';
-import type { WorldState } from '../../core/types.js';
-import { state, config } from '../state.js';
+import { LLMResponseCache, createRecordingClient, createReplayClient } from '../../llm/replay.js';
+import { createProvider, type LLMProvider, type LLMProviderId } from '../../llm/providers.js';
+import type { WorldState, SimulationConfig } from '../../core/types.js';
+import { state, config, getReasoningTimeoutMs } from '../state.js';
+import { recordLLMResponse, getLLMResponses, getTraderLessons } from './DatabaseService.js';
+import { mergeLessons, createEmptyLessons } from '../../agents/traders/lessons.js';
 
 const TRIGGER_CONFIG = { maxTicksWithoutReasoning: 10, priceDivergenceThreshold: 0.1 };
 const INITIAL_CASH = 1000;
+/** Recent runs whose lessons are merged into a trader's prompt */
+const LESSON_RUNS = 5;
+/** Delay before new LLM responses are written to LLM_REPLAY_FILE */
+const RECORDING_FLUSH_MS = 5000;
+
+/** Pending write of the recording file (set while unsaved responses exist) */
+let recordingFlush: NodeJS.Timeout | null = null;
+
+/** Agent ID of the human player */
+export const PLAYER_AGENT_ID = 'player-1';
+
+/**
+ * Ship IDs owned by an agent
+ */
+function shipsOwnedBy(worldState: WorldState, ownerId: string): string[] {
+  return Array.from(worldState.ships.values())
+    .filter((s) => s.ownerId === ownerId)
+    .map((s) => s.id);
+}
+
+/**
+ * Write unsaved LLM responses to LLM_REPLAY_FILE
+ * Runs a few seconds after a response is recorded, and at run end and shutdown
+ */
+export function flushLLMRecording(): void {
+  if (!recordingFlush) return;
+  clearTimeout(recordingFlush);
+  recordingFlush = null;
+
+  if (state.llmCache?.mode === 'record' && config.LLM_REPLAY_FILE) {
+    state.llmCache.saveToFile(config.LLM_REPLAY_FILE);
+  }
+}
+
+/**
+ * Set up LLM record/replay from config.LLM_REPLAY
+ * Recordings go to the database run (and LLM_REPLAY_FILE when set); replays
+ * read LLM_REPLAY_FILE, or database run LLM_REPLAY_RUN
+ */
+export function initializeLLMReplay(): void {
+  // Finish the previous run's recording before starting over
+  flushLLMRecording();
+  state.llmCache = null;
+
+  if (config.LLM_REPLAY === 'record') {
+    const cache = new LLMResponseCache('record');
+    const file = config.LLM_REPLAY_FILE;
+    cache.onRecord((entry) => {
+      recordLLMResponse(entry);
+      // The file holds the whole recording, so batch writes instead of rewriting it per response
+      if (file && !recordingFlush) {
+        recordingFlush = setTimeout(flushLLMRecording, RECORDING_FLUSH_MS);
+        recordingFlush.unref();
+      }
+    });
+    state.llmCache = cache;
+    console.log(`[AgentService] Recording LLM responses${file ? ` to ${file}` : ''}`);
+  } else if (config.LLM_REPLAY === 'replay') {
+    if (config.LLM_REPLAY_FILE) {
+      state.llmCache = LLMResponseCache.loadFromFile(config.LLM_REPLAY_FILE);
+    } else if (config.LLM_REPLAY_RUN !== null) {
+      state.llmCache = new LLMResponseCache('replay', getLLMResponses(config.LLM_REPLAY_RUN));
+    } else {
+      console.warn('[AgentService] LLM_REPLAY=replay needs LLM_REPLAY_FILE or LLM_REPLAY_RUN; calling the model live');
+      return;
+    }
+    console.log(`[AgentService] Replaying ${state.llmCache.getResponses().length} recorded LLM responses`);
+  }
+}
+
+/**
+ * Whether real LLM agents can run
+ * Gemini needs an API key; local and scripted providers, and replays, do not
+ */
+export function canUseLLM(): boolean {
+  return state.llmProvider !== 'gemini' || config.HAS_API_KEY || state.llmCache?.mode === 'replay';
+}
+
+/**
+ * Create the provider selected by state.llmProvider
+ */
+function createActiveProvider(): LLMProvider {
+  return createProvider(state.llmProvider, {
+    openai: { baseUrl: config.LLM_BASE_URL, apiKey: config.LLM_API_KEY },
+    script: config.LLM_SCRIPT_FILE
+      ? (JSON.parse(readFileSync(config.LLM_SCRIPT_FILE, 'utf-8')) as string[])
+      : undefined,
+  });
+}
+
+/**
+ * Create an LLM client, recording or replaying through state.llmCache when set
+ */
+function createLLMClient(model: string): LLMClient {
+  if (state.llmCache?.mode === 'replay') {
+    return createReplayClient(state.llmCache);
+  }
+
+  const client = new LLMClient({ model, provider: createActiveProvider() });
+  return state.llmCache ? createRecordingClient(client, state.llmCache) : client;
+}
 
 /**
  * Create a trader agent with the appropriate LLM client
@@ -21,10 +129,10 @@ export function createTraderAgent(
   useLLM: boolean,
   model?: string
 ): TraderAgent {
-  if (useLLM && config.HAS_API_KEY) {
+  if (useLLM && canUseLLM()) {
     const modelToUse = model || state.llmModel;
-    console.log(`[AgentService] Creating real LLM agent (model: ${modelToUse})`);
-    const llmClient = new LLMClient({ model: modelToUse });
+    console.log(`[AgentService] Creating real LLM agent (${state.llmProvider}: ${modelToUse})`);
+    const llmClient = createLLMClient(modelToUse);
     return new TraderAgent(
       'trader-alpha',
       'Alpha Trader',
@@ -44,16 +152,140 @@ export function createTraderAgent(
   }
 }
 
+/**
+ * Register a governor for every island whose policy names one
+ * LLM governors are used only when LLM mode is on and an API key is set
+ */
+export function registerGovernors(
+  manager: AgentManager,
+  worldState: WorldState,
+  useLLM: boolean
+): void {
+  for (const island of worldState.islands.values()) {
+    const governorId = island.policy?.governorId;
+    if (!governorId || manager.getAgent(governorId)) continue;
+
+    const name = `${island.name} Governor`;
+    const governor =
+      useLLM && canUseLLM()
+        ? createLLMGovernor(governorId, name, island.id, createLLMClient(state.llmModel))
+        : createRuleBasedGovernor(governorId, name, island.id);
+    manager.registerAgent(governor, worldState);
+  }
+}
+
+/**
+ * Register a rule-driven trader for every other faction member that owns ships
+ * so scenario companies compete with the main trader
+ */
+export function registerRivalTraders(manager: AgentManager, worldState: WorldState): void {
+  for (const faction of worldState.factions?.values() ?? []) {
+    for (const memberId of faction.memberIds) {
+      if (memberId === PLAYER_AGENT_ID || manager.getAgent(memberId)) continue;
+
+      const shipIds = shipsOwnedBy(worldState, memberId);
+      if (shipIds.length === 0) continue;
+
+      const rival = createMockTraderAgent(
+        memberId,
+        `${faction.name} Trader`,
+        { cash: INITIAL_CASH, shipIds },
+        undefined,
+        { triggerConfig: TRIGGER_CONFIG }
+      );
+      manager.registerAgent(rival, worldState);
+    }
+  }
+}
+
+/**
+ * Register the human player, commanding any ships they own
+ */
+export function registerPlayer(manager: AgentManager, worldState: WorldState): void {
+  const player = new PlayerAgent(
+    PLAYER_AGENT_ID,
+    'Player',
+    { cash: 0, shipIds: shipsOwnedBy(worldState, PLAYER_AGENT_ID) },
+    state.simulation ? { simulationConfig: state.simulation.getConfig() } : {}
+  );
+  manager.registerAgent(player, worldState);
+}
+
+/**
+ * Get the registered player agent, if agents are running
+ */
+export function getPlayerAgent(): PlayerAgent | null {
+  const agent = state.agentManager?.getAgent(PLAYER_AGENT_ID);
+  return agent instanceof PlayerAgent ? agent : null;
+}
+
+/**
+ * Hand a ship to the player (config.PLAYER_SHIP)
+ * Returns the world unchanged if the ship does not exist
+ */
+export function assignPlayerShip(worldState: WorldState, shipId: string | null): WorldState {
+  const ship = shipId ? worldState.ships.get(shipId) : undefined;
+  if (!ship) return worldState;
+
+  const ships = new Map(worldState.ships);
+  ships.set(ship.id, { ...ship, ownerId: PLAYER_AGENT_ID });
+  console.log(`[AgentService] Ship ${ship.id} assigned to ${PLAYER_AGENT_ID}`);
+  return { ...worldState, ships };
+}
+
+/**
+ * Give every trader the lessons it learned in its recent runs
+ */
+function loadTraderLessons(manager: AgentManager): void {
+  for (const agent of manager.getAllAgents()) {
+    if (!(agent instanceof TraderAgent)) continue;
+
+    const history = getTraderLessons(agent.id, LESSON_RUNS);
+    if (history.length === 0) continue;
+
+    agent.loadPriorLessons(history.map((h) => h.lessons).reduce(mergeLessons, createEmptyLessons()));
+    console.log(`[AgentService] Loaded lessons from ${history.length} previous run(s) for ${agent.id}`);
+  }
+}
+
+/**
+ * Agent manager for the live simulation
+ * Slow LLM calls must not stall the tick loop, so reasoning has a deadline shorter than a tick
+ */
+function createLiveAgentManager(simulationConfig: SimulationConfig): AgentManager {
+  return new AgentManager({
+    debug: false,
+    simulationConfig,
+    maxConcurrentReasoning: config.AGENT_CONCURRENCY,
+    reasoningTimeoutMs: getReasoningTimeoutMs(),
+  });
+}
+
 /**
  * Initialize agents for a world state
  */
 export function initializeAgents(worldState: WorldState): void {
-  if (!config.ENABLE_AGENTS) return;
+  if (!config.ENABLE_AGENTS || !state.simulation) return;
 
-  state.agentManager = new AgentManager({ debug: false });
-  const shipIds = Array.from(worldState.ships.keys());
+  state.agentManager = createLiveAgentManager(state.simulation.getConfig());
+  const shipIds = shipsOwnedBy(worldState, 'trader-alpha');
   const agent = createTraderAgent(shipIds, state.llmEnabled);
   state.agentManager.registerAgent(agent, worldState);
+  registerRivalTraders(state.agentManager, worldState);
+  registerGovernors(state.agentManager, worldState, state.llmEnabled);
+  registerPlayer(state.agentManager, worldState);
+  loadTraderLessons(state.agentManager);
+}
+
+/**
+ * Hand the traders' memory from a replaced manager to its successor,
+ * so lessons learned earlier in the run are still recorded at run end
+ */
+function carryOverTraders(previous: AgentManager | null, next: AgentManager): void {
+  if (!previous) return;
+
+  const traders = previous.getAllAgents().filter((agent) => agent instanceof TraderAgent);
+  next.restoreAgents(traders.map((agent) => agent.snapshot()));
 }
 
 /**
@@ -63,31 +295,65 @@ export function switchLLMMode(enabled: boolean): void {
   if (!state.simulation || !config.ENABLE_AGENTS) return;
 
   const worldState = state.simulation.getState();
-  state.agentManager = new AgentManager({ debug: false });
+  const previous = state.agentManager;
+  state.agentManager = createLiveAgentManager(state.simulation.getConfig());
 
-  const shipIds = Array.from(worldState.ships.keys());
+  const shipIds = shipsOwnedBy(worldState, 'trader-alpha');
   const agent = createTraderAgent(shipIds, enabled);
   state.agentManager.registerAgent(agent, worldState);
+  registerRivalTraders(state.agentManager, worldState);
+  registerGovernors(state.agentManager, worldState, enabled);
+  registerPlayer(state.agentManager, worldState);
+  loadTraderLessons(state.agentManager);
+  carryOverTraders(previous, state.agentManager);
 
   llmMetrics.reset();
 }
 
 /**
- * Change the LLM model for the agent
+ * Change the LLM provider and model for the agents
+ * The provider stays the same when not given
  */
-export function changeModel(newModel: string): void {
+export function changeModel(newModel: string, provider: LLMProviderId = state.llmProvider): void {
+  state.llmProvider = provider;
+  state.llmModel = newModel;
   if (!state.simulation || !config.ENABLE_AGENTS || !state.llmEnabled) return;
 
   const worldState = state.simulation.getState();
-  state.agentManager = new AgentManager({ debug: false });
+  const previous = state.agentManager;
+  state.agentManager = createLiveAgentManager(state.simulation.getConfig());
 
-  const shipIds = Array.from(worldState.ships.values())
-    .filter((s) => s.ownerId === 'trader-alpha')
-    .map((s) => s.id);
+  const shipIds = shipsOwnedBy(worldState, 'trader-alpha');
 
-  console.log(`[AgentService] Switching model to: ${newModel}`);
+  console.log(`[AgentService] Switching model to: ${provider}/${newModel}`);
   const agent = createTraderAgent(shipIds, true, newModel);
   state.agentManager.registerAgent(agent, worldState);
+  registerRivalTraders(state.agentManager, worldState);
+  registerGovernors(state.agentManager, worldState, true);
+  registerPlayer(state.agentManager, worldState);
+  loadTraderLessons(state.agentManager);
+  carryOverTraders(previous, state.agentManager);
 
   llmMetrics.reset();
 }
+
+/**
+ * Create a mock-LLM agent manager for headless runs (e.g. what-if forks)
+ * Never calls a real LLM, whatever the live LLM mode is
+ */
+export function createHeadlessAgentManager(worldState: WorldState, simulationConfig: SimulationConfig): AgentManager {
+  const manager = new AgentManager({ debug: false, simulationConfig });
+  const shipIds = shipsOwnedBy(worldState, 'trader-alpha');
+
+  const agent = createMockTraderAgent(
+    'trader-alpha',
+    'Mock Trader',
+    { cash: INITIAL_CASH, shipIds },
+    undefined,
+    { triggerConfig: TRIGGER_CONFIG }
+  );
+  manager.registerAgent(agent, worldState);
+  registerRivalTraders(manager, worldState);
+  registerGovernors(manager, worldState, false);
+  return manager;
+}
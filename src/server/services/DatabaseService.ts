@@ -3,11 +3,13 @@
  * Handles database initialization, run management, and recording
  */
 
-import { createDatabase, type SimulationDatabase } from '../../storage/index.js';
-import type { TradeRecord } from '../../storage/index.js';
-import type { WorldState, WorldEvent, SimulationConfig } from '../../core/types.js';
+import { createDatabase, encodeSave, decodeSave, type SimulationDatabase } from '../../storage/index.js';
+import type { TradeRecord, SimulationSave, StoredTraderLessons } from '../../storage/index.js';
+import type { WorldState, WorldEvent, SimulationConfig, BankruptcyRecord, FactionState } from '../../core/types.js';
 import type { LLMCallRecord } from '../../llm/metrics.js';
+import type { RecordedLLMResponse } from '../../llm/replay.js';
 import type { RunAnalysis } from '../../analyst/analyst-agent.js';
+import { TraderAgent } from '../../agents/traders/trader-agent.js';
 import { state, config } from '../state.js';
 
 /**
@@ -26,10 +28,14 @@ export function initializeDatabase(): void {
 
 /**
  * Start a new simulation run in the database
+ * The previous run (if any) is ended first, keeping its traders' lessons
  */
 export function startRun(seed: number, simConfig: SimulationConfig): number | null {
   if (!state.database) return null;
 
+  recordTraderLessons();
+  state.database.endRun();
+
   const runId = state.database.startRun(seed, simConfig);
   console.log(`[DatabaseService] Started run ${runId}`);
   return runId;
@@ -40,6 +46,7 @@ export function startRun(seed: number, simConfig: SimulationConfig): number | nu
  */
 export function endRun(): void {
   if (!state.database) return;
+  recordTraderLessons();
   state.database.endRun();
 }
 
@@ -49,6 +56,7 @@ export function endRun(): void {
 export function closeDatabase(): void {
   if (!state.database) return;
 
+  recordTraderLessons();
   state.database.endRun();
   state.database.close();
   console.log('[DatabaseService] Closed');
@@ -75,6 +83,27 @@ export function recordEvents(tick: number, events: WorldEvent[]): void {
   }
 }
 
+/**
+ * Record the current run's factions and their members
+ */
+export function recordRunFactions(factions: Iterable<FactionState>): void {
+  if (!state.database) return;
+  state.database.recordRunFactions(factions);
+}
+
+/**
+ * Record ships seized in bankruptcy at the current tick
+ */
+export function recordBankruptcies(tick: number, records: BankruptcyRecord[]): void {
+  if (!state.database) return;
+
+  for (const record of records) {
+    if (record.tick === tick) {
+      state.database.recordBankruptcy(tick, record);
+    }
+  }
+}
+
 /**
  * Record a trade
  */
@@ -91,6 +120,62 @@ export function recordLLMCall(tick: number, record: LLMCallRecord): void {
   state.database.recordLLMCall(tick, record);
 }
 
+/**
+ * Record an LLM response for replay
+ */
+export function recordLLMResponse(entry: RecordedLLMResponse): void {
+  if (!state.database) return;
+  state.database.recordLLMResponse(entry);
+}
+
+/**
+ * Get the recorded LLM responses of a run
+ */
+export function getLLMResponses(runId: number): RecordedLLMResponse[] {
+  if (!state.database) return [];
+  return state.database.getLLMResponses(runId);
+}
+
+/**
+ * Store what the current run's traders learned, by agent ID
+ */
+export function recordTraderLessons(): void {
+  if (!state.database || state.database.getCurrentRunId() === null) return;
+
+  for (const agent of state.agentManager?.getAllAgents() ?? []) {
+    if (agent instanceof TraderAgent) {
+      state.database.recordTraderLessons(agent.id, agent.summarizeLessons());
+    }
+  }
+}
+
+/**
+ * Get a trader's lessons from its most recent runs, newest first
+ */
+export function getTraderLessons(agentId: string, limit?: number): StoredTraderLessons[] {
+  if (!state.database) return [];
+  return state.database.getTraderLessons(agentId, limit);
+}
+
+/**
+ * Store a simulation save
+ * Returns the save ID, or null when the database is disabled
+ */
+export function recordSave(save: SimulationSave): number | null {
+  if (!state.database) return null;
+  return state.database.recordSave(save.tick, save.version, save.stateHash, encodeSave(save));
+}
+
+/**
+ * Load a simulation save
+ * Returns null if the save does not exist; throws SaveFormatError if it cannot be decoded
+ */
+export function getSave(saveId: number): SimulationSave | null {
+  if (!state.database) return null;
+  const row = state.database.getSave(saveId);
+  return row ? decodeSave(row.data) : null;
+}
+
 /**
  * Get the database instance (for direct access when needed)
  */
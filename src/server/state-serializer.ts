@@ -3,7 +3,20 @@
  * Converts simulation state to JSON-serializable snapshots for the frontend
  */
 
-import type { WorldState, IslandState, ShipState, WorldEvent } from '../core/types.js';
+import type {
+  WorldState,
+  IslandState,
+  ShipState,
+  WorldEvent,
+  RoutePath,
+  SeaLaneGraph,
+  WeatherState,
+  Season,
+  BankruptcyRecord,
+} from '../core/types.js';
+import { getFactionStandings } from '../systems/factions.js';
+import { segmentCrossesObstacle } from '../systems/navigation.js';
+import { getClosedPorts } from '../systems/weather.js';
 
 export interface Vector2 {
   x: number;
@@ -52,6 +65,15 @@ export interface BuildingSnapshot {
   condition: number;
 }
 
+export interface ConstructionOrderSnapshot {
+  id: string;
+  buildingType: 'warehouse' | 'market' | 'port' | 'workshop';
+  ownerId: string;
+  targetLevel: number;
+  progress: number;
+  completionTick: number;
+}
+
 export interface TreasurySnapshot {
   balance: number;
   income: number;      // Income this tick
@@ -60,6 +82,14 @@ export interface TreasurySnapshot {
   cumulativeImportCosts: number;
 }
 
+export interface PolicySnapshot {
+  governorId: string | null;
+  harvestQuotas: Record<string, number>;
+  exportTariff: number;
+  importTariff: number;
+  reserves: Record<string, number>;
+}
+
 export interface IslandSnapshot {
   id: string;
   name: string;
@@ -69,8 +99,11 @@ export interface IslandSnapshot {
   inventory: Record<string, number>;
   market: MarketSnapshot;
   buildings: BuildingSnapshot[];
+  constructionOrders: ConstructionOrderSnapshot[];
   // Economic Model V2: Island Treasury
   treasury: TreasurySnapshot;
+  // Island Governance
+  policy: PolicySnapshot | null;
 }
 
 export interface RouteSnapshot {
@@ -78,6 +111,50 @@ export interface RouteSnapshot {
   toIslandId: string;
   etaHours: number;
   progress: number;
+  path?: RoutePathSnapshot;
+}
+
+/**
+ * Sea-lane path a ship is sailing
+ */
+export interface RoutePathSnapshot {
+  preference: 'shortest' | 'safest';
+  points: Vector2[]; // Origin, waypoints, destination
+  length: number;
+}
+
+export interface SeaLaneSnapshot {
+  id: string;
+  from: Vector2;
+  to: Vector2;
+  danger: number;
+  windFactor: number;
+  closed: boolean; // Crosses an impassable zone
+}
+
+export interface SeaObstacleSnapshot {
+  id: string;
+  kind: 'reef' | 'impassable';
+  center: Vector2;
+  radius: number;
+}
+
+export interface SeaLanesSnapshot {
+  lanes: SeaLaneSnapshot[];
+  obstacles: SeaObstacleSnapshot[];
+}
+
+export interface StormSnapshot {
+  id: string;
+  position: Vector2;
+  radius: number;
+  velocity: Vector2; // Map units per hour
+  remainingHours: number;
+}
+
+export interface WeatherSnapshot {
+  storms: StormSnapshot[];
+  closedPorts: string[];
 }
 
 export interface CrewSnapshot {
@@ -108,6 +185,25 @@ export interface CreditSnapshot {
   cumulativeInterestPaid: number; // Total interest paid over ship lifetime
   availableCredit: number; // creditLimit - debt (how much more can borrow)
   debtRatio: number; // debt / shipValue (0-1)
+  insolventSinceTick?: number; // Set while debt exceeds assets; seized after the grace period
+}
+
+/**
+ * Ship seized by creditors (Economic Model V2)
+ */
+export interface BankruptcySnapshot {
+  tick: number;
+  agentId: string;
+  shipId: string;
+  islandId: string; // Port where the ship was seized
+  debt: number;
+  liquidationProceeds: number;
+  recovered: number;
+  writtenOff: number;
+  surplus: number; // Returned to the owner
+  auction: { winnerId: string; price: number } | null; // null = scrapped
+  outcome: 'continuing' | 'eliminated' | 'restarted';
+  restartShipId?: string;
 }
 
 /**
@@ -167,17 +263,34 @@ export interface EconomyMetricsSnapshot {
   totalTaxRedistributed: number; // Cumulative tax redistributed to islands
 }
 
+export interface FactionSnapshot {
+  id: string;
+  name: string;
+  memberIds: string[];
+  treasury: number;
+  fleetSize: number;
+  netWorth: number;
+  rank: number;
+}
+
 export interface WorldSnapshot {
   tick: number;
   gameTime: {
     tick: number;
     gameHour: number;
     gameDay: number;
+    dayOfYear: number;
+    season: Season;
+    year: number;
   };
   islands: IslandSnapshot[];
   ships: ShipSnapshot[];
   events: EventSnapshot[];
   economyMetrics: EconomyMetricsSnapshot;
+  factions: FactionSnapshot[];
+  seaLanes?: SeaLanesSnapshot;
+  weather?: WeatherSnapshot;
+  bankruptcies?: BankruptcySnapshot[]; // Most recent first
 }
 
 function serializeIsland(island: IslandState): IslandSnapshot {
@@ -191,6 +304,17 @@ function serializeIsland(island: IslandState): IslandSnapshot {
       }))
     : [];
 
+  const constructionOrders: ConstructionOrderSnapshot[] = (island.constructionOrders ?? []).map(
+    (o) => ({
+      id: o.id,
+      buildingType: o.buildingType,
+      ownerId: o.ownerId,
+      targetLevel: o.targetLevel,
+      progress: o.progress,
+      completionTick: o.completionTick,
+    })
+  );
+
   return {
     id: island.id,
     name: island.name,
@@ -218,6 +342,7 @@ function serializeIsland(island: IslandState): IslandSnapshot {
       } : undefined,
     },
     buildings,
+    constructionOrders,
     // Economic Model V2: Island Treasury (with backwards compatibility)
     treasury: {
       balance: island.treasury ?? 0,
@@ -226,12 +351,30 @@ function serializeIsland(island: IslandState): IslandSnapshot {
       cumulativeExportRevenue: island.cumulativeExportRevenue ?? 0,
       cumulativeImportCosts: island.cumulativeImportCosts ?? 0,
     },
+    policy: island.policy
+      ? {
+          governorId: island.policy.governorId,
+          harvestQuotas: Object.fromEntries(island.policy.harvestQuotas),
+          exportTariff: island.policy.exportTariff,
+          importTariff: island.policy.importTariff,
+          reserves: Object.fromEntries(island.policy.reserves),
+        }
+      : null,
   };
 }
 
 /** Threshold for considering price data stale (24 ticks = 1 game day) */
 const STALE_PRICE_THRESHOLD = 24;
 
+function serializeRoutePath(path: RoutePath): RoutePathSnapshot {
+  const points = path.legs.length > 0 ? [path.legs[0].from, ...path.legs.map((leg) => leg.to)] : [];
+  return {
+    preference: path.preference,
+    points: points.map((point) => ({ x: point.x, y: point.y })),
+    length: path.length,
+  };
+}
+
 function serializeShip(ship: ShipState, currentTick: number): ShipSnapshot {
   const location =
     ship.location.kind === 'at_island'
@@ -244,6 +387,7 @@ function serializeShip(ship: ShipState, currentTick: number): ShipSnapshot {
             toIslandId: ship.location.route.toIslandId,
             etaHours: ship.location.route.etaHours,
             progress: ship.location.route.progress,
+            ...(ship.location.route.path && { path: serializeRoutePath(ship.location.route.path) }),
           },
         };
 
@@ -319,6 +463,7 @@ function serializeShip(ship: ShipState, currentTick: number): ShipSnapshot {
       cumulativeInterestPaid,
       availableCredit,
       debtRatio,
+      ...(ship.insolventSinceTick !== undefined && { insolventSinceTick: ship.insolventSinceTick }),
     },
   };
 }
@@ -334,6 +479,62 @@ function serializeEvent(event: WorldEvent, currentTick: number): EventSnapshot {
   };
 }
 
+function serializeSeaLanes(graph: SeaLaneGraph, islands: Map<string, IslandState>): SeaLanesSnapshot {
+  const positions = new Map<string, Vector2>();
+  for (const island of islands.values()) positions.set(island.id, island.position);
+  for (const waypoint of graph.waypoints) positions.set(waypoint.id, waypoint.position);
+
+  const lanes: SeaLaneSnapshot[] = [];
+  for (const lane of graph.lanes) {
+    const from = positions.get(lane.from);
+    const to = positions.get(lane.to);
+    if (!from || !to) continue;
+    lanes.push({
+      id: lane.id,
+      from: { ...from },
+      to: { ...to },
+      danger: lane.danger,
+      windFactor: lane.windFactor,
+      closed: graph.obstacles.some(
+        (obstacle) => obstacle.kind === 'impassable' && segmentCrossesObstacle(from, to, obstacle)
+      ),
+    });
+  }
+
+  return {
+    lanes,
+    obstacles: graph.obstacles.map((obstacle) => ({
+      id: obstacle.id,
+      kind: obstacle.kind,
+      center: { ...obstacle.center },
+      radius: obstacle.radius,
+    })),
+  };
+}
+
+function serializeWeather(weather: WeatherState, islands: Map<string, IslandState>, currentTick: number): WeatherSnapshot {
+  return {
+    storms: weather.storms.map((storm) => ({
+      id: storm.id,
+      position: { ...storm.position },
+      radius: storm.radius,
+      velocity: { ...storm.velocity },
+      remainingHours: Math.max(0, storm.endTick - currentTick),
+    })),
+    closedPorts: Array.from(getClosedPorts(islands, weather)),
+  };
+}
+
+// Bankruptcies sent with each snapshot
+const RECENT_BANKRUPTCIES = 20;
+
+function serializeBankruptcies(records: BankruptcyRecord[]): BankruptcySnapshot[] {
+  return records
+    .slice(-RECENT_BANKRUPTCIES)
+    .reverse()
+    .map((record) => ({ ...record, auction: record.auction ? { ...record.auction } : null }));
+}
+
 export function serializeWorldState(state: WorldState): WorldSnapshot {
   // Provide default economy metrics for backwards compatibility
   const economyMetrics = state.economyMetrics ?? {
@@ -349,6 +550,9 @@ export function serializeWorldState(state: WorldState): WorldSnapshot {
       tick: state.gameTime.tick,
       gameHour: state.gameTime.gameHour,
       gameDay: state.gameTime.gameDay,
+      dayOfYear: state.gameTime.dayOfYear,
+      season: state.gameTime.season,
+      year: state.gameTime.year,
     },
     islands: Array.from(state.islands.values()).map(serializeIsland),
     ships: Array.from(state.ships.values()).map((ship) => serializeShip(ship, state.tick)),
@@ -361,5 +565,17 @@ export function serializeWorldState(state: WorldState): WorldSnapshot {
       taxRedistributedThisTick: economyMetrics.taxRedistributedThisTick ?? 0,
       totalTaxRedistributed: economyMetrics.totalTaxRedistributed ?? 0,
     },
+    factions: getFactionStandings(state).map((standing) => ({
+      id: standing.factionId,
+      name: standing.name,
+      memberIds: standing.memberIds,
+      treasury: standing.treasury,
+      fleetSize: standing.fleetSize,
+      netWorth: standing.netWorth,
+      rank: standing.rank,
+    })),
+    ...(state.seaLanes && { seaLanes: serializeSeaLanes(state.seaLanes, state.islands) }),
+    ...(state.weather && { weather: serializeWeather(state.weather, state.islands, state.tick) }),
+    ...(state.bankruptcies && { bankruptcies: serializeBankruptcies(state.bankruptcies) }),
   };
 }
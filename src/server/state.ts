@@ -10,6 +10,8 @@ import { WebSocket } from 'ws';
 import type { Simulation } from '../core/simulation.js';
 import type { AgentManager } from '../agents/core/agent-manager.js';
 import type { SimulationDatabase } from '../storage/index.js';
+import type { LLMResponseCache } from '../llm/replay.js';
+import { DEFAULT_PROVIDER_MODELS, isLLMProviderId, type LLMProviderId } from '../llm/providers.js';
 
 // ============================================================================
 // Types
@@ -23,9 +25,16 @@ export interface ServerState {
   agentManager: AgentManager | null;
   timeScale: number;
   tickInterval: NodeJS.Timeout | null;
+  /** A tick (including agent reasoning) is still running */
+  tickInProgress: boolean;
   llmEnabled: boolean;
+  llmProvider: LLMProviderId;
   llmModel: string;
   database: SimulationDatabase | null;
+  /** LLM record/replay cache (null = call the model live) */
+  llmCache: LLMResponseCache | null;
+  /** Scenario file the world is built from (null = built-in MVP world) */
+  scenarioPath: string | null;
   priceHistory: Array<{
     tick: number;
     gameDay: number;
@@ -65,27 +74,71 @@ export const config = {
   PORT: parseInt(process.env.PORT || '3001', 10),
   ENABLE_AGENTS: process.env.ENABLE_AGENTS !== 'false',
   HAS_API_KEY: !!process.env.GEMINI_API_KEY,
+  /** OpenAI-compatible server for the 'openai' provider (default: local Ollama) */
+  LLM_BASE_URL: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+  /** Bearer token for the OpenAI-compatible server (optional for local servers) */
+  LLM_API_KEY: process.env.LLM_API_KEY || '',
+  /** JSON array of canned responses for the 'scripted' provider */
+  LLM_SCRIPT_FILE: process.env.LLM_SCRIPT_FILE || null,
+  /** Agents allowed to reason at once (0 = no limit) */
+  AGENT_CONCURRENCY: parseInt(process.env.AGENT_CONCURRENCY || '4', 10),
+  /** Milliseconds an agent may reason before it continues its current plan (null = derive from speed, 0 = wait) */
+  AGENT_REASONING_TIMEOUT_MS: process.env.AGENT_REASONING_TIMEOUT_MS
+    ? parseInt(process.env.AGENT_REASONING_TIMEOUT_MS, 10)
+    : null,
   DB_PATH: process.env.DB_PATH || 'simulation.db',
   DB_ENABLED: process.env.DB_ENABLED !== 'false',
   DB_SNAPSHOT_INTERVAL: parseInt(process.env.DB_SNAPSHOT_INTERVAL || '10', 10),
+  SCENARIO: process.env.SCENARIO || null,
+  /** Ship handed to the human player at world creation */
+  PLAYER_SHIP: process.env.PLAYER_SHIP || null,
+  /** LLM record/replay mode: 'record' or 'replay' (unset = live calls) */
+  LLM_REPLAY: (process.env.LLM_REPLAY || null) as 'record' | 'replay' | null,
+  /** Recording file to write (record) or read (replay) */
+  LLM_REPLAY_FILE: process.env.LLM_REPLAY_FILE || null,
+  /** Database run to replay when no recording file is given */
+  LLM_REPLAY_RUN: process.env.LLM_REPLAY_RUN ? parseInt(process.env.LLM_REPLAY_RUN, 10) : null,
 };
 
 // ============================================================================
 // Server State
 // ============================================================================
 
+const INITIAL_PROVIDER: LLMProviderId = isLLMProviderId(process.env.LLM_PROVIDER)
+  ? process.env.LLM_PROVIDER
+  : 'gemini';
+
 export const state: ServerState = {
   status: 'stopped',
   simulation: null,
   agentManager: null,
   timeScale: 1,
   tickInterval: null,
+  tickInProgress: false,
   llmEnabled: false,
-  llmModel: process.env.LLM_MODEL || 'gemini-1.5-flash-8b',
+  llmProvider: INITIAL_PROVIDER,
+  llmModel: process.env.LLM_MODEL || DEFAULT_PROVIDER_MODELS[INITIAL_PROVIDER],
   database: null,
+  llmCache: null,
+  scenarioPath: config.SCENARIO,
   priceHistory: [],
 };
 
+/**
+ * Milliseconds between ticks at the current speed
+ */
+export function getTickIntervalMs(): number {
+  return Math.round(1000 / state.timeScale);
+}
+
+/**
+ * Milliseconds an agent may reason in the live simulation
+ * Unless configured, most of one tick interval, so reasoning ends before the next tick is due
+ */
+export function getReasoningTimeoutMs(): number {
+  return config.AGENT_REASONING_TIMEOUT_MS ?? Math.floor(getTickIntervalMs() * 0.8);
+}
+
 // ============================================================================
 // WebSocket Clients
 // ============================================================================
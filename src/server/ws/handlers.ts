@@ -12,6 +12,7 @@ import {
   resumeSimulation,
   setSpeed,
   setLLMEnabled,
+  submitPlayerActions,
 } from '../controllers/SimulationController.js';
 
 /**
@@ -36,10 +37,33 @@ function sendInitialState(ws: WebSocket): void {
   ws.send(JSON.stringify({ type: 'llm-stats', data: llmMetrics.getSummary() }));
 }
 
+/**
+ * Queue player actions and reply to the sender with per-action results
+ * Accepts { actions: Action[] } or a single { action: Action }
+ */
+function handlePlayerAction(ws: WebSocket, message: ClientMessage): void {
+  const actions = Array.isArray(message.actions)
+    ? message.actions
+    : message.action !== undefined
+      ? [message.action]
+      : [];
+
+  if (actions.length === 0) {
+    ws.send(JSON.stringify({ type: 'player-action-result', data: { error: 'No actions submitted' } }));
+    return;
+  }
+
+  const results = submitPlayerActions(actions);
+  ws.send(JSON.stringify({
+    type: 'player-action-result',
+    data: results ? { results } : { error: 'Player agent not available' },
+  }));
+}
+
 /**
  * Handle incoming WebSocket message
  */
-function handleMessage(_ws: WebSocket, data: unknown): void {
+function handleMessage(ws: WebSocket, data: unknown): void {
   try {
     const message = JSON.parse(String(data)) as ClientMessage;
 
@@ -66,6 +90,9 @@ function handleMessage(_ws: WebSocket, data: unknown): void {
           setLLMEnabled(message.enabled);
         }
         break;
+      case 'player-action':
+        handlePlayerAction(ws, message);
+        break;
       default:
         console.log('[WebSocket] Unknown message type:', message.type);
     }
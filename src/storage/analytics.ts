@@ -4,7 +4,7 @@
  */
 
 import type { SimulationDatabase } from './database.js';
-import type { IslandId, GoodId } from '../core/types.js';
+import type { IslandId, GoodId, FactionId } from '../core/types.js';
 
 // ============================================================================
 // Types
@@ -88,6 +88,20 @@ export interface LLMUsageStats {
   }>;
 }
 
+/**
+ * Faction leaderboard entry built from recorded trades
+ */
+export interface FactionLeaderboardEntry {
+  factionId: FactionId;
+  name: string;
+  tradeCount: number;
+  volume: number;
+  spent: number; // Value of goods bought
+  revenue: number; // Value of goods sold
+  tradingProfit: number; // revenue - spent
+  rank: number;
+}
+
 // ============================================================================
 // Analytics Functions
 // ============================================================================
@@ -665,3 +679,64 @@ export function getPopulationTrends(
 
   return result;
 }
+
+/**
+ * Rank factions by trading profit from their members' recorded trades
+ * Uses the factions and membership recorded for the run itself
+ */
+export function getFactionLeaderboard(db: SimulationDatabase, runId: number): FactionLeaderboardEntry[] {
+  const dbInstance = db.getDatabase();
+  const factions = db.getRunFactions(runId);
+
+  const rows = dbInstance.prepare(`
+    SELECT
+      agent_id,
+      COUNT(*) as count,
+      SUM(ABS(quantity)) as volume,
+      SUM(CASE WHEN quantity > 0 THEN quantity * price ELSE 0 END) as spent,
+      SUM(CASE WHEN quantity < 0 THEN -quantity * price ELSE 0 END) as revenue
+    FROM trades
+    WHERE run_id = ?
+    GROUP BY agent_id
+  `).all(runId) as Array<{
+    agent_id: string;
+    count: number;
+    volume: number;
+    spent: number;
+    revenue: number;
+  }>;
+
+  const byAgent = new Map(rows.map((row) => [row.agent_id, row]));
+
+  const entries: FactionLeaderboardEntry[] = factions.map((faction) => {
+    const entry: FactionLeaderboardEntry = {
+      factionId: faction.id,
+      name: faction.name,
+      tradeCount: 0,
+      volume: 0,
+      spent: 0,
+      revenue: 0,
+      tradingProfit: 0,
+      rank: 0,
+    };
+
+    for (const agentId of faction.memberIds) {
+      const row = byAgent.get(agentId);
+      if (!row) continue;
+      entry.tradeCount += row.count;
+      entry.volume += row.volume;
+      entry.spent += row.spent;
+      entry.revenue += row.revenue;
+    }
+    entry.tradingProfit = entry.revenue - entry.spent;
+
+    return entry;
+  });
+
+  entries.sort((a, b) => b.tradingProfit - a.tradingProfit || a.factionId.localeCompare(b.factionId));
+  entries.forEach((entry, index) => {
+    entry.rank = index + 1;
+  });
+
+  return entries;
+}
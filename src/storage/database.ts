@@ -8,13 +8,18 @@ import type {
   WorldState,
   SimulationConfig,
   WorldEvent,
+  BankruptcyRecord,
   IslandId,
   GoodId,
   AgentId,
   ShipId,
+  FactionId,
+  FactionState,
 } from '../core/types.js';
 import type { LLMCallRecord } from '../llm/metrics.js';
+import type { RecordedLLMResponse } from '../llm/replay.js';
 import type { RunAnalysis } from '../analyst/analyst-agent.js';
+import type { TraderLessons } from '../agents/traders/lessons.js';
 import { hashState } from '../core/rng.js';
 
 // ============================================================================
@@ -30,7 +35,7 @@ export interface TradeRecord {
   islandId: IslandId;
   goodId: GoodId;
   quantity: number; // Positive = buy, negative = sell
-  price: number;
+  price: number; // Effective execution price after price impact
 }
 
 /**
@@ -44,6 +49,48 @@ export interface RunInfo {
   config: SimulationConfig;
 }
 
+/**
+ * Saved simulation state (data is an encoded SimulationSave)
+ */
+export interface SaveInfo {
+  id: number;
+  runId: number | null;
+  tick: number;
+  version: number;
+  stateHash: string;
+  createdAt: Date;
+}
+
+/**
+ * Lessons a trader learned in one run
+ */
+export interface StoredTraderLessons {
+  runId: number;
+  agentId: AgentId;
+  profit: number;
+  lessons: TraderLessons;
+  createdAt: Date;
+}
+
+/**
+ * A faction and its members as they stood in one run
+ */
+export interface RunFaction {
+  id: FactionId;
+  name: string;
+  memberIds: AgentId[];
+}
+
+interface SaveRow {
+  id: number;
+  run_id: number | null;
+  tick: number;
+  version: number;
+  state_hash: string;
+  created_at: string;
+  data: string;
+}
+
 // ============================================================================
 // Schema
 // ============================================================================
@@ -123,7 +170,17 @@ CREATE TABLE IF NOT EXISTS llm_calls (
   FOREIGN KEY (run_id) REFERENCES runs(id)
 );
 
--- World events
+-- Recorded LLM responses for offline replay (keyed by tick + prompt hash)
+CREATE TABLE IF NOT EXISTS llm_responses (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER NOT NULL,
+  tick INTEGER NOT NULL,
+  prompt_hash TEXT NOT NULL,
+  response TEXT NOT NULL,
+  FOREIGN KEY (run_id) REFERENCES runs(id)
+);
+
+-- World events (and bankruptcies, with event_type 'bankruptcy')
 CREATE TABLE IF NOT EXISTS events (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   run_id INTEGER NOT NULL,
@@ -143,6 +200,7 @@ CREATE INDEX IF NOT EXISTS idx_prices_snapshot ON prices(snapshot_id);
 CREATE INDEX IF NOT EXISTS idx_trades_run ON trades(run_id);
 CREATE INDEX IF NOT EXISTS idx_trades_run_tick ON trades(run_id, tick);
 CREATE INDEX IF NOT EXISTS idx_llm_calls_run ON llm_calls(run_id);
+CREATE INDEX IF NOT EXISTS idx_llm_responses_run ON llm_responses(run_id);
 CREATE INDEX IF NOT EXISTS idx_events_run ON events(run_id);
 CREATE INDEX IF NOT EXISTS idx_events_run_tick ON events(run_id, tick);
 
@@ -194,6 +252,44 @@ CREATE INDEX IF NOT EXISTS idx_analysis_runs_run ON analysis_runs(run_id);
 CREATE INDEX IF NOT EXISTS idx_analysis_findings_run ON analysis_findings(analysis_run_id);
 CREATE INDEX IF NOT EXISTS idx_analysis_recommendations_run ON analysis_recommendations(analysis_run_id);
 CREATE INDEX IF NOT EXISTS idx_analysis_recommendations_status ON analysis_recommendations(status);
+
+-- Full simulation saves (versioned, see save-game.ts)
+CREATE TABLE IF NOT EXISTS saves (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER,
+  tick INTEGER NOT NULL,
+  version INTEGER NOT NULL,
+  state_hash TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  data TEXT NOT NULL,
+  FOREIGN KEY (run_id) REFERENCES runs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saves_run ON saves(run_id);
+
+-- Trader lessons per run, carried into later runs by agent ID
+CREATE TABLE IF NOT EXISTS trader_lessons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER NOT NULL,
+  agent_id TEXT NOT NULL,
+  profit REAL NOT NULL,
+  lessons TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (run_id, agent_id),
+  FOREIGN KEY (run_id) REFERENCES runs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trader_lessons_agent ON trader_lessons(agent_id);
+
+-- Faction membership per run (one row per member), so past runs rank by their own factions
+CREATE TABLE IF NOT EXISTS run_factions (
+  run_id INTEGER NOT NULL,
+  faction_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  PRIMARY KEY (run_id, faction_id, agent_id),
+  FOREIGN KEY (run_id) REFERENCES runs(id)
+);
 `;
 
 // ============================================================================
@@ -216,6 +312,7 @@ export class SimulationDatabase {
   private stmtInsertPrice: Database.Statement | null = null;
   private stmtInsertTrade: Database.Statement | null = null;
   private stmtInsertLLMCall: Database.Statement | null = null;
+  private stmtInsertLLMResponse: Database.Statement | null = null;
   private stmtInsertEvent: Database.Statement | null = null;
   private stmtInsertAnalysisRun: Database.Statement | null = null;
   private stmtInsertFinding: Database.Statement | null = null;
@@ -276,6 +373,11 @@ export class SimulationDatabase {
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    this.stmtInsertLLMResponse = this.db.prepare(`
+      INSERT INTO llm_responses (run_id, tick, prompt_hash, response)
+      VALUES (?, ?, ?, ?)
+    `);
+
     this.stmtInsertEvent = this.db.prepare(`
       INSERT INTO events (run_id, tick, event_type, target_id, start_tick, end_tick, data)
       VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -364,6 +466,21 @@ export class SimulationDatabase {
     };
   }
 
+  /**
+   * Latest tick recorded for a run (snapshots and saves), or null if none
+   */
+  getRunMaxTick(runId: number): number | null {
+    const stmt = this.db.prepare(`
+      SELECT MAX(tick) as maxTick FROM (
+        SELECT tick FROM snapshots WHERE run_id = ?
+        UNION ALL
+        SELECT tick FROM saves WHERE run_id = ?
+      )
+    `);
+    const row = stmt.get(runId, runId) as { maxTick: number | null } | undefined;
+    return row?.maxTick ?? null;
+  }
+
   /**
    * Get all runs
    */
@@ -523,6 +640,37 @@ export class SimulationDatabase {
     );
   }
 
+  /**
+   * Record an LLM response for replay
+   */
+  recordLLMResponse(entry: RecordedLLMResponse): void {
+    if (this.currentRunId === null) return;
+
+    this.stmtInsertLLMResponse!.run(
+      this.currentRunId,
+      entry.tick,
+      entry.promptHash,
+      JSON.stringify(entry.response)
+    );
+  }
+
+  /**
+   * Get the recorded LLM responses of a run, in recorded order
+   */
+  getLLMResponses(runId: number): RecordedLLMResponse[] {
+    const rows = this.db.prepare(`
+      SELECT tick, prompt_hash, response FROM llm_responses
+      WHERE run_id = ?
+      ORDER BY id ASC
+    `).all(runId) as Array<{ tick: number; prompt_hash: string; response: string }>;
+
+    return rows.map((row) => ({
+      tick: row.tick,
+      promptHash: row.prompt_hash,
+      response: JSON.parse(row.response),
+    }));
+  }
+
   // ============================================================================
   // Event Recording
   // ============================================================================
@@ -570,6 +718,26 @@ export class SimulationDatabase {
     insertEvents(events);
   }
 
+  /**
+   * Record a ship seized in bankruptcy
+   * Stored alongside world events so runs can be replayed with their foreclosures
+   * @param tick Current tick
+   * @param record Bankruptcy record
+   */
+  recordBankruptcy(tick: number, record: BankruptcyRecord): void {
+    if (this.currentRunId === null) return;
+
+    this.stmtInsertEvent!.run(
+      this.currentRunId,
+      tick,
+      'bankruptcy',
+      record.shipId,
+      record.tick,
+      record.tick,
+      JSON.stringify(record)
+    );
+  }
+
   // ============================================================================
   // Analysis Recording
   // ============================================================================
@@ -871,6 +1039,169 @@ export class SimulationDatabase {
     };
   }
 
+  // ============================================================================
+  // Save Games
+  // ============================================================================
+
+  /**
+   * Store an encoded simulation save against the current run
+   * @returns Save ID
+   */
+  recordSave(tick: number, version: number, stateHash: string, data: string): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO saves (run_id, tick, version, state_hash, data) VALUES (?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(this.currentRunId, tick, version, stateHash, data);
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Get an encoded simulation save
+   */
+  getSave(saveId: number): (SaveInfo & { data: string }) | null {
+    const stmt = this.db.prepare(`
+      SELECT id, run_id, tick, version, state_hash, created_at, data FROM saves WHERE id = ?
+    `);
+    return this.mapSaveRow(stmt.get(saveId) as SaveRow | undefined);
+  }
+
+  /**
+   * Get the latest save of a run at or before a tick
+   */
+  getLatestSave(runId: number, maxTick: number): (SaveInfo & { data: string }) | null {
+    const stmt = this.db.prepare(`
+      SELECT id, run_id, tick, version, state_hash, created_at, data FROM saves
+      WHERE run_id = ? AND tick <= ?
+      ORDER BY tick DESC, id DESC LIMIT 1
+    `);
+    return this.mapSaveRow(stmt.get(runId, maxTick) as SaveRow | undefined);
+  }
+
+  private mapSaveRow(row: SaveRow | undefined): (SaveInfo & { data: string }) | null {
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      runId: row.run_id,
+      tick: row.tick,
+      version: row.version,
+      stateHash: row.state_hash,
+      createdAt: new Date(row.created_at),
+      data: row.data,
+    };
+  }
+
+  /**
+   * List saves, newest first (without their data)
+   */
+  getSaves(limit: number = 50): SaveInfo[] {
+    const stmt = this.db.prepare(`
+      SELECT id, run_id, tick, version, state_hash, created_at FROM saves
+      ORDER BY id DESC LIMIT ?
+    `);
+    const rows = stmt.all(limit) as Array<{
+      id: number;
+      run_id: number | null;
+      tick: number;
+      version: number;
+      state_hash: string;
+      created_at: string;
+    }>;
+
+    return rows.map((row) => ({
+      id: row.id,
+      runId: row.run_id,
+      tick: row.tick,
+      version: row.version,
+      stateHash: row.state_hash,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  // ============================================================================
+  // Trader Lessons
+  // ============================================================================
+
+  /**
+   * Store a trader's lessons for the current run (replacing earlier ones)
+   */
+  recordTraderLessons(agentId: AgentId, lessons: TraderLessons): void {
+    if (this.currentRunId === null) return;
+
+    this.db.prepare(`
+      INSERT INTO trader_lessons (run_id, agent_id, profit, lessons) VALUES (?, ?, ?, ?)
+      ON CONFLICT (run_id, agent_id) DO UPDATE SET
+        profit = excluded.profit, lessons = excluded.lessons, created_at = datetime('now')
+    `).run(this.currentRunId, agentId, lessons.profit, JSON.stringify(lessons));
+  }
+
+  /**
+   * Get a trader's lessons from its most recent runs, newest first
+   */
+  getTraderLessons(agentId: AgentId, limit: number = 10): StoredTraderLessons[] {
+    const rows = this.db.prepare(`
+      SELECT run_id, agent_id, profit, lessons, created_at FROM trader_lessons
+      WHERE agent_id = ?
+      ORDER BY run_id DESC LIMIT ?
+    `).all(agentId, limit) as Array<{
+      run_id: number;
+      agent_id: string;
+      profit: number;
+      lessons: string;
+      created_at: string;
+    }>;
+
+    return rows.map((row) => ({
+      runId: row.run_id,
+      agentId: row.agent_id,
+      profit: row.profit,
+      lessons: JSON.parse(row.lessons) as TraderLessons,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  // ============================================================================
+  // Run Factions
+  // ============================================================================
+
+  /**
+   * Store the factions of the current run and their members
+   */
+  recordRunFactions(factions: Iterable<FactionState>): void {
+    if (this.currentRunId === null) return;
+
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO run_factions (run_id, faction_id, name, agent_id) VALUES (?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((runId: number) => {
+      for (const faction of factions) {
+        for (const agentId of faction.memberIds) {
+          stmt.run(runId, faction.id, faction.name, agentId);
+        }
+      }
+    });
+    insertAll(this.currentRunId);
+  }
+
+  /**
+   * Get the factions of a run and their members
+   */
+  getRunFactions(runId: number): RunFaction[] {
+    const rows = this.db.prepare(`
+      SELECT faction_id, name, agent_id FROM run_factions
+      WHERE run_id = ?
+      ORDER BY faction_id, agent_id
+    `).all(runId) as Array<{ faction_id: string; name: string; agent_id: string }>;
+
+    const factions = new Map<FactionId, RunFaction>();
+    for (const row of rows) {
+      const faction = factions.get(row.faction_id) ?? { id: row.faction_id, name: row.name, memberIds: [] };
+      faction.memberIds.push(row.agent_id);
+      factions.set(row.faction_id, faction);
+    }
+    return Array.from(factions.values());
+  }
+
   // ============================================================================
   // Utility Methods
   // ============================================================================
@@ -4,7 +4,17 @@
  */
 
 export { SimulationDatabase, createDatabase } from './database.js';
-export type { TradeRecord, RunInfo } from './database.js';
+export type { TradeRecord, RunInfo, SaveInfo, StoredTraderLessons, RunFaction } from './database.js';
+
+export {
+  SAVE_FORMAT_VERSION,
+  SaveFormatError,
+  createSave,
+  encodeSave,
+  decodeSave,
+  restoreSimulation,
+} from './save-game.js';
+export type { SimulationSave } from './save-game.js';
 
 export {
   getTradeStats,
@@ -16,6 +26,7 @@ export {
   getTradeVolumeOverTime,
   getPriceVolatility,
   getPopulationTrends,
+  getFactionLeaderboard,
 } from './analytics.js';
 
 export type {
@@ -23,4 +34,5 @@ export type {
   PricePoint,
   EcosystemSnapshot,
   LLMUsageStats,
+  FactionLeaderboardEntry,
 } from './analytics.js';
@@ -0,0 +1,152 @@
+/**
+ * Save Games
+ * Versioned serialization of the complete simulation state
+ *
+ * A save captures everything needed to resume a run exactly: the world
+ * state (Maps included), the full RNG state, the tick hash history and
+ * the internal state of every agent (including trader memory).
+ */
+
+import type { WorldState, SimulationConfig } from '../core/types.js';
+import type { RNGState } from '../core/rng.js';
+import { hashState } from '../core/rng.js';
+import { Simulation } from '../core/simulation.js';
+import type { AgentSnapshot } from '../agents/interfaces/agent.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Current save format version
+ * Bump when the shape of SimulationSave changes incompatibly
+ */
+export const SAVE_FORMAT_VERSION = 1;
+
+/**
+ * Complete saved simulation
+ */
+export interface SimulationSave {
+  version: number;
+  tick: number;
+  /** Hash of the saved world state (matches the last tick hash) */
+  stateHash: string;
+  world: WorldState;
+  config: SimulationConfig;
+  rngState: RNGState;
+  tickHistory: string[];
+  agents: AgentSnapshot[];
+}
+
+/**
+ * Error raised when a save cannot be decoded
+ */
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFormatError';
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/** Tag used to mark values JSON cannot represent directly */
+const TYPE_TAG = '__type';
+
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Map) {
+    return { [TYPE_TAG]: 'Map', entries: Array.from(value.entries()) };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { [TYPE_TAG]: 'Number', value: String(value) };
+  }
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || !(TYPE_TAG in value)) {
+    return value;
+  }
+
+  const tagged = value as Record<string, unknown>;
+  switch (tagged[TYPE_TAG]) {
+    case 'Map':
+      return new Map(tagged.entries as Array<[unknown, unknown]>);
+    case 'Number':
+      return Number(tagged.value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Capture a save from a running simulation
+ *
+ * @param simulation - Simulation to save
+ * @param agents - Agent snapshots (from AgentManager.snapshotAgents)
+ */
+export function createSave(simulation: Simulation, agents: AgentSnapshot[] = []): SimulationSave {
+  const world = simulation.getState();
+
+  return {
+    version: SAVE_FORMAT_VERSION,
+    tick: world.tick,
+    stateHash: hashState(world),
+    world,
+    config: simulation.getConfig(),
+    rngState: simulation.getRNGState(),
+    tickHistory: simulation.getTickHistory(),
+    agents,
+  };
+}
+
+/**
+ * Encode a save as JSON
+ */
+export function encodeSave(save: SimulationSave): string {
+  return JSON.stringify(save, replacer);
+}
+
+/**
+ * Decode a save from JSON, checking the format version
+ */
+export function decodeSave(data: string): SimulationSave {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data, reviver);
+  } catch (error) {
+    throw new SaveFormatError(`Invalid save data: ${(error as Error).message}`);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new SaveFormatError('Invalid save data: expected an object');
+  }
+
+  const save = parsed as Partial<SimulationSave>;
+  if (save.version !== SAVE_FORMAT_VERSION) {
+    throw new SaveFormatError(
+      `Unsupported save version ${String(save.version)} (expected ${SAVE_FORMAT_VERSION})`
+    );
+  }
+  if (!save.world || !save.config || !save.rngState || !Array.isArray(save.tickHistory)) {
+    throw new SaveFormatError('Invalid save data: missing world, config, rngState or tickHistory');
+  }
+
+  return { ...save, agents: save.agents ?? [] } as SimulationSave;
+}
+
+// ============================================================================
+// Restoring
+// ============================================================================
+
+/**
+ * Rebuild a simulation from a save
+ * Agents are not recreated here; restore them with AgentManager.restoreAgents
+ */
+export function restoreSimulation(save: SimulationSave): Simulation {
+  const simulation = new Simulation(save.world, save.config);
+  simulation.restoreRuntimeState(save.rngState, save.tickHistory);
+  return simulation;
+}
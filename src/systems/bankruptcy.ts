@@ -0,0 +1,356 @@
+/**
+ * Bankruptcy System
+ * Forecloses on ships whose debt outweighs their assets
+ * Part of Economic Model V2 - closes the loop on the credit system
+ *
+ * Key features:
+ * - A ship is insolvent while its debt exceeds cash + cargo value + hull value
+ * - Insolvent ships get a grace period to trade their way out
+ * - After the grace period the ship is seized at its next port of call
+ * - Cargo is sold to the island at a fire-sale discount
+ * - The hull is auctioned to the highest bidding agent, or scrapped
+ * - Anything raised beyond the debt goes back to the owner
+ * - An owner left without ships restarts with a small ship or is eliminated
+ */
+
+import type {
+  AgentId,
+  AgentState,
+  BankruptcyConfig,
+  BankruptcyOutcome,
+  BankruptcyRecord,
+  IslandId,
+  IslandState,
+  ShipId,
+  ShipState,
+  SimulationConfig,
+  WorldState,
+} from '../core/types.js';
+import { calculateShipValue, calculateCreditLimit } from './credit.js';
+import { createDefaultCrew } from '../core/world.js';
+
+/**
+ * Result of processing bankruptcies for a tick
+ */
+export interface BankruptcyResult {
+  ships: Map<ShipId, ShipState>;
+  islands: Map<IslandId, IslandState>;
+  agents: Map<AgentId, AgentState>;
+  /** Ships seized this tick */
+  records: BankruptcyRecord[];
+}
+
+/**
+ * Solvency snapshot of a ship
+ */
+export interface SolvencyStatus {
+  assets: number;
+  debt: number;
+  insolvent: boolean;
+}
+
+const STARTER_SHIP_SPEED = 10;
+
+/**
+ * Market value of a ship's hull (credit value scaled by condition)
+ */
+export function calculateHullValue(ship: ShipState, config: SimulationConfig): number {
+  return calculateShipValue(ship, config.creditConfig) * ship.condition;
+}
+
+/**
+ * Market value of a ship's cargo
+ * Priced at the island the ship is docked at, or heading to when at sea
+ */
+export function calculateCargoValue(
+  ship: ShipState,
+  islands: Map<IslandId, IslandState>
+): number {
+  const islandId =
+    ship.location.kind === 'at_island'
+      ? ship.location.islandId
+      : ship.location.route.toIslandId;
+  const island = islands.get(islandId);
+  if (!island) return 0;
+
+  let value = 0;
+  for (const [goodId, quantity] of ship.cargo) {
+    value += quantity * (island.market.prices.get(goodId) ?? 0);
+  }
+  return value;
+}
+
+/**
+ * Compare a ship's debt with everything it could sell to repay it
+ */
+export function getSolvency(
+  ship: ShipState,
+  islands: Map<IslandId, IslandState>,
+  config: SimulationConfig
+): SolvencyStatus {
+  const assets =
+    Math.max(0, ship.cash) + calculateCargoValue(ship, islands) + calculateHullValue(ship, config);
+  return { assets, debt: ship.debt, insolvent: ship.debt > assets };
+}
+
+/**
+ * Sell a ship's cargo to the island at the fire-sale discount
+ * The goods always change hands; payment is capped by the island treasury
+ */
+function liquidateCargo(
+  ship: ShipState,
+  island: IslandState,
+  config: BankruptcyConfig
+): { island: IslandState; proceeds: number } {
+  const inventory = new Map(island.inventory);
+  let value = 0;
+  for (const [goodId, quantity] of ship.cargo) {
+    if (quantity <= 0) continue;
+    value += quantity * (island.market.prices.get(goodId) ?? 0) * config.liquidationPriceRatio;
+    inventory.set(goodId, (inventory.get(goodId) ?? 0) + quantity);
+  }
+
+  const proceeds = Math.min(value, Math.max(0, island.treasury));
+  return {
+    island: {
+      ...island,
+      inventory,
+      treasury: island.treasury - proceeds,
+      treasuryExpenses: island.treasuryExpenses + proceeds,
+      cumulativeImportCosts: island.cumulativeImportCosts + proceeds,
+    },
+    proceeds,
+  };
+}
+
+/**
+ * Sealed-bid auction for a seized ship
+ * Every other active agent that opted in (auctionBidders) bids from its
+ * richest ship; the highest bid at or above the reserve wins, ties going to
+ * the lower agent ID
+ */
+function auctionShip(
+  seized: ShipState,
+  ships: Map<ShipId, ShipState>,
+  agents: Map<AgentId, AgentState>,
+  config: SimulationConfig
+): { winnerId: AgentId; payerShipId: ShipId; price: number } | null {
+  const { bankruptcyConfig } = config;
+  const hullValue = calculateHullValue(seized, config);
+  const reserve = hullValue * bankruptcyConfig.auctionReserveRatio;
+
+  // Richest ship of each bidder
+  const purses = new Map<AgentId, ShipState>();
+  for (const ship of ships.values()) {
+    if (ship.ownerId === seized.ownerId) continue;
+    if (!bankruptcyConfig.auctionBidders.includes(ship.ownerId)) continue;
+    if (agents.get(ship.ownerId)?.status === 'eliminated') continue;
+    const current = purses.get(ship.ownerId);
+    if (!current || ship.cash > current.cash || (ship.cash === current.cash && ship.id < current.id)) {
+      purses.set(ship.ownerId, ship);
+    }
+  }
+
+  let best: { winnerId: AgentId; payerShipId: ShipId; price: number } | null = null;
+  for (const [agentId, purse] of Array.from(purses).sort(([a], [b]) => a.localeCompare(b))) {
+    const bid = Math.min(
+      Math.max(0, purse.cash) * bankruptcyConfig.maxBidCashShare,
+      hullValue * bankruptcyConfig.maxBidRatio
+    );
+    if (bid <= 0 || bid < reserve) continue;
+    if (!best || bid > best.price) {
+      best = { winnerId: agentId, payerShipId: purse.id, price: bid };
+    }
+  }
+  return best;
+}
+
+/**
+ * Small ship granted to an owner that lost its whole fleet
+ */
+function createStarterShip(
+  agentId: AgentId,
+  islandId: IslandId,
+  tick: number,
+  config: SimulationConfig
+): ShipState {
+  const { bankruptcyConfig, creditConfig } = config;
+  const ship: ShipState = {
+    id: `${agentId}-restart-${tick}`,
+    name: 'Second Chance',
+    ownerId: agentId,
+    capacity: bankruptcyConfig.restartShipCapacity,
+    speed: STARTER_SHIP_SPEED,
+    cash: bankruptcyConfig.restartCash,
+    cargo: new Map(),
+    location: { kind: 'at_island', islandId },
+    cumulativeTransportCosts: 0,
+    crew: createDefaultCrew(bankruptcyConfig.restartShipCapacity),
+    condition: 1.0,
+    totalDistanceTraveled: 0,
+    spoilageLossThisVoyage: new Map(),
+    cumulativeSpoilageLoss: 0,
+    lastKnownPrices: new Map(),
+    debt: 0,
+    creditLimit: 0,
+    interestRate: creditConfig.interestRatePerTick,
+    cumulativeInterestPaid: 0,
+  };
+  return { ...ship, creditLimit: calculateCreditLimit(ship, creditConfig) };
+}
+
+/**
+ * Move a ship between agents' asset lists (agents missing from the world are skipped)
+ */
+function transferShipRecord(
+  agents: Map<AgentId, AgentState>,
+  shipId: ShipId,
+  fromId: AgentId | null,
+  toId: AgentId | null
+): void {
+  if (fromId) {
+    const from = agents.get(fromId);
+    if (from) {
+      agents.set(fromId, {
+        ...from,
+        assets: { ...from.assets, shipIds: from.assets.shipIds.filter((id) => id !== shipId) },
+      });
+    }
+  }
+  if (toId) {
+    const to = agents.get(toId);
+    if (to && !to.assets.shipIds.includes(shipId)) {
+      agents.set(toId, { ...to, assets: { ...to.assets, shipIds: [...to.assets.shipIds, shipId] } });
+    }
+  }
+}
+
+/**
+ * Track insolvency and foreclose on ships past their grace period
+ *
+ * Ships are processed in ID order so auctions are deterministic. Money
+ * recovered goes to the ship's creditors: its lenders when the lending market
+ * is enabled (see settleDefaultedLoans), otherwise the system lender.
+ * Unrecovered debt is written off.
+ */
+export function processBankruptcies(
+  state: WorldState,
+  config: SimulationConfig,
+  tick: number
+): BankruptcyResult {
+  const ships = new Map(state.ships);
+  const islands = new Map(state.islands);
+  const agents = new Map(state.agents);
+  const records: BankruptcyRecord[] = [];
+  const bankruptcyConfig = config.bankruptcyConfig;
+
+  if (!bankruptcyConfig?.enabled) {
+    return { ships, islands, agents, records };
+  }
+
+  const shipIds = Array.from(ships.keys()).sort();
+  for (const shipId of shipIds) {
+    const ship = ships.get(shipId);
+    if (!ship) continue;
+
+    // Track when the ship first became insolvent
+    const { insolvent } = getSolvency(ship, islands, config);
+    if (!insolvent) {
+      if (ship.insolventSinceTick !== undefined) {
+        ships.set(shipId, { ...ship, insolventSinceTick: undefined });
+      }
+      continue;
+    }
+    if (ship.insolventSinceTick === undefined) {
+      ships.set(shipId, { ...ship, insolventSinceTick: tick });
+      continue;
+    }
+
+    // Seize once the grace period is over and the ship is in port
+    if (tick - ship.insolventSinceTick < bankruptcyConfig.insolvencyGraceTicks) continue;
+    if (ship.location.kind !== 'at_island') continue;
+    const islandId = ship.location.islandId;
+    const island = islands.get(islandId);
+    if (!island) continue;
+
+    // 1. Forced cargo liquidation
+    const liquidation = liquidateCargo(ship, island, bankruptcyConfig);
+    islands.set(islandId, liquidation.island);
+
+    // 2. Auction the hull
+    const auction = auctionShip(ship, ships, agents, config);
+    ships.delete(shipId);
+    if (auction) {
+      const payer = ships.get(auction.payerShipId)!;
+      ships.set(payer.id, { ...payer, cash: payer.cash - auction.price });
+
+      ships.set(shipId, {
+        ...ship,
+        ownerId: auction.winnerId,
+        cash: 0,
+        cargo: new Map(),
+        spoilageLossThisVoyage: new Map(),
+        debt: 0,
+        insolventSinceTick: undefined,
+        manualCredit: undefined, // The new owner's agent claims it
+      });
+    }
+    transferShipRecord(agents, shipId, ship.ownerId, auction?.winnerId ?? null);
+
+    // 3. Settle with the creditors
+    const raised = Math.max(0, ship.cash) + liquidation.proceeds + (auction?.price ?? 0);
+    const recovered = Math.min(ship.debt, raised);
+
+    // 4. Decide the owner's fate
+    let outcome: BankruptcyOutcome = 'continuing';
+    let restartShipId: ShipId | undefined;
+    const fleetLeft = Array.from(ships.values()).some((s) => s.ownerId === ship.ownerId);
+    if (!fleetLeft) {
+      if (bankruptcyConfig.rule === 'restart') {
+        const starter = createStarterShip(ship.ownerId, islandId, tick, config);
+        ships.set(starter.id, starter);
+        transferShipRecord(agents, starter.id, null, ship.ownerId);
+        outcome = 'restarted';
+        restartShipId = starter.id;
+      } else {
+        const owner = agents.get(ship.ownerId);
+        agents.set(ship.ownerId, {
+          ...(owner ?? {
+            id: ship.ownerId,
+            type: 'trader',
+            name: ship.ownerId,
+            assets: { cash: 0, shipIds: [] },
+          }),
+          status: 'eliminated',
+        });
+        outcome = 'eliminated';
+      }
+    }
+
+    // 5. Return the surplus to the owner's first ship (an eliminated owner has none)
+    const surplus = raised - recovered;
+    const heir = Array.from(ships.values())
+      .filter((s) => s.ownerId === ship.ownerId)
+      .sort((a, b) => a.id.localeCompare(b.id))[0];
+    if (surplus > 0 && heir) {
+      ships.set(heir.id, { ...heir, cash: heir.cash + surplus });
+    }
+
+    records.push({
+      tick,
+      agentId: ship.ownerId,
+      shipId,
+      islandId,
+      debt: ship.debt,
+      liquidationProceeds: liquidation.proceeds,
+      recovered,
+      writtenOff: ship.debt - recovered,
+      surplus,
+      auction: auction ? { winnerId: auction.winnerId, price: auction.price } : null,
+      outcome,
+      ...(restartShipId && { restartShipId }),
+    });
+  }
+
+  return { ships, islands, agents, records };
+}
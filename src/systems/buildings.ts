@@ -9,35 +9,36 @@ import type {
   BuildingId,
   Building,
   BuildingsConfig,
+  BuildingConstructionOrder,
+  AgentId,
+  IslandId,
   SimulationConfig,
 } from '../core/types.js';
 
+export type { BuildingConstructionOrder } from '../core/types.js';
+
 // ============================================================================
-// Building Construction Types
+// Building ID Generation
 // ============================================================================
 
 /**
- * Active building construction order on an island
+ * Generate the building ID for a building type on an island.
+ * Each island holds at most one building per type (extra levels are upgrades),
+ * so the ID is derived from both and stays identical across replays.
  */
-export interface BuildingConstructionOrder {
-  id: string;
-  buildingType: BuildingType;
-  startTick: number;
-  completionTick: number;
-  progress: number; // 0..1
+export function generateBuildingId(islandId: IslandId, buildingType: BuildingType): BuildingId {
+  return `building-${islandId}-${buildingType}`;
 }
 
-// ============================================================================
-// Building ID Generation
-// ============================================================================
-
-let buildingCounter = 0;
-
 /**
- * Generate a unique building ID
+ * Generate a construction order ID (deterministic for replays)
  */
-export function generateBuildingId(): BuildingId {
-  return `building-${++buildingCounter}-${Date.now()}`;
+function generateConstructionOrderId(
+  islandId: IslandId,
+  buildingType: BuildingType,
+  currentTick: number
+): string {
+  return `construction-${islandId}-${buildingType}-${currentTick}`;
 }
 
 // ============================================================================
@@ -218,6 +219,33 @@ export function getWorkshopEffect(
 // Building Construction
 // ============================================================================
 
+/**
+ * Get the pending construction order for a building type on an island, if any.
+ *
+ * @param island - The island state
+ * @param buildingType - The building type to look up
+ * @returns The active construction order or undefined
+ */
+export function getPendingConstruction(
+  island: IslandState,
+  buildingType: BuildingType
+): BuildingConstructionOrder | undefined {
+  return (island.constructionOrders ?? []).find((o) => o.buildingType === buildingType);
+}
+
+/**
+ * Find the existing building of a type on an island, if any.
+ */
+function findBuildingByType(island: IslandState, buildingType: BuildingType): Building | null {
+  if (!island.buildings) return null;
+  for (const building of island.buildings.values()) {
+    if (building.type === buildingType) {
+      return building;
+    }
+  }
+  return null;
+}
+
 /**
  * Check if a building can be constructed on an island.
  * Validates resource availability, build limits, and other constraints.
@@ -225,12 +253,14 @@ export function getWorkshopEffect(
  * @param island - The island state
  * @param buildingType - The type of building to construct
  * @param config - Full simulation configuration
+ * @param availableCoins - Coins the commissioning agent can pay (omit to skip the coin check)
  * @returns Whether the building can be built and an optional reason if not
  */
 export function canBuildBuilding(
   island: IslandState,
   buildingType: BuildingType,
-  config: SimulationConfig
+  config: SimulationConfig,
+  availableCoins?: number
 ): { canBuild: boolean; reason?: string } {
   const buildingsConfig = config.buildingsConfig;
   const definition = buildingsConfig.definitions[buildingType];
@@ -239,6 +269,14 @@ export function canBuildBuilding(
     return { canBuild: false, reason: `Unknown building type: ${buildingType}` };
   }
 
+  // Only one construction order per building type at a time
+  if (getPendingConstruction(island, buildingType)) {
+    return {
+      canBuild: false,
+      reason: `${definition.name} is already under construction`,
+    };
+  }
+
   // Check if island already has max level of this building type
   const currentLevel = getBuildingLevel(island, buildingType);
   if (currentLevel >= definition.maxLevel) {
@@ -266,26 +304,44 @@ export function canBuildBuilding(
     };
   }
 
+  // Check coins (labor cost paid by the commissioning agent)
+  if (availableCoins !== undefined && availableCoins < definition.buildCost.coins) {
+    return {
+      canBuild: false,
+      reason: `Insufficient coins (need ${definition.buildCost.coins}, have ${Math.floor(availableCoins)})`,
+    };
+  }
+
   return { canBuild: true };
 }
 
 /**
- * Start construction of a new building on an island.
- * Deducts resources and creates a new building at level 1 (or upgrades existing).
+ * Start construction of a new building (or an upgrade of an existing one).
+ * Deducts timber and tools from the island, pays the labor cost into the
+ * island treasury and queues a construction order. The building itself only
+ * appears (or gains its level) once updateConstruction completes the order.
+ * When the island funds the work itself, the labor cost leaves its treasury
+ * as wages instead.
  *
  * @param island - The island state
  * @param buildingType - The type of building to construct
  * @param config - Full simulation configuration
  * @param currentTick - Current simulation tick
- * @returns Updated island state and new building ID, or null if construction cannot start
+ * @param ownerId - Agent commissioning the work
+ * @param availableCoins - Coins the commissioning agent can pay
+ * @param paidByIsland - Whether the island treasury pays the labor cost
+ * @returns Updated island state, the new order and coins paid, or null if construction cannot start
  */
 export function startBuildingConstruction(
   island: IslandState,
   buildingType: BuildingType,
   config: SimulationConfig,
-  _currentTick: number // Reserved for future construction order tracking
-): { newIsland: IslandState; buildingId: BuildingId } | null {
-  const canBuildResult = canBuildBuilding(island, buildingType, config);
+  currentTick: number,
+  ownerId: AgentId,
+  availableCoins: number,
+  paidByIsland = false
+): { newIsland: IslandState; order: BuildingConstructionOrder; coinsPaid: number } | null {
+  const canBuildResult = canBuildBuilding(island, buildingType, config, availableCoins);
   if (!canBuildResult.canBuild) {
     return null;
   }
@@ -298,47 +354,111 @@ export function startBuildingConstruction(
   newInventory.set('timber', (newInventory.get('timber') ?? 0) - definition.buildCost.timber);
   newInventory.set('tools', (newInventory.get('tools') ?? 0) - definition.buildCost.tools);
 
-  // Check if we're upgrading an existing building or creating new one
-  let existingBuilding: Building | null = null;
-  for (const building of island.buildings.values()) {
-    if (building.type === buildingType) {
-      existingBuilding = building;
-      break;
-    }
+  const existingBuilding = findBuildingByType(island, buildingType);
+  const coinsPaid = definition.buildCost.coins;
+
+  const order: BuildingConstructionOrder = {
+    id: generateConstructionOrderId(island.id, buildingType, currentTick),
+    buildingType,
+    ownerId,
+    targetLevel: existingBuilding ? existingBuilding.level + 1 : 1,
+    startTick: currentTick,
+    completionTick: currentTick + definition.buildTicks,
+    progress: 0,
+  };
+
+  // Labor cost is paid to the island (workers are islanders), or by the
+  // island to its workers when it funds the work
+  const newIsland: IslandState = {
+    ...island,
+    inventory: newInventory,
+    constructionOrders: [...(island.constructionOrders ?? []), order],
+    ...(paidByIsland
+      ? {
+          treasury: (island.treasury ?? 0) - coinsPaid,
+          treasuryExpenses: (island.treasuryExpenses ?? 0) + coinsPaid,
+        }
+      : {
+          treasury: (island.treasury ?? 0) + coinsPaid,
+          treasuryIncome: (island.treasuryIncome ?? 0) + coinsPaid,
+        }),
+  };
+
+  return { newIsland, order, coinsPaid };
+}
+
+/**
+ * Progress construction orders on an island by one tick.
+ * Completed orders create the building at level 1 or raise an existing
+ * building to the order's target level.
+ *
+ * @param island - The island state
+ * @param config - Full simulation configuration
+ * @param currentTick - Current simulation tick
+ * @param dt - Time delta in ticks
+ * @returns Updated island state and the orders completed this tick
+ */
+export function updateConstruction(
+  island: IslandState,
+  config: SimulationConfig,
+  currentTick: number,
+  dt: number
+): { newIsland: IslandState; completed: BuildingConstructionOrder[] } {
+  const orders = island.constructionOrders ?? [];
+  if (orders.length === 0) {
+    return { newIsland: island, completed: [] };
   }
 
-  const newBuildings = new Map(island.buildings);
-  let buildingId: BuildingId;
+  const remaining: BuildingConstructionOrder[] = [];
+  const completed: BuildingConstructionOrder[] = [];
+  let newBuildings: Map<BuildingId, Building> | null = null;
 
-  if (existingBuilding) {
-    // Upgrade existing building
-    buildingId = existingBuilding.id;
-    const upgradedBuilding: Building = {
-      ...existingBuilding,
-      level: existingBuilding.level + 1,
-      condition: 1.0, // Reset condition on upgrade
-    };
-    newBuildings.set(buildingId, upgradedBuilding);
-  } else {
-    // Create new building
-    buildingId = generateBuildingId();
-    const newBuilding: Building = {
-      id: buildingId,
-      type: buildingType,
-      level: 1,
-      condition: 1.0,
-      islandId: island.id,
-    };
-    newBuildings.set(buildingId, newBuilding);
+  for (const order of orders) {
+    const definition = config.buildingsConfig.definitions[order.buildingType];
+    if (!definition) {
+      // Unknown building type, drop the order
+      continue;
+    }
+
+    const progressPerTick = 1 / Math.max(1, definition.buildTicks);
+    const newProgress = Math.min(1, order.progress + progressPerTick * dt);
+
+    if (newProgress < 1 && currentTick < order.completionTick) {
+      remaining.push({ ...order, progress: newProgress });
+      continue;
+    }
+
+    // Construction complete - create or upgrade the building
+    newBuildings = newBuildings ?? new Map(island.buildings ?? []);
+    const buildingId = generateBuildingId(island.id, order.buildingType);
+    const existing = newBuildings.get(buildingId) ?? findBuildingByType(island, order.buildingType);
+
+    if (existing) {
+      newBuildings.set(existing.id, {
+        ...existing,
+        level: Math.min(definition.maxLevel, Math.max(existing.level, order.targetLevel)),
+        condition: 1.0, // Reset condition on upgrade
+      });
+    } else {
+      newBuildings.set(buildingId, {
+        id: buildingId,
+        type: order.buildingType,
+        level: 1,
+        condition: 1.0,
+        islandId: island.id,
+      });
+    }
+
+    completed.push({ ...order, progress: 1 });
   }
 
   const newIsland: IslandState = {
     ...island,
-    inventory: newInventory,
-    buildings: newBuildings,
+    buildings: newBuildings ?? island.buildings,
+    constructionOrders: remaining,
   };
 
-  return { newIsland, buildingId };
+  return { newIsland, completed };
 }
 
 // ============================================================================
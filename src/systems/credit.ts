@@ -8,6 +8,7 @@
  * - Interest is charged each tick on outstanding debt
  * - Auto-borrow when cash falls below threshold
  * - Auto-repay when ship has excess cash
+ * - Ships controlled by agents skip the auto rules and manage leverage themselves
  * - Credit cut off when debt exceeds max ratio of ship value
  */
 
@@ -31,7 +32,7 @@ export interface CreditResult {
  * Calculate the ship's total value for credit calculations
  * Value = capacity * baseValuePerCapacity
  */
-function calculateShipValue(ship: ShipState, config: CreditConfig): number {
+export function calculateShipValue(ship: ShipState, config: CreditConfig): number {
   return ship.capacity * config.baseValuePerCapacity;
 }
 
@@ -133,6 +134,7 @@ export function repayDebt(ship: ShipState, amount: number): ShipState {
  * 1. Charges interest on outstanding debt
  * 2. Auto-borrows if cash is below minimum threshold
  * 3. Auto-repays debt if ship has excess cash
+ * Steps 2 and 3 are skipped for ships with manualCredit set
  *
  * @param ship The ship to process
  * @param config Simulation configuration with credit settings
@@ -169,7 +171,8 @@ export function processCreditSystem(
   // =========================================================================
   // 2. Auto-borrow if cash is below minimum threshold
   // =========================================================================
-  if (currentShip.cash < creditConfig.minCashThreshold) {
+  const automatic = !currentShip.manualCredit;
+  if (automatic && currentShip.cash < creditConfig.minCashThreshold) {
     const shortfall = creditConfig.minCashThreshold - currentShip.cash;
     // Try to borrow enough to reach the threshold plus a small buffer
     const borrowAmount = shortfall + (creditConfig.minCashThreshold * 0.5);
@@ -192,7 +195,7 @@ export function processCreditSystem(
   // Only auto-repay if cash is significantly above the minimum threshold
   // This prevents constant borrow/repay cycles
   const excessCashThreshold = creditConfig.minCashThreshold * 3; // 3x the minimum
-  if (currentShip.debt > 0 && currentShip.cash > excessCashThreshold) {
+  if (automatic && currentShip.debt > 0 && currentShip.cash > excessCashThreshold) {
     // Repay up to half of the excess (keep some buffer)
     const excessCash = currentShip.cash - excessCashThreshold;
     const repayAmount = Math.min(excessCash * 0.5, currentShip.debt);
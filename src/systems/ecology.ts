@@ -4,6 +4,7 @@
  * Based on 02_spec.md Section 3
  * Updated with harvest-production coupling (Track 03)
  * Updated with ecosystem collapse thresholds (Track 07)
+ * Updated with seasonal fish spawning and forest growth
  */
 
 import type {
@@ -13,7 +14,9 @@ import type {
   SimulationConfig,
   EcosystemHealthState,
   IslandId,
+  Season,
 } from '../core/types.js';
+import { getSeasonModifiers } from './seasons.js';
 
 /**
  * Clamp value between min and max
@@ -228,16 +231,19 @@ function updateSoilFertility(
  * @param config - Simulation config with ecosystem thresholds
  * @param events - Active world events
  * @param dt - Time delta
+ * @param season - Optional current season (fish spawning and forest growth)
  */
 export function updateEcology(
   island: IslandState,
   harvest: HarvestData,
   config: SimulationConfig,
   events: WorldEvent[],
-  dt: number
+  dt: number,
+  season?: Season
 ): EcosystemState {
   const { ecosystem, ecosystemParams, productionParams } = island;
   const eventMods = getEcosystemEventModifier(island.id, events);
+  const seasonMods = getSeasonModifiers(season, config.seasonsConfig);
 
   // Get grain production rate for soil depletion
   const grainRate = productionParams.baseRate.get('grain') ?? 0;
@@ -246,7 +252,7 @@ export function updateEcology(
   const newFishStock = logisticRegenerationWithHysteresis(
     ecosystem.fishStock,
     ecosystemParams.fishCapacity,
-    ecosystemParams.fishRegenRate,
+    ecosystemParams.fishRegenRate * seasonMods.fishRegenMultiplier,
     harvest.fish,
     config,
     dt
@@ -256,7 +262,7 @@ export function updateEcology(
   const newForestBiomass = logisticRegenerationWithHysteresis(
     ecosystem.forestBiomass,
     ecosystemParams.forestCapacity,
-    ecosystemParams.forestRegenRate,
+    ecosystemParams.forestRegenRate * seasonMods.forestRegenMultiplier,
     harvest.timber,
     config,
     dt
@@ -10,8 +10,11 @@ import type {
   EventModifiers,
   IslandState,
   WorldState,
+  SeasonModifiers,
+  SeasonsConfig,
 } from '../core/types.js';
 import type { SeededRNG } from '../core/rng.js';
+import { getSeasonModifiers } from './seasons.js';
 
 /**
  * Event templates with their modifiers and durations
@@ -31,7 +34,7 @@ const EVENT_TEMPLATES: Record<EventType, EventTemplate> = {
       shipSpeedMultiplier: 0.5,
       spoilageMultiplier: 2.0,
     },
-    probability: 0.001, // ~1% per hour
+    probability: 0, // Formed by the weather system, only scripted here
   },
   blight: {
     type: 'blight',
@@ -69,20 +72,17 @@ function generateEventId(rng: SeededRNG, tick: number): string {
 }
 
 /**
- * Calculate event probability based on world state
+ * Calculate event probability based on world state and season
  */
 function calculateEventProbability(
   template: EventTemplate,
   island: IslandState,
-  _state: WorldState
+  _state: WorldState,
+  seasonMods: SeasonModifiers
 ): number {
   let probability = template.probability;
 
   switch (template.type) {
-    case 'storm':
-      // Storms more likely in certain conditions (could add seasonality)
-      break;
-
     case 'blight':
       // Blight more likely with low soil fertility
       if (island.ecosystem.soilFertility < 0.3) {
@@ -95,6 +95,8 @@ function calculateEventProbability(
       if (island.population.health > 0.7) {
         probability *= 1.5;
       }
+      // Festivals cluster around the harvest
+      probability *= seasonMods.festivalMultiplier;
       break;
 
     case 'discovery':
@@ -132,10 +134,12 @@ function isEventTypeActive(
 export function generateEvents(
   state: WorldState,
   rng: SeededRNG,
-  dt: number
+  dt: number,
+  seasonsConfig?: SeasonsConfig
 ): WorldEvent[] {
   const newEvents: WorldEvent[] = [];
   const currentTick = state.tick;
+  const seasonMods = getSeasonModifiers(state.gameTime.season, seasonsConfig);
 
   // Check each island for potential events
   for (const [islandId, island] of state.islands) {
@@ -145,10 +149,10 @@ export function generateEvents(
         continue;
       }
 
-      // Skip storm for individual islands (storms are global)
+      // Storms are regional weather cells (see weather.ts), not island events
       if (template.type === 'storm') continue;
 
-      const probability = calculateEventProbability(template, island, state);
+      const probability = calculateEventProbability(template, island, state, seasonMods);
 
       if (rng.randomBool(probability * dt)) {
         const duration = rng.randomInt(
@@ -168,26 +172,6 @@ export function generateEvents(
     }
   }
 
-  // Check for global events (storms)
-  const stormTemplate = EVENT_TEMPLATES.storm;
-  if (!isEventTypeActive(state.events, 'storm', 'global', currentTick)) {
-    if (rng.randomBool(stormTemplate.probability * dt)) {
-      const duration = rng.randomInt(
-        stormTemplate.durationRange[0],
-        stormTemplate.durationRange[1]
-      );
-
-      newEvents.push({
-        id: generateEventId(rng, currentTick),
-        type: 'storm',
-        targetId: 'global',
-        startTick: currentTick,
-        endTick: currentTick + duration,
-        modifiers: { ...stormTemplate.modifiers },
-      });
-    }
-  }
-
   return newEvents;
 }
 
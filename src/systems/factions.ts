@@ -0,0 +1,119 @@
+/**
+ * Trader Factions System
+ * Multi-ship trading companies sharing one treasury
+ *
+ * Key features:
+ * - Member ships deposit surplus cash into the faction treasury
+ * - Ships short of cash withdraw from the treasury instead of borrowing
+ * - Standings rank factions by net worth (treasury + fleet cash - fleet debt)
+ */
+
+import type {
+  AgentId,
+  FactionId,
+  FactionState,
+  ShipState,
+  WorldState,
+} from '../core/types.js';
+
+/**
+ * Result of moving cash between a ship and its faction treasury
+ */
+export interface FundsTransferResult {
+  newShip: ShipState;
+  newFaction: FactionState;
+  /** Amount moved (positive = deposited, negative = withdrawn) */
+  transferred: number;
+}
+
+/**
+ * Live standing of a faction
+ */
+export interface FactionStanding {
+  factionId: FactionId;
+  name: string;
+  memberIds: AgentId[];
+  fleetSize: number;
+  treasury: number;
+  fleetCash: number;
+  fleetDebt: number;
+  netWorth: number;
+  rank: number;
+}
+
+/**
+ * Find the faction an agent belongs to
+ */
+export function findAgentFaction(world: WorldState, agentId: AgentId): FactionState | undefined {
+  for (const faction of world.factions?.values() ?? []) {
+    if (faction.memberIds.includes(agentId)) {
+      return faction;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Move cash between a ship and its faction treasury
+ * Deposits are capped by the ship's cash, withdrawals by the treasury
+ *
+ * @param ship The member ship
+ * @param faction The ship owner's faction
+ * @param amount Positive to deposit, negative to withdraw
+ */
+export function transferFactionFunds(
+  ship: ShipState,
+  faction: FactionState,
+  amount: number
+): FundsTransferResult {
+  const transferred =
+    amount >= 0
+      ? Math.min(amount, Math.max(0, ship.cash))
+      : -Math.min(-amount, Math.max(0, faction.treasury));
+
+  if (transferred === 0) {
+    return { newShip: ship, newFaction: faction, transferred: 0 };
+  }
+
+  return {
+    newShip: { ...ship, cash: ship.cash - transferred },
+    newFaction: {
+      ...faction,
+      treasury: faction.treasury + transferred,
+      cumulativeDeposits: faction.cumulativeDeposits + Math.max(0, transferred),
+      cumulativeWithdrawals: faction.cumulativeWithdrawals + Math.max(0, -transferred),
+    },
+    transferred,
+  };
+}
+
+/**
+ * Rank factions by net worth
+ * Ships count towards the faction of their owner
+ */
+export function getFactionStandings(world: WorldState): FactionStanding[] {
+  const standings = Array.from(world.factions?.values() ?? []).map((faction) => {
+    const ships = Array.from(world.ships.values()).filter((s) => faction.memberIds.includes(s.ownerId));
+    const fleetCash = ships.reduce((sum, s) => sum + s.cash, 0);
+    const fleetDebt = ships.reduce((sum, s) => sum + s.debt, 0);
+
+    return {
+      factionId: faction.id,
+      name: faction.name,
+      memberIds: [...faction.memberIds],
+      fleetSize: ships.length,
+      treasury: faction.treasury,
+      fleetCash,
+      fleetDebt,
+      netWorth: faction.treasury + fleetCash - fleetDebt,
+      rank: 0,
+    };
+  });
+
+  standings.sort((a, b) => b.netWorth - a.netWorth || a.factionId.localeCompare(b.factionId));
+  standings.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+
+  return standings;
+}
@@ -0,0 +1,472 @@
+/**
+ * Lending Market
+ * Island treasuries and cash-rich agents fund ship credit lines
+ * Part of Economic Model V2 - borrowed money now comes from somewhere
+ *
+ * Key features:
+ * - Islands lend a share of their treasury above a minimum reserve
+ * - Ships of agents that opt in (lendingAgents) lend a share of their cash above a minimum
+ * - Rate = base + risk premium (by borrower credit rating) + reserve premium
+ *   (by how much of the lender's spare funds the loan uses)
+ * - The borrower takes the cheapest quote; repeat borrowing tops up the same loan
+ * - Interest accrues on each loan; repayments flow back to the lender, and
+ *   only the interest counts as island income
+ * - Loans repaid in full raise the borrower's rating; defaults lower it and
+ *   the lender loses whatever the bankruptcy could not recover
+ */
+
+import type {
+  AgentId,
+  BankruptcyRecord,
+  CreditHistory,
+  IslandId,
+  IslandState,
+  Lender,
+  LendingConfig,
+  LendingState,
+  LoanContract,
+  ShipId,
+  ShipState,
+  SimulationConfig,
+  WorldState,
+} from '../core/types.js';
+import { getAvailableCredit, type CreditResult } from './credit.js';
+
+/**
+ * Balances a loan touches: the borrowing ship, the lender and the contracts
+ */
+export interface LendingBook {
+  ships: Map<ShipId, ShipState>;
+  islands: Map<IslandId, IslandState>;
+  lending: LendingState;
+}
+
+/**
+ * A lender's offer for a loan
+ */
+export interface LoanQuote {
+  lender: Lender;
+  amount: number; // May be less than requested when the lender is short
+  interestRatePerTick: number;
+}
+
+/**
+ * Result of processing the lending market for a tick
+ */
+export interface LendingResult {
+  book: LendingBook;
+  creditActivity: Map<ShipId, CreditResult>;
+}
+
+// Balances below this count as settled
+const EPSILON = 1e-6;
+
+/**
+ * Empty lending state for worlds without loans yet
+ */
+export function createLendingState(): LendingState {
+  return { loans: [], creditHistory: new Map(), nextLoanId: 1 };
+}
+
+/**
+ * Lending book for a world (its loans, or an empty ledger)
+ */
+export function getLendingBook(state: WorldState): LendingBook {
+  return {
+    ships: state.ships,
+    islands: state.islands,
+    lending: state.lending ?? createLendingState(),
+  };
+}
+
+/**
+ * Credit rating of an agent, 0 (defaulter) to 1 (spotless)
+ */
+export function getCreditRating(
+  lending: LendingState | undefined,
+  agentId: AgentId,
+  config: LendingConfig
+): number {
+  const history = lending?.creditHistory.get(agentId);
+  if (!history) return config.initialRating;
+
+  const rating =
+    config.initialRating +
+    history.loansRepaid * config.ratingPerRepaid -
+    history.loansDefaulted * config.ratingPerDefault;
+  return Math.max(0, Math.min(1, rating));
+}
+
+/**
+ * Spare funds a lender is willing to lend
+ */
+export function getLendableFunds(book: LendingBook, lender: Lender, config: LendingConfig): number {
+  if (lender.kind === 'island') {
+    const island = book.islands.get(lender.islandId);
+    if (!island) return 0;
+    return Math.max(0, island.treasury - config.islandMinTreasury) * config.islandLendingShare;
+  }
+
+  if (!config.lendingAgents.includes(lender.agentId)) return 0;
+  const ship = book.ships.get(lender.shipId);
+  if (!ship || ship.ownerId !== lender.agentId) return 0;
+  return Math.max(0, ship.cash - config.agentMinCash) * config.agentLendingShare;
+}
+
+/**
+ * Interest rate a lender charges for a loan
+ */
+export function quoteInterestRate(
+  rating: number,
+  amount: number,
+  lendable: number,
+  config: LendingConfig
+): number {
+  const reserveShare = lendable > 0 ? Math.min(1, amount / lendable) : 1;
+  return (
+    config.baseRatePerTick +
+    config.riskPremiumPerTick * (1 - rating) +
+    config.reservePremiumPerTick * reserveShare
+  );
+}
+
+function lenderKey(lender: Lender): string {
+  return lender.kind === 'island' ? `island:${lender.islandId}` : `agent:${lender.shipId}`;
+}
+
+/**
+ * Quotes from every lender able to fund part of a loan, best first
+ * Lenders that can fund the full amount come first, cheapest rate first
+ */
+export function getLoanQuotes(
+  book: LendingBook,
+  shipId: ShipId,
+  amount: number,
+  config: LendingConfig
+): LoanQuote[] {
+  const borrower = book.ships.get(shipId);
+  if (!borrower || amount <= 0) return [];
+
+  const rating = getCreditRating(book.lending, borrower.ownerId, config);
+  const lenders: Lender[] = [
+    ...Array.from(book.islands.keys()).map((islandId): Lender => ({ kind: 'island', islandId })),
+    ...Array.from(book.ships.values())
+      .filter((ship) => ship.ownerId !== borrower.ownerId && config.lendingAgents.includes(ship.ownerId))
+      .map((ship): Lender => ({ kind: 'agent', agentId: ship.ownerId, shipId: ship.id })),
+  ];
+
+  const quotes: LoanQuote[] = [];
+  for (const lender of lenders) {
+    const lendable = getLendableFunds(book, lender, config);
+    if (lendable <= EPSILON) continue;
+    const lent = Math.min(amount, lendable);
+    quotes.push({ lender, amount: lent, interestRatePerTick: quoteInterestRate(rating, lent, lendable, config) });
+  }
+
+  return quotes.sort(
+    (a, b) =>
+      b.amount - a.amount ||
+      a.interestRatePerTick - b.interestRatePerTick ||
+      lenderKey(a.lender).localeCompare(lenderKey(b.lender))
+  );
+}
+
+/**
+ * Move cash to or from a lender (negative amount = lender pays out)
+ * Principal lent and returned only moves an island's treasury; the interest
+ * part of a payment also counts as treasury income.
+ * Repayments owed to an agent whose lending ship was sold go to its first remaining ship
+ */
+function adjustLenderBalance(book: LendingBook, lender: Lender, amount: number, interest: number = 0): LendingBook {
+  if (lender.kind === 'island') {
+    const island = book.islands.get(lender.islandId);
+    if (!island) return book;
+    const islands = new Map(book.islands);
+    islands.set(lender.islandId, {
+      ...island,
+      treasury: island.treasury + amount,
+      treasuryIncome: island.treasuryIncome + interest,
+    });
+    return { ...book, islands };
+  }
+
+  let ship = book.ships.get(lender.shipId);
+  if (!ship || ship.ownerId !== lender.agentId) {
+    ship = Array.from(book.ships.values())
+      .filter((s) => s.ownerId === lender.agentId)
+      .sort((a, b) => a.id.localeCompare(b.id))[0];
+  }
+  if (!ship) return book; // Lender has left the market; the money is lost
+
+  const ships = new Map(book.ships);
+  ships.set(ship.id, { ...ship, cash: ship.cash + amount });
+  return { ...book, ships };
+}
+
+/**
+ * Count a settled loan towards the borrower's credit history
+ */
+function recordSettlement(
+  lending: LendingState,
+  agentId: AgentId,
+  outcome: keyof CreditHistory
+): LendingState {
+  const history = lending.creditHistory.get(agentId) ?? { loansRepaid: 0, loansDefaulted: 0 };
+  const creditHistory = new Map(lending.creditHistory);
+  creditHistory.set(agentId, { ...history, [outcome]: history[outcome] + 1 });
+  return { ...lending, creditHistory };
+}
+
+/**
+ * Borrow from the best available lender
+ * Borrowing again from the same lender tops up the existing loan at a blended rate
+ *
+ * @returns Updated book and the amount actually borrowed (0 if nobody would lend)
+ */
+export function borrowFromMarket(
+  book: LendingBook,
+  shipId: ShipId,
+  amount: number,
+  tick: number,
+  config: LendingConfig
+): { book: LendingBook; borrowed: number } {
+  const quote = getLoanQuotes(book, shipId, amount, config)[0];
+  if (!quote) return { book, borrowed: 0 };
+
+  let next = adjustLenderBalance(book, quote.lender, -quote.amount);
+
+  const ship = next.ships.get(shipId)!;
+  const ships = new Map(next.ships);
+  ships.set(shipId, { ...ship, cash: ship.cash + quote.amount, debt: ship.debt + quote.amount });
+  next = { ...next, ships };
+
+  const key = lenderKey(quote.lender);
+  const existing = next.lending.loans.find((loan) => loan.shipId === shipId && lenderKey(loan.lender) === key);
+  let loans: LoanContract[];
+  let nextLoanId = next.lending.nextLoanId;
+  if (existing) {
+    const outstanding = existing.outstanding + quote.amount;
+    loans = next.lending.loans.map((loan) =>
+      loan.id === existing.id
+        ? {
+            ...loan,
+            principal: loan.principal + quote.amount,
+            outstanding,
+            interestRatePerTick:
+              (loan.outstanding * loan.interestRatePerTick + quote.amount * quote.interestRatePerTick) /
+              outstanding,
+          }
+        : loan
+    );
+  } else {
+    loans = [
+      ...next.lending.loans,
+      {
+        id: `loan-${nextLoanId}`,
+        lender: quote.lender,
+        borrowerId: ship.ownerId,
+        shipId,
+        principal: quote.amount,
+        outstanding: quote.amount,
+        interestRatePerTick: quote.interestRatePerTick,
+        issuedTick: tick,
+        repaid: 0,
+        interestDue: 0,
+      },
+    ];
+    nextLoanId += 1;
+  }
+
+  return { book: { ...next, lending: { ...next.lending, loans, nextLoanId } }, borrowed: quote.amount };
+}
+
+/**
+ * Repay a ship's loans, most expensive first
+ * Debt not covered by a loan contract is repaid to the system lender
+ *
+ * @returns Updated book and the amount actually repaid
+ */
+export function repayLoans(
+  book: LendingBook,
+  shipId: ShipId,
+  amount: number
+): { book: LendingBook; repaid: number } {
+  const ship = book.ships.get(shipId);
+  if (!ship || amount <= 0 || ship.debt <= 0) return { book, repaid: 0 };
+
+  const repaid = Math.min(amount, ship.debt, Math.max(0, ship.cash));
+  let remaining = repaid;
+  let next = book;
+
+  const shipLoans = book.lending.loans
+    .filter((loan) => loan.shipId === shipId)
+    .sort((a, b) => b.interestRatePerTick - a.interestRatePerTick || a.id.localeCompare(b.id));
+
+  for (const loan of shipLoans) {
+    if (remaining <= 0) break;
+    const payment = Math.min(remaining, loan.outstanding);
+    const interest = Math.min(payment, loan.interestDue);
+    remaining -= payment;
+    next = adjustLenderBalance(next, loan.lender, payment, interest);
+
+    if (loan.outstanding - payment <= EPSILON) {
+      next = {
+        ...next,
+        lending: recordSettlement(
+          { ...next.lending, loans: next.lending.loans.filter((l) => l.id !== loan.id) },
+          loan.borrowerId,
+          'loansRepaid'
+        ),
+      };
+    } else {
+      next = {
+        ...next,
+        lending: {
+          ...next.lending,
+          loans: next.lending.loans.map((l) =>
+            l.id === loan.id
+              ? {
+                  ...l,
+                  outstanding: l.outstanding - payment,
+                  repaid: l.repaid + payment,
+                  interestDue: l.interestDue - interest,
+                }
+              : l
+          ),
+        },
+      };
+    }
+  }
+
+  // Whatever is left pays down untracked debt (money returns to the system lender)
+  const current = next.ships.get(shipId)!;
+  const ships = new Map(next.ships);
+  ships.set(shipId, { ...current, cash: current.cash - repaid, debt: Math.max(0, current.debt - repaid) });
+
+  return { book: { ...next, ships }, repaid };
+}
+
+/**
+ * Process credit for every ship through the lending market
+ *
+ * Same rules as processCreditSystem (interest, auto-borrow below the cash
+ * threshold, auto-repay well above it), but borrowed money comes from lenders
+ * and repayments and interest go back to them. Ships are processed in ID order
+ * so lenders' funds are allocated deterministically.
+ */
+export function processLending(
+  state: WorldState,
+  config: SimulationConfig,
+  tick: number,
+  dt: number = 1
+): LendingResult {
+  const { creditConfig, lendingConfig } = config;
+  let book = getLendingBook(state);
+  const creditActivity = new Map<ShipId, CreditResult>();
+
+  for (const shipId of Array.from(book.ships.keys()).sort()) {
+    let interestCharged = 0;
+    let creditUsed = 0;
+    let debtRepaid = 0;
+
+    // 1. Interest accrues on each loan; debt without a contract accrues at the flat rate
+    const before = book.ships.get(shipId)!;
+    let contracted = 0;
+    const loans = book.lending.loans.map((loan) => {
+      if (loan.shipId !== shipId) return loan;
+      const interest = loan.outstanding * loan.interestRatePerTick * dt;
+      interestCharged += interest;
+      contracted += loan.outstanding;
+      return { ...loan, outstanding: loan.outstanding + interest, interestDue: loan.interestDue + interest };
+    });
+    const untracked = Math.max(0, before.debt - contracted);
+    interestCharged += untracked * creditConfig.interestRatePerTick * dt;
+
+    const ships = new Map(book.ships);
+    ships.set(shipId, {
+      ...before,
+      debt: before.debt + interestCharged,
+      cumulativeInterestPaid: before.cumulativeInterestPaid + interestCharged,
+    });
+    book = { ...book, ships, lending: { ...book.lending, loans } };
+
+    // 2. Auto-borrow if cash is below the minimum threshold
+    // (ships controlled by agents borrow and repay through their own actions)
+    let ship = book.ships.get(shipId)!;
+    const automatic = !ship.manualCredit;
+    if (automatic && ship.cash < creditConfig.minCashThreshold) {
+      const shortfall = creditConfig.minCashThreshold - ship.cash;
+      const wanted = Math.min(shortfall + creditConfig.minCashThreshold * 0.5, getAvailableCredit(ship, creditConfig));
+      if (wanted > 0) {
+        const result = borrowFromMarket(book, shipId, wanted, tick, lendingConfig);
+        book = result.book;
+        creditUsed = result.borrowed;
+      }
+    }
+
+    // 3. Auto-repay half the cash above 3x the threshold
+    ship = book.ships.get(shipId)!;
+    const excessCashThreshold = creditConfig.minCashThreshold * 3;
+    if (automatic && ship.debt > 0 && ship.cash > excessCashThreshold) {
+      const result = repayLoans(book, shipId, (ship.cash - excessCashThreshold) * 0.5);
+      book = result.book;
+      debtRepaid = result.repaid;
+    }
+
+    // Show the blended rate of the ship's loans
+    ship = book.ships.get(shipId)!;
+    const shipLoans = book.lending.loans.filter((loan) => loan.shipId === shipId);
+    const owed = shipLoans.reduce((sum, loan) => sum + loan.outstanding, 0);
+    if (owed > 0) {
+      const interestRate = shipLoans.reduce((sum, loan) => sum + loan.outstanding * loan.interestRatePerTick, 0) / owed;
+      const updated = new Map(book.ships);
+      updated.set(shipId, { ...ship, interestRate });
+      book = { ...book, ships: updated };
+    }
+
+    creditActivity.set(shipId, {
+      newShip: book.ships.get(shipId)!,
+      interestCharged,
+      creditUsed,
+      debtRepaid,
+    });
+  }
+
+  return { book, creditActivity };
+}
+
+/**
+ * Settle the loans of ships seized in bankruptcy
+ * Each lender gets its share of what was recovered (in proportion to what it
+ * was owed) and writes off the rest; the borrower's rating takes a default per loan
+ */
+export function settleDefaultedLoans(book: LendingBook, records: BankruptcyRecord[]): LendingBook {
+  let next = book;
+
+  for (const record of records) {
+    const defaulted = next.lending.loans.filter((loan) => loan.shipId === record.shipId);
+    if (defaulted.length === 0) continue;
+
+    for (const loan of defaulted) {
+      const share = record.debt > 0 ? record.recovered * Math.min(1, loan.outstanding / record.debt) : 0;
+      next = adjustLenderBalance(next, loan.lender, share, Math.min(share, loan.interestDue));
+      next = {
+        ...next,
+        lending: recordSettlement(
+          { ...next.lending, loans: next.lending.loans.filter((l) => l.id !== loan.id) },
+          loan.borrowerId,
+          'loansDefaulted'
+        ),
+      };
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Outstanding loans of a ship
+ */
+export function getShipLoans(lending: LendingState | undefined, shipId: ShipId): LoanContract[] {
+  return (lending?.loans ?? []).filter((loan) => loan.shipId === shipId);
+}
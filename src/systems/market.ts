@@ -241,6 +241,23 @@ export interface TradeExecutionOptions {
   marketDepthConfig?: MarketDepthConfig;
   /** Current market state (for accessing depth) */
   market?: MarketState;
+  /** Governor tariff on ship purchases (fraction of trade value, paid to the island) */
+  exportTariff?: number;
+  /** Governor tariff on ship sales (fraction of trade value, paid to the island) */
+  importTariff?: number;
+  /** Stock per good held back from ships (governor reserves) */
+  reserves?: Map<GoodId, number>;
+}
+
+/**
+ * Stock ships may buy once governor reserves are held back
+ */
+function availableForSale(
+  goodId: GoodId,
+  available: number,
+  reserves: Map<GoodId, number> | undefined
+): number {
+  return Math.max(0, available - (reserves?.get(goodId) ?? 0));
 }
 
 /**
@@ -266,10 +283,11 @@ export function executeTrade(
   newShipCash: number;
   totalCost: number;
   taxCollected: number; // Total tax collected (currency destroyed)
+  tariffCollected: number; // Governor tariffs paid to the island
   // Economic Model V2: Island treasury changes
   islandExportRevenue: number;  // Money island received from exports
   islandImportCost: number;     // Money island spent on imports
-  islandTreasuryChange: number; // Net change to island treasury
+  islandTreasuryChange: number; // Net change to island treasury (including tariffs)
 } {
   // Parse options (backwards compatible with old taxRate-only signature)
   const options: TradeExecutionOptions = typeof taxRateOrOptions === 'number'
@@ -280,12 +298,15 @@ export function executeTrade(
   const islandTreasury = options.islandTreasury ?? Infinity; // No limit if not specified
   const enforcePurchasingPower = options.enforcePurchasingPower ?? false;
   const maxSpendRatio = options.maxSpendRatio ?? 0.1;
+  const exportTariff = options.exportTariff ?? 0;
+  const importTariff = options.importTariff ?? 0;
 
   const newIslandInventory = new Map(islandInventory);
   const newShipCargo = new Map(shipCargo);
   let newShipCash = shipCash;
   let totalCost = 0;
   let taxCollected = 0;
+  let tariffCollected = 0;
   let islandExportRevenue = 0;
   let islandImportCost = 0;
 
@@ -302,17 +323,19 @@ export function executeTrade(
       // Ship BUYING from island = Island EXPORTING
       // Ship pays island, island receives export revenue
       const available = newIslandInventory.get(goodId) ?? 0;
-      const actualQty = Math.min(quantity, available);
+      const actualQty = Math.min(quantity, availableForSale(goodId, available, options.reserves));
       const baseCost = actualQty * price;
       const tax = baseCost * taxRate;
-      const totalWithTax = baseCost + tax;
+      const tariff = baseCost * exportTariff;
+      const totalWithTax = baseCost + tax + tariff;
 
       if (totalWithTax <= newShipCash && actualQty > 0) {
         newIslandInventory.set(goodId, available - actualQty);
         newShipCargo.set(goodId, (newShipCargo.get(goodId) ?? 0) + actualQty);
-        newShipCash -= totalWithTax; // Ship pays cost + tax
+        newShipCash -= totalWithTax; // Ship pays cost + tax + tariff
         totalCost += baseCost;
         taxCollected += tax; // Tax is destroyed (currency sink)
+        tariffCollected += tariff;
 
         // Economic Model V2: Island receives export revenue (pre-tax)
         islandExportRevenue += baseCost;
@@ -337,7 +360,8 @@ export function executeTrade(
       if (actualQty > 0) {
         const actualRevenue = actualQty * price;
         const tax = actualRevenue * taxRate;
-        const netRevenue = actualRevenue - tax;
+        const tariff = actualRevenue * importTariff;
+        const netRevenue = actualRevenue - tax - tariff;
 
         newShipCargo.set(goodId, hasCargo - actualQty);
         newIslandInventory.set(
@@ -347,6 +371,7 @@ export function executeTrade(
         newShipCash += netRevenue; // Ship receives revenue minus tax
         totalCost -= actualRevenue; // Negative cost = revenue (pre-tax for accounting)
         taxCollected += tax; // Tax is destroyed (currency sink)
+        tariffCollected += tariff;
 
         // Economic Model V2: Island pays for imports
         islandImportCost += actualRevenue;
@@ -361,10 +386,11 @@ export function executeTrade(
     newShipCash,
     totalCost,
     taxCollected,
+    tariffCollected,
     // Economic Model V2
     islandExportRevenue,
     islandImportCost,
-    islandTreasuryChange: islandExportRevenue - islandImportCost,
+    islandTreasuryChange: islandExportRevenue - islandImportCost + tariffCollected,
   };
 }
 
@@ -377,8 +403,11 @@ export interface TradeWithPriceImpactResult {
   newShipCash: number;
   totalCost: number;
   taxCollected: number;
+  /** Governor tariffs paid to the island */
+  tariffCollected: number;
   islandExportRevenue: number;
   islandImportCost: number;
+  /** Net change to island treasury (including tariffs) */
   islandTreasuryChange: number;
   /** Updated market state with consumed depth */
   newMarket: MarketState;
@@ -424,12 +453,15 @@ export function executeTradeWithPriceImpact(
   const islandTreasury = options.islandTreasury ?? Infinity;
   const enforcePurchasingPower = options.enforcePurchasingPower ?? false;
   const maxSpendRatio = options.maxSpendRatio ?? 0.1;
+  const exportTariff = options.exportTariff ?? 0;
+  const importTariff = options.importTariff ?? 0;
 
   const newIslandInventory = new Map(islandInventory);
   const newShipCargo = new Map(shipCargo);
   let newShipCash = shipCash;
   let totalCost = 0;
   let taxCollected = 0;
+  let tariffCollected = 0;
   let islandExportRevenue = 0;
   let islandImportCost = 0;
   let totalSlippage = 0;
@@ -452,7 +484,7 @@ export function executeTradeWithPriceImpact(
       // Ship BUYING from island = Island EXPORTING
       // Buy depth determines price impact
       const available = newIslandInventory.get(goodId) ?? 0;
-      const actualQty = Math.min(quantity, available);
+      const actualQty = Math.min(quantity, availableForSale(goodId, available, options.reserves));
 
       if (actualQty <= 0) continue;
 
@@ -469,7 +501,8 @@ export function executeTradeWithPriceImpact(
       const baseCost = actualQty * executionPrice;
       const slippage = baseCost - (actualQty * quotedPrice);
       const tax = baseCost * taxRate;
-      const totalWithTax = baseCost + tax;
+      const tariff = baseCost * exportTariff;
+      const totalWithTax = baseCost + tax + tariff;
 
       if (totalWithTax <= newShipCash) {
         newIslandInventory.set(goodId, available - actualQty);
@@ -477,6 +510,7 @@ export function executeTradeWithPriceImpact(
         newShipCash -= totalWithTax;
         totalCost += baseCost;
         taxCollected += tax;
+        tariffCollected += tariff;
         islandExportRevenue += baseCost;
         totalSlippage += slippage;
 
@@ -511,8 +545,6 @@ export function executeTradeWithPriceImpact(
 
       const executionPrice = impact.executionPrice;
       let baseRevenue = actualQty * executionPrice;
-      const quotedRevenue = actualQty * quotedPrice;
-      const slippage = quotedRevenue - baseRevenue; // Positive = loss due to impact
 
       // Check if island can afford this import
       if (enforcePurchasingPower) {
@@ -524,8 +556,12 @@ export function executeTradeWithPriceImpact(
         }
       }
 
+      const quotedRevenue = actualQty * quotedPrice;
+      const slippage = quotedRevenue - baseRevenue; // Positive = loss due to impact
+
       const tax = baseRevenue * taxRate;
-      const netRevenue = baseRevenue - tax;
+      const tariff = baseRevenue * importTariff;
+      const netRevenue = baseRevenue - tax - tariff;
 
       newShipCargo.set(goodId, hasCargo - actualQty);
       newIslandInventory.set(
@@ -535,6 +571,7 @@ export function executeTradeWithPriceImpact(
       newShipCash += netRevenue;
       totalCost -= baseRevenue;
       taxCollected += tax;
+      tariffCollected += tariff;
       islandImportCost += baseRevenue;
       islandSpentSoFar += baseRevenue;
       totalSlippage += slippage;
@@ -558,9 +595,10 @@ export function executeTradeWithPriceImpact(
     newShipCash,
     totalCost,
     taxCollected,
+    tariffCollected,
     islandExportRevenue,
     islandImportCost,
-    islandTreasuryChange: islandExportRevenue - islandImportCost,
+    islandTreasuryChange: islandExportRevenue - islandImportCost + tariffCollected,
     newMarket: currentMarket,
     priceImpacts,
     totalSlippage,
@@ -0,0 +1,262 @@
+/**
+ * Navigation System
+ * Routes ships through the sea-lane graph
+ *
+ * Key features:
+ * - Lanes link islands and open-water waypoints, each with its own danger and wind
+ * - Lanes crossing an impassable zone are closed; reefs add danger to lanes over them
+ * - Routes resolve to the shortest (fastest sailing) or safest path
+ * - Worlds without a graph keep straight-line voyages between islands
+ */
+
+import type {
+  IslandId,
+  IslandState,
+  RouteLeg,
+  RoutePath,
+  RoutePreference,
+  SeaLaneGraph,
+  SeaObstacle,
+  Vector2,
+} from '../core/types.js';
+
+/** How strongly the safest route avoids danger (cost = length * (1 + weight * danger)) */
+const SAFETY_DANGER_WEIGHT = 4;
+
+/** Floor on wind factors so a becalmed lane cannot stall a ship */
+const MIN_WIND_FACTOR = 0.1;
+
+interface LaneEdge {
+  to: string;
+  leg: RouteLeg;
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Check whether the segment a-b passes within an obstacle's radius
+ */
+export function segmentCrossesObstacle(a: Vector2, b: Vector2, obstacle: SeaObstacle): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((obstacle.center.x - a.x) * dx + (obstacle.center.y - a.y) * dy) / lengthSq));
+  const closest = { x: a.x + dx * t, y: a.y + dy * t };
+  return distance(closest, obstacle.center) < obstacle.radius;
+}
+
+/**
+ * Positions of every node in the graph (islands and waypoints)
+ */
+function getNodePositions(
+  islands: Map<IslandId, IslandState>,
+  graph: SeaLaneGraph
+): Map<string, Vector2> {
+  const positions = new Map<string, Vector2>();
+  for (const [id, island] of islands) {
+    positions.set(id, island.position);
+  }
+  for (const waypoint of graph.waypoints) {
+    positions.set(waypoint.id, waypoint.position);
+  }
+  return positions;
+}
+
+/**
+ * Build the open-lane adjacency list, resolving each lane to a leg in both directions
+ */
+function buildAdjacency(
+  islands: Map<IslandId, IslandState>,
+  graph: SeaLaneGraph
+): Map<string, LaneEdge[]> {
+  const positions = getNodePositions(islands, graph);
+  const adjacency = new Map<string, LaneEdge[]>();
+
+  for (const lane of graph.lanes) {
+    const from = positions.get(lane.from);
+    const to = positions.get(lane.to);
+    if (!from || !to || lane.from === lane.to) continue;
+
+    const crossed = graph.obstacles.filter((obstacle) => segmentCrossesObstacle(from, to, obstacle));
+    if (crossed.some((obstacle) => obstacle.kind === 'impassable')) continue;
+
+    const reefDanger = crossed.reduce((sum, obstacle) => sum + obstacle.danger, 0);
+    const danger = Math.max(0, Math.min(1, lane.danger + reefDanger));
+    const windFactor = Math.max(MIN_WIND_FACTOR, lane.windFactor);
+    const length = distance(from, to);
+
+    const forward: RouteLeg = { laneId: lane.id, from, to, length, danger, windFactor };
+    const backward: RouteLeg = { ...forward, from: to, to: from };
+
+    adjacency.set(lane.from, [...(adjacency.get(lane.from) ?? []), { to: lane.to, leg: forward }]);
+    adjacency.set(lane.to, [...(adjacency.get(lane.to) ?? []), { to: lane.from, leg: backward }]);
+  }
+
+  return adjacency;
+}
+
+function legCost(leg: RouteLeg, preference: RoutePreference): number {
+  return preference === 'safest'
+    ? leg.length * (1 + SAFETY_DANGER_WEIGHT * leg.danger)
+    : leg.length / leg.windFactor;
+}
+
+/**
+ * Cheapest node not yet visited, lowest ID first on ties
+ */
+function closestUnvisited(cost: Map<string, number>, visited: Set<string>): string | null {
+  let best: string | null = null;
+  for (const [node, nodeCost] of cost) {
+    if (visited.has(node)) continue;
+    const bestCost = best === null ? Infinity : cost.get(best)!;
+    if (best === null || nodeCost < bestCost || (nodeCost === bestCost && node < best)) {
+      best = node;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find a route between two islands through the sea-lane graph (Dijkstra)
+ * Ties are broken by node ID so routing is deterministic.
+ *
+ * @returns The path, or null if the destination cannot be reached
+ */
+export function findSeaRoute(
+  fromId: IslandId,
+  toId: IslandId,
+  islands: Map<IslandId, IslandState>,
+  graph: SeaLaneGraph,
+  preference: RoutePreference = 'shortest'
+): RoutePath | null {
+  if (!islands.has(fromId) || !islands.has(toId)) return null;
+  if (fromId === toId) return { preference, nodeIds: [fromId], legs: [], length: 0 };
+
+  const adjacency = buildAdjacency(islands, graph);
+  const cost = new Map<string, number>([[fromId, 0]]);
+  const previous = new Map<string, { node: string; leg: RouteLeg }>();
+  const visited = new Set<string>();
+
+  let current: string | null = fromId;
+  while (current !== null && current !== toId) {
+    visited.add(current);
+    for (const edge of adjacency.get(current) ?? []) {
+      if (visited.has(edge.to)) continue;
+      const candidate = cost.get(current)! + legCost(edge.leg, preference);
+      if (candidate < (cost.get(edge.to) ?? Infinity)) {
+        cost.set(edge.to, candidate);
+        previous.set(edge.to, { node: current, leg: edge.leg });
+      }
+    }
+    current = closestUnvisited(cost, visited);
+  }
+  if (current === null) return null;
+
+  const nodeIds = [toId];
+  const legs: RouteLeg[] = [];
+  for (let node = toId; node !== fromId; ) {
+    const step = previous.get(node)!;
+    legs.unshift(step.leg);
+    nodeIds.unshift(step.node);
+    node = step.node;
+  }
+
+  return {
+    preference,
+    nodeIds,
+    legs,
+    length: legs.reduce((sum, leg) => sum + leg.length, 0),
+  };
+}
+
+/**
+ * Sailing distance from one island to every other island along shortest routes
+ * Unreachable islands map to Infinity.
+ */
+export function getSeaDistances(
+  fromId: IslandId,
+  islands: Map<IslandId, IslandState>,
+  graph: SeaLaneGraph
+): Map<IslandId, number> {
+  const distances = new Map<IslandId, number>();
+  for (const toId of islands.keys()) {
+    if (toId === fromId) continue;
+    distances.set(toId, findSeaRoute(fromId, toId, islands, graph)?.length ?? Infinity);
+  }
+  return distances;
+}
+
+/**
+ * Hours needed to sail a path at the given base speed (wind applied per leg)
+ */
+export function getPathTravelHours(path: RoutePath, speed: number): number {
+  return path.legs.reduce((hours, leg) => hours + leg.length / (speed * leg.windFactor), 0);
+}
+
+/**
+ * Position of a ship a fraction of the way along a path
+ */
+export function getPositionAlongPath(path: RoutePath, progress: number): Vector2 {
+  let remaining = Math.max(0, Math.min(1, progress)) * path.length;
+
+  for (const leg of path.legs) {
+    if (remaining <= leg.length) {
+      const t = leg.length > 0 ? remaining / leg.length : 1;
+      return {
+        x: leg.from.x + (leg.to.x - leg.from.x) * t,
+        y: leg.from.y + (leg.to.y - leg.from.y) * t,
+      };
+    }
+    remaining -= leg.length;
+  }
+
+  const last = path.legs[path.legs.length - 1];
+  return last ? { ...last.to } : { x: 0, y: 0 };
+}
+
+/**
+ * Sail a path for dt hours, crossing into later legs as each one is finished
+ *
+ * @param speed Base speed before lane wind
+ * @returns New progress, distance covered and its distance-weighted danger
+ */
+export function advanceAlongPath(
+  path: RoutePath,
+  progress: number,
+  speed: number,
+  dt: number
+): { progress: number; distanceTraveled: number; danger: number } {
+  if (path.length <= 0) {
+    return { progress: 1, distanceTraveled: 0, danger: 0 };
+  }
+
+  let position = progress * path.length;
+  let hoursLeft = dt;
+  let distanceTraveled = 0;
+  let dangerDistance = 0;
+  let legStart = 0;
+
+  for (const leg of path.legs) {
+    const legEnd = legStart + leg.length;
+    if (hoursLeft > 0 && position < legEnd) {
+      const legSpeed = speed * leg.windFactor;
+      const step = Math.min(legEnd - position, legSpeed * hoursLeft);
+      position += step;
+      distanceTraveled += step;
+      dangerDistance += step * leg.danger;
+      hoursLeft -= legSpeed > 0 ? step / legSpeed : hoursLeft;
+    }
+    legStart = legEnd;
+  }
+
+  return {
+    progress: Math.min(1, position / path.length),
+    distanceTraveled,
+    danger: distanceTraveled > 0 ? dangerDistance / distanceTraveled : 0,
+  };
+}
@@ -11,6 +11,7 @@ import type {
   SimulationConfig,
   Sector,
   GoodId,
+  IslandId,
 } from '../core/types.js';
 
 import { SECTOR_TO_GOOD, SECTORS } from '../core/world.js';
@@ -467,24 +468,113 @@ export function calculateMigrationAttractiveness(
  */
 export function checkMigrationTrigger(
   island: IslandState,
-  _config: SimulationConfig,
+  config: SimulationConfig,
   sustainedDeficitTicks: number
 ): number {
-  const thresholdTicks = 48; // 2 game days of sustained issues
+  const migrationConfig = config.migrationConfig;
 
   // Check for sustained food deficit
-  if (sustainedDeficitTicks >= thresholdTicks) {
-    return 0.01; // 1% of population considers leaving
+  if (sustainedDeficitTicks >= migrationConfig.deficitThresholdTicks) {
+    return migrationConfig.famineRate;
   }
 
   // Check for low health
-  if (island.population.health < 0.3) {
-    return 0.005;
+  if (island.population.health < migrationConfig.lowHealthThreshold) {
+    return migrationConfig.lowHealthRate;
   }
 
   return 0;
 }
 
+/**
+ * Population migration result for metrics
+ */
+export interface MigrationResult {
+  migrations: Array<{
+    fromIslandId: IslandId;
+    toIslandId: IslandId;
+    migrants: number;
+    deficitTicks: number;
+  }>;
+  totalMigrants: number;
+}
+
+/**
+ * Apply population migration between islands
+ *
+ * Islands with sustained food deficit (or critical health) lose a fraction of
+ * their population to the most attractive island that clearly beats them.
+ * Migrants are whole people and every person who leaves arrives, so total
+ * population is conserved.
+ *
+ * Attractiveness is scored on the pre-migration state so the outcome does not
+ * depend on island iteration order.
+ *
+ * @param islands - Map of all islands
+ * @param config - Simulation config with migration parameters
+ * @param dt - Time delta in hours
+ * @returns Updated islands map and migration metrics
+ */
+export function applyMigration(
+  islands: Map<IslandId, IslandState>,
+  config: SimulationConfig,
+  dt: number
+): { newIslands: Map<IslandId, IslandState>; result: MigrationResult } {
+  const migrationConfig = config.migrationConfig;
+  const result: MigrationResult = {
+    migrations: [],
+    totalMigrants: 0,
+  };
+
+  const newIslands = new Map(islands);
+  if (!migrationConfig?.enabled || islands.size < 2) {
+    return { newIslands, result };
+  }
+
+  const attractiveness = new Map<IslandId, number>();
+  for (const [id, island] of islands) {
+    attractiveness.set(id, calculateMigrationAttractiveness(island, config));
+  }
+
+  for (const [sourceId, source] of islands) {
+    const deficitTicks = source.foodDeficitTicks ?? 0;
+    const fraction = checkMigrationTrigger(source, config, deficitTicks);
+    if (fraction <= 0) continue;
+
+    // Pick the most attractive destination that clearly beats the source
+    const sourceScore = attractiveness.get(sourceId)!;
+    let destId: IslandId | null = null;
+    let bestScore = sourceScore + migrationConfig.minAttractivenessGap;
+    for (const [id, score] of attractiveness) {
+      if (id !== sourceId && score > bestScore) {
+        destId = id;
+        bestScore = score;
+      }
+    }
+    if (!destId) continue;
+
+    const current = newIslands.get(sourceId)!;
+    const available = Math.floor(current.population.size - migrationConfig.minPopulation);
+    const migrants = Math.min(Math.floor(current.population.size * fraction * dt), available);
+    if (migrants <= 0) continue;
+
+    const dest = newIslands.get(destId)!;
+    newIslands.set(sourceId, {
+      ...current,
+      population: { ...current.population, size: current.population.size - migrants },
+    });
+    newIslands.set(destId, {
+      ...dest,
+      population: { ...dest.population, size: dest.population.size + migrants },
+    });
+
+    result.migrations.push({ fromIslandId: sourceId, toIslandId: destId, migrants, deficitTicks });
+    result.totalMigrants += migrants;
+  }
+
+  return { newIslands, result };
+}
+
 /**
  * Get population indicators for UI/agents
  */
@@ -4,18 +4,23 @@
  * Based on 02_spec.md Section 4
  * Updated with harvest-production coupling (Track 03)
  * Updated with supply shocks and variance (Economic Model V2)
+ * Processed goods draw recipe inputs from island inventory
+ * Extractive goods respect governor harvest quotas
  */
 
 import type {
   IslandState,
   GoodId,
+  GoodDefinition,
   WorldEvent,
   SimulationConfig,
+  Season,
 } from '../core/types.js';
 
 import { calculateYieldMultiplier } from './ecology.js';
 import { getWorkshopEffect } from './buildings.js';
 import { getProductionMultiplier, applyProductionVariance } from './supply-shocks.js';
+import { getSeasonModifiers } from './seasons.js';
 
 /**
  * Result of production calculation including harvest data (Track 03)
@@ -27,8 +32,10 @@ export interface ProductionResult {
   produced: Map<GoodId, number>;
   /** Amount harvested from ecosystem per good (for fish/timber) */
   harvested: Map<GoodId, number>;
-  /** Whether production was limited by ecosystem capacity */
+  /** Whether production was limited by ecosystem capacity or recipe inputs */
   constrained: Map<GoodId, boolean>;
+  /** Recipe inputs drawn from inventory per input good */
+  inputsConsumed: Map<GoodId, number>;
   /** Supply shock multipliers applied per good (1.0 = no shock) */
   shockMultipliers: Map<GoodId, number>;
 }
@@ -226,7 +233,7 @@ export function calculateProduction(
 /**
  * Check if a good is extractive (harvested from ecosystem stock)
  */
-function isExtractiveGood(goodId: GoodId): boolean {
+export function isExtractiveGood(goodId: GoodId): boolean {
   return goodId === 'fish' || goodId === 'timber';
 }
 
@@ -260,6 +267,11 @@ function getExtractiveStock(
  * Updated for Economic Model V2:
  * - Applies supply shock multipliers from active boom/bust events
  * - Applies random variance when RNG is provided
+ * - Applies the seasonal grain harvest multiplier when a season is given
+ *
+ * Goods with recipe inputs draw them from inventory in list order, so raw goods
+ * produced earlier in the tick can feed processed goods later in the list.
+ * Production is capped by the scarcest input.
  *
  * @param island - Current island state
  * @param goods - List of goods to produce
@@ -268,6 +280,8 @@ function getExtractiveStock(
  * @param dt - Time delta
  * @param currentTick - Current simulation tick (for shock expiration)
  * @param rng - Optional seeded RNG function for production variance
+ * @param goodDefinitions - Optional good definitions carrying recipe inputs
+ * @param season - Optional current season (seasonal grain harvest)
  */
 export function updateProduction(
   island: IslandState,
@@ -276,18 +290,27 @@ export function updateProduction(
   events: WorldEvent[],
   dt: number,
   currentTick: number = 0,
-  rng?: () => number
+  rng?: () => number,
+  goodDefinitions?: Map<GoodId, GoodDefinition>,
+  season?: Season
 ): ProductionResult {
+  const seasonMods = getSeasonModifiers(season, config.seasonsConfig);
   const newInventory = new Map(island.inventory);
   const produced = new Map<GoodId, number>();
   const harvested = new Map<GoodId, number>();
   const constrained = new Map<GoodId, boolean>();
   const shockMultipliers = new Map<GoodId, number>();
+  const inputsConsumed = new Map<GoodId, number>();
 
   for (const goodId of goods) {
     // Calculate desired production (what labor/tools/health would produce)
     let desiredProduction = calculateProduction(island, goodId, config, events, dt);
 
+    // Grain follows the sowing and harvest cycle
+    if (goodId === 'grain') {
+      desiredProduction *= seasonMods.grainProductionMultiplier;
+    }
+
     // Apply supply shock multiplier (boom/bust effects)
     const shockMult = getProductionMultiplier(island, goodId, currentTick);
     shockMultipliers.set(goodId, shockMult);
@@ -328,12 +351,38 @@ export function updateProduction(
           wasConstrained = true;
         }
 
+        // Governor harvest quota caps the catch/cut per tick
+        const quota = island.policy?.harvestQuotas.get(goodId);
+        if (quota !== undefined && actualProduction > quota * dt) {
+          actualProduction = Math.max(0, quota * dt);
+          wasConstrained = true;
+        }
+
         // Harvest amount (what we take from ecosystem)
         // With perfect efficiency, harvest = production
         harvestAmount = actualProduction / config.harvestEfficiency;
       }
     }
 
+    // For processed goods, cap by available inputs and draw them from inventory
+    const inputs = goodDefinitions?.get(goodId)?.inputs ?? [];
+    if (inputs.length > 0 && actualProduction > 0) {
+      for (const input of inputs) {
+        if (input.quantity <= 0) continue;
+        const maxFromInput = (newInventory.get(input.goodId) ?? 0) / input.quantity;
+        if (maxFromInput < actualProduction) {
+          actualProduction = Math.max(0, maxFromInput);
+          wasConstrained = true;
+        }
+      }
+
+      for (const input of inputs) {
+        const used = input.quantity * actualProduction;
+        newInventory.set(input.goodId, Math.max(0, (newInventory.get(input.goodId) ?? 0) - used));
+        inputsConsumed.set(input.goodId, (inputsConsumed.get(input.goodId) ?? 0) + used);
+      }
+    }
+
     // Update inventory
     const current = newInventory.get(goodId) ?? 0;
     newInventory.set(goodId, current + actualProduction);
@@ -344,7 +393,7 @@ export function updateProduction(
     constrained.set(goodId, wasConstrained);
   }
 
-  return { newInventory, produced, harvested, constrained, shockMultipliers };
+  return { newInventory, produced, harvested, constrained, shockMultipliers, inputsConsumed };
 }
 
 /**
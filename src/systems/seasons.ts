@@ -0,0 +1,67 @@
+/**
+ * Seasons System
+ * Calendar arithmetic and seasonal modifiers
+ *
+ * Key features:
+ * - The year runs spring, summer, autumn, winter, each daysPerSeason long
+ * - Fish spawn in spring, forests grow through spring and summer
+ * - Grain is harvested in summer and autumn and barely grows in winter
+ * - Festivals cluster around the harvest; storms gather in autumn and winter
+ * - Default multipliers average to 1 over a year, so seasons shift timing, not totals
+ */
+
+import type { Season, SeasonModifiers, SeasonsConfig } from '../core/types.js';
+
+export const SEASONS: readonly Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+const NEUTRAL_MODIFIERS: SeasonModifiers = {
+  fishRegenMultiplier: 1,
+  forestRegenMultiplier: 1,
+  grainProductionMultiplier: 1,
+  festivalMultiplier: 1,
+  stormMultiplier: 1,
+};
+
+/**
+ * Calendar position of a game day
+ */
+export function getCalendar(
+  gameDay: number,
+  config: SeasonsConfig
+): { dayOfYear: number; season: Season; year: number } {
+  const daysPerSeason = Math.max(1, Math.floor(config.daysPerSeason));
+  const daysPerYear = daysPerSeason * SEASONS.length;
+  const dayOfYear = gameDay % daysPerYear;
+
+  return {
+    dayOfYear,
+    season: SEASONS[Math.floor(dayOfYear / daysPerSeason)],
+    year: Math.floor(gameDay / daysPerYear),
+  };
+}
+
+/**
+ * Days left until the next season begins (1 on a season's last day)
+ */
+export function getDaysUntilNextSeason(dayOfYear: number, config: SeasonsConfig): number {
+  const daysPerSeason = Math.max(1, Math.floor(config.daysPerSeason));
+  return daysPerSeason - (dayOfYear % daysPerSeason);
+}
+
+/**
+ * Season after the given one
+ */
+export function getNextSeason(season: Season): Season {
+  return SEASONS[(SEASONS.indexOf(season) + 1) % SEASONS.length];
+}
+
+/**
+ * Modifiers for a season (neutral when seasons are disabled or unknown)
+ */
+export function getSeasonModifiers(
+  season: Season | undefined,
+  config: SeasonsConfig | undefined
+): SeasonModifiers {
+  if (!season || !config?.enabled) return NEUTRAL_MODIFIERS;
+  return config.modifiers[season] ?? NEUTRAL_MODIFIERS;
+}
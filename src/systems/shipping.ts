@@ -17,9 +17,19 @@ import type {
   SimulationConfig,
   IslandId,
   PriceKnowledge,
+  Route,
+  RoutePath,
+  RoutePreference,
+  SeaLaneGraph,
 } from '../core/types.js';
 
 import { getWarehouseEffect } from './buildings.js';
+import {
+  advanceAlongPath,
+  findSeaRoute,
+  getPathTravelHours,
+  getPositionAlongPath,
+} from './navigation.js';
 
 /**
  * Calculate distance between two points
@@ -32,11 +42,15 @@ function distance(a: Vector2, b: Vector2): number {
 
 /**
  * Get distance between two islands by ID (Track 02)
+ * With a sea-lane graph this is the length of the route sailed (Infinity if
+ * unreachable); without one it is the straight line between the islands.
  */
 export function getDistanceBetweenIslands(
   originId: IslandId,
   destinationId: IslandId,
-  islands: Map<string, IslandState>
+  islands: Map<string, IslandState>,
+  seaLanes?: SeaLaneGraph,
+  preference: RoutePreference = 'shortest'
 ): number {
   const origin = islands.get(originId);
   const destination = islands.get(destinationId);
@@ -45,27 +59,21 @@ export function getDistanceBetweenIslands(
     return 0;
   }
 
+  if (seaLanes) {
+    return findSeaRoute(originId, destinationId, islands, seaLanes, preference)?.length ?? Infinity;
+  }
+
   return distance(origin.position, destination.position);
 }
 
 /**
- * Calculate transport cost for a voyage (Track 02)
- *
- * Cost components:
- * 1. Fixed cost: port fees, loading/unloading
- * 2. Distance cost: scales with voyage length
- * 3. Volume cost: handling costs for cargo
- * 4. Return cost: empty return voyage costs ~50% of loaded trip
+ * Transport cost breakdown for a voyage of a given length
  */
-export function calculateTransportCost(
-  originId: IslandId,
-  destinationId: IslandId,
+function calculateTransportCostForDistance(
+  dist: number,
   cargoVolume: number,
-  islands: Map<string, IslandState>,
-  config: SimulationConfig
+  config: ShippingCostConfig
 ): TransportCostBreakdown {
-  const dist = getDistanceBetweenIslands(originId, destinationId, islands);
-
   const fixedCost = config.baseVoyageCost;
   const distanceCost = dist * config.costPerDistanceUnit;
   const volumeCost = cargoVolume * config.perVolumeHandlingCost;
@@ -84,6 +92,28 @@ export function calculateTransportCost(
   };
 }
 
+/**
+ * Calculate transport cost for a voyage (Track 02)
+ *
+ * Cost components:
+ * 1. Fixed cost: port fees, loading/unloading
+ * 2. Distance cost: scales with voyage length
+ * 3. Volume cost: handling costs for cargo
+ * 4. Return cost: empty return voyage costs ~50% of loaded trip
+ */
+export function calculateTransportCost(
+  originId: IslandId,
+  destinationId: IslandId,
+  cargoVolume: number,
+  islands: Map<string, IslandState>,
+  config: SimulationConfig,
+  seaLanes?: SeaLaneGraph,
+  preference: RoutePreference = 'shortest'
+): TransportCostBreakdown {
+  const dist = getDistanceBetweenIslands(originId, destinationId, islands, seaLanes, preference);
+  return calculateTransportCostForDistance(dist, cargoVolume, config);
+}
+
 /**
  * Calculate transport costs for a voyage (Track 02)
  * Alternative signature taking IslandState objects directly
@@ -182,13 +212,15 @@ function getConditionSpeedModifier(condition: number, config: SimulationConfig):
 
 /**
  * Calculate wear on ship condition during voyage (Track 08)
+ * Dangerous sea lanes multiply wear like storms do.
  */
 function calculateWear(
   ship: ShipState,
   distanceTraveled: number,
   events: WorldEvent[],
   config: SimulationConfig,
-  dt: number
+  dt: number,
+  laneDanger: number = 0
 ): number {
   const mc = config.maintenanceConfig;
 
@@ -203,6 +235,9 @@ function calculateWear(
     wear *= mc.stormWearMultiplier;
   }
 
+  // Lane danger multiplier
+  wear *= 1 + laneDanger * (mc.laneDangerWearMultiplier ?? 0);
+
   return wear;
 }
 
@@ -399,17 +434,38 @@ function applySpoilage(
 
 /**
  * Update ship movement (Track 08: includes condition-based speed)
- * Returns new ship state with updated location and distance traveled
+ * Ships on a sea-lane path follow its legs, with each lane's wind applied.
+ * A ship that would arrive at a port closed by a storm heaves to where it is.
+ * Returns new ship state with updated location, distance traveled and the
+ * danger of the water sailed
  */
 export function updateShipMovement(
+  ship: ShipState,
+  islands: Map<string, IslandState>,
+  events: WorldEvent[],
+  dt: number,
+  config?: SimulationConfig,
+  closedPorts?: ReadonlySet<IslandId>
+): { newLocation: ShipLocation; arrived: boolean; distanceTraveled: number; danger: number } {
+  const movement = sailShip(ship, islands, events, dt, config);
+  if (movement.arrived && ship.location.kind === 'at_sea' && closedPorts?.has(ship.location.route.toIslandId)) {
+    return { newLocation: ship.location, arrived: false, distanceTraveled: 0, danger: 0 };
+  }
+  return movement;
+}
+
+/**
+ * Sail a ship for dt hours, ignoring port closures
+ */
+function sailShip(
   ship: ShipState,
   islands: Map<string, IslandState>,
   events: WorldEvent[],
   dt: number,
   config?: SimulationConfig
-): { newLocation: ShipLocation; arrived: boolean; distanceTraveled: number } {
+): { newLocation: ShipLocation; arrived: boolean; distanceTraveled: number; danger: number } {
   if (ship.location.kind === 'at_island') {
-    return { newLocation: ship.location, arrived: false, distanceTraveled: 0 };
+    return { newLocation: ship.location, arrived: false, distanceTraveled: 0, danger: 0 };
   }
 
   const { route, position } = ship.location;
@@ -433,6 +489,25 @@ export function updateShipMovement(
       newLocation: { kind: 'at_island', islandId: route.fromIslandId },
       arrived: false,
       distanceTraveled: 0,
+      danger: 0,
+    };
+  }
+
+  if (route.path) {
+    const advanced = advanceAlongPath(route.path, route.progress, effectiveSpeed, dt);
+    const arrived = newEta <= 0 || advanced.progress >= 1;
+
+    return {
+      newLocation: arrived
+        ? { kind: 'at_island', islandId: route.toIslandId }
+        : {
+            kind: 'at_sea',
+            position: getPositionAlongPath(route.path, advanced.progress),
+            route: { ...route, etaHours: newEta, progress: advanced.progress },
+          },
+      arrived,
+      distanceTraveled: advanced.distanceTraveled,
+      danger: advanced.danger,
     };
   }
 
@@ -460,6 +535,7 @@ export function updateShipMovement(
       newLocation: { kind: 'at_island', islandId: route.toIslandId },
       arrived: true,
       distanceTraveled,
+      danger: 0,
     };
   }
 
@@ -475,33 +551,49 @@ export function updateShipMovement(
     },
     arrived: false,
     distanceTraveled,
+    danger: 0,
   };
 }
 
 /**
  * Calculate travel time between islands
+ * Follows the sea-lane path (with lane winds) when given, else a straight line
  */
 export function calculateTravelTime(
   origin: IslandState,
   destination: IslandState,
   shipSpeed: number,
   events: WorldEvent[],
-  shipId: string
+  shipId: string,
+  path?: RoutePath
 ): number {
-  const dist = distance(origin.position, destination.position);
   const speedModifier = getSpeedModifier(shipId, events);
-  const effectiveSpeed = shipSpeed * speedModifier;
-  return dist / Math.max(effectiveSpeed, 0.1);
+  const effectiveSpeed = Math.max(shipSpeed * speedModifier, 0.1);
+  if (path) {
+    return getPathTravelHours(path, effectiveSpeed);
+  }
+  const dist = distance(origin.position, destination.position);
+  return dist / effectiveSpeed;
+}
+
+/**
+ * Length of the voyage a route describes
+ */
+function getRouteDistance(route: Route, islands: Map<string, IslandState>): number {
+  return route.path?.length ?? getDistanceBetweenIslands(route.fromIslandId, route.toIslandId, islands);
 }
 
 /**
  * Start a voyage from one island to another
+ * With a sea-lane graph the ship sails the shortest or safest lane path.
  */
 export function startVoyage(
   ship: ShipState,
   destinationId: string,
   islands: Map<string, IslandState>,
-  events: WorldEvent[]
+  events: WorldEvent[],
+  seaLanes?: SeaLaneGraph,
+  preference: RoutePreference = 'shortest'
 ): ShipLocation {
   if (ship.location.kind !== 'at_island') {
     throw new Error('Ship must be at an island to start voyage');
@@ -514,12 +606,20 @@ export function startVoyage(
     throw new Error('Invalid origin or destination island');
   }
 
+  const path = seaLanes
+    ? findSeaRoute(ship.location.islandId, destinationId, islands, seaLanes, preference)
+    : undefined;
+  if (path === null) {
+    throw new Error(`No sea route from ${ship.location.islandId} to ${destinationId}`);
+  }
+
   const travelTime = calculateTravelTime(
     origin,
     destination,
     ship.speed,
     events,
-    ship.id
+    ship.id,
+    path
   );
 
   return {
@@ -530,6 +630,7 @@ export function startVoyage(
       toIslandId: destinationId,
       etaHours: travelTime,
       progress: 0,
+      ...(path && { path }),
     },
   };
 }
@@ -537,6 +638,7 @@ export function startVoyage(
 /**
  * Update ship state including movement, spoilage, transport costs (Track 02), wear (Track 08),
  * and price knowledge (Price Discovery Lag)
+ * Ships bound for a port in closedPorts wait offshore until it reopens.
  */
 export function updateShip(
   ship: ShipState,
@@ -545,7 +647,8 @@ export function updateShip(
   events: WorldEvent[],
   dt: number,
   config?: SimulationConfig,
-  currentTick?: number
+  currentTick?: number,
+  closedPorts?: ReadonlySet<IslandId>
 ): {
   newShip: ShipState;
   arrived: boolean;
@@ -578,12 +681,13 @@ export function updateShip(
   }
 
   // Update movement (now returns distance traveled)
-  const { newLocation, arrived, distanceTraveled } = updateShipMovement(
+  const { newLocation, arrived, distanceTraveled, danger } = updateShipMovement(
     ship,
     islands,
     events,
     dt,
-    config
+    config,
+    closedPorts
   );
 
   let transportCost = 0;
@@ -604,7 +708,7 @@ export function updateShip(
 
   // Apply wear only when at sea (Track 08)
   if (ship.location.kind === 'at_sea' && config) {
-    wearApplied = calculateWear(ship, distanceTraveled, events, config, dt);
+    wearApplied = calculateWear(ship, distanceTraveled, events, config, dt, danger);
     condition = Math.max(0, condition - wearApplied);
     totalDistanceTraveled += distanceTraveled;
   }
@@ -614,12 +718,10 @@ export function updateShip(
     const { route } = ship.location;
     const cargoVolume = calculateCargoVolume(newCargo, goods);
 
-    // Calculate one-way cost (return cost is for planning, not deducted now)
-    const costBreakdown = calculateTransportCost(
-      route.fromIslandId,
-      route.toIslandId,
+    // Calculate one-way cost for the route sailed (return cost is for planning, not deducted now)
+    const costBreakdown = calculateTransportCostForDistance(
+      getRouteDistance(route, islands),
       cargoVolume,
-      islands,
       config
     );
 
@@ -98,19 +98,18 @@ export interface ShipyardTickResult {
 }
 
 /**
- * Generate a unique build order ID
+ * Generate a build order ID (deterministic for replays).
+ * A shipyard holds one order at a time, so shipyard + start tick is unique.
  */
-let buildOrderCounter = 0;
-export function generateBuildOrderId(): BuildOrderId {
-  return `build-${++buildOrderCounter}-${Date.now()}`;
+export function generateBuildOrderId(shipyardId: ShipyardId, currentTick: number): BuildOrderId {
+  return `build-${shipyardId}-${currentTick}`;
 }
 
 /**
- * Generate a unique ship ID
+ * Generate the ID for the next ship launched by a shipyard
  */
-let shipCounter = 100; // Start high to avoid collision with MVP ships
-export function generateShipId(): ShipId {
-  return `ship-${++shipCounter}`;
+export function generateShipId(shipyard: ShipyardState): ShipId {
+  return `ship-${shipyard.islandId}-${shipyard.totalShipsBuilt + 1}`;
 }
 
 /**
@@ -183,17 +182,19 @@ export function startBuildOrder(
   newInventory.set('timber', (newInventory.get('timber') ?? 0) - blueprint.timberCost);
   newInventory.set('tools', (newInventory.get('tools') ?? 0) - blueprint.toolsCost);
 
+  // Deduct coins from agent - labor is paid to the island treasury
+  const newAgentCash = agentCash - blueprint.coinCost;
+
   const newIsland: IslandState = {
     ...island,
     inventory: newInventory,
+    treasury: (island.treasury ?? 0) + blueprint.coinCost,
+    treasuryIncome: (island.treasuryIncome ?? 0) + blueprint.coinCost,
   };
 
-  // Deduct coins from agent
-  const newAgentCash = agentCash - blueprint.coinCost;
-
   // Create build order
   const order: ShipBuildOrder = {
-    id: generateBuildOrderId(),
+    id: generateBuildOrderId(shipyard.id, currentTick),
     blueprintId,
     shipName,
     ownerId,
@@ -240,10 +241,19 @@ export function cancelBuildOrder(
   newInventory.set('timber', (newInventory.get('timber') ?? 0) + timberRefund);
   newInventory.set('tools', (newInventory.get('tools') ?? 0) + toolsRefund);
 
+  // Coin refund comes back out of the island treasury that received the labor cost
+  const treasury = island.treasury ?? 0;
+  const refundedCoins = Math.min(coinRefund, Math.max(0, treasury));
+
   return {
     newShipyard: { ...shipyard, currentOrder: null },
-    newIsland: { ...island, inventory: newInventory },
-    refundedCoins: coinRefund,
+    newIsland: {
+      ...island,
+      inventory: newInventory,
+      treasury: treasury - refundedCoins,
+      treasuryExpenses: (island.treasuryExpenses ?? 0) + refundedCoins,
+    },
+    refundedCoins,
   };
 }
 
@@ -277,7 +287,7 @@ function createShipFromOrder(
   const blueprint = blueprints.get(order.blueprintId);
   if (!blueprint) return null;
 
-  const shipId = generateShipId();
+  const shipId = generateShipId(shipyard);
 
   return {
     id: shipId,
@@ -0,0 +1,277 @@
+/**
+ * Weather System
+ * Storm cells that form, drift across the archipelago and dissipate
+ *
+ * Key features:
+ * - Each storm has a position, radius and velocity, and wanders a little as it drifts
+ * - Only ships inside a storm are slowed, battered and see extra spoilage
+ * - Ports inside a storm are closed: no departures, arrivals wait offshore
+ * - Agents get a forecast of where storms are heading and which ports they will close
+ * - All randomness uses the simulation's SeededRNG for determinism
+ */
+
+import type {
+  IslandId,
+  IslandState,
+  ShipState,
+  StormCell,
+  Vector2,
+  WeatherConfig,
+  WeatherState,
+  WorldEvent,
+} from '../core/types.js';
+import type { SeededRNG } from '../core/rng.js';
+
+/**
+ * Result of one weather update
+ */
+export interface WeatherUpdateResult {
+  weather: WeatherState;
+  /** Storm cells that formed this tick */
+  formed: StormCell[];
+  /** IDs of storm cells that dissipated or left the map this tick */
+  dissipated: string[];
+}
+
+/**
+ * A port a storm is forecast to close
+ */
+export interface PortClosureForecast {
+  islandId: IslandId;
+  stormId: string;
+  inHours: number; // 0 = closed now
+  forHours: number; // How long it stays closed (within the forecast horizon)
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Bounding box of the islands, grown by padding on every side
+ */
+function getBounds(islands: Map<IslandId, IslandState>, padding: number): Bounds {
+  const positions = Array.from(islands.values(), (island) => island.position);
+  if (positions.length === 0) {
+    return { minX: -padding, minY: -padding, maxX: padding, maxY: padding };
+  }
+  return {
+    minX: Math.min(...positions.map((p) => p.x)) - padding,
+    minY: Math.min(...positions.map((p) => p.y)) - padding,
+    maxX: Math.max(...positions.map((p) => p.x)) + padding,
+    maxY: Math.max(...positions.map((p) => p.y)) + padding,
+  };
+}
+
+function isInBounds(position: Vector2, bounds: Bounds): boolean {
+  return (
+    position.x >= bounds.minX &&
+    position.x <= bounds.maxX &&
+    position.y >= bounds.minY &&
+    position.y <= bounds.maxY
+  );
+}
+
+/**
+ * Form a new storm cell somewhere over the islands with a random heading
+ */
+function spawnStorm(
+  islands: Map<IslandId, IslandState>,
+  rng: SeededRNG,
+  tick: number,
+  config: WeatherConfig
+): StormCell {
+  const bounds = getBounds(islands, 0);
+  const heading = rng.randomRange(0, Math.PI * 2);
+  const speed = rng.randomRange(config.minSpeed, config.maxSpeed);
+
+  return {
+    id: `storm_${tick}`,
+    position: {
+      x: rng.randomRange(bounds.minX, bounds.maxX),
+      y: rng.randomRange(bounds.minY, bounds.maxY),
+    },
+    radius: rng.randomRange(config.minRadius, config.maxRadius),
+    velocity: { x: Math.cos(heading) * speed, y: Math.sin(heading) * speed },
+    startTick: tick,
+    endTick: tick + rng.randomInt(config.minDurationHours, config.maxDurationHours),
+  };
+}
+
+/**
+ * Drift a storm for dt hours, turning its heading by up to headingDrift per hour
+ */
+function driftStorm(storm: StormCell, rng: SeededRNG, dt: number, config: WeatherConfig): StormCell {
+  const speed = Math.hypot(storm.velocity.x, storm.velocity.y);
+  const heading =
+    Math.atan2(storm.velocity.y, storm.velocity.x) +
+    rng.randomRange(-config.headingDrift, config.headingDrift) * dt;
+  const velocity = { x: Math.cos(heading) * speed, y: Math.sin(heading) * speed };
+
+  return {
+    ...storm,
+    position: {
+      x: storm.position.x + velocity.x * dt,
+      y: storm.position.y + velocity.y * dt,
+    },
+    velocity,
+  };
+}
+
+/**
+ * Advance the weather one tick
+ * Storms drift, those past their lifetime or blown off the map dissipate,
+ * and a new storm may form while there is room for one.
+ *
+ * @param stormMultiplier - Seasonal scaling of the storm formation chance
+ */
+export function updateWeather(
+  weather: WeatherState,
+  islands: Map<IslandId, IslandState>,
+  rng: SeededRNG,
+  tick: number,
+  dt: number,
+  config: WeatherConfig,
+  stormMultiplier: number = 1
+): WeatherUpdateResult {
+  if (!config.enabled) {
+    return { weather, formed: [], dissipated: [] };
+  }
+
+  const bounds = getBounds(islands, config.maxRadius);
+  const storms: StormCell[] = [];
+  const dissipated: string[] = [];
+
+  for (const storm of weather.storms) {
+    const drifted = driftStorm(storm, rng, dt, config);
+    if (drifted.endTick <= tick || !isInBounds(drifted.position, bounds)) {
+      dissipated.push(storm.id);
+    } else {
+      storms.push(drifted);
+    }
+  }
+
+  const formed: StormCell[] = [];
+  if (storms.length < config.maxStorms && rng.randomBool(config.stormChancePerTick * stormMultiplier * dt)) {
+    const storm = spawnStorm(islands, rng, tick, config);
+    storms.push(storm);
+    formed.push(storm);
+  }
+
+  return { weather: { storms }, formed, dissipated };
+}
+
+/**
+ * Storm cells covering a point
+ */
+export function getStormsAt(position: Vector2, weather: WeatherState | undefined): StormCell[] {
+  return (weather?.storms ?? []).filter((storm) => distance(storm.position, position) < storm.radius);
+}
+
+/**
+ * Check whether a storm has closed an island's port
+ */
+export function isPortClosed(island: IslandState, weather: WeatherState | undefined): boolean {
+  return getStormsAt(island.position, weather).length > 0;
+}
+
+/**
+ * IDs of every island whose port is closed by a storm
+ */
+export function getClosedPorts(
+  islands: Map<IslandId, IslandState>,
+  weather: WeatherState | undefined
+): Set<IslandId> {
+  const closed = new Set<IslandId>();
+  for (const [id, island] of islands) {
+    if (isPortClosed(island, weather)) closed.add(id);
+  }
+  return closed;
+}
+
+/**
+ * Storm events for a single ship
+ * A ship at sea inside a storm cell gets a storm event targeted at it, so the
+ * usual storm speed, spoilage and wear effects apply to that ship alone.
+ */
+export function getShipStormEvents(
+  ship: ShipState,
+  weather: WeatherState | undefined,
+  config: WeatherConfig
+): WorldEvent[] {
+  if (ship.location.kind !== 'at_sea') return [];
+
+  const storm = getStormsAt(ship.location.position, weather)[0];
+  if (!storm) return [];
+
+  return [
+    {
+      id: `${storm.id}@${ship.id}`,
+      type: 'storm',
+      targetId: ship.id,
+      startTick: storm.startTick,
+      endTick: storm.endTick,
+      modifiers: {
+        shipSpeedMultiplier: config.shipSpeedMultiplier,
+        spoilageMultiplier: config.spoilageMultiplier,
+      },
+    },
+  ];
+}
+
+/**
+ * Where a storm will be after some hours at its current velocity
+ * Returns null once the storm will have dissipated.
+ */
+export function projectStorm(storm: StormCell, hours: number, tick: number): Vector2 | null {
+  if (tick + hours >= storm.endTick) return null;
+  return {
+    x: storm.position.x + storm.velocity.x * hours,
+    y: storm.position.y + storm.velocity.y * hours,
+  };
+}
+
+/**
+ * Forecast port closures over the next horizonHours
+ * Storms are projected along their current heading; the forecast does not
+ * know about wandering or storms that have yet to form.
+ */
+export function forecastPortClosures(
+  weather: WeatherState | undefined,
+  islands: Map<IslandId, IslandState>,
+  horizonHours: number,
+  tick: number
+): PortClosureForecast[] {
+  const closures: PortClosureForecast[] = [];
+
+  for (const storm of weather?.storms ?? []) {
+    for (const [islandId, island] of islands) {
+      let inHours: number | null = null;
+      let forHours = 0;
+
+      for (let hour = 0; hour <= horizonHours; hour++) {
+        const position = projectStorm(storm, hour, tick);
+        const covered = position !== null && distance(position, island.position) < storm.radius;
+        if (covered) {
+          if (inHours === null) inHours = hour;
+          forHours++;
+        } else if (inHours !== null) {
+          break;
+        }
+      }
+
+      if (inHours !== null) {
+        closures.push({ islandId, stormId: storm.id, inHours, forHours });
+      }
+    }
+  }
+
+  return closures.sort((a, b) => a.inHours - b.inHours || a.islandId.localeCompare(b.islandId));
+}
@@ -0,0 +1,219 @@
+/**
+ * Tournament Entrants
+ * Trader configurations that can be entered in a tournament
+ *
+ * Entrants are written as short specs on the command line:
+ *   mock                     mock strategist with the default executor
+ *   rules:<preset>           mock strategist with an executor preset
+ *   llm[:<provider>[:<model>]]  full LLM pipeline (scripted provider by default)
+ *   rl:<policy.json>         Q-learning policy trained by `npm run train`
+ */
+
+import { readFileSync } from 'fs';
+import type { AgentId, WorldState } from '../core/types.js';
+import type { IAgent } from '../agents/interfaces/agent.js';
+import type { ExecutorConfig } from '../agents/traders/executor.js';
+import type { StrategyResponse } from '../agents/traders/strategist.js';
+import { TraderAgent, createMockTraderAgent } from '../agents/traders/trader-agent.js';
+import { RLTraderAgent } from '../agents/traders/rl-trader-agent.js';
+import { LLMClient } from '../llm/client.js';
+import {
+  createProvider,
+  isLLMProviderId,
+  DEFAULT_PROVIDER_MODELS,
+  type LLMProviderId,
+  type LLMScript,
+} from '../llm/providers.js';
+import type { QPolicy } from '../rl/q-learner.js';
+
+/**
+ * Error raised for an unknown or unusable entrant spec
+ */
+export class TournamentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TournamentError';
+  }
+}
+
+export type ExecutorPresetName = 'cautious' | 'balanced' | 'aggressive';
+
+/**
+ * Rule-based executor presets, from risk-averse to leveraged
+ */
+export const EXECUTOR_PRESETS: Record<ExecutorPresetName, Partial<ExecutorConfig>> = {
+  cautious: {
+    cashReserve: 0.3,
+    minProfitMargin: 0.15,
+    maxCargoFill: 0.6,
+    maxAcceptableDebtRatio: 0.25,
+    fleetPolicy: { repairBelow: 0.6, minCrewRatio: 0.7, leverage: 'repay' },
+  },
+  balanced: {
+    cashReserve: 0.15,
+    minProfitMargin: 0.08,
+    maxCargoFill: 0.8,
+    maxAcceptableDebtRatio: 0.4,
+    fleetPolicy: { repairBelow: 0.5, minCrewRatio: 0.6, leverage: 'hold' },
+  },
+  aggressive: {
+    cashReserve: 0.02,
+    minProfitMargin: 0.02,
+    maxCargoFill: 1,
+    maxAcceptableDebtRatio: 0.7,
+    fleetPolicy: { repairBelow: 0.3, minCrewRatio: 0.4, leverage: 'borrow' },
+  },
+};
+
+/**
+ * A trader configuration in the tournament
+ */
+export type EntrantSpec =
+  | { id: string; kind: 'mock' }
+  | { id: string; kind: 'rules'; preset: ExecutorPresetName }
+  | { id: string; kind: 'llm'; provider: LLMProviderId; model: string; script?: LLMScript }
+  | { id: string; kind: 'rl'; policy: QPolicy };
+
+export const DEFAULT_ENTRANTS = ['mock', 'rules:cautious', 'rules:balanced', 'rules:aggressive', 'llm'];
+
+function isPreset(value: string): value is ExecutorPresetName {
+  return Object.hasOwn(EXECUTOR_PRESETS, value);
+}
+
+/**
+ * Parse an entrant spec (see module docs)
+ * @throws TournamentError for unknown kinds, presets, providers or unreadable policies
+ */
+export function parseEntrantSpec(spec: string): EntrantSpec {
+  const [kind, ...rest] = spec.trim().split(':');
+
+  switch (kind) {
+    case 'mock':
+      return { id: 'mock', kind: 'mock' };
+
+    case 'rules': {
+      const preset = rest[0] ?? 'balanced';
+      if (!isPreset(preset)) {
+        throw new TournamentError(
+          `Unknown executor preset '${preset}' (use ${Object.keys(EXECUTOR_PRESETS).join(', ')})`
+        );
+      }
+      return { id: `rules:${preset}`, kind: 'rules', preset };
+    }
+
+    case 'llm': {
+      const provider = rest[0] ?? 'scripted';
+      if (!isLLMProviderId(provider)) {
+        throw new TournamentError(`Unknown LLM provider '${provider}'`);
+      }
+      // Models may contain colons (e.g. "llama3.1:8b")
+      if (rest.length > 1) {
+        const model = rest.slice(1).join(':');
+        return { id: `llm:${provider}:${model}`, kind: 'llm', provider, model };
+      }
+      return { id: `llm:${provider}`, kind: 'llm', provider, model: DEFAULT_PROVIDER_MODELS[provider] };
+    }
+
+    case 'rl': {
+      const path = rest.join(':');
+      if (!path) {
+        throw new TournamentError('RL entrant needs a policy file (rl:<policy.json>)');
+      }
+      let policy: QPolicy;
+      try {
+        policy = JSON.parse(readFileSync(path, 'utf-8')) as QPolicy;
+      } catch (error) {
+        throw new TournamentError(
+          `Cannot read policy ${path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return { id: `rl:${path}`, kind: 'rl', policy };
+    }
+
+    default:
+      throw new TournamentError(`Unknown entrant '${spec}' (use mock, rules:<preset>, llm[:provider[:model]] or rl:<policy>)`);
+  }
+}
+
+/**
+ * Canned strategist script for the scripted provider: ship every good from
+ * the island holding the most of it to the one holding the least, relative
+ * to each market's ideal stock at the start of the run (opening prices are
+ * flat, so stock cover is the better signal)
+ */
+export function createArbitrageScript(world: WorldState): LLMScript {
+  const spreads: Array<{ from: string; to: string; goodId: string; ratio: number }> = [];
+
+  for (const goodId of Array.from(world.goods.keys()).sort()) {
+    let fullest: { islandId: string; cover: number } | null = null;
+    let emptiest: { islandId: string; cover: number } | null = null;
+    for (const [islandId, island] of Array.from(world.islands).sort(([a], [b]) => a.localeCompare(b))) {
+      const ideal = island.market.idealStock.get(goodId) ?? 0;
+      if (ideal <= 0) continue;
+      const cover = (island.inventory.get(goodId) ?? 0) / ideal;
+      if (!fullest || cover > fullest.cover) fullest = { islandId, cover };
+      if (!emptiest || cover < emptiest.cover) emptiest = { islandId, cover };
+    }
+    if (fullest && emptiest && fullest.islandId !== emptiest.islandId) {
+      spreads.push({
+        from: fullest.islandId,
+        to: emptiest.islandId,
+        goodId,
+        ratio: fullest.cover / Math.max(emptiest.cover, 0.01),
+      });
+    }
+  }
+
+  spreads.sort((a, b) => b.ratio - a.ratio || a.goodId.localeCompare(b.goodId));
+
+  const response: StrategyResponse = {
+    analysis: 'Scripted arbitrage on opening stock levels',
+    strategy: {
+      primaryGoal: 'profit',
+      targetRoutes: spreads.map((s, i) => ({ from: s.from, to: s.to, goods: [s.goodId], priority: i + 1 })),
+      riskTolerance: 'medium',
+    },
+    reasoning: 'Carry each good from where it is plentiful to where it is scarce',
+  };
+  return [JSON.stringify(response)];
+}
+
+/**
+ * Build a fresh agent for one match
+ */
+export function createEntrantAgent(entrant: EntrantSpec, agentId: AgentId, world: WorldState): IAgent {
+  const shipIds = Array.from(world.ships.values())
+    .filter((ship) => ship.ownerId === agentId)
+    .map((ship) => ship.id);
+  const assets = { cash: world.agents.get(agentId)?.assets.cash ?? 0, shipIds };
+
+  switch (entrant.kind) {
+    case 'mock':
+      return createMockTraderAgent(agentId, entrant.id, assets, undefined, { debug: false });
+
+    case 'rules':
+      return createMockTraderAgent(agentId, entrant.id, assets, undefined, {
+        debug: false,
+        executorConfig: EXECUTOR_PRESETS[entrant.preset],
+      });
+
+    case 'llm': {
+      const client = new LLMClient({
+        model: entrant.model,
+        provider: createProvider(entrant.provider, {
+          openai: {
+            baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+            apiKey: process.env.LLM_API_KEY,
+          },
+          script: entrant.script ?? createArbitrageScript(world),
+        }),
+      });
+      return new TraderAgent(agentId, entrant.id, client, assets, {
+        rateLimiterPreset: entrant.provider === 'scripted' ? 'unlimited' : 'balanced',
+      });
+    }
+
+    case 'rl':
+      return new RLTraderAgent(agentId, entrant.id, assets, entrant.policy);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Tournament Module
+ * Benchmarks trader configurations across many seeds
+ */
+
+export {
+  TournamentError,
+  EXECUTOR_PRESETS,
+  DEFAULT_ENTRANTS,
+  parseEntrantSpec,
+  createArbitrageScript,
+  createEntrantAgent,
+} from './entrants.js';
+export type { EntrantSpec, ExecutorPresetName } from './entrants.js';
+
+export { agentNetWorth, runMatch, runTournament } from './runner.js';
+export type { TournamentConfig, MatchResult } from './runner.js';
+
+export { buildReport, formatMarkdown } from './report.js';
+export type { EntrantStanding, TournamentReport } from './report.js';
+
+export { summarize, summarizeRate, tCritical95 } from './stats.js';
+export type { SampleStats, RateStats } from './stats.js';
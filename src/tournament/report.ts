@@ -0,0 +1,140 @@
+/**
+ * Tournament Report
+ * Ranked standings with confidence intervals, as JSON and Markdown
+ */
+
+import type { AgentId } from '../core/types.js';
+import type { LLMProviderId } from '../llm/providers.js';
+import type { MatchResult } from './runner.js';
+import { summarize, summarizeRate, type RateStats, type SampleStats } from './stats.js';
+
+/**
+ * Aggregate results for one entrant
+ */
+export interface EntrantStanding {
+  rank: number;
+  entrantId: string;
+  matches: number;
+  /** Matches that failed to run (not included in the statistics) */
+  errors: number;
+  netWorth: SampleStats;
+  roi: SampleStats;
+  bankruptcy: RateStats;
+  llmCostUsd: SampleStats;
+  llmCalls: SampleStats;
+  trades: SampleStats;
+  /** Net worth interval lies entirely above the next entrant's */
+  clearlyAheadOfNext: boolean;
+}
+
+/**
+ * Full tournament report
+ */
+export interface TournamentReport {
+  generatedAt: string;
+  settings: {
+    entrants: string[];
+    seeds: number[];
+    ticks: number;
+    agentId: AgentId;
+    priceAs?: { provider: LLMProviderId; model: string };
+  };
+  standings: EntrantStanding[];
+  matches: MatchResult[];
+}
+
+/**
+ * Rank entrants by mean final net worth (ties broken by ROI, then ID)
+ */
+export function buildReport(matches: MatchResult[], settings: TournamentReport['settings']): TournamentReport {
+  const standings = settings.entrants.map((entrantId): EntrantStanding => {
+    const all = matches.filter((m) => m.entrantId === entrantId);
+    const played = all.filter((m) => m.error === undefined);
+    return {
+      rank: 0,
+      entrantId,
+      matches: all.length,
+      errors: all.length - played.length,
+      netWorth: summarize(played.map((m) => m.finalNetWorth)),
+      roi: summarize(played.map((m) => m.roi)),
+      bankruptcy: summarizeRate(played.filter((m) => m.bankrupt).length, played.length),
+      llmCostUsd: summarize(played.map((m) => m.llm.costUsd)),
+      llmCalls: summarize(played.map((m) => m.llm.calls)),
+      trades: summarize(played.map((m) => m.trades)),
+      clearlyAheadOfNext: false,
+    };
+  });
+
+  standings.sort(
+    (a, b) =>
+      (b.netWorth.n > 0 ? 1 : 0) - (a.netWorth.n > 0 ? 1 : 0) ||
+      b.netWorth.mean - a.netWorth.mean ||
+      b.roi.mean - a.roi.mean ||
+      a.entrantId.localeCompare(b.entrantId)
+  );
+  standings.forEach((standing, i) => {
+    standing.rank = i + 1;
+    const next = standings[i + 1];
+    standing.clearlyAheadOfNext = next !== undefined && standing.netWorth.ciLow > next.netWorth.ciHigh;
+  });
+
+  return { generatedAt: new Date().toISOString(), settings, standings, matches };
+}
+
+function formatNumber(value: number, digits: number = 0): string {
+  return Number.isFinite(value) ? value.toFixed(digits) : '∞';
+}
+
+function formatInterval(stats: SampleStats, digits: number = 0, scale: number = 1): string {
+  return `${formatNumber(stats.mean * scale, digits)} [${formatNumber(stats.ciLow * scale, digits)}, ${formatNumber(stats.ciHigh * scale, digits)}]`;
+}
+
+/**
+ * Markdown report: standings table, then notes
+ */
+export function formatMarkdown(report: TournamentReport): string {
+  const { settings } = report;
+  const lines: string[] = [
+    '# Trader Tournament',
+    '',
+    `- Generated: ${report.generatedAt}`,
+    `- Seeds: ${settings.seeds.length} (${settings.seeds.join(', ')})`,
+    `- Ticks per match: ${settings.ticks}`,
+    `- Fleet: ${settings.agentId}`,
+  ];
+  if (settings.priceAs) {
+    lines.push(`- Scripted LLM calls priced as ${settings.priceAs.provider}/${settings.priceAs.model}`);
+  }
+
+  lines.push(
+    '',
+    '## Standings',
+    '',
+    'Mean with 95% confidence interval in brackets.',
+    '',
+    '| Rank | Entrant | Net worth | ROI % | Bankruptcy % | LLM cost $ | LLM calls | Trades |',
+    '| ---: | --- | --- | --- | --- | --- | ---: | ---: |'
+  );
+
+  for (const s of report.standings) {
+    const bankruptcy = `${formatNumber(s.bankruptcy.rate * 100)} [${formatNumber(s.bankruptcy.ciLow * 100)}, ${formatNumber(s.bankruptcy.ciHigh * 100)}]`;
+    lines.push(
+      `| ${s.rank}${s.clearlyAheadOfNext ? '*' : ''} | ${s.entrantId} | ${formatInterval(s.netWorth)} | ` +
+      `${formatInterval(s.roi, 1, 100)} | ${bankruptcy} | ${formatInterval(s.llmCostUsd, 4)} | ` +
+      `${formatNumber(s.llmCalls.mean, 1)} | ${formatNumber(s.trades.mean, 1)} |`
+    );
+  }
+
+  lines.push('', '\\* Net worth interval lies entirely above the next entrant\'s.');
+
+  const failed = report.standings.filter((s) => s.errors > 0);
+  if (failed.length > 0) {
+    lines.push('', '## Failed Matches', '');
+    for (const s of failed) {
+      const errors = report.matches.filter((m) => m.entrantId === s.entrantId && m.error !== undefined);
+      lines.push(`- ${s.entrantId}: ${errors.map((m) => `seed ${m.seed}: ${m.error}`).join('; ')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
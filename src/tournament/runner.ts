@@ -0,0 +1,181 @@
+/**
+ * Tournament Runner
+ * Plays every entrant on every seed and collects per-match results
+ *
+ * Each match is a separate simulation in which the entrant controls the
+ * fleet of one agent (trader-alpha by default), so every entrant starts
+ * from exactly the same world for a given seed.
+ */
+
+import type { AgentId, SimulationConfig, WorldState } from '../core/types.js';
+import { Simulation } from '../core/simulation.js';
+import { initializeWorld } from '../core/world.js';
+import { AgentManager } from '../agents/core/agent-manager.js';
+import { findAgentFaction } from '../systems/factions.js';
+import { llmMetrics, type LLMCallRecord } from '../llm/metrics.js';
+import type { LLMProviderId } from '../llm/providers.js';
+import { shipNetWorth } from '../rl/environment.js';
+import { createEntrantAgent, type EntrantSpec } from './entrants.js';
+import { buildReport, type TournamentReport } from './report.js';
+
+/**
+ * Tournament configuration
+ */
+export interface TournamentConfig {
+  entrants: EntrantSpec[];
+  seeds: number[];
+  /** Ticks per match */
+  ticks: number;
+  /** Agent whose fleet the entrant controls */
+  agentId: AgentId;
+  /** Builds the starting world for a seed */
+  createWorld: (seed: number) => WorldState;
+  /** Simulation config (the seed is set per match) */
+  simulationConfig: Partial<SimulationConfig>;
+  /** Price scripted LLM calls as if they went to this model */
+  priceAs?: { provider: LLMProviderId; model: string };
+  /** Called after each match (progress reporting) */
+  onMatch?: (result: MatchResult) => void;
+}
+
+const DEFAULT_TOURNAMENT_CONFIG: Omit<TournamentConfig, 'entrants' | 'seeds'> = {
+  ticks: 500,
+  agentId: 'trader-alpha',
+  createWorld: initializeWorld,
+  simulationConfig: {},
+};
+
+/**
+ * Outcome of one entrant on one seed
+ */
+export interface MatchResult {
+  entrantId: string;
+  seed: number;
+  initialNetWorth: number;
+  finalNetWorth: number;
+  /** (final - initial) / initial */
+  roi: number;
+  /** Net worth at or below zero, every ship lost, or a ship seized by creditors */
+  bankrupt: boolean;
+  shipsLost: number;
+  trades: number;
+  llm: {
+    calls: number;
+    tokens: number;
+    costUsd: number;
+  };
+  /** Set when the match could not be played; excluded from statistics */
+  error?: string;
+}
+
+/**
+ * Net worth of an agent: its ships (cash + cargo at average price - debt)
+ * plus an equal share of its faction treasury
+ */
+export function agentNetWorth(world: WorldState, agentId: AgentId): number {
+  let total = 0;
+  for (const ship of world.ships.values()) {
+    if (ship.ownerId === agentId) total += shipNetWorth(world, ship.id);
+  }
+
+  const faction = findAgentFaction(world, agentId);
+  if (faction && faction.memberIds.length > 0) {
+    total += faction.treasury / faction.memberIds.length;
+  }
+  return total;
+}
+
+function countShips(world: WorldState, agentId: AgentId): number {
+  return Array.from(world.ships.values()).filter((ship) => ship.ownerId === agentId).length;
+}
+
+/**
+ * Play one entrant on one seed
+ */
+export async function runMatch(
+  entrant: EntrantSpec,
+  seed: number,
+  config: Partial<TournamentConfig> = {}
+): Promise<MatchResult> {
+  const { ticks, agentId, createWorld, simulationConfig, priceAs } = { ...DEFAULT_TOURNAMENT_CONFIG, ...config };
+
+  const world = createWorld(seed);
+  const sim = new Simulation(world, { ...simulationConfig, seed });
+  const initialNetWorth = agentNetWorth(world, agentId);
+  const initialShips = countShips(world, agentId);
+
+  const llm = { calls: 0, tokens: 0, costUsd: 0 };
+  const unsubscribe = llmMetrics.subscribe((record: LLMCallRecord) => {
+    llm.calls++;
+    llm.tokens += record.totalTokens;
+    llm.costUsd += priceAs && record.provider === 'scripted'
+      ? llmMetrics.calculateCost(priceAs.model, record.inputTokens, record.outputTokens, priceAs.provider)
+      : record.estimatedCostUsd;
+  });
+
+  let trades = 0;
+  let error: string | undefined;
+  try {
+    const manager = new AgentManager({ simulationConfig: sim.getConfig() });
+    manager.registerAgent(createEntrantAgent(entrant, agentId, world), world);
+
+    for (let i = 0; i < ticks; i++) {
+      sim.tick();
+      const { newWorld, results } = await manager.processTick(sim.getState());
+      sim.updateState(newWorld);
+
+      for (const result of results) {
+        trades += result.results.filter((r) => r.success && r.action.type === 'trade').length;
+      }
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  } finally {
+    unsubscribe();
+  }
+
+  const finalWorld = sim.getState();
+  const finalNetWorth = agentNetWorth(finalWorld, agentId);
+  const shipsLeft = countShips(finalWorld, agentId);
+  const foreclosed = (finalWorld.bankruptcies ?? []).some((record) => record.agentId === agentId);
+
+  return {
+    entrantId: entrant.id,
+    seed,
+    initialNetWorth,
+    finalNetWorth,
+    roi: initialNetWorth !== 0 ? (finalNetWorth - initialNetWorth) / Math.abs(initialNetWorth) : 0,
+    bankrupt: finalNetWorth <= 0 || (initialShips > 0 && shipsLeft === 0) || foreclosed,
+    shipsLost: Math.max(0, initialShips - shipsLeft),
+    trades,
+    llm,
+    error,
+  };
+}
+
+/**
+ * Play every entrant on every seed and build the ranked report
+ * Matches run one at a time, seed by seed, so results are reproducible
+ */
+export async function runTournament(
+  config: Partial<TournamentConfig> & Pick<TournamentConfig, 'entrants' | 'seeds'>
+): Promise<TournamentReport> {
+  const full: TournamentConfig = { ...DEFAULT_TOURNAMENT_CONFIG, ...config };
+  const matches: MatchResult[] = [];
+
+  for (const seed of full.seeds) {
+    for (const entrant of full.entrants) {
+      const result = await runMatch(entrant, seed, full);
+      matches.push(result);
+      full.onMatch?.(result);
+    }
+  }
+
+  return buildReport(matches, {
+    entrants: full.entrants.map((e) => e.id),
+    seeds: full.seeds,
+    ticks: full.ticks,
+    agentId: full.agentId,
+    priceAs: full.priceAs,
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Tournament Statistics
+ * Sample summaries with 95% confidence intervals
+ */
+
+/**
+ * Mean of a sample with a 95% confidence interval
+ */
+export interface SampleStats {
+  n: number;
+  mean: number;
+  stdDev: number;
+  ciLow: number;
+  ciHigh: number;
+}
+
+/**
+ * Rate of a yes/no outcome with a 95% confidence interval
+ */
+export interface RateStats {
+  n: number;
+  count: number;
+  rate: number;
+  ciLow: number;
+  ciHigh: number;
+}
+
+/**
+ * Two-sided 95% Student t critical values by degrees of freedom (1-30)
+ */
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+const Z_95 = 1.96;
+
+export function tCritical95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) return Infinity;
+  return T_CRITICAL_95[degreesOfFreedom - 1] ?? Z_95;
+}
+
+/**
+ * Mean, sample standard deviation and t-based 95% interval
+ * A single value has an unbounded interval; an empty sample is all zeros
+ */
+export function summarize(values: number[]): SampleStats {
+  const n = values.length;
+  if (n === 0) {
+    return { n: 0, mean: 0, stdDev: 0, ciLow: 0, ciHigh: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+  const stdDev = Math.sqrt(variance);
+  const margin = n > 1 ? tCritical95(n - 1) * (stdDev / Math.sqrt(n)) : Infinity;
+
+  return { n, mean, stdDev, ciLow: mean - margin, ciHigh: mean + margin };
+}
+
+/**
+ * Wilson score 95% interval for a proportion (well behaved at 0 and 1)
+ */
+export function summarizeRate(count: number, n: number): RateStats {
+  if (n === 0) {
+    return { n: 0, count: 0, rate: 0, ciLow: 0, ciHigh: 0 };
+  }
+
+  const rate = count / n;
+  const z2 = Z_95 * Z_95;
+  const centre = (rate + z2 / (2 * n)) / (1 + z2 / n);
+  const margin = (Z_95 * Math.sqrt((rate * (1 - rate)) / n + z2 / (4 * n * n))) / (1 + z2 / n);
+
+  return {
+    n,
+    count,
+    rate,
+    ciLow: Math.max(0, centre - margin),
+    ciHigh: Math.min(1, centre + margin),
+  };
+}
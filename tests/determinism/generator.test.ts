@@ -0,0 +1,67 @@
+/**
+ * Generated World Determinism Tests
+ * Verify procedural archipelagos are reproducible per seed and replay identically
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../../src/core/simulation.js';
+import { generateArchipelago } from '../../src/core/generator.js';
+import { hashState } from '../../src/core/rng.js';
+
+describe('Generated Archipelago', () => {
+  it('should generate identical worlds for the same seed', () => {
+    const world1 = generateArchipelago(4242, { islandCount: 12 });
+    const world2 = generateArchipelago(4242, { islandCount: 12 });
+
+    expect(hashState(world1)).toBe(hashState(world2));
+  });
+
+  it('should generate different worlds for different seeds', () => {
+    const world1 = generateArchipelago(1, { islandCount: 12 });
+    const world2 = generateArchipelago(2, { islandCount: 12 });
+
+    expect(hashState(world1)).not.toBe(hashState(world2));
+  });
+
+  it('should place islands without overlap inside the map radius', () => {
+    const mapRadius = 400;
+    const world = generateArchipelago(777, { islandCount: 20, mapRadius, minIslandSpacing: 60 });
+    const positions = Array.from(world.islands.values()).map((i) => i.position);
+
+    expect(positions).toHaveLength(20);
+    for (let i = 0; i < positions.length; i++) {
+      const p = positions[i];
+      expect(Math.hypot(p.x - mapRadius, p.y - mapRadius)).toBeLessThanOrEqual(mapRadius + 1);
+      for (let j = i + 1; j < positions.length; j++) {
+        expect(Math.hypot(p.x - positions[j].x, p.y - positions[j].y)).toBeGreaterThanOrEqual(60);
+      }
+    }
+  });
+
+  it('should follow the requested archetype mix', () => {
+    const world = generateArchipelago(99, {
+      islandCount: 10,
+      archetypeMix: { industrial: 1, luxury: 1 },
+    });
+
+    const counts = { industrial: 0, luxury: 0 };
+    for (const island of world.islands.values()) {
+      // Archetype labour templates: industrial leans on industry, luxury on services
+      if (island.population.labour.industry === 0.45) counts.industrial++;
+      if (island.population.labour.services === 0.4) counts.luxury++;
+    }
+    expect(counts).toEqual({ industrial: 5, luxury: 5 });
+  });
+
+  it('should replay a generated world identically', () => {
+    const seed = 31337;
+    const sim1 = new Simulation(generateArchipelago(seed, { islandCount: 15 }), { seed });
+    const sim2 = new Simulation(generateArchipelago(seed, { islandCount: 15 }), { seed });
+
+    const metrics1 = sim1.run(100);
+    const metrics2 = sim2.run(100);
+
+    expect(metrics1.map((m) => m.stateHash)).toEqual(metrics2.map((m) => m.stateHash));
+    expect(hashState(sim1.getState())).toBe(hashState(sim2.getState()));
+  });
+});
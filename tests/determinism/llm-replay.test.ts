@@ -0,0 +1,125 @@
+/**
+ * LLM Replay Determinism Tests
+ * Verify runs with LLM agents replay bit-for-bit from recorded responses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../../src/core/simulation.js';
+import { initializeWorld } from '../../src/core/world.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { TraderAgent } from '../../src/agents/traders/trader-agent.js';
+import { createMockLLMClient, type LLMClient } from '../../src/llm/client.js';
+import {
+  LLMResponseCache,
+  createRecordingClient,
+  createReplayClient,
+  hashPrompt,
+} from '../../src/llm/replay.js';
+
+const ROUTES = [
+  { from: 'greenbarrow', to: 'timberwake', goods: ['grain'], priority: 1 },
+  { from: 'shoalhold', to: 'timberwake', goods: ['fish'], priority: 1 },
+  { from: 'shoalhold', to: 'greenbarrow', goods: ['fish'], priority: 2 },
+  { from: 'timberwake', to: 'shoalhold', goods: ['timber'], priority: 3 },
+];
+
+/**
+ * A "model" that answers differently every time, like a sampled LLM
+ */
+function createUnpredictableClient(): LLMClient {
+  return createMockLLMClient(() =>
+    JSON.stringify({
+      analysis: 'sampled',
+      strategy: {
+        primaryGoal: 'profit',
+        targetRoutes: ROUTES.filter(() => Math.random() < 0.6),
+        riskTolerance: Math.random() < 0.5 ? 'low' : 'high',
+      },
+      reasoning: 'sampled',
+    })
+  );
+}
+
+async function runWithAgents(llmClient: LLMClient, cache: LLMResponseCache, ticks: number): Promise<string[]> {
+  const world = initializeWorld(777);
+  const sim = new Simulation(world, { seed: 777 });
+  const manager = new AgentManager();
+  const shipIds = Array.from(world.ships.keys());
+  manager.registerAgent(
+    new TraderAgent('trader-alpha', 'LLM Trader', llmClient, { cash: 1000, shipIds }, { rateLimiterPreset: 'unlimited' }),
+    world
+  );
+
+  for (let i = 0; i < ticks; i++) {
+    sim.tick();
+    const current = sim.getState();
+    cache.setTick(current.tick);
+    const { newWorld } = await manager.processTick(current);
+    sim.updateState(newWorld);
+  }
+
+  return sim.getTickHistory();
+}
+
+describe('LLM Replay', () => {
+  it('should replay a recorded LLM run bit-for-bit without calling the model', async () => {
+    const recording = new LLMResponseCache('record');
+    const recorded = await runWithAgents(
+      createRecordingClient(createUnpredictableClient(), recording),
+      recording,
+      30
+    );
+    expect(recording.getResponses().length).toBeGreaterThan(0);
+
+    const replay = new LLMResponseCache('replay', recording.toRecording().responses);
+    const replayed = await runWithAgents(createReplayClient(replay), replay, 30);
+
+    expect(replayed).toEqual(recorded);
+  });
+
+  it('should serve responses by tick and prompt, and fail on unrecorded prompts', async () => {
+    const cache = new LLMResponseCache('replay', [
+      { tick: 3, promptHash: hashPrompt('hello'), response: { text: '{"n":1}', finishReason: 'STOP' } },
+      { tick: 3, promptHash: hashPrompt('hello'), response: { text: '{"n":2}', finishReason: 'STOP' } },
+    ]);
+    const client = createReplayClient(cache);
+
+    cache.setTick(2);
+    await expect(client.complete('hello')).rejects.toThrow(/No recorded LLM response/);
+
+    cache.setTick(3);
+    expect(await client.completeJSON('hello')).toEqual({ n: 1 });
+    expect(await client.completeJSON('hello')).toEqual({ n: 2 });
+    await expect(client.complete('hello')).rejects.toThrow(/tick 3/);
+  });
+
+  it('should record a slow response under the tick that requested it', async () => {
+    let answer!: (text: string) => void;
+    const slow = {
+      complete: () =>
+        new Promise<{ text: string; finishReason: string }>((resolve) => {
+          answer = (text) => resolve({ text, finishReason: 'STOP' });
+        }),
+      getProviderId: () => 'scripted',
+      getModel: () => 'slow',
+      getCallCount: () => 1,
+      resetCallCount: () => undefined,
+    } as unknown as LLMClient;
+
+    const recording = new LLMResponseCache('record');
+    const client = createRecordingClient(slow, recording);
+    recording.setTick(5);
+    const pending = client.complete('hello');
+
+    // The runner moves on while the call is still in flight
+    recording.setTick(8);
+    answer('{"n":1}');
+    await pending;
+
+    expect(recording.getResponses()).toMatchObject([{ tick: 5, promptHash: hashPrompt('hello') }]);
+
+    const replay = new LLMResponseCache('replay', recording.toRecording().responses);
+    replay.setTick(5);
+    expect(await createReplayClient(replay).completeJSON('hello')).toEqual({ n: 1 });
+  });
+});
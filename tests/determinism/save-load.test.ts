@@ -0,0 +1,101 @@
+/**
+ * Save/Load Determinism Tests
+ * Verify a run restored from a save continues exactly like an uninterrupted one
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../../src/core/simulation.js';
+import { initializeWorld } from '../../src/core/world.js';
+import { hashState } from '../../src/core/rng.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { createMockTraderAgent, type TraderAgent } from '../../src/agents/traders/trader-agent.js';
+import {
+  SAVE_FORMAT_VERSION,
+  SaveFormatError,
+  createSave,
+  encodeSave,
+  decodeSave,
+  restoreSimulation,
+} from '../../src/storage/save-game.js';
+import type { WorldState } from '../../src/core/types.js';
+
+const SEED = 24680;
+
+function createAgentManager(world: WorldState): AgentManager {
+  const manager = new AgentManager();
+  const shipIds = Array.from(world.ships.keys());
+  manager.registerAgent(createMockTraderAgent('trader-alpha', 'Alpha Trading Co', { cash: 0, shipIds }), world);
+  return manager;
+}
+
+async function step(sim: Simulation, manager: AgentManager, ticks: number): Promise<void> {
+  for (let i = 0; i < ticks; i++) {
+    sim.tick();
+    const { newWorld } = await manager.processTick(sim.getState());
+    if (newWorld !== sim.getState()) {
+      sim.updateState(newWorld);
+    }
+  }
+}
+
+describe('Save/Load', () => {
+  it('should round-trip Maps and non-finite numbers', () => {
+    const sim = new Simulation(initializeWorld(SEED), { seed: SEED });
+    sim.run(5);
+
+    const save = createSave(sim);
+    (save.world.economyMetrics as unknown as Record<string, number>).probe = Infinity;
+    const decoded = decodeSave(encodeSave(save));
+
+    expect(decoded.version).toBe(SAVE_FORMAT_VERSION);
+    expect(decoded.world.islands).toBeInstanceOf(Map);
+    expect(decoded.world.islands.get('shoalhold')?.inventory).toBeInstanceOf(Map);
+    expect((decoded.world.economyMetrics as unknown as Record<string, number>).probe).toBe(Infinity);
+    expect(hashState(decoded.world)).toBe(hashState(save.world));
+    expect(decoded.rngState).toEqual(sim.getRNGState());
+  });
+
+  it('should reject unsupported save versions', () => {
+    const sim = new Simulation(initializeWorld(SEED), { seed: SEED });
+    const data = encodeSave({ ...createSave(sim), version: SAVE_FORMAT_VERSION + 1 });
+
+    expect(() => decodeSave(data)).toThrow(SaveFormatError);
+    expect(() => decodeSave('not json')).toThrow(SaveFormatError);
+  });
+
+  it('should continue the simulation identically after restore', () => {
+    const uninterrupted = new Simulation(initializeWorld(SEED), { seed: SEED });
+    uninterrupted.run(100);
+
+    const first = new Simulation(initializeWorld(SEED), { seed: SEED });
+    first.run(40);
+    const restored = restoreSimulation(decodeSave(encodeSave(createSave(first))));
+    restored.run(60);
+
+    expect(restored.getTick()).toBe(100);
+    expect(restored.getTickHistory()).toEqual(uninterrupted.getTickHistory());
+  });
+
+  it('should restore agent memory so agent-driven runs stay identical', async () => {
+    const uninterruptedSim = new Simulation(initializeWorld(SEED), { seed: SEED });
+    const uninterruptedAgents = createAgentManager(uninterruptedSim.getState());
+    await step(uninterruptedSim, uninterruptedAgents, 80);
+
+    const firstSim = new Simulation(initializeWorld(SEED), { seed: SEED });
+    const firstAgents = createAgentManager(firstSim.getState());
+    await step(firstSim, firstAgents, 40);
+
+    const save = decodeSave(encodeSave(createSave(firstSim, firstAgents.snapshotAgents())));
+    const restoredSim = restoreSimulation(save);
+    const restoredAgents = createAgentManager(restoredSim.getState());
+    expect(restoredAgents.restoreAgents(save.agents)).toEqual(['trader-alpha']);
+
+    const trader = restoredAgents.getAgent('trader-alpha') as TraderAgent;
+    const original = firstAgents.getAgent('trader-alpha') as TraderAgent;
+    expect(trader.getTraderMemory().serialize()).toBe(original.getTraderMemory().serialize());
+
+    await step(restoredSim, restoredAgents, 40);
+
+    expect(restoredSim.getTickHistory()).toEqual(uninterruptedSim.getTickHistory());
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Agent Concurrency Tests
+ * Verify parallel reasoning limits, deadlines and deterministic ordering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld } from '../../src/core/world.js';
+import type { WorldState } from '../../src/core/types.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { BaseAgent, type Decision } from '../../src/agents/interfaces/agent.js';
+import { ObservableBuilder, type ObservableState } from '../../src/agents/interfaces/observable.js';
+import type { Action } from '../../src/agents/interfaces/action.js';
+
+const activity = { active: 0, maxActive: 0 };
+
+class SlowAgent extends BaseAgent {
+  reasonCalls = 0;
+  applied: string[];
+
+  constructor(id: string, private delayMs: number, applied: string[]) {
+    super(id, 'trader', id, { id, type: 'trader', name: id, assets: { cash: 0, shipIds: [] } });
+    this.applied = applied;
+  }
+
+  observe(world: WorldState): ObservableState {
+    return new ObservableBuilder().build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  shouldReason(): boolean {
+    return true;
+  }
+
+  async reason(): Promise<Decision> {
+    this.reasonCalls++;
+    activity.active++;
+    activity.maxActive = Math.max(activity.maxActive, activity.active);
+    await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    activity.active--;
+    return { actions: [], triggerReason: 'reasoned' };
+  }
+
+  override continuePlan(): Decision {
+    return { actions: [], triggerReason: 'plan' };
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+
+  override onActionResults(): void {
+    this.applied.push(this.id);
+  }
+}
+
+function setup(delays: Record<string, number>, config: ConstructorParameters<typeof AgentManager>[0]) {
+  const world = initializeWorld(42);
+  const manager = new AgentManager(config);
+  const applied: string[] = [];
+  const agents = Object.entries(delays).map(([id, delay]) => new SlowAgent(id, delay, applied));
+  for (const agent of agents) manager.registerAgent(agent, world);
+  return { world, manager, agents, applied };
+}
+
+describe('Agent Concurrency', () => {
+  it('should reason in parallel up to the concurrency limit', async () => {
+    for (const [limit, expected] of [[2, 2], [0, 4]]) {
+      activity.maxActive = 0;
+      const { world, manager } = setup({ a: 20, b: 20, c: 20, d: 20 }, { maxConcurrentReasoning: limit });
+      await manager.processTick(world);
+      expect(activity.maxActive).toBe(expected);
+    }
+  });
+
+  it('should apply decisions in agent ID order, not completion order', async () => {
+    const { world, manager, applied } = setup({ zeta: 1, beta: 30, alpha: 15 }, {});
+    const { results } = await manager.processTick(world);
+
+    expect(results.map((r) => r.agentId)).toEqual(['alpha', 'beta', 'zeta']);
+    expect(applied).toEqual(['alpha', 'beta', 'zeta']);
+  });
+
+  it('should continue the current plan when reasoning misses its deadline', async () => {
+    const { world, manager, agents } = setup({ fast: 1, slow: 150 }, { reasoningTimeoutMs: 40 });
+    const slow = agents[1];
+
+    const first = await manager.processTick(world);
+    expect(first.results.find((r) => r.agentId === 'fast')).toMatchObject({ decision: { triggerReason: 'reasoned' } });
+    expect(first.results.find((r) => r.agentId === 'slow')).toMatchObject({
+      timedOut: true,
+      decision: { triggerReason: 'plan' },
+    });
+
+    // Still reasoning: no second call is started
+    const second = await manager.processTick(world);
+    expect(second.results.find((r) => r.agentId === 'slow')?.timedOut).toBe(true);
+    expect(slow.reasonCalls).toBe(1);
+
+    // Once the late call settles the agent reasons again
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    (slow as unknown as { delayMs: number }).delayMs = 1;
+    const third = await manager.processTick(world);
+    expect(third.results.find((r) => r.agentId === 'slow')).toMatchObject({ decision: { triggerReason: 'reasoned' } });
+    expect(slow.reasonCalls).toBe(2);
+  });
+});
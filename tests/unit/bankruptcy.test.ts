@@ -0,0 +1,186 @@
+/**
+ * Bankruptcy Tests
+ * Verify insolvency tracking, cargo liquidation, ship auctions and restart rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld, DEFAULT_CONFIG } from '../../src/core/world.js';
+import { Simulation } from '../../src/core/simulation.js';
+import type { ShipState, SimulationConfig, WorldState } from '../../src/core/types.js';
+import { processBankruptcies, getSolvency } from '../../src/systems/bankruptcy.js';
+
+const grace = DEFAULT_CONFIG.bankruptcyConfig.insolvencyGraceTicks;
+
+function withBankruptcy(overrides: Partial<SimulationConfig['bankruptcyConfig']>): SimulationConfig {
+  return { ...DEFAULT_CONFIG, bankruptcyConfig: { ...DEFAULT_CONFIG.bankruptcyConfig, ...overrides } };
+}
+
+/**
+ * World with one debt-ridden ship (sloop-1, docked at greenbarrow) owned by 'debtor'
+ * and every other ship owned by 'rival'
+ */
+function setup(cargo: Array<[string, number]> = []): WorldState {
+  const world = initializeWorld(1);
+  for (const [id, ship] of world.ships) {
+    world.ships.set(id, { ...ship, ownerId: 'rival' });
+  }
+  const sloop = world.ships.get('sloop-1')!;
+  world.ships.set('sloop-1', {
+    ...sloop,
+    ownerId: 'debtor',
+    cash: 0,
+    cargo: new Map(cargo),
+    location: { kind: 'at_island', islandId: 'greenbarrow' },
+    debt: 5000,
+  });
+  world.agents.set('debtor', {
+    id: 'debtor',
+    type: 'trader',
+    name: 'Debtor',
+    assets: { cash: 0, shipIds: ['sloop-1'] },
+  });
+  return world;
+}
+
+function run(world: WorldState, ticks: number[], config: SimulationConfig = DEFAULT_CONFIG) {
+  let state = world;
+  const records = [];
+  for (const tick of ticks) {
+    const result = processBankruptcies(state, config, tick);
+    state = { ...state, ships: result.ships, islands: result.islands, agents: result.agents };
+    records.push(...result.records);
+  }
+  return { state, records };
+}
+
+describe('Bankruptcy', () => {
+  it('should seize a ship only after the insolvency grace period', () => {
+    const world = setup();
+    expect(getSolvency(world.ships.get('sloop-1')!, world.islands, DEFAULT_CONFIG).insolvent).toBe(true);
+
+    const early = run(world, [10, 10 + grace - 1]);
+    expect(early.records).toHaveLength(0);
+    expect(early.state.ships.get('sloop-1')!.insolventSinceTick).toBe(10);
+
+    // Paying down the debt clears the marker
+    const cured = early.state.ships.get('sloop-1')!;
+    const recovered = run({ ...early.state, ships: new Map(early.state.ships).set('sloop-1', { ...cured, debt: 0 }) }, [20]);
+    expect(recovered.state.ships.get('sloop-1')!.insolventSinceTick).toBeUndefined();
+
+    const late = run(early.state, [10 + grace]);
+    expect(late.records).toHaveLength(1);
+    expect(late.records[0]).toMatchObject({ shipId: 'sloop-1', agentId: 'debtor', islandId: 'greenbarrow' });
+  });
+
+  it('should wait for an insolvent ship at sea to reach port', () => {
+    const world = setup();
+    const sloop = world.ships.get('sloop-1')!;
+    const atSea: ShipState = {
+      ...sloop,
+      insolventSinceTick: 0,
+      location: {
+        kind: 'at_sea',
+        position: { x: 0, y: 0 },
+        route: { fromIslandId: 'greenbarrow', toIslandId: 'shoalhold', etaHours: 5, progress: 0.5 },
+      },
+    };
+    world.ships.set('sloop-1', atSea);
+
+    const { records, state } = run(world, [grace * 2]);
+    expect(records).toHaveLength(0);
+    expect(state.ships.has('sloop-1')).toBe(true);
+  });
+
+  it('should liquidate cargo to the island at a discount', () => {
+    const world = setup([['fish', 20]]);
+    world.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, insolventSinceTick: 0 });
+    const island = world.islands.get('greenbarrow')!;
+    const fishPrice = island.market.prices.get('fish')!;
+
+    const { records, state } = run(world, [grace]);
+    const after = state.islands.get('greenbarrow')!;
+
+    const proceeds = 20 * fishPrice * DEFAULT_CONFIG.bankruptcyConfig.liquidationPriceRatio;
+    expect(records[0].liquidationProceeds).toBeCloseTo(proceeds, 6);
+    expect(after.inventory.get('fish')).toBeCloseTo((island.inventory.get('fish') ?? 0) + 20, 6);
+    expect(after.treasury).toBeCloseTo(island.treasury - proceeds, 6);
+  });
+
+  it('should auction the ship to the highest opted-in bidder and settle the debt', () => {
+    const world = setup();
+    world.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, insolventSinceTick: 0 });
+    // A second bidder with less cash
+    world.ships.set('sloop-2', { ...world.ships.get('sloop-2')!, ownerId: 'minnow', cash: 600 });
+    world.ships.set('sloop-3', { ...world.ships.get('sloop-3')!, cash: 5000 });
+    const rivalPurse = world.ships.get('sloop-3')!.cash;
+
+    // Nobody bids without opting in
+    expect(run(world, [grace]).records[0].auction).toBeNull();
+
+    const { records, state } = run(world, [grace], withBankruptcy({ auctionBidders: ['minnow', 'rival'] }));
+    const record = records[0];
+    const hullValue = 100 * DEFAULT_CONFIG.creditConfig.baseValuePerCapacity;
+    const price = hullValue * DEFAULT_CONFIG.bankruptcyConfig.maxBidRatio;
+
+    expect(record.auction).toEqual({ winnerId: 'rival', price });
+    expect(state.ships.get('sloop-3')!.cash).toBe(rivalPurse - price);
+    expect(state.ships.get('sloop-1')).toMatchObject({ ownerId: 'rival', debt: 0, cash: 0 });
+    expect(record.recovered).toBe(price);
+    expect(record.writtenOff).toBe(5000 - price);
+    expect(record.surplus).toBe(0);
+    expect(record.outcome).toBe('restarted');
+    expect(state.agents.get('debtor')!.assets.shipIds).toEqual([record.restartShipId]);
+  });
+
+  it('should scrap an unsold ship and apply the restart or eliminate rule', () => {
+    const world = setup();
+    world.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, insolventSinceTick: 0 });
+    // Nobody can meet the reserve
+    for (const [id, ship] of world.ships) {
+      if (id !== 'sloop-1') world.ships.set(id, { ...ship, cash: 0 });
+    }
+
+    const restarted = run(world, [grace]);
+    const starter = restarted.state.ships.get(restarted.records[0].restartShipId!)!;
+    expect(restarted.records[0].auction).toBeNull();
+    expect(restarted.state.ships.has('sloop-1')).toBe(false);
+    expect(starter).toMatchObject({
+      ownerId: 'debtor',
+      cash: DEFAULT_CONFIG.bankruptcyConfig.restartCash,
+      capacity: DEFAULT_CONFIG.bankruptcyConfig.restartShipCapacity,
+      debt: 0,
+      location: { kind: 'at_island', islandId: 'greenbarrow' },
+    });
+
+    const eliminated = run(world, [grace], withBankruptcy({ rule: 'eliminate' }));
+    expect(eliminated.records[0].outcome).toBe('eliminated');
+    expect(eliminated.state.agents.get('debtor')!.status).toBe('eliminated');
+    expect(Array.from(eliminated.state.ships.values()).some((s) => s.ownerId === 'debtor')).toBe(false);
+  });
+
+  it('should return proceeds above the debt to the owner', () => {
+    const world = setup();
+    world.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, insolventSinceTick: 0, debt: 1500 });
+    world.ships.set('sloop-2', { ...world.ships.get('sloop-2')!, ownerId: 'debtor', cash: 0 });
+    world.ships.set('sloop-3', { ...world.ships.get('sloop-3')!, cash: 100000 });
+
+    // A generous bid cap lets the auction raise more than the debt
+    const { records, state } = run(world, [grace], withBankruptcy({ auctionBidders: ['rival'], maxBidRatio: 10 }));
+    const record = records[0];
+
+    expect(record.recovered).toBe(1500);
+    expect(record.surplus).toBe(record.auction!.price - 1500);
+    expect(record.outcome).toBe('continuing');
+    expect(state.ships.get('sloop-2')!.cash).toBe(record.surplus);
+  });
+
+  it('should record bankruptcies through the simulation tick', () => {
+    const world = setup();
+    world.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, insolventSinceTick: -grace });
+    const sim = new Simulation(world, { seed: 1 });
+
+    const metrics = sim.tick();
+    expect(metrics.bankruptcies).toHaveLength(1);
+    expect(sim.getState().bankruptcies).toEqual(metrics.bankruptcies);
+  });
+});
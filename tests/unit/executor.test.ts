@@ -0,0 +1,140 @@
+/**
+ * Executor Tests
+ * Verify upkeep and leverage actions (repair, hire crew, borrow, repay)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Executor } from '../../src/agents/traders/executor.js';
+import { TraderMemory, type Strategy } from '../../src/agents/traders/memory.js';
+import { ObservableBuilder, type ObservableState } from '../../src/agents/interfaces/observable.js';
+import { BaseAgent, type Decision } from '../../src/agents/interfaces/agent.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { Simulation } from '../../src/core/simulation.js';
+import {
+  ActionValidator,
+  createRepairAction,
+  createHireCrewAction,
+  createBorrowAction,
+  createRepayAction,
+  type Action,
+} from '../../src/agents/interfaces/action.js';
+import { initializeWorld, DEFAULT_CONFIG } from '../../src/core/world.js';
+import type { WorldState } from '../../src/core/types.js';
+
+function createWornWorld(): WorldState {
+  const world = initializeWorld(42);
+  const ship = world.ships.get('sloop-1')!;
+  world.ships.set('sloop-1', {
+    ...ship,
+    condition: 0.3,
+    crew: { ...ship.crew, count: 2 },
+    debt: 500,
+  });
+  return world;
+}
+
+/**
+ * Trader on a 'hold' leverage policy: never borrows or repays
+ */
+class HoldingAgent extends BaseAgent {
+  constructor() {
+    super('trader-alpha', 'trader', 'Holder', {
+      id: 'trader-alpha',
+      type: 'trader',
+      name: 'Holder',
+      assets: { cash: 0, shipIds: ['sloop-1', 'sloop-2'] },
+    });
+  }
+
+  observe(world: WorldState): ObservableState {
+    return new ObservableBuilder().build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  shouldReason(): boolean {
+    return false;
+  }
+
+  async reason(): Promise<Decision> {
+    return { actions: [] };
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+}
+
+function createStrategy(leverage: 'repay' | 'hold' | 'borrow'): Strategy {
+  return {
+    createdAt: 0,
+    primaryGoal: 'stabilize',
+    targetRoutes: [],
+    riskTolerance: 'low',
+    analysis: 'test',
+    reasoning: 'test',
+    validUntil: 1000,
+    fleetPolicy: { repairBelow: 0.5, minCrewRatio: 0.5, leverage },
+  };
+}
+
+describe('Upkeep Actions', () => {
+  it('should validate repair, hire crew, borrow and repay actions', () => {
+    const world = createWornWorld();
+    const validator = new ActionValidator();
+
+    expect(validator.validate(createRepairAction('sloop-1', 'greenbarrow', 1), world, 'trader-alpha').valid).toBe(true);
+    expect(validator.validate(createRepairAction('sloop-1', 'greenbarrow', 0.2), world, 'trader-alpha').valid).toBe(false);
+    expect(validator.validate(createHireCrewAction('sloop-1', 'greenbarrow', 3), world, 'trader-alpha').valid).toBe(true);
+    expect(validator.validate(createHireCrewAction('sloop-1', 'shoalhold', 3), world, 'trader-alpha').valid).toBe(false);
+    expect(validator.validate(createBorrowAction('sloop-1', 100), world, 'trader-alpha').valid).toBe(true);
+    expect(validator.validate(createBorrowAction('sloop-1', -5), world, 'trader-alpha').valid).toBe(false);
+    expect(validator.validate(createRepayAction('sloop-1', 100), world, 'trader-alpha').valid).toBe(true);
+    expect(validator.validate(createRepayAction('sloop-2', 100), world, 'trader-alpha').valid).toBe(false);
+  });
+
+  it('should plan repairs, hiring and repayment from the fleet policy', () => {
+    const world = createWornWorld();
+    const observation = new ObservableBuilder().build(world, 'trader-alpha', 'trader', 'Test', {
+      lastReasoningTick: 0,
+      currentPlan: null,
+      recentDecisions: [],
+      customData: {},
+    });
+
+    const executor = new Executor();
+    const decision = executor.execute(createStrategy('repay'), observation, new TraderMemory());
+    const types = decision.actions.filter((a) => 'shipId' in a && a.shipId === 'sloop-1').map((a) => a.type);
+
+    expect(types).toContain('repair');
+    expect(types).toContain('hire_crew');
+    expect(types).toContain('repay');
+    expect(types).not.toContain('borrow');
+  });
+
+  it('should leave debt on a hold ship to its agent', async () => {
+    for (const lendingEnabled of [true, false]) {
+      const world = initializeWorld(42);
+      // Broke (would auto-borrow) and flush with cash (would auto-repay)
+      world.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, cash: 0, debt: 0 });
+      world.ships.set('sloop-2', { ...world.ships.get('sloop-2')!, cash: 10000, debt: 500 });
+
+      const sim = new Simulation(world, {
+        seed: 42,
+        lendingConfig: { ...DEFAULT_CONFIG.lendingConfig, enabled: lendingEnabled },
+      });
+      const manager = new AgentManager();
+      manager.registerAgent(new HoldingAgent(), world);
+
+      for (let i = 0; i < 3; i++) {
+        sim.updateState((await manager.processTick(sim.getState())).newWorld);
+        const metrics = sim.tick();
+        expect(metrics.creditActivity.get('sloop-1')!.creditUsed).toBe(0);
+        expect(metrics.creditActivity.get('sloop-2')!.debtRepaid).toBe(0);
+      }
+
+      // Only interest moves the debt
+      const state = sim.getState();
+      expect(state.ships.get('sloop-1')!.debt).toBe(0);
+      expect(state.ships.get('sloop-2')!.debt).toBeGreaterThan(500);
+    }
+  });
+});
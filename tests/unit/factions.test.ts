@@ -0,0 +1,184 @@
+/**
+ * Trader Faction Tests
+ * Verify shared treasuries, fleet-wide route planning and faction standings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFaction, initializeWorld } from '../../src/core/world.js';
+import { transferFactionFunds, getFactionStandings } from '../../src/systems/factions.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { BaseAgent, type Decision } from '../../src/agents/interfaces/agent.js';
+import { ObservableBuilder, type ObservableState } from '../../src/agents/interfaces/observable.js';
+import {
+  ActionValidator,
+  createTransferFundsAction,
+  type Action,
+} from '../../src/agents/interfaces/action.js';
+import { Strategist } from '../../src/agents/traders/strategist.js';
+import { Executor } from '../../src/agents/traders/executor.js';
+import { TraderMemory, type Strategy } from '../../src/agents/traders/memory.js';
+import { createMockLLMClient } from '../../src/llm/client.js';
+import { createRateLimiter } from '../../src/llm/rate-limiter.js';
+import type { WorldState } from '../../src/core/types.js';
+
+/**
+ * Trader that submits a fixed list of actions once
+ */
+class ScriptedAgent extends BaseAgent {
+  constructor(private pending: Action[]) {
+    super('trader-alpha', 'trader', 'Scripted', {
+      id: 'trader-alpha',
+      type: 'trader',
+      name: 'Scripted',
+      assets: { cash: 0, shipIds: ['sloop-1'] },
+    });
+  }
+
+  observe(world: WorldState): ObservableState {
+    return new ObservableBuilder().build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  shouldReason(): boolean {
+    return false;
+  }
+
+  async reason(): Promise<Decision> {
+    const actions = this.pending;
+    this.pending = [];
+    return { actions };
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+}
+
+function observe(world: WorldState): ObservableState {
+  return new ObservableBuilder().build(world, 'trader-alpha', 'trader', 'Alpha', {
+    currentPlan: null,
+    lastReasoningTick: 0,
+    recentDecisions: [],
+    customData: {},
+  });
+}
+
+function routeStrategy(): Strategy {
+  return {
+    createdAt: 0,
+    primaryGoal: 'profit',
+    targetRoutes: [
+      { from: 'greenbarrow', to: 'shoalhold', goods: ['grain'], priority: 1 },
+      { from: 'shoalhold', to: 'greenbarrow', goods: ['fish'], priority: 2 },
+      { from: 'timberwake', to: 'greenbarrow', goods: ['timber'], priority: 3 },
+    ],
+    riskTolerance: 'medium',
+    analysis: 'test',
+    reasoning: 'test',
+    validUntil: 1000,
+  };
+}
+
+describe('Faction Treasury', () => {
+  it('should cap deposits by ship cash and withdrawals by the treasury', () => {
+    const world = initializeWorld(42);
+    const ship = { ...world.ships.get('sloop-1')!, cash: 100 };
+    const faction = createFaction('alpha-company', 'Alpha', ['trader-alpha'], 50);
+
+    const deposit = transferFactionFunds(ship, faction, 500);
+    expect(deposit.transferred).toBe(100);
+    expect(deposit.newShip.cash).toBe(0);
+    expect(deposit.newFaction.treasury).toBe(150);
+
+    const withdrawal = transferFactionFunds(ship, faction, -500);
+    expect(withdrawal.transferred).toBe(-50);
+    expect(withdrawal.newShip.cash).toBe(150);
+    expect(withdrawal.newFaction.cumulativeWithdrawals).toBe(50);
+  });
+
+  it('should only let faction members move funds they have', () => {
+    const world = initializeWorld(42);
+    const validator = new ActionValidator();
+
+    expect(validator.validate(createTransferFundsAction('sloop-1', 100), world, 'trader-alpha').valid).toBe(true);
+    expect(validator.validate(createTransferFundsAction('sloop-1', -100), world, 'trader-alpha').valid).toBe(false);
+    expect(validator.validate(createTransferFundsAction('sloop-1', 0), world, 'trader-alpha').valid).toBe(false);
+
+    world.factions = new Map();
+    expect(validator.validate(createTransferFundsAction('sloop-1', 100), world, 'trader-alpha').valid).toBe(false);
+  });
+
+  it('should apply deposits to the shared treasury', async () => {
+    const world = initializeWorld(42);
+    const cashBefore = world.ships.get('sloop-1')!.cash;
+    const manager = new AgentManager();
+    manager.registerAgent(new ScriptedAgent([createTransferFundsAction('sloop-1', 400)]), world);
+
+    const { newWorld } = await manager.processTick(world);
+
+    expect(newWorld.ships.get('sloop-1')!.cash).toBe(cashBefore - 400);
+    expect(newWorld.factions.get('alpha-company')!.treasury).toBe(400);
+    expect(world.factions.get('alpha-company')!.treasury).toBe(0);
+  });
+
+  it('should only deposit cash left after debt and same-tick spending', () => {
+    const world = initializeWorld(42);
+    const ship = world.ships.get('sloop-1')!;
+    const settled = { ...ship, cash: 5000, debt: 0, condition: 1, cargo: new Map() };
+    const deposits = (w: WorldState, executor = new Executor()) =>
+      executor
+        .execute(null, observe(w), new TraderMemory())
+        .actions.filter((a) => a.type === 'transfer_funds' && a.shipId === 'sloop-1');
+
+    world.ships.set('sloop-1', settled);
+    expect(deposits(world)).toEqual([createTransferFundsAction('sloop-1', 3500)]);
+
+    // A ship still in debt keeps its cash
+    world.ships.set('sloop-1', { ...settled, debt: 200 });
+    expect(deposits(world)).toEqual([]);
+
+    // Repaying in full first: the deposit leaves the float after the repayment
+    const repaying = new Executor({ fleetPolicy: { repairBelow: 0.5, minCrewRatio: 0, leverage: 'repay' } });
+    expect(deposits(world, repaying)).toEqual([createTransferFundsAction('sloop-1', 3300)]);
+  });
+
+  it('should rank factions by net worth', () => {
+    const world = initializeWorld(42);
+    const ship = world.ships.get('sloop-1')!;
+    world.ships.set('sloop-1', { ...ship, ownerId: 'trader-beta' });
+    world.factions.set('beta-company', createFaction('beta-company', 'Beta', ['trader-beta'], 100));
+
+    const standings = getFactionStandings(world);
+
+    expect(standings.map((s) => s.factionId)).toEqual(['alpha-company', 'beta-company']);
+    expect(standings[1].netWorth).toBe(100 + ship.cash - ship.debt);
+    expect(standings[0].fleetSize).toBe(world.ships.size - 1);
+  });
+});
+
+describe('Fleet Planning', () => {
+  it('should give each route its own ship, starting from ships at the source', () => {
+    const world = initializeWorld(42);
+    const strategist = new Strategist(createMockLLMClient(() => '{}'), createRateLimiter('unlimited'));
+
+    const assignments = strategist.planFleet(routeStrategy(), observe(world));
+
+    expect(Object.keys(assignments).sort()).toEqual(['clipper-1', 'sloop-1', 'sloop-2', 'sloop-3', 'sloop-4']);
+    expect(assignments['sloop-1']).toBe(0);
+    expect(assignments['clipper-1']).toBe(1);
+
+    const shipsPerRoute = [0, 1, 2].map((i) => Object.values(assignments).filter((r) => r === i).length);
+    expect(shipsPerRoute).toEqual([2, 2, 1]);
+  });
+
+  it('should send a ship along its assigned route', () => {
+    const world = initializeWorld(42);
+    const ship = world.ships.get('sloop-2')!;
+    world.ships.set('sloop-2', { ...ship, cargo: new Map() });
+
+    const strategy = { ...routeStrategy(), shipAssignments: { 'sloop-2': 2 } };
+    const decision = new Executor().execute(strategy, observe(world), new TraderMemory());
+
+    const navigate = decision.actions.find((a) => a.type === 'navigate' && a.shipId === 'sloop-2');
+    expect(navigate).toMatchObject({ destinationId: 'timberwake' });
+  });
+});
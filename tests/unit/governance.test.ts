@@ -0,0 +1,233 @@
+/**
+ * Island Governance Tests
+ * Verify policy actions feed into production and trade, and the
+ * rule-based governor reacts to ecosystem and treasury state
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONFIG, initializeWorld } from '../../src/core/world.js';
+import { updateProduction } from '../../src/systems/production.js';
+import { executeTrade } from '../../src/systems/market.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { BaseAgent, type Decision } from '../../src/agents/interfaces/agent.js';
+import { ObservableBuilder, type ObservableState } from '../../src/agents/interfaces/observable.js';
+import {
+  ActionValidator,
+  createSetQuotaAction,
+  createSetTariffAction,
+  createSetReserveAction,
+  createFundBuildingAction,
+  createTradeAction,
+  type Action,
+  type TradeExecutionDetails,
+} from '../../src/agents/interfaces/action.js';
+import { createRuleBasedGovernor } from '../../src/agents/governors/governor-agent.js';
+import type { IslandState, WorldState } from '../../src/core/types.js';
+
+/**
+ * Agent that submits a fixed list of actions once
+ */
+class ScriptedAgent extends BaseAgent {
+  constructor(
+    private pending: Action[],
+    id = 'trader-alpha'
+  ) {
+    super(id, 'trader', 'Scripted', {
+      id,
+      type: 'trader',
+      name: 'Scripted',
+      assets: { cash: 0, shipIds: id === 'trader-alpha' ? ['sloop-1'] : [] },
+    });
+  }
+
+  observe(world: WorldState): ObservableState {
+    return new ObservableBuilder().build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  shouldReason(): boolean {
+    return false;
+  }
+
+  async reason(): Promise<Decision> {
+    const actions = this.pending;
+    this.pending = [];
+    return { actions };
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+}
+
+function governedWorld(islandId: string, governorId: string): WorldState {
+  const world = initializeWorld(42);
+  const island = world.islands.get(islandId)!;
+  world.islands.set(islandId, { ...island, policy: { ...island.policy, governorId } });
+  return world;
+}
+
+function withIsland(world: WorldState, islandId: string, update: (island: IslandState) => IslandState): void {
+  world.islands.set(islandId, update(world.islands.get(islandId)!));
+}
+
+describe('Harvest Quotas', () => {
+  it('should cap extractive production at the quota', () => {
+    const world = initializeWorld(42);
+    const island = world.islands.get('shoalhold')!;
+    const free = updateProduction(island, ['fish'], DEFAULT_CONFIG, [], 1, 0, undefined, world.goods);
+    expect(free.produced.get('fish')!).toBeGreaterThan(1);
+
+    const limited: IslandState = {
+      ...island,
+      policy: { ...island.policy, harvestQuotas: new Map([['fish', 1]]) },
+    };
+    const capped = updateProduction(limited, ['fish'], DEFAULT_CONFIG, [], 1, 0, undefined, world.goods);
+
+    expect(capped.produced.get('fish')).toBeCloseTo(1);
+    expect(capped.constrained.get('fish')).toBe(true);
+    expect(capped.harvested.get('fish')!).toBeLessThan(free.harvested.get('fish')!);
+  });
+});
+
+describe('Tariffs and Reserves', () => {
+  const prices = new Map([['grain', 10]]);
+
+  it('should charge tariffs on top of tax and pay them to the island', () => {
+    const bought = executeTrade(new Map([['grain', 100]]), new Map(), 1000, [{ goodId: 'grain', quantity: 10 }], prices, {
+      taxRate: 0,
+      exportTariff: 0.1,
+    });
+    expect(bought.newShipCash).toBeCloseTo(1000 - 110);
+    expect(bought.tariffCollected).toBeCloseTo(10);
+    expect(bought.islandTreasuryChange).toBeCloseTo(110);
+
+    const sold = executeTrade(new Map(), new Map([['grain', 10]]), 0, [{ goodId: 'grain', quantity: -10 }], prices, {
+      taxRate: 0,
+      importTariff: 0.2,
+    });
+    expect(sold.newShipCash).toBeCloseTo(80);
+    expect(sold.islandTreasuryChange).toBeCloseTo(-100 + 20);
+  });
+
+  it('should hold reserved stock back from ships', () => {
+    const result = executeTrade(new Map([['grain', 100]]), new Map(), 10000, [{ goodId: 'grain', quantity: 100 }], prices, {
+      taxRate: 0,
+      reserves: new Map([['grain', 70]]),
+    });
+    expect(result.newShipCargo.get('grain')).toBe(30);
+    expect(result.newIslandInventory.get('grain')).toBe(70);
+  });
+});
+
+describe('Policy Actions', () => {
+  it('should only accept policy actions from the island governor', () => {
+    const world = governedWorld('shoalhold', 'gov-shoalhold');
+    const validator = new ActionValidator();
+
+    expect(validator.validate(createSetTariffAction('shoalhold', 'export', 0.1), world, 'gov-shoalhold').valid).toBe(true);
+    expect(validator.validate(createSetTariffAction('shoalhold', 'export', 0.1), world, 'trader-alpha').valid).toBe(false);
+    expect(validator.validate(createSetTariffAction('shoalhold', 'export', 0.9), world, 'gov-shoalhold').valid).toBe(false);
+    expect(validator.validate(createSetQuotaAction('shoalhold', 'grain', 5), world, 'gov-shoalhold').valid).toBe(false);
+    expect(validator.validate(createSetReserveAction('shoalhold', 'timber', 5), world, 'gov-shoalhold').valid).toBe(false);
+  });
+
+  it('should apply governor policy and charge tariffs on later trades', async () => {
+    const world = governedWorld('greenbarrow', 'gov-greenbarrow');
+    const governor = createRuleBasedGovernor('gov-greenbarrow', 'Greenbarrow Governor', 'greenbarrow');
+    const manager = new AgentManager();
+    manager.registerAgent(governor, world);
+
+    // Drive the governor's treasury down so it raises revenue tariffs
+    withIsland(world, 'greenbarrow', (island) => ({ ...island, treasury: 0 }));
+    const { newWorld } = await manager.processTick(world);
+
+    const policy = newWorld.islands.get('greenbarrow')!.policy;
+    expect(policy.exportTariff).toBeGreaterThan(0);
+    expect(policy.reserves.get('grain')!).toBeGreaterThan(0);
+
+    // A trader buying grain now pays the export tariff to the island
+    const traderManager = new AgentManager();
+    traderManager.registerAgent(
+      new ScriptedAgent([createTradeAction('sloop-1', 'greenbarrow', [{ goodId: 'grain', quantity: 10 }])]),
+      newWorld
+    );
+    const traded = await traderManager.processTick(newWorld);
+
+    const tradeResult = traded.results[0].results[0];
+    expect(tradeResult.success).toBe(true);
+    const details = tradeResult.details as unknown as TradeExecutionDetails;
+    expect(details.tariffPaid).toBeGreaterThan(0);
+  });
+
+  it('should pay for governor-funded buildings out of the treasury', async () => {
+    const world = governedWorld('greenbarrow', 'gov-greenbarrow');
+    withIsland(world, 'greenbarrow', (island) => ({
+      ...island,
+      inventory: new Map(island.inventory).set('timber', 100).set('tools', 100),
+      treasury: 500,
+    }));
+    const before = world.islands.get('greenbarrow')!;
+    const manager = new AgentManager();
+    manager.registerAgent(
+      new ScriptedAgent([createFundBuildingAction('greenbarrow', 'warehouse')], 'gov-greenbarrow'),
+      world
+    );
+
+    const { newWorld, results } = await manager.processTick(world);
+    const after = newWorld.islands.get('greenbarrow')!;
+    const coins = DEFAULT_CONFIG.buildingsConfig.definitions.warehouse.buildCost.coins;
+
+    expect(results[0].results[0].success).toBe(true);
+    expect(after.constructionOrders).toHaveLength(1);
+    expect(after.treasury).toBe(before.treasury - coins);
+    expect(after.treasuryIncome).toBe(before.treasuryIncome);
+    expect(after.treasuryExpenses).toBe(before.treasuryExpenses + coins);
+
+    // A second order for the same building cannot start and is reported as failed
+    const fund = createFundBuildingAction('greenbarrow', 'warehouse');
+    const again = new AgentManager();
+    again.registerAgent(new ScriptedAgent([fund, fund], 'gov-greenbarrow'), world);
+    const twice = await again.processTick(world);
+    expect(twice.results[0].results.map((r) => r.success)).toEqual([true, false]);
+    expect(twice.newWorld.islands.get('greenbarrow')!.treasury).toBe(before.treasury - coins);
+  });
+});
+
+describe('Rule-Based Governor', () => {
+  it('should impose a quota on a depleted fishery and lift it after recovery', async () => {
+    const world = governedWorld('shoalhold', 'gov-shoalhold');
+    const island = world.islands.get('shoalhold')!;
+    withIsland(world, 'shoalhold', (i) => ({
+      ...i,
+      ecosystem: { ...i.ecosystem, fishStock: island.ecosystemParams.fishCapacity * 0.2 },
+    }));
+
+    const governor = createRuleBasedGovernor('gov-shoalhold', 'Shoalhold Governor', 'shoalhold');
+    const manager = new AgentManager();
+    manager.registerAgent(governor, world);
+
+    const first = await manager.processTick(world);
+    const quota = first.newWorld.islands.get('shoalhold')!.policy.harvestQuotas.get('fish');
+    expect(quota).toBeCloseTo(island.ecosystemParams.fishCapacity * 0.2 * 0.002);
+
+    // Recovered stock: the next review lifts the quota
+    const recovered = first.newWorld;
+    withIsland(recovered, 'shoalhold', (i) => ({
+      ...i,
+      ecosystem: { ...i.ecosystem, fishStock: island.ecosystemParams.fishCapacity * 0.9 },
+    }));
+    const later = { ...recovered, tick: recovered.tick + 24 };
+    const second = await manager.processTick(later);
+    expect(second.newWorld.islands.get('shoalhold')!.policy.harvestQuotas.has('fish')).toBe(false);
+  });
+
+  it('should do nothing for an island it does not govern', async () => {
+    const world = initializeWorld(42);
+    const governor = createRuleBasedGovernor('gov-shoalhold', 'Shoalhold Governor', 'shoalhold');
+    const manager = new AgentManager();
+    manager.registerAgent(governor, world);
+
+    const { results } = await manager.processTick(world);
+    expect(results.flatMap((r) => r.results)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Lending Tests
+ * Verify island and agent loans, rates by credit rating and reserves, and defaults
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld, DEFAULT_CONFIG } from '../../src/core/world.js';
+import { Simulation } from '../../src/core/simulation.js';
+import type { WorldState } from '../../src/core/types.js';
+import {
+  borrowFromMarket,
+  createLendingState,
+  getCreditRating,
+  getLendingBook,
+  getLoanQuotes,
+  processLending,
+  quoteInterestRate,
+  repayLoans,
+  settleDefaultedLoans,
+} from '../../src/systems/lending.js';
+import { ActionValidator } from '../../src/agents/interfaces/action.js';
+
+const lendingConfig = DEFAULT_CONFIG.lendingConfig;
+
+/**
+ * World where sloop-1 belongs to 'borrower' and the rest of the fleet to 'rival'
+ */
+function setup(): WorldState {
+  const world = initializeWorld(1);
+  for (const [id, ship] of world.ships) {
+    world.ships.set(id, { ...ship, ownerId: id === 'sloop-1' ? 'borrower' : 'rival', cash: 0 });
+  }
+  return world;
+}
+
+function totalMoney(world: Pick<WorldState, 'ships' | 'islands'>): number {
+  let total = 0;
+  for (const ship of world.ships.values()) total += ship.cash;
+  for (const island of world.islands.values()) total += island.treasury;
+  return total;
+}
+
+describe('Lending', () => {
+  it('should price loans by credit rating and lender reserves', () => {
+    const lending = createLendingState();
+    expect(getCreditRating(lending, 'borrower', lendingConfig)).toBe(lendingConfig.initialRating);
+
+    lending.creditHistory.set('good', { loansRepaid: 4, loansDefaulted: 0 });
+    lending.creditHistory.set('bad', { loansRepaid: 4, loansDefaulted: 3 });
+    const good = getCreditRating(lending, 'good', lendingConfig);
+    const bad = getCreditRating(lending, 'bad', lendingConfig);
+    expect(good).toBeCloseTo(0.7, 6);
+    expect(bad).toBe(0);
+
+    expect(quoteInterestRate(good, 100, 1000, lendingConfig)).toBeLessThan(quoteInterestRate(bad, 100, 1000, lendingConfig));
+    expect(quoteInterestRate(good, 900, 1000, lendingConfig)).toBeGreaterThan(quoteInterestRate(good, 100, 1000, lendingConfig));
+  });
+
+  it('should fund loans from the cheapest lender without creating money', () => {
+    const world = setup();
+    const book = getLendingBook(world);
+    const quotes = getLoanQuotes(book, 'sloop-1', 200, lendingConfig);
+
+    // Every island can fund it; the one with the deepest reserves is cheapest
+    expect(quotes.every((q) => q.lender.kind === 'island' && q.amount === 200)).toBe(true);
+    const richest = Array.from(world.islands.values()).sort((a, b) => b.treasury - a.treasury)[0];
+    expect(quotes[0].lender).toEqual({ kind: 'island', islandId: richest.id });
+
+    const { book: after, borrowed } = borrowFromMarket(book, 'sloop-1', 200, 5, lendingConfig);
+    expect(borrowed).toBe(200);
+    expect(after.ships.get('sloop-1')).toMatchObject({ cash: 200, debt: 200 });
+    expect(after.islands.get(richest.id)!.treasury).toBe(richest.treasury - 200);
+    expect(totalMoney(after)).toBeCloseTo(totalMoney(world), 6);
+    expect(after.lending.loans).toHaveLength(1);
+
+    // Borrowing again from the same lender tops up the loan
+    const again = borrowFromMarket(after, 'sloop-1', 100, 6, lendingConfig).book;
+    expect(again.lending.loans).toHaveLength(1);
+    expect(again.lending.loans[0].principal).toBe(300);
+  });
+
+  it('should lend from cash-rich agents that opt in when islands have no spare funds', () => {
+    const world = setup();
+    for (const [id, island] of world.islands) {
+      world.islands.set(id, { ...island, treasury: lendingConfig.islandMinTreasury });
+    }
+    world.ships.set('sloop-2', { ...world.ships.get('sloop-2')!, cash: 3500 });
+
+    // Agents keep their cash unless they opt in
+    expect(getLoanQuotes(getLendingBook(world), 'sloop-1', 200, lendingConfig)).toHaveLength(0);
+
+    const optedIn = { ...lendingConfig, lendingAgents: ['rival'] };
+    const { book } = borrowFromMarket(getLendingBook(world), 'sloop-1', 200, 0, optedIn);
+    expect(book.lending.loans[0].lender).toEqual({ kind: 'agent', agentId: 'rival', shipId: 'sloop-2' });
+    expect(book.ships.get('sloop-2')!.cash).toBe(3300);
+
+    // Nobody lends to an agent's own fleet
+    const own = { ...world, ships: new Map(world.ships).set('sloop-2', { ...world.ships.get('sloop-2')!, ownerId: 'borrower' }) };
+    expect(getLoanQuotes(getLendingBook(own), 'sloop-1', 200, { ...optedIn, lendingAgents: ['borrower'] })).toHaveLength(0);
+    const validation = new ActionValidator().validate({ type: 'borrow', shipId: 'sloop-1', amount: 200 }, own, 'borrower');
+    expect(validation.errors).toContain('No lender has funds to lend');
+  });
+
+  it('should pay interest and repayments back to the lender and reward repaid loans', () => {
+    const world = setup();
+    const borrowed = borrowFromMarket(getLendingBook(world), 'sloop-1', 200, 0, lendingConfig).book;
+    const lenderId = borrowed.lending.loans[0].lender.kind === 'island' ? borrowed.lending.loans[0].lender.islandId : '';
+    const treasuryAfterLoan = borrowed.islands.get(lenderId)!.treasury;
+    const incomeBefore = world.islands.get(lenderId)!.treasuryIncome;
+    expect(borrowed.islands.get(lenderId)!.treasuryIncome).toBe(incomeBefore);
+
+    // One tick of interest, then a windfall large enough to auto-repay everything
+    // (the rest of the fleet has enough cash not to borrow)
+    const rich = new Map(
+      Array.from(borrowed.ships.values()).map((ship) => [ship.id, { ...ship, cash: ship.id === 'sloop-1' ? 2000 : 100 }])
+    );
+    const { book, creditActivity } = processLending(
+      { ...world, ships: rich, islands: borrowed.islands, lending: borrowed.lending },
+      DEFAULT_CONFIG,
+      1
+    );
+
+    const activity = creditActivity.get('sloop-1')!;
+    const owed = 200 + activity.interestCharged;
+    expect(activity.interestCharged).toBeCloseTo(200 * borrowed.lending.loans[0].interestRatePerTick, 9);
+    expect(activity.debtRepaid).toBeCloseTo(owed, 9);
+    expect(book.islands.get(lenderId)!.treasury).toBeCloseTo(treasuryAfterLoan + owed, 6);
+    // Only the interest is income; the principal just comes back
+    expect(book.islands.get(lenderId)!.treasuryIncome).toBeCloseTo(incomeBefore + activity.interestCharged, 9);
+    expect(book.lending.loans).toHaveLength(0);
+    expect(getCreditRating(book.lending, 'borrower', lendingConfig)).toBeGreaterThan(lendingConfig.initialRating);
+
+    // Partial repayment keeps the loan open
+    const partial = repayLoans(borrowed, 'sloop-1', 50).book;
+    expect(partial.lending.loans[0].outstanding).toBeCloseTo(150, 9);
+  });
+
+  it('should hit lenders and the credit rating when a borrower defaults', () => {
+    const world = setup();
+    const borrowed = borrowFromMarket(getLendingBook(world), 'sloop-1', 400, 0, lendingConfig).book;
+    const loan = borrowed.lending.loans[0];
+    const lenderId = loan.lender.kind === 'island' ? loan.lender.islandId : '';
+    const treasury = borrowed.islands.get(lenderId)!.treasury;
+
+    const settled = settleDefaultedLoans(borrowed, [
+      {
+        tick: 10,
+        agentId: 'borrower',
+        shipId: 'sloop-1',
+        islandId: 'greenbarrow',
+        debt: 400,
+        liquidationProceeds: 0,
+        recovered: 100,
+        writtenOff: 300,
+        surplus: 0,
+        auction: null,
+        outcome: 'restarted',
+      },
+    ]);
+
+    expect(settled.islands.get(lenderId)!.treasury).toBeCloseTo(treasury + 100, 6);
+    expect(settled.lending.loans).toHaveLength(0);
+    expect(getCreditRating(settled.lending, 'borrower', lendingConfig)).toBeCloseTo(
+      lendingConfig.initialRating - lendingConfig.ratingPerDefault,
+      6
+    );
+  });
+
+  it('should route simulation credit through the lending market', () => {
+    const sim = new Simulation(setup(), { seed: 1 });
+
+    const metrics = sim.tick();
+    const loans = sim.getState().lending!.loans;
+    const loan = loans.find((l) => l.shipId === 'sloop-1')!;
+
+    expect(metrics.creditActivity.get('sloop-1')!.creditUsed).toBeCloseTo(loan.principal, 9);
+    expect(loan).toMatchObject({ borrowerId: 'borrower', issuedTick: 1 });
+    expect(loans.every((l) => l.lender.kind === 'island')).toBe(true);
+
+    // Disabled: the system lender creates the money as before
+    const legacy = new Simulation(setup(), {
+      seed: 1,
+      lendingConfig: { ...lendingConfig, enabled: false },
+    });
+    legacy.tick();
+    expect(legacy.getState().lending).toBeUndefined();
+    expect(legacy.getState().ships.get('sloop-1')!.debt).toBeGreaterThan(0);
+  });
+});
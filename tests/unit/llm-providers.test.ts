@@ -0,0 +1,107 @@
+/**
+ * LLM Provider Tests
+ * Verify pluggable providers, provider-aware pricing and client wiring
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LLMClient } from '../../src/llm/client.js';
+import { LLMMetrics } from '../../src/llm/metrics.js';
+import {
+  OpenAICompatibleProvider,
+  ScriptedProvider,
+  createProvider,
+  isLLMProviderId,
+} from '../../src/llm/providers.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Scripted Provider', () => {
+  it('should serve responses in order and repeat the last one', async () => {
+    const client = new LLMClient({ model: 'scripted', provider: new ScriptedProvider(['{"n":1}', '{"n":2}']) });
+
+    expect(await client.completeJSON('a')).toEqual({ n: 1 });
+    expect(await client.completeJSON('b')).toEqual({ n: 2 });
+    expect(await client.completeJSON('c')).toEqual({ n: 2 });
+    expect(client.getProviderId()).toBe('scripted');
+    expect(client.getCallCount()).toBe(3);
+  });
+
+  it('should pass the prompt and call index to a script function', async () => {
+    const provider = new ScriptedProvider((prompt, index) => `${prompt}:${index}`);
+    const request = { model: 'scripted', maxOutputTokens: 100, temperature: 0 };
+
+    expect((await provider.generate({ ...request, prompt: 'x' })).text).toBe('x:0');
+    expect((await provider.generate({ ...request, prompt: 'y' })).text).toBe('y:1');
+  });
+});
+
+describe('OpenAI-Compatible Provider', () => {
+  it('should post chat completions and map usage', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: '{"ok":true}' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1/', apiKey: 'k' });
+    const response = await provider.generate({ prompt: 'hi', model: 'llama3.1', maxOutputTokens: 50, temperature: 0.5 });
+
+    expect(response).toEqual({
+      text: '{"ok":true}',
+      finishReason: 'stop',
+      tokenCount: { prompt: 12, response: 4, total: 16 },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer k');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'hi' }],
+      max_tokens: 50,
+    });
+  });
+
+  it('should surface rate limits as RATE_LIMIT errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('slow down', { status: 429 })));
+
+    const client = new LLMClient({
+      model: 'llama3.1',
+      provider: createProvider('openai', { openai: { baseUrl: 'http://localhost:8080/v1' } }),
+    });
+
+    await expect(client.complete('hi')).rejects.toMatchObject({ code: 'RATE_LIMIT' });
+  });
+});
+
+describe('Provider Pricing', () => {
+  it('should price calls per provider and model', () => {
+    const metrics = new LLMMetrics();
+
+    expect(metrics.calculateCost('gemini-1.5-flash-8b', 1_000_000, 1_000_000)).toBeCloseTo(0.1875);
+    expect(metrics.calculateCost('gpt-4o-mini', 1_000_000, 1_000_000, 'openai')).toBeCloseTo(0.75);
+    expect(metrics.calculateCost('llama3.1', 1_000_000, 1_000_000, 'openai')).toBe(0);
+    expect(metrics.calculateCost('anything', 1_000_000, 1_000_000, 'scripted')).toBe(0);
+    expect(metrics.calculateCost('anything', 1_000_000, 1_000_000, 'unknown')).toBe(0);
+  });
+
+  it('should use overridden provider pricing', () => {
+    const metrics = new LLMMetrics();
+    metrics.setProviderPricing('openai', { models: {}, default: { input: 1, output: 2 } });
+
+    expect(metrics.calculateCost('llama3.1', 1_000_000, 1_000_000, 'openai')).toBeCloseTo(3);
+  });
+
+  it('should recognise provider IDs', () => {
+    expect(isLLMProviderId('openai')).toBe(true);
+    expect(isLLMProviderId('anthropic')).toBe(false);
+    expect(isLLMProviderId(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Navigation Tests
+ * Verify sea-lane routing, obstacles and voyages along lane paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld, DEFAULT_CONFIG } from '../../src/core/world.js';
+import type { SeaLaneGraph, ShipState } from '../../src/core/types.js';
+import { findSeaRoute, getPathTravelHours } from '../../src/systems/navigation.js';
+import { calculateTransportCost, startVoyage, updateShip } from '../../src/systems/shipping.js';
+import { ActionValidator } from '../../src/agents/interfaces/action.js';
+import { parseScenario, ScenarioError } from '../../src/scenarios/index.js';
+
+function dockedShip(islandId: string): ShipState {
+  const world = initializeWorld(1);
+  const ship = Array.from(world.ships.values())[0];
+  return { ...ship, cargo: new Map(), location: { kind: 'at_island', islandId } };
+}
+
+describe('Sea-lane routing', () => {
+  const world = initializeWorld(1);
+  const graph = world.seaLanes!;
+
+  it('should take the reef strait when shortest and the outer banks when safest', () => {
+    const shortest = findSeaRoute('shoalhold', 'timberwake', world.islands, graph, 'shortest')!;
+    const safest = findSeaRoute('shoalhold', 'timberwake', world.islands, graph, 'safest')!;
+
+    expect(shortest.nodeIds).toEqual(['shoalhold', 'timberwake']);
+    expect(shortest.legs[0].danger).toBeCloseTo(0.6, 6); // Lane 0.2 + reef 0.4
+    expect(safest.nodeIds).toEqual(['shoalhold', 'outer-banks', 'timberwake']);
+    expect(safest.length).toBeGreaterThan(shortest.length);
+    expect(Math.max(...safest.legs.map((leg) => leg.danger))).toBeLessThan(0.1);
+  });
+
+  it('should close lanes through impassable zones', () => {
+    const blocked: SeaLaneGraph = {
+      ...graph,
+      obstacles: [
+        ...graph.obstacles,
+        { id: 'wall', kind: 'impassable', center: { x: 250, y: 225 }, radius: 30, danger: 0 },
+      ],
+    };
+
+    // Greenbarrow's only other lane leads to Shoalhold
+    const detour = findSeaRoute('greenbarrow', 'timberwake', world.islands, blocked)!;
+    expect(detour.nodeIds[1]).toBe('shoalhold');
+
+    const isolated: SeaLaneGraph = { ...blocked, lanes: graph.lanes.filter((l) => l.id !== 'northern-passage') };
+    expect(findSeaRoute('greenbarrow', 'timberwake', world.islands, isolated)).toBeNull();
+
+    const ship = dockedShip('greenbarrow');
+    expect(() => startVoyage(ship, 'timberwake', world.islands, [], isolated)).toThrow(/No sea route/);
+
+    const validator = new ActionValidator();
+    const result = validator.validate(
+      { type: 'navigate', shipId: ship.id, destinationId: 'timberwake' },
+      { ...world, seaLanes: isolated, ships: new Map([[ship.id, ship]]) },
+      ship.ownerId
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('No sea route');
+  });
+
+  it('should price voyages by path length', () => {
+    const straight = calculateTransportCost('shoalhold', 'timberwake', 10, world.islands, DEFAULT_CONFIG);
+    const safe = calculateTransportCost('shoalhold', 'timberwake', 10, world.islands, DEFAULT_CONFIG, graph, 'safest');
+    const path = findSeaRoute('shoalhold', 'timberwake', world.islands, graph, 'safest')!;
+
+    expect(safe.distanceCost).toBeCloseTo(path.length * DEFAULT_CONFIG.costPerDistanceUnit, 6);
+    expect(safe.distanceCost).toBeGreaterThan(straight.distanceCost);
+  });
+
+  it('should sail a voyage along the path legs and charge for the path sailed', () => {
+    const ship = dockedShip('shoalhold');
+    const location = startVoyage(ship, 'timberwake', world.islands, [], graph, 'safest');
+    if (location.kind !== 'at_sea') throw new Error('expected to be at sea');
+
+    const path = location.route.path!;
+    expect(location.route.etaHours).toBeCloseTo(getPathTravelHours(path, ship.speed), 6);
+
+    let current: ShipState = { ...ship, location };
+    let passedWaypoint = false;
+    let transportCost = 0;
+    for (let tick = 0; tick < 100 && current.location.kind === 'at_sea'; tick++) {
+      const result = updateShip(current, world.islands, world.goods, [], 1, DEFAULT_CONFIG, tick);
+      current = result.newShip;
+      transportCost = result.transportCost;
+      if (current.location.kind === 'at_sea' && current.location.position.x < 90) {
+        passedWaypoint = true; // Straight line never goes west of x = 100
+      }
+    }
+
+    expect(passedWaypoint).toBe(true);
+    expect(current.location).toEqual({ kind: 'at_island', islandId: 'timberwake' });
+    expect(current.totalDistanceTraveled - ship.totalDistanceTraveled).toBeCloseTo(path.length, 3);
+    expect(transportCost).toBeCloseTo(
+      DEFAULT_CONFIG.baseVoyageCost + path.length * DEFAULT_CONFIG.costPerDistanceUnit,
+      6
+    );
+  });
+
+  it('should validate sea lanes in scenarios', () => {
+    const scenario = `
+name: Lanes
+islands:
+  - id: alpha
+    name: Alpha
+    position: { x: 0, y: 0 }
+    archetype: fishing
+    population: { size: 300 }
+    ecosystem: { fishStock: 500, forestBiomass: 100, soilFertility: 0.3 }
+    ecosystemParams: { fishCapacity: 800, forestCapacity: 200 }
+seaLanes:
+  waypoints: [{ id: cape, position: { x: 50, y: 50 } }]
+  lanes:
+    - { id: a-cape, from: alpha, to: cape }
+    - { id: cape-nowhere, from: cape, to: nowhere, danger: 0.5 }
+`;
+
+    try {
+      parseScenario(scenario, 'yaml');
+      expect.fail('expected ScenarioError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScenarioError);
+      expect((error as ScenarioError).issues.join('\n')).toContain("Unknown island or waypoint 'nowhere'");
+    }
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Player Agent Tests
+ * Verify submitted actions are validated, queued and executed on the next tick
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld } from '../../src/core/world.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { PlayerAgent } from '../../src/agents/players/player-agent.js';
+import { createNavigateAction, createTradeAction } from '../../src/agents/interfaces/action.js';
+import type { WorldState } from '../../src/core/types.js';
+
+function playerWorld(): WorldState {
+  const world = initializeWorld(42);
+  const ship = world.ships.get('sloop-1')!;
+  world.ships.set('sloop-1', { ...ship, ownerId: 'player-1' });
+  return world;
+}
+
+describe('Player Agent', () => {
+  it('should return per-action validation results and queue only valid actions', () => {
+    const world = playerWorld();
+    const player = new PlayerAgent('player-1', 'Player', { cash: 0, shipIds: ['sloop-1'] });
+
+    const results = player.submitActions(
+      [
+        createTradeAction('sloop-1', 'greenbarrow', [{ goodId: 'grain', quantity: 5 }]),
+        createNavigateAction('sloop-2', 'shoalhold'), // owned by trader-alpha
+        { type: 'trade', shipId: 'sloop-1' }, // missing fields
+        'sail away',
+      ],
+      world
+    );
+
+    expect(results.map((r) => r.accepted)).toEqual([true, false, false, false]);
+    expect(results[1].errors.join(' ')).toMatch(/sloop-2/);
+    expect(results[3].errors).toEqual(['Action must be an object with a string type']);
+    expect(player.getQueuedActions()).toHaveLength(1);
+  });
+
+  it('should execute queued actions alongside other agents on the next tick', async () => {
+    const world = playerWorld();
+    const player = new PlayerAgent('player-1', 'Player', { cash: 0, shipIds: ['sloop-1'] });
+    const manager = new AgentManager();
+    manager.registerAgent(player, world);
+
+    const cargoBefore = world.ships.get('sloop-1')!.cargo.get('grain') ?? 0;
+    player.submitActions([createTradeAction('sloop-1', 'greenbarrow', [{ goodId: 'grain', quantity: 5 }])], world);
+
+    const { newWorld } = await manager.processTick(world);
+
+    expect(newWorld.ships.get('sloop-1')!.cargo.get('grain')).toBe(cargoBefore + 5);
+    expect(player.getQueuedActions()).toHaveLength(0);
+    expect(player.getRecentResults()).toHaveLength(1);
+    expect(player.getRecentResults()[0].result.success).toBe(true);
+
+    // Nothing queued: the next tick does nothing
+    const next = await manager.processTick(newWorld);
+    expect(next.results.flatMap((r) => r.actions)).toHaveLength(0);
+  });
+});
@@ -10,8 +10,10 @@ import {
   calculateSectorWages,
   updatePopulation,
   getLaborMarketIndicators,
+  applyMigration,
 } from '../../src/systems/population.js';
-import { DEFAULT_CONFIG, SECTORS } from '../../src/core/world.js';
+import { DEFAULT_CONFIG, SECTORS, initializeWorld } from '../../src/core/world.js';
+import { Simulation } from '../../src/core/simulation.js';
 import type { IslandState, Sector } from '../../src/core/types.js';
 
 describe('calculateGrowthMultiplier', () => {
@@ -474,3 +476,60 @@ describe('Wage Calculation Edge Cases', () => {
     }
   });
 });
+
+describe('Population Migration', () => {
+  const config = DEFAULT_CONFIG;
+
+  function createFamineWorld(deficitTicks: number) {
+    const world = initializeWorld(42);
+    const island = world.islands.get('shoalhold')!;
+    const inventory = new Map(island.inventory);
+    inventory.set('fish', 0);
+    inventory.set('grain', 0);
+    world.islands.set('shoalhold', {
+      ...island,
+      inventory,
+      population: { ...island.population, health: 0.5 },
+      foodDeficitTicks: deficitTicks,
+    });
+    return world;
+  }
+
+  function totalPopulation(islands: Map<string, IslandState>): number {
+    let total = 0;
+    for (const island of islands.values()) total += island.population.size;
+    return total;
+  }
+
+  it('should move people away after a sustained food deficit', () => {
+    const world = createFamineWorld(config.migrationConfig.deficitThresholdTicks);
+    const { newIslands, result } = applyMigration(world.islands, config, 1);
+
+    expect(result.migrations).toHaveLength(1);
+    const migration = result.migrations[0];
+    expect(migration.fromIslandId).toBe('shoalhold');
+    expect(migration.migrants).toBeGreaterThan(0);
+    expect(Number.isInteger(migration.migrants)).toBe(true);
+
+    const before = world.islands.get('shoalhold')!.population.size;
+    expect(newIslands.get('shoalhold')!.population.size).toBe(before - migration.migrants);
+    expect(totalPopulation(newIslands)).toBe(totalPopulation(world.islands));
+  });
+
+  it('should not migrate before the deficit threshold', () => {
+    const world = createFamineWorld(config.migrationConfig.deficitThresholdTicks - 1);
+    const { result } = applyMigration(world.islands, config, 1);
+
+    expect(result.totalMigrants).toBe(0);
+  });
+
+  it('should record migrations in tick metrics', () => {
+    const world = createFamineWorld(config.migrationConfig.deficitThresholdTicks);
+    const sim = new Simulation(world, { seed: 42 });
+
+    const metrics = sim.tick();
+
+    expect(metrics.migration.totalMigrants).toBeGreaterThan(0);
+    expect(sim.getState().islands.get('shoalhold')!.foodDeficitTicks).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Production System Tests
+ * Verify recipe inputs for processed goods
+ */
+
+import { describe, it, expect } from 'vitest';
+import { updateProduction } from '../../src/systems/production.js';
+import { DEFAULT_CONFIG, initializeWorld } from '../../src/core/world.js';
+import type { IslandState, WorldEvent } from '../../src/core/types.js';
+
+const config = DEFAULT_CONFIG;
+const noEvents: WorldEvent[] = [];
+
+function withInventory(island: IslandState, stock: Record<string, number>): IslandState {
+  const inventory = new Map(island.inventory);
+  for (const [goodId, amount] of Object.entries(stock)) {
+    inventory.set(goodId, amount);
+  }
+  return { ...island, inventory };
+}
+
+describe('Recipe Production', () => {
+  const world = initializeWorld(42);
+  const island = world.islands.get('timberwake')!;
+
+  it('should draw recipe inputs from inventory', () => {
+    const stocked = withInventory(island, { timber: 1000, grain: 1000, tools: 100 });
+    const result = updateProduction(stocked, ['tools'], config, noEvents, 1, 0, undefined, world.goods);
+
+    const tools = result.produced.get('tools')!;
+    expect(tools).toBeGreaterThan(0);
+    expect(result.inputsConsumed.get('timber')).toBeCloseTo(tools, 10);
+    expect(result.newInventory.get('timber')).toBeCloseTo(1000 - tools, 10);
+    expect(result.constrained.get('tools')).toBe(false);
+  });
+
+  it('should cap production by the scarcest input', () => {
+    const starved = withInventory(island, { grain: 0.2, tools: 100 });
+    const result = updateProduction(starved, ['luxuries'], config, noEvents, 1, 0, undefined, world.goods);
+
+    // 2 grain per luxury: at most 0.1 luxuries from 0.2 grain
+    expect(result.produced.get('luxuries')).toBeCloseTo(0.1, 10);
+    expect(result.newInventory.get('grain')).toBeCloseTo(0, 10);
+    expect(result.constrained.get('luxuries')).toBe(true);
+  });
+
+  it('should produce nothing without inputs', () => {
+    const empty = withInventory(island, { timber: 0 });
+    const result = updateProduction(empty, ['tools'], config, noEvents, 1, 0, undefined, world.goods);
+
+    expect(result.produced.get('tools')).toBe(0);
+  });
+
+  it('should keep base-rate production when no definitions are given', () => {
+    const empty = withInventory(island, { timber: 0 });
+    const result = updateProduction(empty, ['tools'], config, noEvents, 1);
+
+    expect(result.produced.get('tools')).toBeGreaterThan(0);
+    expect(result.inputsConsumed.size).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * RL Environment Tests
+ * Verify action encoding, rewards, determinism and the policy agent
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld } from '../../src/core/world.js';
+import { TradingEnvironment, shipNetWorth } from '../../src/rl/environment.js';
+import { ActionSpace, encodeShipState } from '../../src/rl/encoding.js';
+import { QLearner, runEpisode } from '../../src/rl/q-learner.js';
+import { RLTraderAgent } from '../../src/agents/traders/rl-trader-agent.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+
+describe('RL Environment', () => {
+  it('should decode discrete actions and mask ones that cannot run', () => {
+    const env = new TradingEnvironment();
+    const observation = env.reset(42);
+    const space = env.getActionSpace();
+    const shipId = 'sloop-1';
+    const islandId = observation.ships.get(shipId)!.location.islandId!;
+
+    const labels = space.specs.map((s) => space.describe(s.index));
+    expect(labels[0]).toBe('wait');
+    expect(labels).toContain(`navigate:${islandId}`);
+
+    const valid = space.validActions(observation, shipId).map((i) => space.describe(i));
+    expect(valid).toContain('wait');
+    expect(valid).toContain('buy:grain');
+    expect(valid).not.toContain(`navigate:${islandId}`);
+    expect(valid).not.toContain('sell:grain'); // empty hold
+
+    const buy = space.decode(labels.indexOf('buy:grain'), observation, shipId);
+    expect(buy).toMatchObject({ type: 'trade', shipId, islandId });
+    expect(encodeShipState(observation, shipId)).toMatch(new RegExp(`^${islandId}\\|empty\\|`));
+  });
+
+  it('should reward the change in net worth and penalise rejected actions', async () => {
+    const env = new TradingEnvironment({ invalidActionPenalty: 10 });
+    env.reset(42);
+    const shipIds = env.getShipIds();
+    const before = env.getNetWorth();
+
+    const sellIndex = env.getActionSpace().specs.findIndex((s) => s.kind === 'sell');
+    const result = await env.step([sellIndex]); // first ship sells from an empty hold
+
+    expect(result.info.rejected).toBe(1);
+    expect(result.info.shipRewards).toHaveLength(shipIds.length);
+    expect(result.reward).toBeCloseTo(env.getNetWorth() - before - 10, 6);
+    expect(result.info.netWorth).toBeCloseTo(
+      shipIds.reduce((sum, id) => sum + shipNetWorth(env.getState(), id), 0),
+      6
+    );
+  });
+
+  it('should produce identical episodes and policies for the same seeds', async () => {
+    const train = async () => {
+      const env = new TradingEnvironment({ maxSteps: 15 });
+      env.reset(7);
+      const learner = new QLearner(env.getActionSpace().size, { seed: 3 });
+      const stats = [await runEpisode(env, learner, 7), await runEpisode(env, learner, 8)];
+      return { stats, policy: learner.toJSON() };
+    };
+
+    const a = await train();
+    const b = await train();
+    expect(a.stats).toEqual(b.stats);
+    expect(a.policy).toEqual(b.policy);
+    expect(a.stats[0].steps).toBe(15);
+    expect(a.policy.episodes).toBe(2);
+  });
+
+  it('should trade with a trained policy as an agent', async () => {
+    const world = initializeWorld(42);
+    const space = ActionSpace.fromWorld(world);
+    const buyGrain = space.specs.findIndex((s) => s.kind === 'buy' && s.targetId === 'grain');
+
+    // Hand-made policy: always buy grain when possible
+    const learner = new QLearner(space.size);
+    const observation = new TradingEnvironment().reset(42);
+    const state = encodeShipState(observation, 'sloop-1');
+    learner.update(state, buyGrain, 100, state, [], true);
+
+    const agent = new RLTraderAgent('trader-alpha', 'RL Alpha', { cash: 0, shipIds: [] }, learner.toJSON());
+    const manager = new AgentManager();
+    manager.registerAgent(agent, world);
+    const { results } = await manager.processTick(world);
+
+    const trades = results[0].results.filter((r) => r.action.type === 'trade');
+    expect(trades.length).toBeGreaterThan(0);
+    expect(trades.every((r) => r.success)).toBe(true);
+
+    expect(() => new RLTraderAgent('x', 'X', { cash: 0, shipIds: [] }, new QLearner(3).toJSON()).initialize(world))
+      .toThrow(/retrain/);
+  });
+});
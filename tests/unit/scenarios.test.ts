@@ -0,0 +1,133 @@
+/**
+ * Scenario Loader Tests
+ * Verify scenario parsing, validation and world building
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseScenario,
+  loadScenario,
+  buildWorldFromScenario,
+  ScenarioError,
+} from '../../src/scenarios/index.js';
+import { Simulation } from '../../src/core/simulation.js';
+import { DEFAULT_CONFIG } from '../../src/core/world.js';
+
+const MINIMAL_YAML = `
+name: Minimal
+seed: 99
+islands:
+  - id: alpha
+    name: Alpha
+    position: { x: 0, y: 0 }
+    archetype: fishing
+    population: { size: 300 }
+    ecosystem: { fishStock: 500, forestBiomass: 100, soilFertility: 0.3 }
+    ecosystemParams: { fishCapacity: 800, forestCapacity: 200 }
+    inventory: { grain: 42 }
+  - id: beta
+    name: Beta
+    position: { x: 100, y: 0 }
+    archetype: agricultural
+    population: { size: 400, health: 0.9 }
+    ecosystem: { fishStock: 100, forestBiomass: 150, soilFertility: 0.8 }
+    ecosystemParams: { fishCapacity: 200, forestCapacity: 300 }
+ships:
+  - { id: ship-1, name: Test, ownerId: trader-1, islandId: beta, capacity: 50, speed: 10, cash: 500 }
+agents:
+  - { id: trader-1, type: trader, name: Tester, shipIds: [ship-1] }
+config:
+  transactionTaxRate: 0.1
+  migrationConfig: { famineRate: 0.02 }
+`;
+
+describe('Scenario Loader', () => {
+  it('should build a world from YAML with archetype defaults and overrides', () => {
+    const scenario = parseScenario(MINIMAL_YAML, 'yaml');
+    const { world, config } = buildWorldFromScenario(scenario);
+
+    expect(world.rngState).toBe(99);
+    expect(world.islands.size).toBe(2);
+    expect(world.islands.get('alpha')!.inventory.get('grain')).toBe(42);
+    expect(world.islands.get('alpha')!.treasury).toBe(3000);
+    expect(world.islands.get('beta')!.population.health).toBe(0.9);
+    expect(world.ships.get('ship-1')!.location).toEqual({ kind: 'at_island', islandId: 'beta' });
+    expect(world.shipyards.has('shipyard-alpha')).toBe(true);
+    expect(world.goods.size).toBe(5);
+
+    expect(config.seed).toBe(99);
+    expect(config.transactionTaxRate).toBe(0.1);
+    expect(config.migrationConfig.famineRate).toBe(0.02);
+    expect(config.migrationConfig.deficitThresholdTicks).toBe(
+      DEFAULT_CONFIG.migrationConfig.deficitThresholdTicks
+    );
+  });
+
+  it('should reject references to unknown islands and ships', () => {
+    const broken = MINIMAL_YAML.replace('islandId: beta', 'islandId: gamma').replace(
+      'shipIds: [ship-1]',
+      'shipIds: [ship-9]'
+    );
+
+    try {
+      parseScenario(broken, 'yaml');
+      expect.fail('expected ScenarioError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScenarioError);
+      const issues = (error as ScenarioError).issues.join('\n');
+      expect(issues).toContain("Unknown island 'gamma'");
+      expect(issues).toContain("Unknown ship 'ship-9'");
+    }
+  });
+
+  it('should reject a second shipyard on the same island', () => {
+    const twoYards = MINIMAL_YAML.replace(
+      'config:',
+      'shipyards:\n  - { islandId: alpha, name: North Yard }\n  - { islandId: alpha, name: South Yard }\nconfig:'
+    );
+    expect(() => parseScenario(twoYards, 'yaml')).toThrow(/Island 'alpha' already has a shipyard/);
+  });
+
+  it('should reject unknown config keys', () => {
+    const scenario = parseScenario(MINIMAL_YAML.replace('transactionTaxRate', 'taxRateTypo'), 'yaml');
+    expect(() => buildWorldFromScenario(scenario)).toThrow(ScenarioError);
+
+    // Inherited keys are not config keys either
+    for (const key of ['constructor', 'toString']) {
+      const inherited = parseScenario(MINIMAL_YAML.replace('transactionTaxRate', key), 'yaml');
+      expect(() => buildWorldFromScenario(inherited)).toThrow(/Unknown config key/);
+    }
+  });
+
+  it('should reject config values of the wrong type', () => {
+    const wrongTypes = MINIMAL_YAML.replace('transactionTaxRate: 0.1', 'transactionTaxRate: high').replace(
+      'migrationConfig: { famineRate: 0.02 }',
+      'migrationConfig: { famineRate: [0.02] }'
+    );
+
+    try {
+      buildWorldFromScenario(parseScenario(wrongTypes, 'yaml'));
+      expect.fail('expected ScenarioError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScenarioError);
+      expect((error as ScenarioError).issues).toEqual([
+        'config.transactionTaxRate: Expected a number, got a string',
+        'config.migrationConfig.famineRate: Expected a number, got an array',
+      ]);
+    }
+  });
+
+  it('should run the bundled scenarios deterministically', () => {
+    for (const path of ['scenarios/ten-islands.yaml', 'scenarios/twin-isles.json']) {
+      const first = loadScenario(path);
+      const second = loadScenario(path);
+      const sim1 = new Simulation(first.world, first.config);
+      const sim2 = new Simulation(second.world, second.config);
+
+      sim1.run(24);
+      sim2.run(24);
+
+      expect(sim1.getTickHistory()).toEqual(sim2.getTickHistory());
+    }
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Seasons Tests
+ * Verify the calendar and seasonal effects on ecology, harvests and events
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld, tickToGameTime, DEFAULT_CONFIG } from '../../src/core/world.js';
+import { SeededRNG } from '../../src/core/rng.js';
+import type { Season } from '../../src/core/types.js';
+import { SEASONS, getSeasonModifiers } from '../../src/systems/seasons.js';
+import { updateEcology } from '../../src/systems/ecology.js';
+import { updateProduction } from '../../src/systems/production.js';
+import { generateEvents } from '../../src/systems/events.js';
+
+const seasonsConfig = DEFAULT_CONFIG.seasonsConfig;
+const ticksPerSeason = seasonsConfig.daysPerSeason * 24;
+
+describe('Seasons', () => {
+  it('should expose the season and day of year in game time', () => {
+    expect(tickToGameTime(0)).toMatchObject({ gameDay: 0, dayOfYear: 0, season: 'spring', year: 0 });
+    expect(tickToGameTime(ticksPerSeason * 2 + 30)).toMatchObject({
+      dayOfYear: seasonsConfig.daysPerSeason * 2 + 1,
+      season: 'autumn',
+    });
+    expect(tickToGameTime(ticksPerSeason * 4)).toMatchObject({ dayOfYear: 0, season: 'spring', year: 1 });
+    expect(tickToGameTime(48, { ...seasonsConfig, daysPerSeason: 1 }).season).toBe('autumn');
+  });
+
+  it('should average the default modifiers to one over a year', () => {
+    const keys = Object.keys(seasonsConfig.modifiers.spring) as Array<keyof typeof seasonsConfig.modifiers.spring>;
+    for (const key of keys) {
+      const mean = SEASONS.reduce((sum, season) => sum + seasonsConfig.modifiers[season][key], 0) / SEASONS.length;
+      expect(mean, key).toBeCloseTo(1, 6);
+    }
+    expect(getSeasonModifiers('winter', { ...seasonsConfig, enabled: false }).grainProductionMultiplier).toBe(1);
+  });
+
+  it('should spawn fish in spring and harvest grain in autumn', () => {
+    const island = initializeWorld(1).islands.get('greenbarrow')!;
+    const depleted = { ...island, ecosystem: { ...island.ecosystem, fishStock: island.ecosystemParams.fishCapacity * 0.7 } };
+    const harvest = { fish: 0, timber: 0 };
+
+    const fishIn = (season: Season) =>
+      updateEcology(depleted, harvest, DEFAULT_CONFIG, [], 1, season).fishStock - depleted.ecosystem.fishStock;
+    expect(fishIn('spring')).toBeGreaterThan(fishIn('winter'));
+    expect(fishIn('spring') / fishIn('winter')).toBeCloseTo(1.4 / 0.6, 6);
+
+    const grainIn = (season: Season) =>
+      updateProduction(island, ['grain'], DEFAULT_CONFIG, [], 1, 0, undefined, undefined, season).produced.get('grain')!;
+    expect(grainIn('autumn') / grainIn('winter')).toBeCloseTo(1.4 / 0.5, 6);
+    expect(grainIn('autumn')).toBeGreaterThan(grainIn('spring'));
+  });
+
+  it('should hold more festivals in autumn than winter', () => {
+    const world = initializeWorld(1);
+    const festivals = (season: Season) => {
+      const rng = new SeededRNG(5);
+      const state = { ...world, gameTime: { ...world.gameTime, season } };
+      let count = 0;
+      for (let i = 0; i < 300; i++) {
+        count += generateEvents(state, rng, 50, seasonsConfig).filter((e) => e.type === 'festival').length;
+      }
+      return count;
+    };
+
+    expect(festivals('autumn')).toBeGreaterThan(festivals('winter') * 1.5);
+  });
+});
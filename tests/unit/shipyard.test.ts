@@ -0,0 +1,123 @@
+/**
+ * Shipyard System Tests
+ * Verify ship orders through the agent action pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_BLUEPRINTS } from '../../src/systems/shipyard.js';
+import { Simulation } from '../../src/core/simulation.js';
+import { initializeWorld } from '../../src/core/world.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { BaseAgent, type Decision } from '../../src/agents/interfaces/agent.js';
+import { ObservableBuilder, type ObservableState } from '../../src/agents/interfaces/observable.js';
+import {
+  ActionValidator,
+  createOrderShipAction,
+  createCancelShipOrderAction,
+  type Action,
+} from '../../src/agents/interfaces/action.js';
+import type { WorldState } from '../../src/core/types.js';
+
+function createWorldWithMaterials(): WorldState {
+  const world = initializeWorld(42);
+  const island = world.islands.get('greenbarrow')!;
+  const inventory = new Map(island.inventory);
+  inventory.set('timber', 500);
+  inventory.set('tools', 500);
+  world.islands.set('greenbarrow', { ...island, inventory });
+  return world;
+}
+
+/**
+ * Agent that submits a fixed list of actions once
+ */
+class ScriptedAgent extends BaseAgent {
+  constructor(private pending: Action[]) {
+    super('trader-alpha', 'trader', 'Scripted', {
+      id: 'trader-alpha',
+      type: 'trader',
+      name: 'Scripted',
+      assets: { cash: 0, shipIds: ['sloop-1', 'sloop-2', 'sloop-3', 'clipper-1', 'sloop-4'] },
+    });
+  }
+
+  observe(world: WorldState): ObservableState {
+    return new ObservableBuilder().build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  shouldReason(): boolean {
+    return false;
+  }
+
+  async reason(): Promise<Decision> {
+    const actions = this.pending;
+    this.pending = [];
+    return { actions };
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+}
+
+describe('Shipyard Actions', () => {
+  it('should validate ship orders against resources and shipyard status', () => {
+    const world = createWorldWithMaterials();
+    const validator = new ActionValidator();
+
+    // sloop-1 starts docked at greenbarrow
+    const order = createOrderShipAction('sloop-1', 'shipyard-greenbarrow', 'cutter', 'Gull');
+    expect(validator.validate(order, world, 'trader-alpha').valid).toBe(true);
+
+    const wrongYard = createOrderShipAction('sloop-1', 'shipyard-shoalhold', 'cutter', 'Gull');
+    expect(validator.validate(wrongYard, world, 'trader-alpha').valid).toBe(false);
+
+    const unknown = createOrderShipAction('sloop-1', 'shipyard-greenbarrow', 'galleon', 'Gull');
+    expect(validator.validate(unknown, world, 'trader-alpha').valid).toBe(false);
+
+    const broke = { ...world, ships: new Map(world.ships) };
+    broke.ships.set('sloop-1', { ...world.ships.get('sloop-1')!, cash: 0 });
+    const result = validator.validate(order, broke, 'trader-alpha');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Coins');
+
+    const cancel = createCancelShipOrderAction('sloop-1', 'shipyard-greenbarrow');
+    expect(validator.validate(cancel, world, 'trader-alpha').valid).toBe(false);
+  });
+
+  it('should build an ordered ship and hand it to the owning agent', async () => {
+    const world = createWorldWithMaterials();
+    const blueprint = DEFAULT_BLUEPRINTS.get('cutter')!;
+    const cashBefore = world.ships.get('sloop-1')!.cash;
+
+    const agent = new ScriptedAgent([
+      createOrderShipAction('sloop-1', 'shipyard-greenbarrow', 'cutter', 'Gull'),
+    ]);
+    const manager = new AgentManager();
+    manager.registerAgent(agent, world);
+
+    const sim = new Simulation(world, { seed: 42 });
+    const { newWorld } = await manager.processTick(sim.getState());
+    sim.updateState(newWorld);
+
+    const afterOrder = sim.getState();
+    expect(afterOrder.ships.get('sloop-1')!.cash).toBe(cashBefore - blueprint.coinCost);
+    expect(afterOrder.shipyards.get('shipyard-greenbarrow')!.currentOrder?.shipName).toBe('Gull');
+
+    const observation = agent.observe(afterOrder);
+    const yard = observation.shipyards.get('shipyard-greenbarrow')!;
+    expect(yard.isBuilding).toBe(true);
+    expect(yard.currentOrder?.isOwn).toBe(true);
+
+    const metrics = sim.run(blueprint.buildTicks);
+    const completions = metrics.flatMap((m) => m.shipyardCompletions);
+    expect(completions).toHaveLength(1);
+
+    const newShip = sim.getState().ships.get(completions[0].shipId)!;
+    expect(newShip.ownerId).toBe('trader-alpha');
+    expect(newShip.name).toBe('Gull');
+
+    await manager.processTick(sim.getState());
+    expect(agent.getState().assets.shipIds).toContain(newShip.id);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Structured LLM Output Tests
+ * Verify schema validation, repair retries and their budgets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMockLLMClient } from '../../src/llm/client.js';
+import { LLMMetrics, llmMetrics } from '../../src/llm/metrics.js';
+import { RateLimiter, createRateLimiter } from '../../src/llm/rate-limiter.js';
+import { completeStructured, validateStructured } from '../../src/llm/structured.js';
+import { StrategyResponseSchema } from '../../src/agents/traders/strategist.js';
+import { ImprovementResponseSchema } from '../../src/analyst/prompts.js';
+
+const VALID_STRATEGY = JSON.stringify({
+  analysis: 'ok',
+  strategy: {
+    primaryGoal: 'profit',
+    targetRoutes: [{ from: 'greenbarrow', to: 'timberwake', goods: ['grain'], priority: 1 }],
+    riskTolerance: 'medium',
+  },
+  reasoning: 'ok',
+});
+
+describe('Structured Output', () => {
+  it('should report schema issues by path', () => {
+    const result = validateStructured('```json\n{"analysis":"x","strategy":{"primaryGoal":"win"}}\n```', StrategyResponseSchema);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('strategy.primaryGoal');
+      expect(result.error).toContain('reasoning');
+    }
+    expect(validateStructured('not json', ImprovementResponseSchema)).toEqual({
+      success: false,
+      error: 'Response is not valid JSON',
+    });
+  });
+
+  it('should repair an invalid response using the validation error', async () => {
+    const prompts: string[] = [];
+    const client = createMockLLMClient((prompt) => {
+      prompts.push(prompt);
+      return prompts.length === 1 ? '{"analysis": "missing strategy"}' : VALID_STRATEGY;
+    });
+    const limiter = createRateLimiter('unlimited');
+    const repairedBefore = llmMetrics.getSummary().structuredOutput.repaired;
+
+    const result = await completeStructured(client, 'PROMPT', StrategyResponseSchema, {
+      label: 'strategy',
+      rateLimiter: limiter,
+    });
+
+    expect(result.repairs).toBe(1);
+    expect(result.data.strategy.targetRoutes[0].from).toBe('greenbarrow');
+    expect(prompts[1]).toContain('PROMPT');
+    expect(prompts[1]).toContain('strategy: Required');
+    expect(limiter.getStatus().repairsMade).toBe(1);
+    expect(llmMetrics.getSummary().structuredOutput.repaired).toBe(repairedBefore + 1);
+  });
+
+  it('should stop repairing at the per-response and session budgets', async () => {
+    const client = createMockLLMClient(() => '{}');
+
+    const perResponse = new RateLimiter({ minIntervalMs: 0, maxRepairsPerResponse: 2, maxRepairsPerSession: 10 });
+    await expect(
+      completeStructured(client, 'p', ImprovementResponseSchema, { label: 'improvement', rateLimiter: perResponse })
+    ).rejects.toMatchObject({ code: 'SCHEMA_ERROR' });
+    expect(client.getCallCount()).toBe(3);
+
+    const session = new RateLimiter({ minIntervalMs: 0, maxRepairsPerResponse: 5, maxRepairsPerSession: 1 });
+    client.resetCallCount();
+    await expect(
+      completeStructured(client, 'p', ImprovementResponseSchema, { label: 'improvement', rateLimiter: session })
+    ).rejects.toThrow(/Invalid improvement response/);
+    expect(client.getCallCount()).toBe(2);
+    expect(session.canRepair()).toBe(false);
+  });
+
+  it('should count parse failures and repairs separately from calls', () => {
+    const metrics = new LLMMetrics();
+    metrics.recordStructuredEvent({ kind: 'parse_failure', label: 'strategy', attempt: 0, error: 'bad' });
+    metrics.recordStructuredEvent({ kind: 'repair', label: 'strategy', attempt: 1 });
+
+    const summary = metrics.getSummary();
+    expect(summary.totalCalls).toBe(0);
+    expect(summary.structuredOutput).toMatchObject({ parseFailures: 1, repairs: 1, repaired: 0 });
+    expect(summary.structuredOutput.recentEvents.map((e) => e.kind)).toEqual(['parse_failure', 'repair']);
+  });
+});
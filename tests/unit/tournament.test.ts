@@ -0,0 +1,91 @@
+/**
+ * Tournament Tests
+ * Verify entrant specs, interval statistics and ranked reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TournamentError,
+  buildReport,
+  formatMarkdown,
+  parseEntrantSpec,
+  runTournament,
+  summarize,
+  summarizeRate,
+  type MatchResult,
+} from '../../src/tournament/index.js';
+
+function match(entrantId: string, seed: number, finalNetWorth: number, bankrupt = false): MatchResult {
+  return {
+    entrantId,
+    seed,
+    initialNetWorth: 1000,
+    finalNetWorth,
+    roi: (finalNetWorth - 1000) / 1000,
+    bankrupt,
+    shipsLost: 0,
+    trades: 1,
+    llm: { calls: 2, tokens: 100, costUsd: 0.01 },
+  };
+}
+
+describe('Tournament', () => {
+  it('should parse entrant specs', () => {
+    expect(parseEntrantSpec('rules:aggressive')).toMatchObject({ id: 'rules:aggressive', kind: 'rules' });
+    expect(parseEntrantSpec('llm')).toMatchObject({ id: 'llm:scripted', provider: 'scripted' });
+    expect(parseEntrantSpec('llm:openai:llama3.1:8b')).toMatchObject({ provider: 'openai', model: 'llama3.1:8b' });
+    expect(() => parseEntrantSpec('rules:reckless')).toThrow(TournamentError);
+    expect(() => parseEntrantSpec('rules:toString')).toThrow(TournamentError);
+    expect(() => parseEntrantSpec('rl:/nonexistent/policy.json')).toThrow(/Cannot read policy/);
+  });
+
+  it('should compute t intervals and Wilson rate intervals', () => {
+    const stats = summarize([10, 12, 14]);
+    expect(stats.mean).toBe(12);
+    expect(stats.stdDev).toBe(2);
+    expect(stats.ciHigh - stats.mean).toBeCloseTo(4.303 * (2 / Math.sqrt(3)), 6);
+    expect(summarize([5]).ciHigh).toBe(Infinity);
+
+    const none = summarizeRate(0, 10);
+    expect(none.ciLow).toBe(0);
+    expect(none.ciHigh).toBeCloseTo(0.2775, 3);
+  });
+
+  it('should rank entrants and exclude failed matches', () => {
+    const report = buildReport(
+      [
+        match('steady', 1, 2000), match('steady', 2, 2010), match('steady', 3, 1990),
+        match('risky', 1, 500, true), match('risky', 2, 900), match('risky', 3, 100, true),
+        { ...match('risky', 4, 0), error: 'boom' },
+      ],
+      { entrants: ['risky', 'steady'], seeds: [1, 2, 3, 4], ticks: 10, agentId: 'trader-alpha' }
+    );
+
+    expect(report.standings.map((s) => s.entrantId)).toEqual(['steady', 'risky']);
+    expect(report.standings[0].clearlyAheadOfNext).toBe(true);
+    expect(report.standings[1]).toMatchObject({ rank: 2, matches: 4, errors: 1 });
+    expect(report.standings[1].bankruptcy.rate).toBeCloseTo(2 / 3, 6);
+
+    const markdown = formatMarkdown(report);
+    expect(markdown).toContain('| 1* | steady | 2000 [');
+    expect(markdown).toContain('risky: seed 4: boom');
+  });
+
+  it('should play every entrant on every seed reproducibly', async () => {
+    const play = () =>
+      runTournament({
+        entrants: [parseEntrantSpec('rules:cautious'), parseEntrantSpec('llm')],
+        seeds: [1, 2],
+        ticks: 30,
+      });
+
+    const a = await play();
+    const b = await play();
+
+    expect(a.matches).toHaveLength(4);
+    expect(a.matches.every((m) => m.error === undefined && m.initialNetWorth > 0)).toBe(true);
+    expect(a.matches.find((m) => m.entrantId === 'llm:scripted')!.llm.calls).toBeGreaterThan(0);
+    expect(a.matches.map((m) => m.finalNetWorth)).toEqual(b.matches.map((m) => m.finalNetWorth));
+    expect(a.standings.map((s) => s.entrantId)).toEqual(b.standings.map((s) => s.entrantId));
+  });
+});
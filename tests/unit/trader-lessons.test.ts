@@ -0,0 +1,95 @@
+/**
+ * Trader Lessons Tests
+ * Verify run summaries, merging across runs and prompt injection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld } from '../../src/core/world.js';
+import { ObservableBuilder } from '../../src/agents/interfaces/observable.js';
+import { TraderMemory } from '../../src/agents/traders/memory.js';
+import { Strategist } from '../../src/agents/traders/strategist.js';
+import { formatLessons, mergeLessons } from '../../src/agents/traders/lessons.js';
+import { createMockLLMClient } from '../../src/llm/client.js';
+import { createRateLimiter } from '../../src/llm/rate-limiter.js';
+
+function tradeRun(memory: TraderMemory): void {
+  memory.recordTrade({ tick: 1, shipId: 'sloop-1', islandId: 'greenbarrow', goodId: 'grain', quantity: 10, price: 5, type: 'buy' });
+  memory.recordTrade({ tick: 5, shipId: 'sloop-1', islandId: 'shoalhold', goodId: 'grain', quantity: 10, price: 8, type: 'sell' });
+  memory.recordTrade({ tick: 6, shipId: 'sloop-1', islandId: 'shoalhold', goodId: 'fish', quantity: 20, price: 10, type: 'buy' });
+}
+
+describe('Trader Lessons', () => {
+  it('should summarise route profit, cargo losses and stale islands', () => {
+    const memory = new TraderMemory();
+    tradeRun(memory);
+
+    // 5 of 20 fish spoiled at sea, then the rest sold at a loss
+    memory.reconcileCargo('sloop-1', new Map([['fish', 15]]));
+    memory.recordTrade({ tick: 9, shipId: 'sloop-1', islandId: 'greenbarrow', goodId: 'fish', quantity: 15, price: 9, type: 'sell' });
+
+    memory.recordPriceFreshness('timberwake', true);
+    memory.recordPriceFreshness('timberwake', true);
+    memory.recordPriceFreshness('greenbarrow', false);
+
+    const lessons = memory.summarizeLessons();
+
+    expect(lessons.routes).toEqual([
+      { from: 'greenbarrow', to: 'shoalhold', goodId: 'grain', trades: 1, quantity: 10, profit: 30 },
+      { from: 'shoalhold', to: 'greenbarrow', goodId: 'fish', trades: 1, quantity: 15, profit: -15 },
+    ]);
+    expect(lessons.profit).toBe(15);
+    expect(lessons.cargoLosses).toEqual([{ goodId: 'fish', quantity: 5, value: 50 }]);
+
+    const text = formatLessons(lessons);
+    expect(text).toContain('greenbarrow→shoalhold grain: +30 gold');
+    expect(text).toContain('Losing routes');
+    expect(text).toContain('fish: 5 units');
+    expect(text).toContain('timberwake: stale 100%');
+    expect(text).not.toContain('greenbarrow: stale');
+  });
+
+  it('should merge lessons across runs and survive serialization', () => {
+    const memory = new TraderMemory();
+    tradeRun(memory);
+    const run = memory.summarizeLessons();
+
+    const merged = mergeLessons(run, run);
+    expect(merged.runs).toBe(2);
+    expect(merged.routes[0]).toMatchObject({ trades: 2, profit: 60 });
+
+    memory.setPriorLessons(merged);
+    const restored = TraderMemory.deserialize(memory.serialize());
+    expect(restored.getPriorLessons()).toEqual(merged);
+    expect(restored.summarizeLessons()).toEqual(run);
+  });
+
+  it('should add prior lessons to the strategist prompt', async () => {
+    const prompts: string[] = [];
+    const strategist = new Strategist(
+      createMockLLMClient((prompt) => {
+        prompts.push(prompt);
+        return '{}';
+      }),
+      createRateLimiter('unlimited')
+    );
+    const world = initializeWorld(42);
+    const observation = new ObservableBuilder().build(world, 'trader-alpha', 'trader', 'Alpha', {
+      currentPlan: null,
+      lastReasoningTick: 0,
+      recentDecisions: [],
+      customData: {},
+    });
+
+    const fresh = new TraderMemory();
+    await strategist.generateStrategy(observation, [], fresh);
+    expect(prompts[0]).not.toContain('Lessons From Previous Runs');
+
+    const experienced = new TraderMemory();
+    tradeRun(experienced);
+    experienced.setPriorLessons(experienced.summarizeLessons());
+    prompts.length = 0;
+    await strategist.generateStrategy(observation, [], experienced);
+    expect(prompts[0]).toContain('## Lessons From Previous Runs');
+    expect(prompts[0]).toContain('greenbarrow→shoalhold grain');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Agent Trading Tests
+ * Verify agent trades execute through market depth with price impact
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld } from '../../src/core/world.js';
+import { AgentManager } from '../../src/agents/core/agent-manager.js';
+import { BaseAgent, type Decision } from '../../src/agents/interfaces/agent.js';
+import { ObservableBuilder, type ObservableState } from '../../src/agents/interfaces/observable.js';
+import {
+  createTradeAction,
+  type Action,
+  type ActionResult,
+  type TradeExecutionDetails,
+} from '../../src/agents/interfaces/action.js';
+import type { WorldState } from '../../src/core/types.js';
+
+/**
+ * Agent that submits a fixed list of actions once and keeps the results
+ */
+class ScriptedAgent extends BaseAgent {
+  received: ActionResult[] = [];
+
+  constructor(private pending: Action[]) {
+    super('trader-alpha', 'trader', 'Scripted', {
+      id: 'trader-alpha',
+      type: 'trader',
+      name: 'Scripted',
+      assets: { cash: 0, shipIds: ['sloop-1'] },
+    });
+  }
+
+  observe(world: WorldState): ObservableState {
+    return new ObservableBuilder().build(world, this.id, this.type, this.name, this.memory);
+  }
+
+  shouldReason(): boolean {
+    return false;
+  }
+
+  async reason(): Promise<Decision> {
+    const actions = this.pending;
+    this.pending = [];
+    return { actions };
+  }
+
+  act(decision: Decision): Action[] {
+    return decision.actions;
+  }
+
+  override onActionResults(results: ActionResult[]): void {
+    this.received.push(...results);
+  }
+}
+
+describe('Agent Trades with Price Impact', () => {
+  it('should consume market depth and report slippage in result details', async () => {
+    const world = initializeWorld(42);
+    const island = world.islands.get('greenbarrow')!;
+    const depthBefore = island.market.buyDepth.get('grain')!;
+    const quoted = island.market.prices.get('grain')!;
+
+    const agent = new ScriptedAgent([
+      createTradeAction('sloop-1', 'greenbarrow', [{ goodId: 'grain', quantity: 20 }]),
+    ]);
+    const manager = new AgentManager();
+    manager.registerAgent(agent, world);
+
+    const { newWorld, results } = await manager.processTick(world);
+
+    const tradeResult = results[0].results[0];
+    expect(tradeResult.success).toBe(true);
+    expect(agent.received[0]).toBe(tradeResult);
+
+    const details = tradeResult.details as unknown as TradeExecutionDetails;
+    expect(details.fills).toHaveLength(1);
+    expect(details.fills[0].quotedPrice).toBe(quoted);
+    expect(details.fills[0].executionPrice).toBeGreaterThan(quoted);
+    expect(details.totalSlippage).toBeGreaterThan(0);
+
+    const market = newWorld.islands.get('greenbarrow')!.market;
+    expect(market.buyDepth.get('grain')!).toBeLessThan(depthBefore);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Weather Tests
+ * Verify drifting storm cells, their effect on ships and ports, and forecasts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initializeWorld, DEFAULT_CONFIG } from '../../src/core/world.js';
+import { SeededRNG } from '../../src/core/rng.js';
+import { Simulation } from '../../src/core/simulation.js';
+import type { ShipState, StormCell, WeatherState } from '../../src/core/types.js';
+import {
+  updateWeather,
+  getClosedPorts,
+  getShipStormEvents,
+  forecastPortClosures,
+} from '../../src/systems/weather.js';
+import { startVoyage, updateShip } from '../../src/systems/shipping.js';
+import { ActionValidator } from '../../src/agents/interfaces/action.js';
+import { ObservableBuilder } from '../../src/agents/interfaces/observable.js';
+
+const weatherConfig = DEFAULT_CONFIG.weatherConfig;
+
+function storm(overrides: Partial<StormCell> = {}): StormCell {
+  return {
+    id: 'storm_1',
+    position: { x: 0, y: 0 },
+    radius: 40,
+    velocity: { x: 0, y: 0 },
+    startTick: 0,
+    endTick: 100,
+    ...overrides,
+  };
+}
+
+function shipAtSea(world: ReturnType<typeof initializeWorld>, from: string, to: string): ShipState {
+  const ship = Array.from(world.ships.values())[0];
+  const docked: ShipState = { ...ship, cargo: new Map(), location: { kind: 'at_island', islandId: from } };
+  return { ...docked, location: startVoyage(docked, to, world.islands, [], world.seaLanes) };
+}
+
+describe('Weather', () => {
+  it('should form and drift storms deterministically', () => {
+    const world = initializeWorld(7);
+    const run = () => {
+      const rng = new SeededRNG(99);
+      const config = { ...weatherConfig, stormChancePerTick: 1 };
+      let weather: WeatherState = { storms: [] };
+      const history: string[] = [];
+      for (let tick = 1; tick <= 20; tick++) {
+        weather = updateWeather(weather, world.islands, rng, tick, 1, config).weather;
+        history.push(JSON.stringify(weather.storms));
+      }
+      return history;
+    };
+
+    const a = run();
+    expect(a).toEqual(run());
+
+    const first: StormCell[] = JSON.parse(a[0]);
+    const later: StormCell[] = JSON.parse(a[5]);
+    expect(later.length).toBeLessThanOrEqual(weatherConfig.maxStorms);
+    expect(later[0].id).toBe(first[0].id);
+    expect(later[0].position).not.toEqual(first[0].position);
+
+    const disabled = updateWeather({ storms: [] }, world.islands, new SeededRNG(1), 1, 1, {
+      ...weatherConfig,
+      enabled: false,
+    });
+    expect(disabled.weather.storms).toHaveLength(0);
+  });
+
+  it('should only slow and wear ships inside a storm', () => {
+    const world = initializeWorld(1);
+    const ship = shipAtSea(world, 'shoalhold', 'greenbarrow');
+    if (ship.location.kind !== 'at_sea') throw new Error('expected to be at sea');
+
+    const over: WeatherState = { storms: [storm({ position: ship.location.position })] };
+    const elsewhere: WeatherState = { storms: [storm({ position: { x: -500, y: -500 } })] };
+
+    const inStorm = getShipStormEvents(ship, over, weatherConfig);
+    expect(inStorm).toHaveLength(1);
+    expect(inStorm[0].targetId).toBe(ship.id);
+    expect(getShipStormEvents(ship, elsewhere, weatherConfig)).toHaveLength(0);
+
+    const calm = updateShip(ship, world.islands, world.goods, [], 1, DEFAULT_CONFIG, 1);
+    const stormy = updateShip(ship, world.islands, world.goods, inStorm, 1, DEFAULT_CONFIG, 1);
+    const travelled = (result: typeof calm) => result.newShip.totalDistanceTraveled - ship.totalDistanceTraveled;
+
+    expect(travelled(stormy)).toBeCloseTo(travelled(calm) * weatherConfig.shipSpeedMultiplier, 6);
+    expect(stormy.wearApplied).toBeGreaterThan(calm.wearApplied);
+  });
+
+  it('should close ports to departures and hold arriving ships offshore', () => {
+    const world = initializeWorld(1);
+    const greenbarrow = world.islands.get('greenbarrow')!;
+    const weather: WeatherState = { storms: [storm({ position: greenbarrow.position })] };
+
+    expect(Array.from(getClosedPorts(world.islands, weather))).toEqual(['greenbarrow']);
+
+    // Departures
+    const docked = Array.from(world.ships.values()).find(
+      (s) => s.location.kind === 'at_island' && s.location.islandId === 'greenbarrow'
+    )!;
+    const validator = new ActionValidator();
+    const result = validator.validate(
+      { type: 'navigate', shipId: docked.id, destinationId: 'shoalhold' },
+      { ...world, weather },
+      docked.ownerId
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('closed by a storm');
+
+    // Arrivals
+    let ship = shipAtSea(world, 'shoalhold', 'greenbarrow');
+    const closed = getClosedPorts(world.islands, weather);
+    for (let tick = 0; tick < 200; tick++) {
+      ship = updateShip(ship, world.islands, world.goods, [], 1, DEFAULT_CONFIG, tick, closed).newShip;
+    }
+    expect(ship.location.kind).toBe('at_sea');
+
+    const arrival = updateShip(ship, world.islands, world.goods, [], 1, DEFAULT_CONFIG, 200, new Set());
+    expect(arrival.arrivedAt).toBe('greenbarrow');
+  });
+
+  it('should forecast port closures from storm tracks', () => {
+    const world = initializeWorld(1);
+    const target = world.islands.get('timberwake')!;
+    const approaching = storm({
+      position: { x: target.position.x - 60, y: target.position.y },
+      radius: 20,
+      velocity: { x: 5, y: 0 },
+    });
+
+    const closures = forecastPortClosures({ storms: [approaching] }, world.islands, 24, 0);
+    const timberwake = closures.find((c) => c.islandId === 'timberwake')!;
+    expect(timberwake.inHours).toBe(9); // Edge must pass 40 units at 5 per hour
+    expect(timberwake.forHours).toBe(7); // 40-unit diameter, port strictly inside
+
+    // Agents see the same forecast
+    const observable = new ObservableBuilder().build(
+      { ...world, weather: { storms: [approaching] } },
+      'trader-alpha',
+      'trader',
+      'Alpha',
+      { currentPlan: null, lastReasoningTick: 0, recentDecisions: [], customData: {} }
+    );
+    expect(observable.weather?.portClosures).toEqual(closures);
+    expect(observable.weather?.closedPorts).toEqual([]);
+  });
+
+  it('should run weather through the simulation tick', () => {
+    const sim = new Simulation(initializeWorld(3), {
+      weatherConfig: { ...weatherConfig, stormChancePerTick: 1 },
+    });
+    const metrics = sim.tick();
+
+    expect(metrics.stormsFormed).toHaveLength(1);
+    expect(sim.getState().weather?.storms[0].id).toBe(metrics.stormsFormed[0]);
+  });
+});
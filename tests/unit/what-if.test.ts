@@ -0,0 +1,76 @@
+/**
+ * What-If Fork Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../../src/core/simulation.js';
+import { initializeWorld } from '../../src/core/world.js';
+import { createSave } from '../../src/storage/save-game.js';
+import { runWhatIf, WhatIfError } from '../../src/analyst/what-if.js';
+
+const SEED = 1357;
+
+function startSave() {
+  return createSave(new Simulation(initializeWorld(SEED), { seed: SEED }));
+}
+
+describe('What-If Forks', () => {
+  it('should match the baseline when the fork changes nothing', async () => {
+    const result = await runWhatIf(startSave(), { forkTick: 20, horizonTicks: 30 });
+
+    expect(result.forkTick).toBe(20);
+    expect(result.endTick).toBe(50);
+    expect(result.divergedAtTick).toBeNull();
+    for (const island of result.islands) {
+      expect(island.population.delta).toBe(0);
+    }
+    for (const price of result.prices) {
+      expect(price.delta).toBe(0);
+    }
+  });
+
+  it('should diff a config patch applied only to the fork', async () => {
+    const result = await runWhatIf(startSave(), {
+      forkTick: 20,
+      horizonTicks: 30,
+      patches: [{ configPath: 'maxGrowthRate', currentValue: undefined, newValue: 0 }],
+    });
+
+    expect(result.patches[0].success).toBe(true);
+    expect(result.divergedAtTick).toBe(21);
+    expect(result.islands.some((i) => i.population.delta !== 0)).toBe(true);
+  });
+
+  it('should inject events into the fork', async () => {
+    const result = await runWhatIf(startSave(), {
+      forkTick: 10,
+      horizonTicks: 40,
+      events: [{ type: 'blight', targetId: 'greenbarrow', duration: 30 }],
+    });
+
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0]).toMatchObject({ id: 'whatif_10_0', startTick: 11, endTick: 41 });
+    expect(result.divergedAtTick).not.toBeNull();
+
+    const grain = result.prices.find((p) => p.islandId === 'greenbarrow' && p.goodId === 'grain');
+    expect(grain?.delta).not.toBe(0);
+  });
+
+  it('should reject invalid patches and events', async () => {
+    await expect(
+      runWhatIf(startSave(), {
+        forkTick: 5,
+        horizonTicks: 5,
+        patches: [{ configPath: 'notARealPath', currentValue: undefined, newValue: 1 }],
+      })
+    ).rejects.toThrow(WhatIfError);
+
+    await expect(
+      runWhatIf(startSave(), {
+        forkTick: 5,
+        horizonTicks: 5,
+        events: [{ type: 'storm', targetId: 'atlantis', duration: 5 }],
+      })
+    ).rejects.toThrow(WhatIfError);
+  });
+});